@@ -132,78 +132,17 @@ self.addEventListener('fetch', (event) => {
   );
 });
 
-// Handle background sync for offline pitch saves
+// Background sync for offline bullpen writes. The queue lives in IndexedDB
+// but is replayed by the page, which holds the Supabase session, so the
+// worker just wakes any open clients.
 self.addEventListener('sync', (event) => {
   if (event.tag === 'sync-pitches') {
-    event.waitUntil(syncPitches());
+    event.waitUntil(
+      self.clients.matchAll({ type: 'window' }).then((clients) => {
+        clients.forEach((client) => client.postMessage({ type: 'sync-write-queue' }));
+      })
+    );
   }
 });
 
-async function syncPitches() {
-  try {
-    // Get pending pitches from IndexedDB
-    const db = await openPitchDB();
-    const pendingPitches = await getAllPendingPitches(db);
-
-    for (const pitch of pendingPitches) {
-      try {
-        // Try to sync with server
-        const response = await fetch('/api/pitches', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(pitch),
-        });
-
-        if (response.ok) {
-          // Remove from pending queue
-          await removePendingPitch(db, pitch.id);
-        }
-      } catch (err) {
-        console.error('[SW] Failed to sync pitch:', err);
-      }
-    }
-  } catch (err) {
-    console.error('[SW] Sync failed:', err);
-  }
-}
-
-// IndexedDB helpers for offline pitch storage
-function openPitchDB() {
-  return new Promise((resolve, reject) => {
-    const request = indexedDB.open('BullpenTrackerOffline', 1);
-
-    request.onupgradeneeded = (event) => {
-      const db = event.target.result;
-      if (!db.objectStoreNames.contains('pendingPitches')) {
-        db.createObjectStore('pendingPitches', { keyPath: 'id' });
-      }
-    };
-
-    request.onsuccess = () => resolve(request.result);
-    request.onerror = () => reject(request.error);
-  });
-}
-
-function getAllPendingPitches(db) {
-  return new Promise((resolve, reject) => {
-    const transaction = db.transaction('pendingPitches', 'readonly');
-    const store = transaction.objectStore('pendingPitches');
-    const request = store.getAll();
-
-    request.onsuccess = () => resolve(request.result);
-    request.onerror = () => reject(request.error);
-  });
-}
-
-function removePendingPitch(db, id) {
-  return new Promise((resolve, reject) => {
-    const transaction = db.transaction('pendingPitches', 'readwrite');
-    const store = transaction.objectStore('pendingPitches');
-    const request = store.delete(id);
-
-    request.onsuccess = () => resolve();
-    request.onerror = () => reject(request.error);
-  });
-}
-
 console.log('[SW] Service Worker loaded');
@@ -18,9 +18,32 @@ import AccountBar from "@/components/AccountBar";
 import { StrikeZoneGrid } from "@/components/StrikeZoneGrid";
 import { PitcherCard } from "@/components/PitcherCard";
 import { SessionCard } from "@/components/SessionCard";
+import { BullpenPlanCard, type PlanDraft } from "@/components/BullpenPlanCard";
+import { WorkloadCard } from "@/components/WorkloadCard";
 import { supabase } from "@/lib/supabaseClient";
 import { useDebounce } from "@/lib/hooks";
-import { withRetry, getErrorMessage } from "@/lib/api";
+import { getErrorMessage } from "@/lib/api";
+import { repositories } from "@/lib/repository";
+import {
+  computePlanProgress,
+  createBullpenPlan,
+  deleteBullpenPlan,
+  fetchBullpenPlans,
+  setSessionPlan,
+  updateBullpenPlan,
+  type BullpenPlan,
+} from "@/lib/bullpenPlans";
+import {
+  PITCH_CALLS,
+  PITCH_CALL_LABELS,
+  formatCount,
+  getSimulatedState,
+  isPitchCall,
+  type PitchCall,
+} from "@/lib/simulatedCount";
+import { fetchPitcherWorkload, toDateKey, type WorkloadAppearance } from "@/lib/workload";
+import type { PlayLevel } from "@/lib/scorebook/types";
+import { fetchLinkedPlayers } from "@/lib/scorebook/db";
 import {
   Select,
   SelectContent,
@@ -28,15 +51,36 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { buildZones5x5, type ZoneId, isZoneId } from "@/lib/strikeZone";
-import { CheckCircle, XCircle, RefreshCw } from "lucide-react";
-
-type Pt = { x: number; y: number };
+import {
+  computeVelocityStats,
+  type ZoneId,
+  isHand,
+  isZoneId,
+  loadZoneGeometry,
+  zoneIdToPoint,
+} from "@/lib/strikeZone";
+import { computeCommandScore } from "@/lib/commandScore";
+import {
+  getPendingWrites,
+  isOffline,
+  isTempId,
+  queueDelete,
+  queueInsert,
+  queueUpdate,
+  sendOrQueue,
+  subscribeToWriteQueue,
+} from "@/lib/offlineQueue";
+import { CheckCircle, CloudOff, XCircle, RefreshCw } from "lucide-react";
+import { useOrganization } from "@/components/OrganizationProvider";
+import { activeOrgId, canManage, canViewPitcher, ownerScope } from "@/lib/organizations";
 
 type Pitcher = {
   id: string;
+  user_id: string;
+  org_id: string | null;
   name: string;
   throwing_hand: "R" | "L" | null;
+  level: PlayLevel | null;
   created_at: string;
 };
 
@@ -46,6 +90,7 @@ type SessionRow = {
   session_date: string;
   label: string | null;
   notes: string | null;
+  plan_id: string | null;
   created_at: string;
 };
 
@@ -64,6 +109,13 @@ type PitchRow = {
   actual_y: number;
   dx: number;
   dy: number;
+  velocity: number | null;
+  spin_rate: number | null;
+  horizontal_break: number | null;
+  vertical_break: number | null;
+  pitch_call: string | null;
+  sim_batter: number | null;
+  batter_side: string | null;
   notes: string | null;
   created_at: string;
 };
@@ -72,34 +124,33 @@ function fmt(n: number) {
   return Number.isFinite(n) ? n.toFixed(3) : "—";
 }
 
+// Blank or unparseable input means the measurement wasn't taken
+function parseMeasurement(value: string): number | null {
+  if (!value.trim()) return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+function measurementInput(value: number | null): string {
+  return value === null ? "" : String(value);
+}
+
 type Hand = "R" | "L";
 
 const DEFAULT_PITCH_TYPE = "FB";
-const zones5x5 = buildZones5x5();
-const zoneById = new Map(zones5x5.map((zone) => [zone.id, zone]));
 const STORAGE_PITCHER_KEY = "bullpen:selectedPitcherId";
 const STORAGE_SESSION_KEY = "bullpen:selectedSessionId";
 const PAGE_SIZE = 20;
 
-function zoneIdToPoint(zoneId: ZoneId): Pt {
-  const zone = zoneById.get(zoneId);
-  if (!zone) return { x: 0.5, y: 0.5 };
-
-  const c = "c5" in (zone as any) ? (zone as any).c5 : (zone as any).col;
-  const r = "r5" in (zone as any) ? (zone as any).r5 : (zone as any).row;
-
-  return {
-    x: (c + 0.5) / 5,
-    y: (r + 0.5) / 5,
-  };
-}
-
 function HomeClient() {
   const supabaseReady = Boolean(supabase);
   const router = useRouter();
   const searchParams = useSearchParams();
   const sessionFromUrl = searchParams.get("session");
   const { showToast } = useToast();
+  const { access } = useOrganization();
+  // Players see their own pitcher's sessions but only coaches log pitches
+  const manage = canManage(access);
   const confirm = useConfirm();
 
   // Auth
@@ -108,6 +159,15 @@ function HomeClient() {
   const [pitchType, setPitchType] = useState<string>(DEFAULT_PITCH_TYPE);
   const [notes, setNotes] = useState<string>("");
   const [tag, setTag] = useState<string>("");
+  const [velocity, setVelocity] = useState<string>("");
+  const [spinRate, setSpinRate] = useState<string>("");
+  const [horizontalBreak, setHorizontalBreak] = useState<string>("");
+  const [verticalBreak, setVerticalBreak] = useState<string>("");
+  // Live count: each pitch is called and advances a simulated at-bat
+  const [liveCount, setLiveCount] = useState(false);
+  const [pitchCall, setPitchCall] = useState<PitchCall | null>(null);
+  // Optional; kept between pitches since a batter sees several
+  const [batterSide, setBatterSide] = useState<Hand | null>(null);
 
   // Filters and selection
   const [pitchTypeFilter, setPitchTypeFilter] = useState<string>("ALL");
@@ -124,6 +184,9 @@ function HomeClient() {
   const [sessionsLoading, setSessionsLoading] = useState(false);
   const [selectedSessionId, setSelectedSessionId] = useState<string | null>(null);
   const hasSessions = Array.isArray(sessions) && sessions.length > 0;
+  const [plans, setPlans] = useState<BullpenPlan[]>([]);
+  const [workload, setWorkload] = useState<WorkloadAppearance[]>([]);
+  const [workloadLoading, setWorkloadLoading] = useState(false);
   const sessionsRequestIdRef = useRef(0);
   const SESSIONS_TTL_MS = 2 * 60 * 1000;
   const PITCHES_TTL_MS = 2 * 60 * 1000;
@@ -169,6 +232,18 @@ function HomeClient() {
     pitchesCacheRef.current.delete(sessionId);
   };
 
+  // Queued writes can't be read back from the server yet, so the cache is
+  // kept in step with them instead
+  const afterPitchesWrite = (queued: boolean, next: PitchRow[]) => {
+    if (!selectedSessionId) return;
+    if (queued) {
+      setCachedPitches(selectedSessionId, next);
+      return;
+    }
+    invalidatePitchesCache(selectedSessionId);
+    invalidateSessionsCache(selectedPitcherId);
+  };
+
   // Strike zone
   const [intendedZoneId, setIntendedZoneId] = useState<ZoneId | null>(null);
   const [actualZoneId, setActualZoneId] = useState<ZoneId | null>(null);
@@ -181,6 +256,8 @@ function HomeClient() {
   const [isSaving, setIsSaving] = useState(false);
 
   const [pitches, setPitches] = useState<PitchRow[]>([]);
+  const [zoneGeometry] = useState(loadZoneGeometry);
+  const [pendingWrites, setPendingWrites] = useState(0);
   const [pitchesLoading, setPitchesLoading] = useState(false);
   const [pendingSessionId, setPendingSessionId] = useState<string | null>(null);
   const [currentEventId, setCurrentEventId] = useState<string | null>(null);
@@ -192,6 +269,46 @@ function HomeClient() {
     return pitches.filter((p) => p.pitch_type === debouncedPitchTypeFilter);
   }, [pitches, debouncedPitchTypeFilter]);
 
+  const selectedPlan = useMemo(() => {
+    const planId = sessions.find((s) => s.id === selectedSessionId)?.plan_id;
+    return plans.find((p) => p.id === planId) ?? null;
+  }, [plans, sessions, selectedSessionId]);
+
+  const planProgress = useMemo(() => {
+    return selectedPlan ? computePlanProgress(selectedPlan, pitches) : null;
+  }, [selectedPlan, pitches]);
+
+  // Pre-fill the next scripted pitch whenever the script advances
+  const nextPlanSlot = planProgress?.next ?? null;
+  const nextPlanPitchType = nextPlanSlot?.pitch_type ?? null;
+  const nextPlanZoneId = nextPlanSlot?.zone_id ?? null;
+  const nextPlanSlotKey = nextPlanSlot ? `${selectedPlan?.id}:${nextPlanSlot.stepIndex}:${nextPlanSlot.rep}` : null;
+  useEffect(() => {
+    if (!nextPlanSlotKey || !nextPlanPitchType || !nextPlanZoneId || editingPitchId) return;
+    setPitchType(nextPlanPitchType);
+    setIntendedZoneId(nextPlanZoneId);
+    setActiveGrid("actual");
+  }, [nextPlanSlotKey, nextPlanPitchType, nextPlanZoneId, editingPitchId]);
+
+  // The open session counts live, in place of its stored count
+  const liveWorkload = useMemo(() => {
+    const current = sessions.find((s) => s.id === selectedSessionId);
+    if (!current || pitchesLoading) return workload;
+    return [
+      ...workload.filter((a) => a.sourceId !== current.id),
+      { date: current.session_date, pitches: pitches.length, source: "bullpen" as const, sourceId: current.id },
+    ];
+  }, [workload, sessions, selectedSessionId, pitches.length, pitchesLoading]);
+
+  const simState = useMemo(() => getSimulatedState(pitches), [pitches]);
+  const sessionCommand = useMemo(
+    () => (pitches.length ? computeCommandScore(pitches, zoneGeometry) : null),
+    [pitches, zoneGeometry]
+  );
+  const editingPitch = editingPitchId ? (pitches.find((p) => p.id === editingPitchId) ?? null) : null;
+  const showCallPicker = editingPitch ? editingPitch.pitch_call !== null : liveCount;
+  const callMissing = showCallPicker && !pitchCall;
+
   // Reset page when filter changes
   useEffect(() => {
     setCurrentPage(0);
@@ -206,10 +323,19 @@ function HomeClient() {
     return map;
   }, [pitches]);
 
+  function clearMeasurements() {
+    setVelocity("");
+    setSpinRate("");
+    setHorizontalBreak("");
+    setVerticalBreak("");
+  }
+
   function resetPitchForm() {
     setPitchType(DEFAULT_PITCH_TYPE);
     setNotes("");
     setTag("");
+    clearMeasurements();
+    setPitchCall(null);
     setIntendedZoneId(null);
     setActualZoneId(null);
   }
@@ -259,8 +385,9 @@ function HomeClient() {
     if (editingPitchId) return "Editing pitch";
     if (!intendedZoneId) return "Select intended zone";
     if (!actualZoneId) return "Select actual zone";
+    if (callMissing) return "Call the pitch";
     return "Ready to save";
-  }, [editingPitchId, intendedZoneId, actualZoneId]);
+  }, [editingPitchId, intendedZoneId, actualZoneId, callMissing]);
 
   const isEditing = Boolean(editingPitchId);
   const editingPitchNumber = useMemo(() => {
@@ -311,6 +438,7 @@ function HomeClient() {
       avgDist: sumDist / n,
       outOfZone,
       outOfZonePct: outOfZone / n,
+      velocity: computeVelocityStats(filteredPitches),
     };
   }, [filteredPitches]);
 
@@ -321,7 +449,9 @@ function HomeClient() {
   }, [pitches]);
 
   const pitchTypeBreakdown = useMemo(() => {
-    if (!pitches.length) return [] as Array<{ pitch_type: string; n: number; avgDist: number; outOfZonePct: number }>;
+    if (!pitches.length) {
+      return [] as Array<{ pitch_type: string; n: number; avgDist: number; outOfZonePct: number; avgVelocity: number | null }>;
+    }
 
     const groups = new Map<string, { n: number; sumDist: number; out: number }>();
 
@@ -333,12 +463,19 @@ function HomeClient() {
       groups.set(p.pitch_type, g);
     }
 
+    const velocityByType = new Map<string, number>();
+    for (const type of groups.keys()) {
+      const velo = computeVelocityStats(pitches.filter((p) => p.pitch_type === type));
+      if (velo.count) velocityByType.set(type, velo.avg);
+    }
+
     return Array.from(groups.entries())
       .map(([pitch_type, g]) => ({
         pitch_type,
         n: g.n,
         avgDist: g.sumDist / g.n,
         outOfZonePct: g.out / g.n,
+        avgVelocity: velocityByType.get(pitch_type) ?? null,
       }))
       .sort((a, b) => b.n - a.n);
   }, [pitches]);
@@ -380,29 +517,27 @@ function HomeClient() {
       }
       return;
     }
+    // Created offline, so there's nothing on the server to load yet
+    if (isTempId(pitcherId)) {
+      setSessions([]);
+      setSessionsLoading(false);
+      setSelectedSessionId(null);
+      return;
+    }
 
     const requestId = ++sessionsRequestIdRef.current;
     setSessionsLoading(true);
 
     try {
-      const result = await withRetry(async () => {
-        const { data, error } = await supabase
-          .from("sessions")
-          .select("id,pitcher_id,session_date,label,notes,created_at")
-          .eq("pitcher_id", pitcherId)
-          .order("session_date", { ascending: false })
-          .order("created_at", { ascending: false });
-        if (error) throw error;
-        return data;
-      });
+      const result = await repositories.sessions.list({ pitcherId });
 
       if (requestId !== sessionsRequestIdRef.current) return;
 
-      setSessions((result ?? []) as SessionRow[]);
-      setCachedSessions(pitcherId, (result ?? []) as SessionRow[]);
-      if ((result?.length ?? 0) > 0) {
+      setSessions(result);
+      setCachedSessions(pitcherId, result);
+      if (result.length > 0) {
         setSelectedSessionId((current) => {
-          const hasSelected = Boolean(current) && result?.some((row) => row.id === current);
+          const hasSelected = Boolean(current) && result.some((row) => row.id === current);
           return hasSelected ? current : result[0].id;
         });
       } else {
@@ -427,20 +562,16 @@ function HomeClient() {
     const load = async () => {
       setPitchersLoading(true);
       try {
-        const result = await withRetry(async () => {
-          const { data, error } = await supabase
-            .from("pitchers")
-            .select("id,name,throwing_hand,created_at")
-            .order("created_at", { ascending: false });
-          if (error) throw error;
-          return data;
-        });
+        const result = (await repositories.pitchers.list(ownerScope(access))).filter((row) =>
+          canViewPitcher(access, row)
+        );
 
-        setPitchers((result ?? []) as Pitcher[]);
+        setPitchers(result);
 
-        if (!selectedPitcherId && (result?.length ?? 0) > 0) {
-          setSelectedPitcherId(result[0].id);
-        }
+        // Switching workspaces can leave a pitcher from the last one selected
+        setSelectedPitcherId((current) =>
+          result.some((row) => row.id === current) ? current : (result[0]?.id ?? "")
+        );
       } catch (e: unknown) {
         console.error(e);
         showToast(getErrorMessage(e) || "Failed to load pitchers", "error");
@@ -450,8 +581,91 @@ function HomeClient() {
     };
 
     load();
+  }, [session?.user?.id, access, showToast]);
+
+  // Offline writes: show what's waiting, and swap temporary ids for real
+  // ones once they sync
+  useEffect(() => {
+    getPendingWrites()
+      .then((writes) => setPendingWrites(writes.length))
+      .catch((e: unknown) => console.error(e));
+
+    return subscribeToWriteQueue((event) => {
+      if (event.type === "changed") {
+        setPendingWrites(event.pending);
+        return;
+      }
+
+      const { synced, idMap, conflicts } = event.result;
+      if (idMap.size) {
+        const remap = (id: string) => idMap.get(id) ?? id;
+        setPitchers((prev) => prev.map((p) => ({ ...p, id: remap(p.id) })));
+        setSessions((prev) => prev.map((s) => ({ ...s, id: remap(s.id), pitcher_id: remap(s.pitcher_id) })));
+        setPitches((prev) =>
+          prev.map((p) => ({ ...p, id: remap(p.id), pitcher_id: remap(p.pitcher_id), session_id: remap(p.session_id) }))
+        );
+        setSelectedPitcherId(remap);
+        setSelectedSessionId((current) => (current ? remap(current) : current));
+      }
+      sessionsCacheRef.current.clear();
+      pitchesCacheRef.current.clear();
+
+      if (synced) showToast(`Synced ${synced} offline ${synced === 1 ? "change" : "changes"}`, "success");
+      if (conflicts.length) {
+        showToast(
+          `${conflicts.length} offline ${conflicts.length === 1 ? "change" : "changes"} couldn't be synced: ${conflicts[0].message}`,
+          "error"
+        );
+      }
+    });
+  }, [showToast]);
+
+  // Load bullpen plans when signed in
+  useEffect(() => {
+    if (!supabase || !session?.user?.id) return;
+
+    fetchBullpenPlans(session.user.id)
+      .then(setPlans)
+      .catch((e: unknown) => {
+        console.error(e);
+        showToast(getErrorMessage(e) || "Failed to load bullpen plans", "error");
+      });
   }, [session?.user?.id, showToast]);
 
+  // Load recent workload when pitcher changes
+  useEffect(() => {
+    if (!supabase || !session?.user?.id || !selectedPitcherId) {
+      setWorkload([]);
+      return;
+    }
+
+    let cancelled = false;
+    setWorkloadLoading(true);
+    // Game pitches count too for scorebook players linked to this pitcher
+    fetchLinkedPlayers(selectedPitcherId)
+      .then((players) =>
+        fetchPitcherWorkload(
+          selectedPitcherId,
+          players.map((p) => p.id),
+          toDateKey(new Date())
+        )
+      )
+      .then((result) => {
+        if (!cancelled) setWorkload(result);
+      })
+      .catch((e: unknown) => {
+        console.error(e);
+        if (!cancelled) showToast(getErrorMessage(e) || "Failed to load workload", "error");
+      })
+      .finally(() => {
+        if (!cancelled) setWorkloadLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedPitcherId, session?.user?.id, showToast]);
+
   // Load sessions when pitcher changes
   useEffect(() => {
     if (!supabase || !session?.user?.id || !selectedPitcherId) {
@@ -500,12 +714,7 @@ function HomeClient() {
 
     const loadPitcherForSession = async () => {
       try {
-        const { data, error } = await supabase
-          .from("sessions")
-          .select("id,pitcher_id")
-          .eq("id", pendingSessionId)
-          .single();
-        if (error) throw error;
+        const data = await repositories.sessions.get(pendingSessionId);
         if (data?.pitcher_id) {
           setSelectedPitcherId(data.pitcher_id);
         }
@@ -534,23 +743,17 @@ function HomeClient() {
         setPitchesLoading(false);
         return;
       }
+      if (isTempId(selectedSessionId)) {
+        setPitches([]);
+        setPitchesLoading(false);
+        return;
+      }
       setPitchesLoading(true);
       try {
-        const result = await withRetry(async () => {
-          const { data, error } = await supabase
-            .from("pitches")
-            .select(
-              "id,user_id,pitcher_id,session_id,pitch_type,tag,intended_location_zone_id,actual_location_zone_id,target_x,target_y,actual_x,actual_y,dx,dy,notes,created_at"
-            )
-            .eq("session_id", selectedSessionId)
-            .order("created_at", { ascending: false })
-            .limit(1000);
-          if (error) throw error;
-          return data;
-        });
+        const result = await repositories.pitches.list({ sessionId: selectedSessionId, limit: 1000 });
 
-        setPitches((result ?? []) as PitchRow[]);
-        setCachedPitches(selectedSessionId, (result ?? []) as PitchRow[]);
+        setPitches(result);
+        setCachedPitches(selectedSessionId, result);
       } catch (e: unknown) {
         console.error(e);
         showToast(getErrorMessage(e) || "Failed to load pitches", "error");
@@ -618,21 +821,15 @@ function HomeClient() {
     if (!ok) return;
 
     try {
-      await withRetry(async () => {
-        const { error } = await supabase
-          .from("pitches")
-          .delete()
-          .eq("id", last.id)
-          .eq("user_id", session.user.id);
-        if (error) throw error;
-      });
+      const { queued } = await sendOrQueue(
+        () => repositories.pitches.delete(last.id),
+        () => queueDelete("pitches", last.id),
+        isTempId(last.id)
+      );
 
       setPitches((prev) => prev.filter((p) => p.id !== last.id));
       if (highlightPitchId === last.id) setHighlightPitchId(null);
-      if (selectedSessionId) {
-        invalidatePitchesCache(selectedSessionId);
-        invalidateSessionsCache(selectedPitcherId);
-      }
+      afterPitchesWrite(queued, pitches.filter((p) => p.id !== last.id));
       showToast(`Undid last pitch (${last.pitch_type})`, "success");
     } catch (e: unknown) {
       console.error(e);
@@ -651,20 +848,17 @@ function HomeClient() {
     }
 
     try {
-      const result = await withRetry(async () => {
-        const { data, error } = await supabase
-          .from("pitchers")
-          .insert({ user_id: session.user.id, name, throwing_hand: hand })
-          .select("id,name,throwing_hand,created_at")
-          .single();
-        if (error) throw error;
-        return data;
-      });
+      const values = { user_id: session.user.id, org_id: activeOrgId(access), name, throwing_hand: hand, level: null };
+      const id = crypto.randomUUID();
+      const { result } = await sendOrQueue<unknown>(
+        () => repositories.pitchers.create({ ...values, id }),
+        () => queueInsert("pitchers", values, id)
+      );
 
-      const row = result as unknown as Pitcher;
+      const row = result as Pitcher;
       setPitchers((prev) => [row, ...prev]);
       setSelectedPitcherId(row.id);
-      showToast(`Added pitcher: ${name}`, "success");
+      showToast(`Added pitcher: ${name}${isTempId(row.id) ? " (offline, will sync)" : ""}`, "success");
     } catch (e: unknown) {
       console.error(e);
       showToast(getErrorMessage(e) || "Failed to create pitcher", "error");
@@ -682,22 +876,29 @@ function HomeClient() {
     }
 
     try {
-      const result = await withRetry(async () => {
-        const { data, error } = await supabase
-          .from("sessions")
-          .insert({
-            user_id: session.user.id,
-            pitcher_id: selectedPitcherId,
-            session_date: date,
-            label: label || null,
-          })
-          .select("id,pitcher_id,session_date,label,notes,created_at")
-          .single();
-        if (error) throw error;
-        return data;
-      });
-
-      const row = result as unknown as SessionRow;
+      const values = {
+        user_id: session.user.id,
+        pitcher_id: selectedPitcherId,
+        session_date: date,
+        label: label || null,
+      };
+
+      const id = crypto.randomUUID();
+      const { result, queued } = await sendOrQueue<unknown>(
+        () => repositories.sessions.create({ ...values, id }),
+        () => queueInsert("sessions", { ...values, notes: null, plan_id: null }, id),
+        isTempId(selectedPitcherId)
+      );
+      const row = result as SessionRow;
+
+      if (queued) {
+        const next = [row, ...sessions];
+        setSessions(next);
+        setCachedSessions(selectedPitcherId, next);
+        setSelectedSessionId(row.id);
+        showToast(`Created session: ${date}${label ? ` — ${label}` : ""} (offline, will sync)`, "success");
+        return;
+      }
 
       // Auto-refresh: invalidate cache and reload sessions
       invalidateSessionsCache(selectedPitcherId);
@@ -710,6 +911,86 @@ function HomeClient() {
     }
   }
 
+  async function handleChangePitcherLevel(level: PlayLevel | null) {
+    if (!selectedPitcherId) return;
+    try {
+      await repositories.pitchers.update(selectedPitcherId, { level });
+      setPitchers((prev) => prev.map((p) => (p.id === selectedPitcherId ? { ...p, level } : p)));
+    } catch (e: unknown) {
+      console.error(e);
+      showToast(getErrorMessage(e) || "Failed to update level", "error");
+    }
+  }
+
+  function updateSessionRow(sessionId: string, changes: Partial<SessionRow>) {
+    setSessions((prev) => {
+      const next = prev.map((row) => (row.id === sessionId ? { ...row, ...changes } : row));
+      if (selectedPitcherId) setCachedSessions(selectedPitcherId, next);
+      return next;
+    });
+  }
+
+  async function handleAttachPlan(planId: string | null) {
+    if (!selectedSessionId) return;
+    try {
+      await setSessionPlan(selectedSessionId, planId);
+      updateSessionRow(selectedSessionId, { plan_id: planId });
+      showToast(planId ? "Plan attached to session" : "Plan removed from session", "success");
+    } catch (e: unknown) {
+      console.error(e);
+      showToast(getErrorMessage(e) || "Failed to update session plan", "error");
+    }
+  }
+
+  async function handleSavePlan(draft: PlanDraft, planId: string | null): Promise<BullpenPlan | null> {
+    if (!session?.user?.id) {
+      showToast("Please sign in first", "error");
+      return null;
+    }
+    try {
+      const saved = planId
+        ? await updateBullpenPlan(planId, { name: draft.name, steps: draft.steps })
+        : await createBullpenPlan({ user_id: session.user.id, name: draft.name, notes: null, steps: draft.steps });
+      setPlans((prev) =>
+        [...prev.filter((p) => p.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name))
+      );
+      // A new plan is usually written for the session being thrown
+      if (!planId && selectedSessionId && !selectedPlan) {
+        await handleAttachPlan(saved.id);
+      } else {
+        showToast(`Saved plan: ${saved.name}`, "success");
+      }
+      return saved;
+    } catch (e: unknown) {
+      console.error(e);
+      showToast(getErrorMessage(e) || "Failed to save plan", "error");
+      return null;
+    }
+  }
+
+  async function handleDeletePlan(planId: string) {
+    const plan = plans.find((p) => p.id === planId);
+    const ok = await confirm({
+      title: "Delete plan",
+      message: `Delete "${plan?.name ?? "this plan"}"? Sessions using it keep their pitches but lose the script.`,
+      confirmLabel: "Delete",
+      variant: "destructive",
+    });
+    if (!ok) return;
+
+    try {
+      await deleteBullpenPlan(planId);
+      setPlans((prev) => prev.filter((p) => p.id !== planId));
+      // Every cached session list may still point at the plan
+      sessionsCacheRef.current.clear();
+      setSessions((prev) => prev.map((row) => (row.plan_id === planId ? { ...row, plan_id: null } : row)));
+      showToast("Deleted plan", "success");
+    } catch (e: unknown) {
+      console.error(e);
+      showToast(getErrorMessage(e) || "Failed to delete plan", "error");
+    }
+  }
+
   async function handleRefreshSessions() {
     if (!selectedPitcherId) return;
     invalidateSessionsCache(selectedPitcherId);
@@ -737,94 +1018,101 @@ function HomeClient() {
       showToast("Select both intended and actual zones before saving", "warning");
       return;
     }
+    if (callMissing) {
+      showToast("Call the pitch before saving", "warning");
+      return;
+    }
 
     const target = zoneIdToPoint(intendedZoneId);
     const actual = zoneIdToPoint(actualZoneId);
     const dx = actual.x - target.x;
     const dy = actual.y - target.y;
+    const measurements = {
+      velocity: parseMeasurement(velocity),
+      spin_rate: parseMeasurement(spinRate),
+      horizontal_break: parseMeasurement(horizontalBreak),
+      vertical_break: parseMeasurement(verticalBreak),
+    };
 
     // Optimistic update: clear form immediately
     const previousActualZone = actualZoneId;
     const previousIntendedZone = intendedZoneId;
+    const previousMeasurements = { velocity, spinRate, horizontalBreak, verticalBreak };
+    const previousCall = pitchCall;
     setActualZoneId(null);
+    clearMeasurements();
+    setPitchCall(null);
     if (!keepIntendedBetweenSaves) setIntendedZoneId(null);
     setIsSaving(true);
 
     try {
       if (editingPitchId) {
-        const result = await withRetry(async () => {
-          const { data, error } = await supabase
-            .from("pitches")
-            .update({
-              pitch_type: pitchType,
-              tag: tag || null,
-              intended_location_zone_id: previousIntendedZone,
-              actual_location_zone_id: previousActualZone,
-              target_x: target.x,
-              target_y: target.y,
-              actual_x: actual.x,
-              actual_y: actual.y,
-              dx,
-              dy,
-              notes: notes || null,
-            })
-            .eq("id", editingPitchId)
-            .eq("user_id", session.user.id)
-            .select(
-              "id,user_id,pitcher_id,session_id,pitch_type,tag,intended_location_zone_id,actual_location_zone_id,target_x,target_y,actual_x,actual_y,dx,dy,notes,created_at"
-            )
-            .single();
-          if (error) throw error;
-          return data;
-        });
+        const values = {
+          pitch_type: pitchType,
+          tag: tag || null,
+          intended_location_zone_id: previousIntendedZone,
+          actual_location_zone_id: previousActualZone,
+          target_x: target.x,
+          target_y: target.y,
+          actual_x: actual.x,
+          actual_y: actual.y,
+          dx,
+          dy,
+          ...measurements,
+          ...(editingPitch?.pitch_call ? { pitch_call: previousCall } : {}),
+          batter_side: batterSide,
+          notes: notes || null,
+        };
+        const { result, queued } = await sendOrQueue<unknown>(
+          () => repositories.pitches.update(editingPitchId, values),
+          async () => {
+            await queueUpdate("pitches", editingPitchId, values);
+            return editingPitch ? { ...editingPitch, ...values } : null;
+          },
+          isTempId(editingPitchId)
+        );
 
         if (result) {
           const updated = result as PitchRow;
           setPitches((prev) => prev.map((p) => (p.id === updated.id ? updated : p)));
-          if (selectedSessionId) {
-            invalidatePitchesCache(selectedSessionId);
-            invalidateSessionsCache(selectedPitcherId);
-          }
-          showToast(`Updated pitch (${pitchType})`, "success");
+          afterPitchesWrite(queued, pitches.map((p) => (p.id === updated.id ? updated : p)));
+          showToast(`Updated pitch (${pitchType})${queued ? " (offline, will sync)" : ""}`, "success");
         }
 
         setEditingPitchId(null);
         resetPitchForm();
       } else {
-        const result = await withRetry(async () => {
-          const { data, error } = await supabase
-            .from("pitches")
-            .insert({
-              user_id: session.user.id,
-              pitcher_id: selectedPitcherId,
-              session_id: selectedSessionId,
-              pitch_type: pitchType,
-              tag: tag || null,
-              intended_location_zone_id: previousIntendedZone,
-              actual_location_zone_id: previousActualZone,
-              target_x: target.x,
-              target_y: target.y,
-              actual_x: actual.x,
-              actual_y: actual.y,
-              dx,
-              dy,
-              notes: notes || null,
-            })
-            .select(
-              "id,user_id,pitcher_id,session_id,pitch_type,tag,intended_location_zone_id,actual_location_zone_id,target_x,target_y,actual_x,actual_y,dx,dy,notes,created_at"
-            )
-            .single();
-          if (error) throw error;
-          return data;
-        });
+        const values = {
+          user_id: session.user.id,
+          pitcher_id: selectedPitcherId,
+          session_id: selectedSessionId,
+          pitch_type: pitchType,
+          tag: tag || null,
+          intended_location_zone_id: previousIntendedZone,
+          actual_location_zone_id: previousActualZone,
+          target_x: target.x,
+          target_y: target.y,
+          actual_x: actual.x,
+          actual_y: actual.y,
+          dx,
+          dy,
+          ...measurements,
+          pitch_call: liveCount ? previousCall : null,
+          sim_batter: liveCount ? simState.batter : null,
+          batter_side: batterSide,
+          notes: notes || null,
+        };
+        const id = crypto.randomUUID();
+        const { result, queued } = await sendOrQueue<unknown>(
+          () => repositories.pitches.create({ ...values, id }),
+          () => queueInsert("pitches", values, id),
+          isTempId(selectedSessionId)
+        );
 
         if (result) {
           const newPitch = result as PitchRow;
           setPitches((prev) => [newPitch, ...prev]);
-          if (selectedSessionId) {
-            invalidatePitchesCache(selectedSessionId);
-            invalidateSessionsCache(selectedPitcherId);
-          }
+          afterPitchesWrite(queued, [newPitch, ...pitches]);
 
           const allPitches = [...pitches, newPitch];
           const sorted = allPitches.sort(
@@ -832,15 +1120,12 @@ function HomeClient() {
           );
           const pitchNum = sorted.findIndex((p) => p.id === newPitch.id) + 1;
 
-          showToast(`Saved pitch #${pitchNum} (${pitchType})`, "success");
+          showToast(`Saved pitch #${pitchNum} (${pitchType})${queued ? " (offline, will sync)" : ""}`, "success");
 
-          if (currentEventId) {
+          // Video events can only point at a pitch that exists on the server
+          if (currentEventId && !queued) {
             try {
-              await supabase
-                .from("pitch_events")
-                .update({ pitch_id: newPitch.id })
-                .eq("id", currentEventId)
-                .eq("user_id", session.user.id);
+              await repositories.videos.linkEvent(currentEventId, newPitch.id);
 
               const returnUrl = buildLinkingReturnUrl();
               showToast("Linked marked video event", "success");
@@ -855,7 +1140,7 @@ function HomeClient() {
               }
             } catch (linkError) {
               console.error(linkError);
-              showToast("Linking failed. This may be due to Supabase RLS policies.", "error");
+              showToast(`Linking failed: ${getErrorMessage(linkError)}`, "error");
             }
           }
         }
@@ -863,6 +1148,11 @@ function HomeClient() {
     } catch (e: unknown) {
       // Rollback optimistic update
       setActualZoneId(previousActualZone);
+      setVelocity(previousMeasurements.velocity);
+      setSpinRate(previousMeasurements.spinRate);
+      setHorizontalBreak(previousMeasurements.horizontalBreak);
+      setVerticalBreak(previousMeasurements.verticalBreak);
+      setPitchCall(previousCall);
       if (!keepIntendedBetweenSaves) setIntendedZoneId(previousIntendedZone);
 
       console.error(e);
@@ -888,22 +1178,18 @@ function HomeClient() {
     if (!ok) return;
 
     try {
-      await withRetry(async () => {
-        const { error } = await supabase
-          .from("pitches")
-          .delete()
-          .eq("session_id", selectedSessionId)
-          .eq("user_id", session.user.id);
-        if (error) throw error;
-      });
+      const { queued } = await sendOrQueue(
+        () => repositories.pitches.deleteBySession(selectedSessionId),
+        async () => {
+          for (const pitch of pitches) await queueDelete("pitches", pitch.id);
+        },
+        isTempId(selectedSessionId)
+      );
 
       setPitches([]);
       setIntendedZoneId(null);
       setActualZoneId(null);
-      if (selectedSessionId) {
-        invalidatePitchesCache(selectedSessionId);
-        invalidateSessionsCache(selectedPitcherId);
-      }
+      afterPitchesWrite(queued, []);
       showToast("Cleared all pitches from session", "success");
     } catch (e: unknown) {
       console.error(e);
@@ -916,6 +1202,12 @@ function HomeClient() {
     setPitchType(pitch.pitch_type);
     setNotes(pitch.notes ?? "");
     setTag(pitch.tag ?? "");
+    setBatterSide(isHand(pitch.batter_side) ? pitch.batter_side : null);
+    setVelocity(measurementInput(pitch.velocity));
+    setSpinRate(measurementInput(pitch.spin_rate));
+    setHorizontalBreak(measurementInput(pitch.horizontal_break));
+    setVerticalBreak(measurementInput(pitch.vertical_break));
+    setPitchCall(isPitchCall(pitch.pitch_call) ? pitch.pitch_call : null);
     setIntendedZoneId(isZoneId(pitch.intended_location_zone_id) ? pitch.intended_location_zone_id : null);
     setActualZoneId(isZoneId(pitch.actual_location_zone_id) ? pitch.actual_location_zone_id : null);
   }
@@ -933,20 +1225,18 @@ function HomeClient() {
     if (!ok) return;
 
     try {
-      await withRetry(async () => {
-        const { error } = await supabase.from("pitches").delete().eq("id", pitchId).eq("user_id", session.user.id);
-        if (error) throw error;
-      });
+      const { queued } = await sendOrQueue(
+        () => repositories.pitches.delete(pitchId),
+        () => queueDelete("pitches", pitchId),
+        isTempId(pitchId)
+      );
 
       setPitches((prev) => prev.filter((p) => p.id !== pitchId));
       if (editingPitchId === pitchId) {
         setEditingPitchId(null);
         resetPitchForm();
       }
-      if (selectedSessionId) {
-        invalidatePitchesCache(selectedSessionId);
-        invalidateSessionsCache(selectedPitcherId);
-      }
+      afterPitchesWrite(queued, pitches.filter((p) => p.id !== pitchId));
       showToast("Deleted pitch", "success");
     } catch (e: unknown) {
       console.error(e);
@@ -999,6 +1289,14 @@ function HomeClient() {
               </div>
             </header>
 
+            {pendingWrites > 0 && (
+              <div className="rounded-lg border border-amber-300 bg-amber-50 p-3 text-sm text-amber-900 flex items-center gap-2">
+                <CloudOff className="h-4 w-4 shrink-0" />
+                {pendingWrites} {pendingWrites === 1 ? "change is" : "changes are"} saved on this device
+                {isOffline() ? " and will sync when you're back online." : ", syncing now..."}
+              </div>
+            )}
+
             {currentEventId && (
               <div className="rounded-lg border border-blue-200 bg-blue-50 p-3 text-sm text-blue-900 flex flex-col gap-2">
                 <div className="font-medium">Linking marked pitch at {formatLinkTimestamp(linkTimestampSeconds)}</div>
@@ -1021,7 +1319,7 @@ function HomeClient() {
                   pitchers={pitchers}
                   selectedPitcherId={selectedPitcherId}
                   onSelectPitcher={setSelectedPitcherId}
-                  onCreatePitcher={handleCreatePitcher}
+                  onCreatePitcher={manage ? handleCreatePitcher : undefined}
                   loading={pitchersLoading}
                   hydrated={hydrated}
                 />
@@ -1034,205 +1332,303 @@ function HomeClient() {
                     params.set("session", id);
                     router.push(`/bullpen?${params.toString()}`, { scroll: false });
                   }}
-                  onCreateSession={handleCreateSession}
+                  onCreateSession={manage ? handleCreateSession : undefined}
                   onRefresh={handleRefreshSessions}
                   loading={sessionsLoading}
                   selectedPitcherId={selectedPitcherId}
                   disabled={!selectedPitcherId}
+                  commandScore={pitchesLoading ? null : sessionCommand}
                 />
               </div>
             )}
 
             <div className="grid gap-6">
-              <section className="flex flex-col gap-3">
-                {isEditing && (
-                  <div className="rounded-md border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-900">
-                    Editing pitch #{editingPitchNumber ?? "?"}
-                  </div>
-                )}
-                {currentEventId && (
-                  <div className="rounded-md border border-blue-200 bg-blue-50 px-3 py-2 text-xs text-blue-800">
-                    Linking the next saved pitch to a marked video event.
-                  </div>
-                )}
-
-                <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
-                  <div className="text-sm text-slate-700">
-                    <span className="font-medium">Status:</span> {status}
-                    <span className="ml-3 text-slate-500">
-                      <span className="font-medium">Now selecting:</span>{" "}
-                      {activeGrid === "actual" ? "Actual location" : "Intended location"}
-                    </span>
-                  </div>
-
-                  <div className="flex flex-wrap items-center gap-2">
-                    <span className="text-gray-600 text-sm">Filter:</span>
-                    <Button
-                      size="sm"
-                      variant={pitchTypeFilter === "ALL" ? "default" : "outline"}
-                      onClick={() => setPitchTypeFilter("ALL")}
-                      type="button"
-                      className="min-h-[36px]"
-                    >
-                      All
-                    </Button>
-                    {availablePitchTypes.map((t) => (
+              {manage ? (
+                <section className="flex flex-col gap-3">
+                  {isEditing && (
+                    <div className="rounded-md border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-900">
+                      Editing pitch #{editingPitchNumber ?? "?"}
+                    </div>
+                  )}
+                  {currentEventId && (
+                    <div className="rounded-md border border-blue-200 bg-blue-50 px-3 py-2 text-xs text-blue-800">
+                      Linking the next saved pitch to a marked video event.
+                    </div>
+                  )}
+  
+                  <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+                    <div className="text-sm text-slate-700">
+                      <span className="font-medium">Status:</span> {status}
+                      <span className="ml-3 text-slate-500">
+                        <span className="font-medium">Now selecting:</span>{" "}
+                        {activeGrid === "actual" ? "Actual location" : "Intended location"}
+                      </span>
+                    </div>
+  
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="text-gray-600 text-sm">Filter:</span>
                       <Button
-                        key={t}
                         size="sm"
-                        variant={pitchTypeFilter === t ? "default" : "outline"}
-                        onClick={() => setPitchTypeFilter(t)}
+                        variant={pitchTypeFilter === "ALL" ? "default" : "outline"}
+                        onClick={() => setPitchTypeFilter("ALL")}
                         type="button"
                         className="min-h-[36px]"
                       >
-                        {t}
+                        All
                       </Button>
-                    ))}
+                      {availablePitchTypes.map((t) => (
+                        <Button
+                          key={t}
+                          size="sm"
+                          variant={pitchTypeFilter === t ? "default" : "outline"}
+                          onClick={() => setPitchTypeFilter(t)}
+                          type="button"
+                          className="min-h-[36px]"
+                        >
+                          {t}
+                        </Button>
+                      ))}
+                    </div>
+  
+                    <div className="text-sm text-slate-500 md:text-right">
+                      Showing {filteredPitches.length} of {pitches.length}
+                    </div>
                   </div>
-
-                  <div className="text-sm text-slate-500 md:text-right">
-                    Showing {filteredPitches.length} of {pitches.length}
+  
+                  <div className="grid gap-3 max-w-[900px]">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                      <div
+                        className={`rounded-lg border-2 p-2 transition cursor-pointer ${
+                          activeGrid === "intended" ? "border-gray-900" : "border-transparent opacity-60"
+                        }`}
+                        onClick={() => setActiveGrid("intended")}
+                      >
+                        <StrikeZoneGrid
+                          label="Intended location"
+                          value={intendedZoneId}
+                          onSelect={(zoneId) => {
+                            setActiveGrid("intended");
+                            setIntendedZoneId(zoneId);
+                            setActualZoneId(null);
+                          }}
+                        />
+                      </div>
+                      <div
+                        className={`rounded-lg border-2 p-2 transition cursor-pointer ${
+                          activeGrid === "actual" ? "border-gray-900" : "border-transparent opacity-60"
+                        }`}
+                        onClick={() => setActiveGrid("actual")}
+                      >
+                        <StrikeZoneGrid
+                          label="Actual location"
+                          value={actualZoneId}
+                          onSelect={(zoneId) => {
+                            setActiveGrid("actual");
+                            setActualZoneId(zoneId);
+                          }}
+                        />
+                      </div>
+                    </div>
                   </div>
-                </div>
-
-                <div className="grid gap-3 max-w-[900px]">
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                    <div
-                      className={`rounded-lg border-2 p-2 transition cursor-pointer ${
-                        activeGrid === "intended" ? "border-gray-900" : "border-transparent opacity-60"
-                      }`}
-                      onClick={() => setActiveGrid("intended")}
-                    >
-                      <StrikeZoneGrid
-                        label="Intended location"
-                        value={intendedZoneId}
-                        onSelect={(zoneId) => {
-                          setActiveGrid("intended");
-                          setIntendedZoneId(zoneId);
-                          setActualZoneId(null);
-                        }}
-                      />
+  
+                  {/* Optional radar / tracking readings; Enter saves the pitch */}
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-3 max-w-[900px]">
+                    {[
+                      { id: "pitch-velocity", label: "Velo (mph)", value: velocity, set: setVelocity, step: "0.1" },
+                      { id: "pitch-spin", label: "Spin (rpm)", value: spinRate, set: setSpinRate, step: "1" },
+                      { id: "pitch-hbreak", label: "H-break (in)", value: horizontalBreak, set: setHorizontalBreak, step: "0.1" },
+                      { id: "pitch-vbreak", label: "V-break (in)", value: verticalBreak, set: setVerticalBreak, step: "0.1" },
+                    ].map((field) => (
+                      <div key={field.id}>
+                        <Label htmlFor={field.id} className="block text-xs font-medium mb-1 text-slate-600">
+                          {field.label}
+                        </Label>
+                        <Input
+                          id={field.id}
+                          type="number"
+                          inputMode="decimal"
+                          step={field.step}
+                          value={field.value}
+                          onChange={(e) => field.set(e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === "Enter" && intendedZoneId && actualZoneId && !callMissing && !isSaving) {
+                              savePitch(isEditing ? "update" : "create");
+                            }
+                          }}
+                          placeholder="—"
+                          className="min-h-[44px]"
+                        />
+                      </div>
+                    ))}
+                  </div>
+  
+                  {showCallPicker && (
+                    <div className="rounded-lg border p-3 max-w-[900px] space-y-2">
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="font-medium">
+                          {editingPitch ? "Pitch call" : `Hitter #${simState.batter}`}
+                        </span>
+                        {!editingPitch && (
+                          <span className="font-mono text-lg font-semibold" aria-label="Current count">
+                            {formatCount(simState.count)}
+                          </span>
+                        )}
+                      </div>
+                      <div className="flex flex-wrap gap-2">
+                        {PITCH_CALLS.map((call) => (
+                          <Button
+                            key={call}
+                            type="button"
+                            size="sm"
+                            variant={pitchCall === call ? "default" : "outline"}
+                            onClick={() => setPitchCall(call)}
+                            aria-pressed={pitchCall === call}
+                            className="min-h-[44px]"
+                          >
+                            {PITCH_CALL_LABELS[call]}
+                          </Button>
+                        ))}
+                      </div>
                     </div>
-                    <div
-                      className={`rounded-lg border-2 p-2 transition cursor-pointer ${
-                        activeGrid === "actual" ? "border-gray-900" : "border-transparent opacity-60"
-                      }`}
-                      onClick={() => setActiveGrid("actual")}
-                    >
-                      <StrikeZoneGrid
-                        label="Actual location"
-                        value={actualZoneId}
-                        onSelect={(zoneId) => {
-                          setActiveGrid("actual");
-                          setActualZoneId(zoneId);
-                        }}
-                      />
+                  )}
+  
+                  <div className="mt-3 flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+                    <div className="flex flex-wrap items-center gap-2">
+                      {!isEditing ? (
+                        <Button
+                          onClick={() => savePitch("create")}
+                          disabled={!session || !selectedPitcherId || !selectedSessionId || !intendedZoneId || !actualZoneId || callMissing || isSaving}
+                          className="min-h-[44px] min-w-[100px]"
+                        >
+                          {isSaving ? "Saving..." : "Save pitch"}
+                        </Button>
+                      ) : (
+                        <Button
+                          onClick={() => savePitch("update")}
+                          disabled={!session || !selectedPitcherId || !selectedSessionId || !intendedZoneId || !actualZoneId || callMissing || isSaving}
+                          className="min-h-[44px] min-w-[120px]"
+                        >
+                          {isSaving ? "Updating..." : "Update pitch"}
+                        </Button>
+                      )}
+  
+                      {isEditing && (
+                        <Button
+                          variant="outline"
+                          onClick={() => {
+                            setEditingPitchId(null);
+                            resetPitchForm();
+                          }}
+                          className="min-h-[44px]"
+                        >
+                          Cancel edit
+                        </Button>
+                      )}
+  
+                      <label className="ml-2 inline-flex items-center gap-2 text-sm text-slate-600 select-none cursor-pointer">
+                        <input
+                          type="checkbox"
+                          className="h-5 w-5"
+                          checked={keepIntendedBetweenSaves}
+                          onChange={(e) => setKeepIntendedBetweenSaves(e.target.checked)}
+                        />
+                        <span>Keep intended after save</span>
+                      </label>
+  
+                      <label className="ml-2 inline-flex items-center gap-2 text-sm text-slate-600 select-none cursor-pointer">
+                        <input
+                          type="checkbox"
+                          className="h-5 w-5"
+                          checked={liveCount}
+                          onChange={(e) => {
+                            setLiveCount(e.target.checked);
+                            setPitchCall(null);
+                          }}
+                          disabled={isEditing}
+                        />
+                        <span>Live count</span>
+                      </label>
+  
+                      <div className="ml-2 inline-flex items-center gap-1 text-sm text-slate-600" role="group" aria-label="Batter side">
+                        <span className="mr-1">Batter</span>
+                        {([null, "R", "L"] as const).map((side) => (
+                          <Button
+                            key={side ?? "none"}
+                            type="button"
+                            size="sm"
+                            variant={batterSide === side ? "default" : "outline"}
+                            onClick={() => setBatterSide(side)}
+                            aria-pressed={batterSide === side}
+                          >
+                            {side ? `${side}HB` : "—"}
+                          </Button>
+                        ))}
+                      </div>
                     </div>
-                  </div>
-                </div>
-
-                <div className="mt-3 flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
-                  <div className="flex flex-wrap items-center gap-2">
-                    {!isEditing ? (
+  
+                    <div className="flex flex-wrap items-center gap-2">
                       <Button
-                        onClick={() => savePitch("create")}
-                        disabled={!session || !selectedPitcherId || !selectedSessionId || !intendedZoneId || !actualZoneId || isSaving}
-                        className="min-h-[44px] min-w-[100px]"
+                        variant="outline"
+                        onClick={() => setActualZoneId(null)}
+                        disabled={!actualZoneId}
+                        title="Clear the actual selection"
+                        className="min-h-[44px]"
                       >
-                        {isSaving ? "Saving..." : "Save pitch"}
+                        Clear actual
                       </Button>
-                    ) : (
-                      <Button
-                        onClick={() => savePitch("update")}
-                        disabled={!session || !selectedPitcherId || !selectedSessionId || !intendedZoneId || !actualZoneId || isSaving}
-                        className="min-h-[44px] min-w-[120px]"
-                      >
-                        {isSaving ? "Updating..." : "Update pitch"}
-                      </Button>
-                    )}
-
-                    {isEditing && (
+  
                       <Button
                         variant="outline"
                         onClick={() => {
-                          setEditingPitchId(null);
-                          resetPitchForm();
+                          setIntendedZoneId(null);
+                          setActualZoneId(null);
                         }}
+                        title="Clear intended and actual"
                         className="min-h-[44px]"
                       >
-                        Cancel edit
+                        Clear intended
                       </Button>
-                    )}
-
-                    <label className="ml-2 inline-flex items-center gap-2 text-sm text-slate-600 select-none cursor-pointer">
-                      <input
-                        type="checkbox"
-                        className="h-5 w-5"
-                        checked={keepIntendedBetweenSaves}
-                        onChange={(e) => setKeepIntendedBetweenSaves(e.target.checked)}
-                      />
-                      <span>Keep intended after save</span>
-                    </label>
-                  </div>
-
-                  <div className="flex flex-wrap items-center gap-2">
-                    <Button
-                      variant="outline"
-                      onClick={() => setActualZoneId(null)}
-                      disabled={!actualZoneId}
-                      title="Clear the actual selection"
-                      className="min-h-[44px]"
-                    >
-                      Clear actual
-                    </Button>
-
-                    <Button
-                      variant="outline"
-                      onClick={() => {
-                        setIntendedZoneId(null);
-                        setActualZoneId(null);
-                      }}
-                      title="Clear intended and actual"
-                      className="min-h-[44px]"
-                    >
-                      Clear intended
-                    </Button>
+                    </div>
+  
+                    <div className="flex items-center">
+                      <Button
+                        variant="destructive"
+                        onClick={clearSessionPitches}
+                        disabled={!selectedSessionId || pitches.length === 0}
+                        title="Delete all pitches in this session"
+                        className="min-h-[44px]"
+                      >
+                        Clear session pitches
+                      </Button>
+                    </div>
                   </div>
-
-                  <div className="flex items-center">
-                    <Button
-                      variant="destructive"
-                      onClick={clearSessionPitches}
-                      disabled={!selectedSessionId || pitches.length === 0}
-                      title="Delete all pitches in this session"
-                      className="min-h-[44px]"
+  
+                  <div className="text-sm text-gray-700 space-y-1">
+                    <button
+                      type="button"
+                      className="text-xs text-slate-600 underline underline-offset-4 hover:text-slate-900"
+                      onClick={() => setShowAdvanced((v) => !v)}
                     >
-                      Clear session pitches
-                    </Button>
+                      {showAdvanced ? "Hide advanced metrics" : "Show advanced metrics"}
+                    </button>
+                    {showAdvanced && (
+                      <>
+                        <div>
+                          Miss (dx, dy):{" "}
+                          <span className="font-mono">{deltas ? `${fmt(deltas.dx)}, ${fmt(deltas.dy)}` : "—"}</span>
+                        </div>
+                        <div>
+                          Miss distance: <span className="font-mono">{deltas ? fmt(deltas.dist) : "—"}</span>
+                        </div>
+                      </>
+                    )}
                   </div>
+                </section>
+              ) : (
+                <div className="rounded-lg border bg-white p-3 text-sm text-gray-600">
+                  You can review your sessions and pitches here. Coaches log and edit them.
                 </div>
-
-                <div className="text-sm text-gray-700 space-y-1">
-                  <button
-                    type="button"
-                    className="text-xs text-slate-600 underline underline-offset-4 hover:text-slate-900"
-                    onClick={() => setShowAdvanced((v) => !v)}
-                  >
-                    {showAdvanced ? "Hide advanced metrics" : "Show advanced metrics"}
-                  </button>
-                  {showAdvanced && (
-                    <>
-                      <div>
-                        Miss (dx, dy):{" "}
-                        <span className="font-mono">{deltas ? `${fmt(deltas.dx)}, ${fmt(deltas.dy)}` : "—"}</span>
-                      </div>
-                      <div>
-                        Miss distance: <span className="font-mono">{deltas ? fmt(deltas.dist) : "—"}</span>
-                      </div>
-                    </>
-                  )}
-                </div>
-              </section>
+              )}
 
               <section className="flex flex-col gap-4">
                 <div className="grid gap-6 lg:grid-cols-[1fr_420px] items-start">
@@ -1240,17 +1636,19 @@ function HomeClient() {
                     <Card>
                       <CardHeader className="pb-2">
                         <CardTitle>Recent pitches</CardTitle>
-                        <CardAction>
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={undoLastPitch}
-                            disabled={!pitches.length}
-                            className="min-h-[36px]"
-                          >
-                            Undo last
-                          </Button>
-                        </CardAction>
+                        {manage && (
+                          <CardAction>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={undoLastPitch}
+                              disabled={!pitches.length}
+                              className="min-h-[36px]"
+                            >
+                              Undo last
+                            </Button>
+                          </CardAction>
+                        )}
                       </CardHeader>
                       <CardContent>
                         {!selectedSessionId ? (
@@ -1286,6 +1684,14 @@ function HomeClient() {
                                     >
                                       <div className="font-mono text-gray-500">#{pitchNum ?? "?"}</div>
                                       <div className="font-medium">{p.pitch_type}</div>
+                                      {isPitchCall(p.pitch_call) && (
+                                        <span className="text-xs text-gray-500">
+                                          #{p.sim_batter} {PITCH_CALL_LABELS[p.pitch_call]}
+                                        </span>
+                                      )}
+                                      {p.velocity !== null && (
+                                        <div className="font-mono text-gray-600">{p.velocity.toFixed(1)} mph</div>
+                                      )}
                                       {p.tag && (
                                         <span className="inline-flex rounded-full bg-gray-100 px-2 py-0.5 text-xs text-gray-600">
                                           {p.tag}
@@ -1312,24 +1718,28 @@ function HomeClient() {
                                           </>
                                         )}
                                       </Badge>
-                                      <Button
-                                        size="sm"
-                                        variant="outline"
-                                        onClick={() => startEditPitch(p)}
-                                        type="button"
-                                        className="min-h-[36px] min-w-[50px]"
-                                      >
-                                        Edit
-                                      </Button>
-                                      <Button
-                                        size="sm"
-                                        variant="destructive"
-                                        onClick={() => deletePitch(p.id)}
-                                        type="button"
-                                        className="min-h-[36px] min-w-[60px]"
-                                      >
-                                        Delete
-                                      </Button>
+                                      {manage && (
+                                        <>
+                                          <Button
+                                            size="sm"
+                                            variant="outline"
+                                            onClick={() => startEditPitch(p)}
+                                            type="button"
+                                            className="min-h-[36px] min-w-[50px]"
+                                          >
+                                            Edit
+                                          </Button>
+                                          <Button
+                                            size="sm"
+                                            variant="destructive"
+                                            onClick={() => deletePitch(p.id)}
+                                            type="button"
+                                            className="min-h-[36px] min-w-[60px]"
+                                          >
+                                            Delete
+                                          </Button>
+                                        </>
+                                      )}
                                     </div>
                                   </div>
                                 );
@@ -1382,51 +1792,72 @@ function HomeClient() {
                   </div>
 
                   <div className="min-w-0 flex flex-col gap-6">
-                    <Card>
-                      <CardHeader>
-                        <CardTitle>Pitch details</CardTitle>
-                      </CardHeader>
-                      <CardContent>
-                        <Label htmlFor="pitch-type-select" className="block text-sm font-medium mb-1">
-                          Pitch type
-                        </Label>
-                        <Select value={pitchType} onValueChange={setPitchType}>
-                          <SelectTrigger id="pitch-type-select" className="w-full">
-                            <SelectValue />
-                          </SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value="FB">Fastball (FB)</SelectItem>
-                            <SelectItem value="SL">Slider (SL)</SelectItem>
-                            <SelectItem value="CB">Curveball (CB)</SelectItem>
-                            <SelectItem value="CH">Changeup (CH)</SelectItem>
-                            <SelectItem value="CT">Cutter (CT)</SelectItem>
-                            <SelectItem value="SI">Sinker (SI)</SelectItem>
-                            <SelectItem value="OT">Other</SelectItem>
-                          </SelectContent>
-                        </Select>
-
-                        <Label htmlFor="pitch-tag" className="block text-sm font-medium mt-4 mb-1">
-                          Tag (optional)
-                        </Label>
-                        <Input
-                          id="pitch-tag"
-                          value={tag}
-                          onChange={(e) => setTag(e.target.value)}
-                          placeholder="Example: miss up, good feel, bullpen"
-                        />
+                    {manage && (
+                      <BullpenPlanCard
+                        plans={plans}
+                        selectedPlanId={selectedPlan?.id ?? null}
+                        progress={planProgress}
+                        onAttachPlan={handleAttachPlan}
+                        onSavePlan={handleSavePlan}
+                        onDeletePlan={handleDeletePlan}
+                        disabled={!selectedSessionId}
+                      />
+                    )}
 
-                        <Label htmlFor="pitch-notes" className="block text-sm font-medium mt-4 mb-1">
-                          Notes (optional)
-                        </Label>
-                        <Textarea
-                          id="pitch-notes"
-                          value={notes}
-                          onChange={(e) => setNotes(e.target.value)}
-                          className="min-h-[100px]"
-                          placeholder="Example: working glove-side, missed arm-side today"
-                        />
-                      </CardContent>
-                    </Card>
+                    <WorkloadCard
+                      level={pitchers.find((p) => p.id === selectedPitcherId)?.level ?? null}
+                      onChangeLevel={manage ? handleChangePitcherLevel : undefined}
+                      appearances={liveWorkload}
+                      loading={workloadLoading}
+                    />
+
+                    {manage && (
+                      <Card>
+                        <CardHeader>
+                          <CardTitle>Pitch details</CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                          <Label htmlFor="pitch-type-select" className="block text-sm font-medium mb-1">
+                            Pitch type
+                          </Label>
+                          <Select value={pitchType} onValueChange={setPitchType}>
+                            <SelectTrigger id="pitch-type-select" className="w-full">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="FB">Fastball (FB)</SelectItem>
+                              <SelectItem value="SL">Slider (SL)</SelectItem>
+                              <SelectItem value="CB">Curveball (CB)</SelectItem>
+                              <SelectItem value="CH">Changeup (CH)</SelectItem>
+                              <SelectItem value="CT">Cutter (CT)</SelectItem>
+                              <SelectItem value="SI">Sinker (SI)</SelectItem>
+                              <SelectItem value="OT">Other</SelectItem>
+                            </SelectContent>
+                          </Select>
+  
+                          <Label htmlFor="pitch-tag" className="block text-sm font-medium mt-4 mb-1">
+                            Tag (optional)
+                          </Label>
+                          <Input
+                            id="pitch-tag"
+                            value={tag}
+                            onChange={(e) => setTag(e.target.value)}
+                            placeholder="Example: miss up, good feel, bullpen"
+                          />
+  
+                          <Label htmlFor="pitch-notes" className="block text-sm font-medium mt-4 mb-1">
+                            Notes (optional)
+                          </Label>
+                          <Textarea
+                            id="pitch-notes"
+                            value={notes}
+                            onChange={(e) => setNotes(e.target.value)}
+                            className="min-h-[100px]"
+                            placeholder="Example: working glove-side, missed arm-side today"
+                          />
+                        </CardContent>
+                      </Card>
+                    )}
 
                     <Card>
                       <CardHeader>
@@ -1450,6 +1881,23 @@ function HomeClient() {
                                 <div className="text-gray-500">Avg miss distance</div>
                                 <div className="text-xl font-semibold">{sessionStats.avgDist.toFixed(3)}</div>
                               </div>
+                              {sessionStats.velocity.count > 0 && (
+                                <>
+                                  <div className="rounded-lg border p-3">
+                                    <div className="text-gray-500">Avg velo</div>
+                                    <div className="text-xl font-semibold">
+                                      {sessionStats.velocity.avg.toFixed(1)}
+                                      <span className="ml-1 text-xs font-normal text-gray-500">
+                                        ±{sessionStats.velocity.stdDev.toFixed(1)}
+                                      </span>
+                                    </div>
+                                  </div>
+                                  <div className="rounded-lg border p-3">
+                                    <div className="text-gray-500">Max velo</div>
+                                    <div className="text-xl font-semibold">{sessionStats.velocity.max.toFixed(1)}</div>
+                                  </div>
+                                </>
+                              )}
                               {showAdvanced && (
                                 <>
                                   <div className="rounded-lg border p-3">
@@ -1497,6 +1945,9 @@ function HomeClient() {
                                       <div className="font-medium">{row.pitch_type}</div>
                                       <div className="text-gray-600">{row.n} pitches</div>
                                       <div className="text-gray-600">avg {row.avgDist.toFixed(3)}</div>
+                                      {row.avgVelocity !== null && (
+                                        <div className="text-gray-600">{row.avgVelocity.toFixed(1)} mph</div>
+                                      )}
                                       <div className="text-gray-600">{Math.round(row.outOfZonePct * 100)}% O-Z</div>
                                     </button>
                                   ))}
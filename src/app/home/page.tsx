@@ -7,6 +7,7 @@ import type { Session } from "@supabase/supabase-js";
 import { supabase } from "@/lib/supabaseClient";
 import { Card, CardContent } from "@/components/ui/card";
 import AccountBar from "@/components/AccountBar";
+import { AccountBackup } from "@/components/AccountBackup";
 import { Target, ClipboardList } from "lucide-react";
 
 export default function HomePage() {
@@ -116,6 +117,8 @@ export default function HomePage() {
           </Link>
         </div>
 
+        <AccountBackup userId={session.user.id} />
+
         {/* Footer hint */}
         <div className="mt-12 text-center text-sm text-slate-500">
           Select a tool above to get started. You can switch between tools anytime.
@@ -0,0 +1,220 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useParams } from "next/navigation";
+import { fetchSharedGame, subscribeToSharedGame } from "@/lib/scorebook/share";
+import { getErrorMessage, type FullGameData } from "@/lib/scorebook/db";
+import { computeLineScore } from "@/lib/scorebook/stats";
+import { AT_BAT_RESULTS, getHalfInningLabel } from "@/lib/scorebook/types";
+import { getCurrentBatter, getDefensivePlayer, getGameStateAt, toCurrentGameState } from "@/lib/scorebook/gameEngine";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { GameSituationDisplay } from "@/components/scorebook/BaseRunnersDisplay";
+import { LinescoreTable } from "@/components/scorebook/BoxScoreView";
+
+// A burst of row changes (an at-bat with its pitches and plays) loads once
+const REFRESH_DELAY_MS = 300;
+
+/**
+ * Read-only spectator view of a shared game, updated live as it is scored
+ */
+export default function LiveGamePage() {
+  const params = useParams();
+  const token = params.token as string;
+
+  const [gameData, setGameData] = useState<FullGameData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let latest = 0;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const load = async () => {
+      const request = ++latest;
+      try {
+        const data = await fetchSharedGame(token);
+        // A slower, older response mustn't overwrite a newer one
+        if (cancelled || request !== latest) return;
+        setGameData(data);
+        setError(null);
+      } catch (e) {
+        if (!cancelled) setError(getErrorMessage(e));
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    const unsubscribe = subscribeToSharedGame(token, () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => void load(), REFRESH_DELAY_MS);
+    });
+    void load();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      unsubscribe();
+    };
+  }, [token]);
+
+  const engineState = useMemo(() => (gameData ? getGameStateAt(gameData) : null), [gameData]);
+
+  if (loading) {
+    return (
+      <main className="min-h-screen bg-gray-50 p-4 md:p-6">
+        <div className="max-w-3xl mx-auto">
+          <Skeleton className="h-8 w-64 mb-6" />
+          <Skeleton className="h-32 rounded-lg mb-4" />
+          <Skeleton className="h-64 rounded-lg" />
+        </div>
+      </main>
+    );
+  }
+
+  if (!gameData || !engineState) {
+    return (
+      <main className="min-h-screen bg-gray-50 p-4 md:p-6">
+        <div className="max-w-3xl mx-auto">
+          <Card>
+            <CardContent className="py-12 text-center text-gray-500">
+              {error ?? "This game isn't being shared anymore. Ask the scorekeeper for a new link."}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    );
+  }
+
+  const { game, homeLineup, awayLineup, atBats, plays } = gameData;
+  const currentState = toCurrentGameState(engineState);
+  const isGameComplete = game.status === "completed";
+
+  const maxInning = Math.max(game.current_inning, ...atBats.map((ab) => ab.inning)) || game.innings_scheduled;
+  const lineScore = computeLineScore(atBats, plays, maxInning);
+
+  const currentBatter = getCurrentBatter(engineState);
+  const currentPitcher = getDefensivePlayer(engineState, currentState.fieldingTeam, "P");
+  const battingTeamName = currentState.battingTeam === "home" ? game.home_team_name : game.away_team_name;
+
+  const lineupById = new Map([...homeLineup, ...awayLineup].map((l) => [l.id, l]));
+  // Most recent first, in the same order the scorekeeper's history uses
+  const playByPlay = [...atBats].sort((a, b) => {
+    if (a.inning !== b.inning) return b.inning - a.inning;
+    if (a.half !== b.half) return a.half === "bottom" ? -1 : 1;
+    return b.batter_number - a.batter_number;
+  });
+
+  return (
+    <main className="min-h-screen bg-gray-50 p-4 md:p-6">
+      <div className="max-w-3xl mx-auto space-y-4">
+        {/* Header */}
+        <div>
+          <div className="flex items-center gap-3 mb-1">
+            <h1 className="text-xl md:text-2xl font-bold">
+              {game.away_team_name} @ {game.home_team_name}
+            </h1>
+            {isGameComplete ? (
+              <Badge variant="secondary">Final</Badge>
+            ) : game.status === "in_progress" ? (
+              <Badge className="gap-1.5">
+                <span className="h-2 w-2 rounded-full bg-red-500 animate-pulse" />
+                Live
+              </Badge>
+            ) : (
+              <Badge variant="outline">{game.status}</Badge>
+            )}
+          </div>
+          <p className="text-gray-500 text-sm">
+            {new Date(game.game_date).toLocaleDateString()}
+            {game.location && ` • ${game.location}`}
+          </p>
+          {error && <p className="text-sm text-amber-700 mt-1">Reconnecting: {error}</p>}
+        </div>
+
+        {/* Score */}
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center justify-center gap-8 pb-4 border-b mb-4">
+              <div className="text-center">
+                <p className="text-sm text-gray-500">{game.away_team_name}</p>
+                <p className="text-3xl font-bold tabular-nums">{currentState.awayScore}</p>
+              </div>
+              <div className="text-gray-300">-</div>
+              <div className="text-center">
+                <p className="text-sm text-gray-500">{game.home_team_name}</p>
+                <p className="text-3xl font-bold tabular-nums">{currentState.homeScore}</p>
+              </div>
+            </div>
+            <LinescoreTable
+              awayTeam={game.away_team_name}
+              homeTeam={game.home_team_name}
+              lineScore={lineScore}
+              maxInning={maxInning}
+            />
+          </CardContent>
+        </Card>
+
+        {/* Situation */}
+        {!isGameComplete && (
+          <Card>
+            <CardContent className="pt-6">
+              <div className="flex flex-wrap items-center justify-between gap-4">
+                <div>
+                  <p className="text-sm text-gray-500 mb-1">Now Batting</p>
+                  <p className="font-semibold">{battingTeamName}</p>
+                  {currentBatter && (
+                    <p className="text-sm text-gray-600">
+                      {currentBatter.player_name}
+                      {currentPitcher && <> vs. {currentPitcher.player_name}</>}
+                    </p>
+                  )}
+                </div>
+                <GameSituationDisplay
+                  bases={currentState.bases}
+                  outs={currentState.outs}
+                  inning={currentState.inning}
+                  half={currentState.half}
+                />
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Play-by-play */}
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg">Play-by-Play</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {playByPlay.length === 0 ? (
+              <p className="py-6 text-center text-sm text-gray-500">No plays yet</p>
+            ) : (
+              <div className="space-y-2">
+                {playByPlay.map((ab) => {
+                  const resultInfo = AT_BAT_RESULTS[ab.result_type];
+                  return (
+                    <div key={ab.id} className="flex items-center gap-3 p-3 rounded-lg bg-gray-50">
+                      <div className="text-xs text-gray-400 w-14 shrink-0">{getHalfInningLabel(ab.half, ab.inning)}</div>
+                      <div className="min-w-0">
+                        <span className="font-medium">{lineupById.get(ab.batter_lineup_id)?.player_name ?? "Unknown"}</span>
+                        <span className="mx-2 text-gray-400">→</span>
+                        <Badge variant={resultInfo?.isOut ? "secondary" : "default"} className="text-xs">
+                          {resultInfo?.label ?? ab.result_type}
+                          {ab.result_detail ? ` (${ab.result_detail})` : ""}
+                        </Badge>
+                        {ab.rbis > 0 && <span className="ml-2 text-sm text-green-600">{ab.rbis} RBI</span>}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </main>
+  );
+}
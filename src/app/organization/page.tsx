@@ -0,0 +1,374 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/components/ui/toast";
+import { useConfirm } from "@/components/ui/confirm-dialog";
+import { useOrganization } from "@/components/OrganizationProvider";
+import { getErrorMessage } from "@/lib/api";
+import { repositories, storageBackend, type PitcherRecord } from "@/lib/repository";
+import {
+  createOrganization,
+  fetchOrgMembers,
+  isOrgRole,
+  joinOrganization,
+  ORG_ROLES,
+  removeOrgMember,
+  shareRecordsWithOrganization,
+  updateOrgMember,
+  type OrgMember,
+  type OrgMemberUpdate,
+} from "@/lib/organizations";
+
+// Select items can't have an empty value
+const NO_PITCHER = "none";
+
+export default function OrganizationPage() {
+  const router = useRouter();
+  const { showToast } = useToast();
+  const confirm = useConfirm();
+  const { access, memberships, setActiveOrg, reload } = useOrganization();
+  const membership = access.membership;
+  const isCoach = membership?.role === "coach";
+
+  const [members, setMembers] = useState<OrgMember[]>([]);
+  const [pitchers, setPitchers] = useState<PitcherRecord[]>([]);
+  const [loadingMembers, setLoadingMembers] = useState(false);
+  const [orgName, setOrgName] = useState("");
+  const [joinCode, setJoinCode] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const orgId = membership?.org_id ?? null;
+
+  const loadMembers = useCallback(async () => {
+    if (!orgId) return;
+    setLoadingMembers(true);
+    try {
+      const [nextMembers, nextPitchers] = await Promise.all([
+        fetchOrgMembers(orgId),
+        isCoach ? repositories.pitchers.list({ userId: access.userId, orgId }) : Promise.resolve([]),
+      ]);
+      setMembers(nextMembers);
+      setPitchers(nextPitchers);
+    } catch (e) {
+      showToast(getErrorMessage(e), "error");
+    } finally {
+      setLoadingMembers(false);
+    }
+  }, [orgId, isCoach, access.userId, showToast]);
+
+  useEffect(() => {
+    void loadMembers();
+  }, [loadMembers]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!orgName.trim()) return;
+
+    setBusy(true);
+    try {
+      const org = await createOrganization(orgName.trim());
+      await reload();
+      setActiveOrg(org.id);
+      setOrgName("");
+      showToast(`Created ${org.name}`, "success");
+    } catch (err) {
+      showToast(getErrorMessage(err), "error");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleJoin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!joinCode.trim()) return;
+
+    setBusy(true);
+    try {
+      const member = await joinOrganization(joinCode.trim());
+      await reload();
+      setActiveOrg(member.org_id);
+      setJoinCode("");
+      showToast("Joined organization. A coach can now give you a role.", "success");
+    } catch (err) {
+      showToast(getErrorMessage(err), "error");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleUpdateMember = async (member: OrgMember, updates: OrgMemberUpdate) => {
+    try {
+      const updated = await updateOrgMember(member.id, updates);
+      setMembers((prev) => prev.map((m) => (m.id === updated.id ? updated : m)));
+      if (member.user_id === access.userId) await reload();
+    } catch (e) {
+      showToast(getErrorMessage(e), "error");
+    }
+  };
+
+  const handleRemoveMember = async (member: OrgMember) => {
+    const leaving = member.user_id === access.userId;
+    const confirmed = await confirm({
+      title: leaving ? "Leave Organization" : "Remove Member",
+      message: leaving
+        ? `You'll lose access to ${membership?.organization.name ?? "this organization"}'s pitchers, teams and games.`
+        : `Remove ${member.email ?? "this member"}? They'll lose access to the organization's records.`,
+      confirmLabel: leaving ? "Leave" : "Remove",
+      variant: "destructive",
+    });
+    if (!confirmed) return;
+
+    try {
+      await removeOrgMember(member.id);
+      if (leaving) {
+        setActiveOrg(null);
+        await reload();
+        showToast("Left organization", "success");
+      } else {
+        setMembers((prev) => prev.filter((m) => m.id !== member.id));
+        showToast("Member removed", "success");
+      }
+    } catch (e) {
+      showToast(getErrorMessage(e), "error");
+    }
+  };
+
+  const handleShareRecords = async () => {
+    if (!membership) return;
+    const confirmed = await confirm({
+      title: "Share My Records",
+      message: `Move your own pitchers, teams and games into ${membership.organization.name}? Its coaches will be able to edit them.`,
+      confirmLabel: "Share",
+    });
+    if (!confirmed) return;
+
+    setBusy(true);
+    try {
+      await shareRecordsWithOrganization(access.userId, membership.org_id);
+      await loadMembers();
+      showToast("Your records are now shared with the organization", "success");
+    } catch (e) {
+      showToast(getErrorMessage(e), "error");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const myMember = members.find((m) => m.user_id === access.userId);
+  const coachCount = members.filter((m) => m.role === "coach").length;
+
+  return (
+    <main className="min-h-screen bg-gray-50 p-4 md:p-6">
+      <div className="max-w-3xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl md:text-3xl font-bold">Organization</h1>
+            <p className="text-gray-600 text-sm mt-1">Share pitchers, teams and games with your staff and players</p>
+          </div>
+          <Button variant="outline" onClick={() => router.push("/home")}>
+            Back
+          </Button>
+        </div>
+
+        {storageBackend !== "supabase" ? (
+          <Card>
+            <CardContent className="py-12 text-center text-gray-500">
+              Organizations need the Supabase backend. Records saved on this device belong to you alone.
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            {memberships.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Workspace</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <div className="flex flex-wrap gap-2">
+                    <Button variant={membership ? "outline" : "default"} size="sm" onClick={() => setActiveOrg(null)}>
+                      My records
+                    </Button>
+                    {memberships.map((m) => (
+                      <Button
+                        key={m.org_id}
+                        variant={m.org_id === orgId ? "default" : "outline"}
+                        size="sm"
+                        onClick={() => setActiveOrg(m.org_id)}
+                      >
+                        {m.organization.name} · {ORG_ROLES[m.role]}
+                      </Button>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    The bullpen and scorebook show the pitchers, teams and games of the workspace selected here.
+                  </p>
+                </CardContent>
+              </Card>
+            )}
+
+            {membership && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>{membership.organization.name}</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {isCoach && (
+                    <div className="flex flex-wrap items-center justify-between gap-3 rounded-lg border bg-gray-50 p-3">
+                      <div className="text-sm">
+                        Join code:{" "}
+                        <span className="font-mono text-base font-semibold tracking-wider">
+                          {membership.organization.join_code}
+                        </span>
+                        <div className="text-xs text-gray-500">
+                          New members join as players; change their role below.
+                        </div>
+                      </div>
+                      <Button variant="outline" size="sm" onClick={handleShareRecords} disabled={busy}>
+                        Share my records
+                      </Button>
+                    </div>
+                  )}
+
+                  {loadingMembers ? (
+                    <div className="space-y-2">
+                      {[1, 2, 3].map((i) => (
+                        <Skeleton key={i} className="h-10 w-full" />
+                      ))}
+                    </div>
+                  ) : (
+                    <div className="divide-y">
+                      {members.map((member) => {
+                        const isMe = member.user_id === access.userId;
+                        // Keep at least one coach so the organization stays manageable
+                        const lastCoach = member.role === "coach" && coachCount === 1;
+                        return (
+                          <div key={member.id} className="py-3 flex flex-wrap items-center justify-between gap-3">
+                            <div className="min-w-0">
+                              <div className="font-medium truncate">
+                                {member.email ?? "Member"}
+                                {isMe && <span className="ml-2 text-xs text-gray-500">(you)</span>}
+                              </div>
+                              {!isCoach && <Badge variant="outline">{ORG_ROLES[member.role]}</Badge>}
+                            </div>
+
+                            {isCoach && (
+                              <div className="flex flex-wrap items-center gap-2">
+                                <Select
+                                  value={member.role}
+                                  onValueChange={(v) => isOrgRole(v) && handleUpdateMember(member, { role: v })}
+                                  disabled={lastCoach}
+                                >
+                                  <SelectTrigger className="w-[140px]" aria-label="Role">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {Object.entries(ORG_ROLES).map(([key, label]) => (
+                                      <SelectItem key={key} value={key}>
+                                        {label}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                                {member.role === "player" && (
+                                  <Select
+                                    value={member.pitcher_id ?? NO_PITCHER}
+                                    onValueChange={(v) =>
+                                      handleUpdateMember(member, { pitcher_id: v === NO_PITCHER ? null : v })
+                                    }
+                                  >
+                                    <SelectTrigger className="w-[180px]" aria-label="Pitcher">
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      <SelectItem value={NO_PITCHER}>No pitcher</SelectItem>
+                                      {pitchers.map((p) => (
+                                        <SelectItem key={p.id} value={p.id}>
+                                          {p.name}
+                                        </SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                )}
+                                {!isMe && (
+                                  <Button variant="ghost" size="sm" onClick={() => handleRemoveMember(member)}>
+                                    Remove
+                                  </Button>
+                                )}
+                              </div>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+
+                  {myMember && !(myMember.role === "coach" && coachCount === 1) && (
+                    <Button variant="outline" size="sm" onClick={() => handleRemoveMember(myMember)}>
+                      Leave organization
+                    </Button>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
+            <div className="grid gap-6 md:grid-cols-2">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Create an organization</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <form onSubmit={handleCreate} className="space-y-3">
+                    <div>
+                      <Label htmlFor="org-name">Name</Label>
+                      <Input
+                        id="org-name"
+                        value={orgName}
+                        onChange={(e) => setOrgName(e.target.value)}
+                        placeholder="e.g., Central High Baseball"
+                      />
+                    </div>
+                    <Button type="submit" disabled={busy || !orgName.trim()}>
+                      Create
+                    </Button>
+                    <p className="text-xs text-gray-500">You become its first coach.</p>
+                  </form>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Join an organization</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <form onSubmit={handleJoin} className="space-y-3">
+                    <div>
+                      <Label htmlFor="join-code">Join code</Label>
+                      <Input
+                        id="join-code"
+                        value={joinCode}
+                        onChange={(e) => setJoinCode(e.target.value.toUpperCase())}
+                        placeholder="From your coach"
+                        className="font-mono"
+                      />
+                    </div>
+                    <Button type="submit" disabled={busy || !joinCode.trim()}>
+                      Join
+                    </Button>
+                  </form>
+                </CardContent>
+              </Card>
+            </div>
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
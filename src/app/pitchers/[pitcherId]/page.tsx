@@ -0,0 +1,715 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useParams } from "next/navigation";
+import { type Session } from "@supabase/supabase-js";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Skeleton, SkeletonCard } from "@/components/ui/skeleton";
+import { LocationAnalysisCard } from "@/components/LocationAnalysisCard";
+import { PitcherProfileCard, type PitcherProfile } from "@/components/PitcherProfileCard";
+import { useToast } from "@/components/ui/toast";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { supabase } from "@/lib/supabaseClient";
+import { getErrorMessage } from "@/lib/api";
+import { repositories } from "@/lib/repository";
+import { accessFor, canEdit } from "@/lib/organizations";
+import { useOrganization } from "@/components/OrganizationProvider";
+import { computeSummaryStats } from "@/lib/strikeZone";
+import {
+  fetchAthleteGamePitching,
+  isArmSlot,
+  linkPlayerToPitcher,
+  type AthleteGamePitching,
+} from "@/lib/athletes";
+import { fetchLinkedPlayers, fetchTeams, fetchThrowingPlayers } from "@/lib/scorebook/db";
+import { formatDecisions } from "@/lib/scorebook/decisions";
+import { formatERA } from "@/lib/scorebook/stats";
+import { isPlayLevel, type SavedPlayer } from "@/lib/scorebook/types";
+
+type PitcherRow = {
+  id: string;
+  user_id: string;
+  org_id: string | null;
+  name: string;
+  throwing_hand: "R" | "L" | null;
+  level: string | null;
+  height_inches: number | null;
+  arm_slot: string | null;
+  goals: string | null;
+};
+
+type PitchRow = {
+  id: string;
+  session_id: string;
+  pitch_type: string;
+  intended_location_zone_id: string | null;
+  actual_location_zone_id: string | null;
+  target_x: number | null;
+  target_y: number | null;
+  actual_x: number | null;
+  actual_y: number | null;
+  batter_side: string | null;
+  velocity: number | null;
+  spin_rate: number | null;
+  notes: string | null;
+  created_at: string | null;
+};
+
+type SessionRow = {
+  id: string;
+  session_date: string;
+  label: string | null;
+  notes: string | null;
+  created_at: string;
+};
+
+type SessionVideoRow = {
+  id: string;
+  session_id: string;
+  video_url: string;
+  original_filename: string | null;
+  created_at: string;
+};
+
+type NoteItem = {
+  key: string;
+  date: string;
+  sessionId: string;
+  source: string;
+  text: string;
+};
+
+const ALL_TYPES = "ALL";
+const RECENT_VIDEOS = 5;
+const RECENT_NOTES = 8;
+
+function formatPercent(value: number) {
+  return `${Math.round(value * 100)}%`;
+}
+
+function toProfile(pitcher: PitcherRow): PitcherProfile {
+  return {
+    height_inches: pitcher.height_inches,
+    level: isPlayLevel(pitcher.level) ? pitcher.level : null,
+    arm_slot: isArmSlot(pitcher.arm_slot) ? pitcher.arm_slot : null,
+    goals: pitcher.goals,
+  };
+}
+
+function playerName(player: SavedPlayer) {
+  return `${player.first_name} ${player.last_name}${player.jersey_number ? ` #${player.jersey_number}` : ""}`;
+}
+
+export default function PitcherProfilePage() {
+  const params = useParams<{ pitcherId: string }>();
+  const pitcherId = params?.pitcherId;
+  const { showToast } = useToast();
+  const { memberships } = useOrganization();
+
+  const [authSession, setAuthSession] = useState<Session | null>(null);
+  const [pitcher, setPitcher] = useState<PitcherRow | null>(null);
+  const [pitches, setPitches] = useState<PitchRow[]>([]);
+  const [sessions, setSessions] = useState<SessionRow[]>([]);
+  const [videos, setVideos] = useState<SessionVideoRow[]>([]);
+  const [heatmapType, setHeatmapType] = useState<string>(ALL_TYPES);
+  const [linkedPlayers, setLinkedPlayers] = useState<SavedPlayer[]>([]);
+  const [throwingPlayers, setThrowingPlayers] = useState<SavedPlayer[]>([]);
+  const [teamNames, setTeamNames] = useState<Map<string, string>>(new Map());
+  const [gamePitching, setGamePitching] = useState<AthleteGamePitching | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [linkPlayerId, setLinkPlayerId] = useState("");
+  const [linking, setLinking] = useState(false);
+
+  const userId = authSession?.user?.id;
+
+  useEffect(() => {
+    if (!supabase) return;
+    supabase.auth.getSession().then(({ data, error }) => {
+      if (error) {
+        console.error(error);
+        return;
+      }
+      setAuthSession(data.session ?? null);
+    });
+
+    const { data: sub } = supabase.auth.onAuthStateChange((_event, nextSession) => {
+      setAuthSession(nextSession);
+    });
+
+    return () => {
+      sub?.subscription.unsubscribe();
+    };
+  }, []);
+
+  // Pitcher, bullpen pitches and linked players
+  useEffect(() => {
+    if (!userId || !pitcherId) return;
+
+    const load = async () => {
+      setLoading(true);
+      try {
+        // Players to link come from the teams shared alongside the pitcher
+        const pitcherData = await repositories.pitchers.get(pitcherId);
+        const scope = { userId, orgId: pitcherData?.org_id ?? null };
+        const [sessionsData, pitchesData, linked, throwing, teams] = await Promise.all([
+          repositories.sessions.list({ pitcherId }),
+          repositories.pitches.list({ pitcherId }),
+          fetchLinkedPlayers(pitcherId),
+          fetchThrowingPlayers(scope),
+          fetchTeams(scope),
+        ]);
+
+        const videosData = await repositories.videos.listBySessions(
+          sessionsData.map((row) => row.id),
+          RECENT_VIDEOS
+        );
+
+        setPitcher(pitcherData);
+        setSessions(sessionsData);
+        setPitches(pitchesData);
+        setVideos(videosData);
+        setLinkedPlayers(linked);
+        setThrowingPlayers(throwing);
+        setTeamNames(new Map(teams.map((t) => [t.id, t.name])));
+      } catch (e: unknown) {
+        console.error(e);
+        showToast(getErrorMessage(e) || "Failed to load pitcher", "error");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [userId, pitcherId, showToast]);
+
+  // Game pitching follows the linked players
+  useEffect(() => {
+    if (!linkedPlayers.length) return;
+
+    let cancelled = false;
+    fetchAthleteGamePitching(linkedPlayers)
+      .then((result) => {
+        if (!cancelled) setGamePitching(result);
+      })
+      .catch((e: unknown) => {
+        console.error(e);
+        if (!cancelled) showToast(getErrorMessage(e) || "Failed to load game pitching", "error");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [linkedPlayers, showToast]);
+
+  const bullpenStats = useMemo(() => computeSummaryStats(pitches), [pitches]);
+  const sessionCount = useMemo(() => new Set(pitches.map((p) => p.session_id)).size, [pitches]);
+
+  const sessionStats = useMemo(() => {
+    const bySession = new Map<string, PitchRow[]>();
+    for (const pitch of pitches) {
+      const list = bySession.get(pitch.session_id) ?? [];
+      list.push(pitch);
+      bySession.set(pitch.session_id, list);
+    }
+    return new Map([...bySession].map(([id, list]) => [id, computeSummaryStats(list)]));
+  }, [pitches]);
+
+  // One card per pitch type, most used first
+  const arsenal = useMemo(() => {
+    const byType = new Map<string, PitchRow[]>();
+    for (const pitch of pitches) {
+      const list = byType.get(pitch.pitch_type) ?? [];
+      list.push(pitch);
+      byType.set(pitch.pitch_type, list);
+    }
+    return [...byType]
+      .map(([type, list]) => {
+        const spins = list.map((p) => p.spin_rate).filter((v): v is number => v !== null);
+        return {
+          type,
+          usage: list.length / pitches.length,
+          stats: computeSummaryStats(list),
+          avgSpin: spins.length ? spins.reduce((sum, v) => sum + v, 0) / spins.length : null,
+        };
+      })
+      .sort((a, b) => b.stats.total - a.stats.total);
+  }, [pitches]);
+
+  const heatmapPitches = useMemo(
+    () => (heatmapType === ALL_TYPES ? pitches : pitches.filter((p) => p.pitch_type === heatmapType)),
+    [pitches, heatmapType]
+  );
+
+  // Session notes and pitch notes together, newest first
+  const recentNotes = useMemo(() => {
+    const sessionDates = new Map(sessions.map((row) => [row.id, row.session_date]));
+    const notes: NoteItem[] = [
+      ...sessions
+        .filter((row) => row.notes?.trim())
+        .map((row) => ({
+          key: `session-${row.id}`,
+          date: row.session_date,
+          sessionId: row.id,
+          source: row.label || "Session",
+          text: row.notes as string,
+        })),
+      ...pitches
+        .filter((p) => p.notes?.trim())
+        .map((p) => ({
+          key: `pitch-${p.id}`,
+          date: sessionDates.get(p.session_id) ?? p.created_at?.slice(0, 10) ?? "",
+          sessionId: p.session_id,
+          source: p.pitch_type,
+          text: p.notes as string,
+        })),
+    ];
+    return notes.sort((a, b) => b.date.localeCompare(a.date)).slice(0, RECENT_NOTES);
+  }, [sessions, pitches]);
+
+  const sessionDateById = useMemo(() => new Map(sessions.map((row) => [row.id, row.session_date])), [sessions]);
+
+  async function handleSaveProfile(profile: PitcherProfile) {
+    if (!pitcherId) return;
+    try {
+      await repositories.pitchers.update(pitcherId, profile);
+      setPitcher((prev) => (prev ? { ...prev, ...profile } : prev));
+      showToast("Profile saved", "success");
+    } catch (e: unknown) {
+      console.error(e);
+      showToast(getErrorMessage(e) || "Failed to save profile", "error");
+      throw e;
+    }
+  }
+
+  // Players already linked to another pitcher stay with them until unlinked there
+  const linkablePlayers = throwingPlayers.filter((p) => !p.pitcher_id);
+  // Players can see their own pitcher but only coaches change it
+  const editable = !!pitcher && !!userId && canEdit(accessFor(userId, memberships, pitcher.org_id), pitcher);
+
+  async function handleLink() {
+    if (!pitcherId || !linkPlayerId) return;
+    setLinking(true);
+    try {
+      const updated = await linkPlayerToPitcher(linkPlayerId, pitcherId);
+      setLinkedPlayers((prev) => [...prev, updated]);
+      setThrowingPlayers((prev) => prev.map((p) => (p.id === updated.id ? updated : p)));
+      setLinkPlayerId("");
+      showToast(`Linked ${playerName(updated)}`, "success");
+    } catch (e: unknown) {
+      console.error(e);
+      showToast(getErrorMessage(e) || "Failed to link player", "error");
+    } finally {
+      setLinking(false);
+    }
+  }
+
+  async function handleUnlink(player: SavedPlayer) {
+    try {
+      const updated = await linkPlayerToPitcher(player.id, null);
+      const remaining = linkedPlayers.filter((p) => p.id !== player.id);
+      setLinkedPlayers(remaining);
+      setThrowingPlayers((prev) => prev.map((p) => (p.id === updated.id ? updated : p)));
+      if (!remaining.length) setGamePitching(null);
+      showToast(`Unlinked ${playerName(player)}`, "success");
+    } catch (e: unknown) {
+      console.error(e);
+      showToast(getErrorMessage(e) || "Failed to unlink player", "error");
+    }
+  }
+
+  if (!authSession) {
+    return null;
+  }
+
+  return (
+    <main className="min-h-screen p-6 flex flex-col gap-6">
+      <header className="flex items-center justify-between gap-3 flex-wrap">
+        <div>
+          {loading && !pitcher ? (
+            <Skeleton className="h-9 w-48" />
+          ) : (
+            <h1 className="text-3xl font-bold">
+              {pitcher?.name ?? "Pitcher not found"}
+              {pitcher?.throwing_hand && (
+                <span className="ml-2 text-lg font-normal text-gray-500">{pitcher.throwing_hand}HP</span>
+              )}
+            </h1>
+          )}
+          <p className="text-gray-600">Bullpen work and game pitching in one place.</p>
+        </div>
+        <Button asChild variant="outline">
+          <Link href="/bullpen">Back to Bullpen</Link>
+        </Button>
+      </header>
+
+      {loading ? (
+        <div className="grid gap-6 md:grid-cols-2">
+          <SkeletonCard />
+          <SkeletonCard />
+        </div>
+      ) : (
+        <>
+          {pitcher && (
+            <PitcherProfileCard profile={toProfile(pitcher)} onSave={handleSaveProfile} readOnly={!editable} />
+          )}
+
+          <div className="grid gap-6 md:grid-cols-2">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle>Bullpen command</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {bullpenStats.total === 0 ? (
+                  <p className="text-sm text-gray-500">No bullpen pitches logged yet.</p>
+                ) : (
+                  <div className="grid grid-cols-2 gap-3 text-sm">
+                    <div className="rounded-lg border p-3">
+                      <div className="text-gray-500">Pitches</div>
+                      <div className="text-xl font-semibold">{bullpenStats.total}</div>
+                      <div className="text-xs text-gray-500">
+                        {sessionCount} session{sessionCount !== 1 ? "s" : ""}
+                      </div>
+                    </div>
+                    <div className="rounded-lg border p-3">
+                      <div className="text-gray-500">Hit target</div>
+                      <div className="text-xl font-semibold">{formatPercent(bullpenStats.accuracyRate)}</div>
+                      <div className="text-xs text-gray-500">{formatPercent(bullpenStats.inZoneRate)} in zone</div>
+                    </div>
+                    {bullpenStats.velocityCount > 0 && (
+                      <div className="rounded-lg border p-3 col-span-2">
+                        <div className="text-gray-500">Velocity</div>
+                        <div className="text-xl font-semibold">
+                          {bullpenStats.avgVelocity?.toFixed(1)} avg · {bullpenStats.maxVelocity?.toFixed(1)} max
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle>Game pitching</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {!linkedPlayers.length ? (
+                  <p className="text-sm text-gray-500">Link a scorebook player to see game pitching.</p>
+                ) : !gamePitching ? (
+                  <Skeleton className="h-20 w-full" />
+                ) : gamePitching.totals.length === 0 ? (
+                  <p className="text-sm text-gray-500">No game appearances on the mound yet.</p>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b text-gray-500">
+                          <th className="text-left py-2 px-2 font-medium">Team</th>
+                          <th className="text-right py-2 px-2 font-medium">G</th>
+                          <th className="text-right py-2 px-2 font-medium">IP</th>
+                          <th className="text-right py-2 px-2 font-medium">ERA</th>
+                          <th className="text-right py-2 px-2 font-medium">K</th>
+                          <th className="text-right py-2 px-2 font-medium">BB</th>
+                          <th className="text-right py-2 px-2 font-medium">Strike%</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {gamePitching.totals.map((line) => (
+                          <tr key={line.playerId} className="border-b border-gray-100">
+                            <td className="py-2 px-2">{line.teamName}</td>
+                            <td className="py-2 px-2 text-right tabular-nums">{line.games}</td>
+                            <td className="py-2 px-2 text-right tabular-nums">{line.ipDisplay}</td>
+                            <td className="py-2 px-2 text-right tabular-nums">{formatERA(line.era)}</td>
+                            <td className="py-2 px-2 text-right tabular-nums">{line.k}</td>
+                            <td className="py-2 px-2 text-right tabular-nums">{line.bb}</td>
+                            <td className="py-2 px-2 text-right tabular-nums">
+                              {line.pitchesTracked ? formatPercent(line.strikePct) : "—"}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          {arsenal.length > 0 && (
+            <div>
+              <h2 className="text-xl font-semibold mb-3">Arsenal</h2>
+              <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+                {arsenal.map(({ type, usage, stats, avgSpin }) => (
+                  <Card key={type}>
+                    <CardHeader className="pb-2">
+                      <CardTitle className="flex items-center justify-between">
+                        <span>{type}</span>
+                        <Badge variant="outline">{formatPercent(usage)} usage</Badge>
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent className="text-sm space-y-1">
+                      <div className="flex justify-between">
+                        <span className="text-gray-500">Pitches</span>
+                        <span className="tabular-nums">{stats.total}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-gray-500">Hit target</span>
+                        <span className="tabular-nums">{formatPercent(stats.accuracyRate)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-gray-500">In zone</span>
+                        <span className="tabular-nums">{formatPercent(stats.inZoneRate)}</span>
+                      </div>
+                      {stats.velocityCount > 0 && (
+                        <div className="flex justify-between">
+                          <span className="text-gray-500">Velo</span>
+                          <span className="tabular-nums">
+                            {stats.avgVelocity?.toFixed(1)} avg · {stats.maxVelocity?.toFixed(1)} max
+                          </span>
+                        </div>
+                      )}
+                      {avgSpin !== null && (
+                        <div className="flex justify-between">
+                          <span className="text-gray-500">Spin</span>
+                          <span className="tabular-nums">{Math.round(avgSpin)} rpm</span>
+                        </div>
+                      )}
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {pitches.length > 0 && (
+            <LocationAnalysisCard
+              title="Lifetime location"
+              throws={pitcher?.throwing_hand ?? null}
+              pitches={heatmapPitches}
+              filters={
+                <div className="max-w-[220px]">
+                  <Label htmlFor="heatmap-type" className="block text-sm font-medium mb-1">
+                    Pitch type
+                  </Label>
+                  <Select value={heatmapType} onValueChange={setHeatmapType}>
+                    <SelectTrigger id="heatmap-type" className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL_TYPES}>All</SelectItem>
+                      {arsenal.map(({ type }) => (
+                        <SelectItem key={type} value={type}>
+                          {type}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              }
+            />
+          )}
+
+          <div className="grid gap-6 md:grid-cols-3">
+            <Card className="md:col-span-2">
+              <CardHeader className="pb-2">
+                <CardTitle>Sessions</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {sessions.length === 0 ? (
+                  <p className="text-sm text-gray-500">No sessions yet.</p>
+                ) : (
+                  <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+                    {sessions.map((row) => {
+                      const stats = sessionStats.get(row.id);
+                      return (
+                        <li key={row.id} className="ml-4">
+                          <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-gray-300" />
+                          <div className="flex flex-wrap items-baseline justify-between gap-2">
+                            <Link href={`/sessions/${row.id}`} className="font-medium hover:underline">
+                              {row.session_date}
+                              {row.label ? ` — ${row.label}` : ""}
+                            </Link>
+                            <span className="text-xs text-gray-500 tabular-nums">
+                              {stats
+                                ? `${stats.total} pitches · ${formatPercent(stats.accuracyRate)} hit target`
+                                : "No pitches"}
+                            </span>
+                          </div>
+                          {row.notes && <p className="text-sm text-gray-600 whitespace-pre-wrap">{row.notes}</p>}
+                        </li>
+                      );
+                    })}
+                  </ol>
+                )}
+              </CardContent>
+            </Card>
+
+            <div className="flex flex-col gap-6">
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle>Recent videos</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {videos.length === 0 ? (
+                    <p className="text-sm text-gray-500">No videos yet.</p>
+                  ) : (
+                    <ul className="space-y-2 text-sm">
+                      {videos.map((video) => (
+                        <li key={video.id}>
+                          <Link href={`/video/${video.session_id}`} className="font-medium hover:underline">
+                            {sessionDateById.get(video.session_id) ?? "Session"}
+                          </Link>
+                          <div className="text-xs text-gray-500 truncate">
+                            {video.original_filename ?? video.video_url}
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle>Recent notes</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {recentNotes.length === 0 ? (
+                    <p className="text-sm text-gray-500">No notes yet.</p>
+                  ) : (
+                    <ul className="space-y-3 text-sm">
+                      {recentNotes.map((note) => (
+                        <li key={note.key}>
+                          <div className="text-xs text-gray-500">
+                            <Link href={`/sessions/${note.sessionId}`} className="hover:underline">
+                              {note.date}
+                            </Link>{" "}
+                            · {note.source}
+                          </div>
+                          <p className="whitespace-pre-wrap">{note.text}</p>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          </div>
+
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle>Scorebook players</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {linkedPlayers.length > 0 && (
+                <div className="divide-y">
+                  {linkedPlayers.map((player) => (
+                    <div key={player.id} className="py-2 flex items-center justify-between gap-3">
+                      <div>
+                        <span className="font-medium">{playerName(player)}</span>
+                        <span className="ml-2 text-sm text-gray-500">{teamNames.get(player.team_id) ?? "Team"}</span>
+                        {player.throws && (
+                          <Badge variant="outline" className="ml-2">
+                            T: {player.throws}
+                          </Badge>
+                        )}
+                      </div>
+                      {editable && (
+                        <Button variant="ghost" size="sm" onClick={() => handleUnlink(player)}>
+                          Unlink
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {editable && (
+                <div className="flex flex-wrap items-end gap-3">
+                  <div className="min-w-[240px] flex-1">
+                    <Label htmlFor="link-player" className="block text-sm font-medium mb-1">
+                      Link a player who throws
+                    </Label>
+                    <Select value={linkPlayerId} onValueChange={setLinkPlayerId} disabled={!linkablePlayers.length}>
+                      <SelectTrigger id="link-player" className="w-full">
+                        <SelectValue placeholder={linkablePlayers.length ? "Choose a player" : "No unlinked players"} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {linkablePlayers.map((player) => (
+                          <SelectItem key={player.id} value={player.id}>
+                            {playerName(player)} — {teamNames.get(player.team_id) ?? "Team"}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Button onClick={handleLink} disabled={!linkPlayerId || linking}>
+                    {linking ? "Linking..." : "Link"}
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {gamePitching && gamePitching.games.length > 0 && (
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle>Game log</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b text-gray-500">
+                        <th className="text-left py-2 px-2 font-medium">Date</th>
+                        <th className="text-left py-2 px-2 font-medium">Game</th>
+                        <th className="text-right py-2 px-2 font-medium">IP</th>
+                        <th className="text-right py-2 px-2 font-medium">H</th>
+                        <th className="text-right py-2 px-2 font-medium">R</th>
+                        <th className="text-right py-2 px-2 font-medium">ER</th>
+                        <th className="text-right py-2 px-2 font-medium">BB</th>
+                        <th className="text-right py-2 px-2 font-medium">K</th>
+                        <th className="text-right py-2 px-2 font-medium">PC</th>
+                        <th className="text-right py-2 px-2 font-medium">Dec</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {gamePitching.games.map((line) => (
+                        <tr key={`${line.gameId}-${line.lineupId}`} className="border-b border-gray-100">
+                          <td className="py-2 px-2 tabular-nums">{line.gameDate}</td>
+                          <td className="py-2 px-2">
+                            <Link href={`/scorebook/${line.gameId}`} className="hover:underline">
+                              {line.teamName} vs {line.opponent}
+                            </Link>
+                          </td>
+                          <td className="py-2 px-2 text-right tabular-nums">{line.ipDisplay}</td>
+                          <td className="py-2 px-2 text-right tabular-nums">{line.h}</td>
+                          <td className="py-2 px-2 text-right tabular-nums">{line.r}</td>
+                          <td className="py-2 px-2 text-right tabular-nums">{line.er}</td>
+                          <td className="py-2 px-2 text-right tabular-nums">{line.bb}</td>
+                          <td className="py-2 px-2 text-right tabular-nums">{line.k}</td>
+                          <td className="py-2 px-2 text-right tabular-nums">{line.pc}</td>
+                          <td className="py-2 px-2 text-right">{formatDecisions(line.decisions) || "—"}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+    </main>
+  );
+}
@@ -11,6 +11,11 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/components/ui/toast";
 import { ScorekeeperInterface } from "@/components/scorebook/ScorekeeperInterface";
 import { LineupEditor } from "@/components/scorebook/LineupEditor";
+import { ScorebookSyncStatus } from "@/components/scorebook/ScorebookSyncStatus";
+import { GameShareControl } from "@/components/scorebook/GameShareControl";
+import { useOrganization } from "@/components/OrganizationProvider";
+import { accessFor, canEdit, canScoreGame } from "@/lib/organizations";
+import { storageBackend } from "@/lib/repository";
 import type { Session } from "@supabase/supabase-js";
 import type { TeamSide } from "@/lib/scorebook/types";
 
@@ -19,6 +24,7 @@ export default function GameScoringPage() {
   const params = useParams();
   const gameId = params.gameId as string;
   const { showToast } = useToast();
+  const { memberships, assignedGameIds } = useOrganization();
 
   const [session, setSession] = useState<Session | null>(null);
   const [gameData, setGameData] = useState<FullGameData | null>(null);
@@ -72,6 +78,23 @@ export default function GameScoringPage() {
     }
   }, [session?.user?.id, gameId, loadGameData]);
 
+  // Players and unassigned scorekeepers can only read the game
+  const access = session && gameData ? accessFor(session.user.id, memberships, gameData.game.org_id) : null;
+  const canScore = !!access && !!gameData && canScoreGame(access, gameData.game, assignedGameIds);
+  // Live links are public reads of the database, so only the owner hands them out
+  const canShare = storageBackend === "supabase" && !!access && !!gameData && canEdit(access, gameData.game);
+
+  const handleShareChange = useCallback((shareToken: string | null) => {
+    setGameData((prev) => (prev ? { ...prev, game: { ...prev.game, share_token: shareToken } } : prev));
+  }, []);
+
+  useEffect(() => {
+    if (gameData && !canScore) {
+      showToast("You can view this game but not score it", "info");
+      router.replace(`/scorebook/${gameId}/box-score`);
+    }
+  }, [gameData, canScore, gameId, router, showToast]);
+
   if (!session) {
     return null;
   }
@@ -90,7 +113,7 @@ export default function GameScoringPage() {
     );
   }
 
-  if (!gameData) {
+  if (!gameData || !canScore) {
     return null;
   }
 
@@ -140,6 +163,10 @@ export default function GameScoringPage() {
             </p>
           </div>
           <div className="flex items-center gap-2">
+            <ScorebookSyncStatus gameId={gameId} onSynced={loadGameData} />
+            {canShare && (
+              <GameShareControl gameId={gameId} shareToken={game.share_token} onChange={handleShareChange} />
+            )}
             <Button variant="outline" onClick={() => router.push(`/scorebook/${gameId}/scoresheet`)}>
               Scoresheet
             </Button>
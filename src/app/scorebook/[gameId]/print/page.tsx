@@ -13,12 +13,16 @@ import {
   formatAverage,
   formatERA,
 } from "@/lib/scorebook/stats";
+import { computeEarnedRuns } from "@/lib/scorebook/earnedRuns";
+import { computePitchingDecisions, formatDecisions } from "@/lib/scorebook/decisions";
 import {
   generateGameCSV,
   generateBoxScoreCSV,
   downloadCSV,
+  downloadFile,
   generateExportFilename,
 } from "@/lib/scorebook/export";
+import { generateRetrosheetEvents, generateRetrosheetFilename } from "@/lib/scorebook/retrosheet";
 import type { Session } from "@supabase/supabase-js";
 
 export default function PrintScorebookPage() {
@@ -113,6 +117,11 @@ export default function PrintScorebookPage() {
     downloadCSV(csv, filename);
   };
 
+  const handleExportRetrosheet = () => {
+    if (!gameData) return;
+    downloadFile(generateRetrosheetEvents(gameData), generateRetrosheetFilename(gameData.game));
+  };
+
   if (!session || loading) {
     return (
       <main className="min-h-screen bg-white p-6">
@@ -125,13 +134,15 @@ export default function PrintScorebookPage() {
     return null;
   }
 
-  const { game, homeLineup, awayLineup, atBats, plays } = gameData;
+  const { game, homeLineup, awayLineup, atBats, plays, pitches } = gameData;
 
   // Compute stats for print
   const awayBatting = computeTeamBattingStats(atBats, plays, awayLineup);
   const homeBatting = computeTeamBattingStats(atBats, plays, homeLineup);
-  const awayPitching = computeTeamPitchingStats(atBats, plays, awayLineup);
-  const homePitching = computeTeamPitchingStats(atBats, plays, homeLineup);
+  const earnedRuns = computeEarnedRuns(gameData);
+  const decisions = computePitchingDecisions(gameData, earnedRuns);
+  const awayPitching = computeTeamPitchingStats(atBats, plays, awayLineup, { pitches, earnedRuns, decisions });
+  const homePitching = computeTeamPitchingStats(atBats, plays, homeLineup, { pitches, earnedRuns, decisions });
   const maxInning = Math.max(game.current_inning, ...atBats.map((ab) => ab.inning), 1);
   const lineScore = computeLineScore(atBats, plays, maxInning);
 
@@ -312,7 +323,10 @@ export default function PrintScorebookPage() {
               ) : (
                 awayPitching.pitchers.map((p) => (
                   <tr key={p.lineupId}>
-                    <td className="border border-gray-400 px-1 py-1">{p.playerName}</td>
+                    <td className="border border-gray-400 px-1 py-1">
+                      {p.playerName}
+                      {p.decisions.length > 0 && ` (${formatDecisions(p.decisions)})`}
+                    </td>
                     <td className="border border-gray-400 px-1 py-1 text-center">{p.ipDisplay}</td>
                     <td className="border border-gray-400 px-1 py-1 text-center">{p.h}</td>
                     <td className="border border-gray-400 px-1 py-1 text-center">{p.r}</td>
@@ -350,7 +364,10 @@ export default function PrintScorebookPage() {
               ) : (
                 homePitching.pitchers.map((p) => (
                   <tr key={p.lineupId}>
-                    <td className="border border-gray-400 px-1 py-1">{p.playerName}</td>
+                    <td className="border border-gray-400 px-1 py-1">
+                      {p.playerName}
+                      {p.decisions.length > 0 && ` (${formatDecisions(p.decisions)})`}
+                    </td>
                     <td className="border border-gray-400 px-1 py-1 text-center">{p.ipDisplay}</td>
                     <td className="border border-gray-400 px-1 py-1 text-center">{p.h}</td>
                     <td className="border border-gray-400 px-1 py-1 text-center">{p.r}</td>
@@ -385,6 +402,12 @@ export default function PrintScorebookPage() {
         >
           Export Box Score CSV
         </button>
+        <button
+          onClick={handleExportRetrosheet}
+          className="px-4 py-2 bg-green-500 text-white hover:bg-green-600 rounded"
+        >
+          Export Retrosheet
+        </button>
         <button
           onClick={() => router.push(`/scorebook/${gameId}`)}
           className="px-4 py-2 bg-gray-100 hover:bg-gray-200 rounded"
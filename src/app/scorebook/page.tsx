@@ -1,9 +1,10 @@
 "use client";
 
-import { useEffect, useState, useCallback } from "react";
+import { useEffect, useState, useCallback, useRef } from "react";
 import { useRouter } from "next/navigation";
 import { supabase } from "@/lib/supabaseClient";
-import { fetchGames, deleteGame, getErrorMessage } from "@/lib/scorebook/db";
+import { fetchGames, deleteGame, importGameData, getErrorMessage } from "@/lib/scorebook/db";
+import { parseRetrosheetEvents } from "@/lib/scorebook/retrosheet";
 import type { Game } from "@/lib/scorebook/types";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -11,16 +12,36 @@ import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/components/ui/toast";
 import { useConfirm } from "@/components/ui/confirm-dialog";
+import { useOrganization } from "@/components/OrganizationProvider";
+import { ScorekeeperAssignments } from "@/components/scorebook/ScorekeeperAssignments";
+import {
+  activeOrgId,
+  canManage,
+  canScoreGame,
+  canViewGame,
+  fetchOrgMembers,
+  fetchScorekeeperAssignments,
+  type OrgMember,
+  type ScorekeeperAssignment,
+} from "@/lib/organizations";
 import type { Session } from "@supabase/supabase-js";
 
 export default function ScorebookDashboard() {
   const router = useRouter();
   const { showToast } = useToast();
   const confirm = useConfirm();
+  const { access, assignedGameIds } = useOrganization();
+  const orgId = activeOrgId(access);
+  const manage = canManage(access);
 
   const [session, setSession] = useState<Session | null>(null);
   const [games, setGames] = useState<Game[]>([]);
+  // Only loaded for coaches, who assign scorekeepers to games
+  const [scorekeepers, setScorekeepers] = useState<OrgMember[]>([]);
+  const [assignments, setAssignments] = useState<ScorekeeperAssignment[]>([]);
   const [loading, setLoading] = useState(true);
+  const [importing, setImporting] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   // Auth check
   useEffect(() => {
@@ -49,14 +70,23 @@ export default function ScorebookDashboard() {
 
     setLoading(true);
     try {
-      const data = await fetchGames(session.user.id);
-      setGames(data);
+      const data = await fetchGames({ userId: session.user.id, orgId });
+      setGames(data.filter((g) => canViewGame(access, g, assignedGameIds)));
+
+      if (orgId && manage) {
+        const [members, nextAssignments] = await Promise.all([
+          fetchOrgMembers(orgId),
+          fetchScorekeeperAssignments(orgId),
+        ]);
+        setScorekeepers(members.filter((m) => m.role === "scorekeeper"));
+        setAssignments(nextAssignments);
+      }
     } catch (e) {
       showToast(getErrorMessage(e), "error");
     } finally {
       setLoading(false);
     }
-  }, [session?.user?.id, showToast]);
+  }, [session?.user?.id, orgId, manage, access, assignedGameIds, showToast]);
 
   useEffect(() => {
     if (session?.user?.id) {
@@ -83,6 +113,40 @@ export default function ScorebookDashboard() {
     }
   };
 
+  const handleImportRetrosheet = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file || !session?.user?.id) return;
+
+    setImporting(true);
+    try {
+      const parsed = parseRetrosheetEvents(await file.text(), session.user.id, orgId);
+      for (const gameData of parsed) {
+        await importGameData(gameData);
+      }
+      showToast(`Imported ${parsed.length} game${parsed.length !== 1 ? "s" : ""}`, "success");
+      loadGames();
+    } catch (err) {
+      showToast(getErrorMessage(err), "error");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleAssignmentsChange = (gameId: string, userIds: string[]) => {
+    setAssignments((prev) => [
+      ...prev.filter((a) => a.game_id !== gameId),
+      ...userIds.map((userId) => ({ game_id: gameId, user_id: userId })),
+    ]);
+  };
+
+  // Players and unassigned staff can read a game but not score it
+  const openGame = (game: Game) => {
+    router.push(
+      canScoreGame(access, game, assignedGameIds) ? `/scorebook/${game.id}` : `/scorebook/${game.id}/box-score`
+    );
+  };
+
   const getStatusBadgeVariant = (status: Game["status"]) => {
     switch (status) {
       case "in_progress":
@@ -132,7 +196,25 @@ export default function ScorebookDashboard() {
             <Button variant="outline" onClick={() => router.push("/scorebook/teams")}>
               Teams
             </Button>
-            <Button onClick={() => router.push("/scorebook/new")}>New Game</Button>
+            {manage && (
+              <>
+                <Button
+                  variant="outline"
+                  onClick={() => importInputRef.current?.click()}
+                  disabled={importing}
+                >
+                  {importing ? "Importing..." : "Import"}
+                </Button>
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  accept=".evn,.eva,.txt"
+                  className="hidden"
+                  onChange={handleImportRetrosheet}
+                />
+                <Button onClick={() => router.push("/scorebook/new")}>New Game</Button>
+              </>
+            )}
           </div>
         </div>
 
@@ -145,8 +227,18 @@ export default function ScorebookDashboard() {
         ) : games.length === 0 ? (
           <Card>
             <CardContent className="py-12 text-center">
-              <p className="text-gray-500 mb-4">No games yet</p>
-              <Button onClick={() => router.push("/scorebook/new")}>Start Your First Game</Button>
+              {manage ? (
+                <>
+                  <p className="text-gray-500 mb-4">No games yet</p>
+                  <Button onClick={() => router.push("/scorebook/new")}>Start Your First Game</Button>
+                </>
+              ) : (
+                <p className="text-gray-500">
+                  {access.membership?.role === "scorekeeper"
+                    ? "No games have been assigned to you yet"
+                    : "No games yet"}
+                </p>
+              )}
             </CardContent>
           </Card>
         ) : (
@@ -155,7 +247,7 @@ export default function ScorebookDashboard() {
               <Card
                 key={game.id}
                 className="cursor-pointer hover:bg-gray-50 transition-colors"
-                onClick={() => router.push(`/scorebook/${game.id}`)}
+                onClick={() => openGame(game)}
               >
                 <CardContent className="py-4">
                   <div className="flex items-center justify-between">
@@ -179,35 +271,48 @@ export default function ScorebookDashboard() {
                           {getStatusLabel(game.status)}
                         </Badge>
                       </div>
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          handleDeleteGame(
-                            game.id,
-                            `${game.away_team_name} @ ${game.home_team_name}`
-                          );
-                        }}
-                      >
-                        <svg
-                          xmlns="http://www.w3.org/2000/svg"
-                          width="16"
-                          height="16"
-                          viewBox="0 0 24 24"
-                          fill="none"
-                          stroke="currentColor"
-                          strokeWidth="2"
-                          strokeLinecap="round"
-                          strokeLinejoin="round"
+                      {manage && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleDeleteGame(
+                              game.id,
+                              `${game.away_team_name} @ ${game.home_team_name}`
+                            );
+                          }}
                         >
-                          <path d="M3 6h18" />
-                          <path d="M19 6v14c0 1-1 2-2 2H7c-1 0-2-1-2-2V6" />
-                          <path d="M8 6V4c0-1 1-2 2-2h4c1 0 2 1 2 2v2" />
-                        </svg>
-                      </Button>
+                          <svg
+                            xmlns="http://www.w3.org/2000/svg"
+                            width="16"
+                            height="16"
+                            viewBox="0 0 24 24"
+                            fill="none"
+                            stroke="currentColor"
+                            strokeWidth="2"
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                          >
+                            <path d="M3 6h18" />
+                            <path d="M19 6v14c0 1-1 2-2 2H7c-1 0-2-1-2-2V6" />
+                            <path d="M8 6V4c0-1 1-2 2-2h4c1 0 2 1 2 2v2" />
+                          </svg>
+                        </Button>
+                      )}
                     </div>
                   </div>
+                  {orgId && manage && (
+                    <div className="mt-3 border-t pt-3">
+                      <ScorekeeperAssignments
+                        gameId={game.id}
+                        orgId={orgId}
+                        scorekeepers={scorekeepers}
+                        assignedUserIds={assignments.filter((a) => a.game_id === game.id).map((a) => a.user_id)}
+                        onChange={(userIds) => handleAssignmentsChange(game.id, userIds)}
+                      />
+                    </div>
+                  )}
                 </CardContent>
               </Card>
             ))}
@@ -2,6 +2,7 @@
 
 import { useEffect, useState, useCallback } from "react";
 import { useRouter, useParams } from "next/navigation";
+import Link from "next/link";
 import { supabase } from "@/lib/supabaseClient";
 import {
   fetchTeam,
@@ -10,7 +11,9 @@ import {
   createPlayer,
   updatePlayer,
   deletePlayer,
+  fetchTeamGameData,
   getErrorMessage,
+  type FullGameData,
 } from "@/lib/scorebook/db";
 import type { SavedTeam, SavedPlayer, Position, BattingHand, ThrowingHand } from "@/lib/scorebook/types";
 import { POSITIONS, POSITION_LIST, PLAY_LEVELS } from "@/lib/scorebook/types";
@@ -27,8 +30,12 @@ import {
 } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
+import { SeasonStatsView } from "@/components/scorebook/SeasonStatsView";
+import { PitcherEligibilityCard } from "@/components/scorebook/PitcherEligibilityCard";
 import { useToast } from "@/components/ui/toast";
 import { useConfirm } from "@/components/ui/confirm-dialog";
+import { useOrganization } from "@/components/OrganizationProvider";
+import { accessFor, canEdit } from "@/lib/organizations";
 import type { Session } from "@supabase/supabase-js";
 
 export default function TeamRosterPage() {
@@ -37,10 +44,12 @@ export default function TeamRosterPage() {
   const teamId = params.teamId as string;
   const { showToast } = useToast();
   const confirm = useConfirm();
+  const { memberships } = useOrganization();
 
   const [session, setSession] = useState<Session | null>(null);
   const [team, setTeam] = useState<SavedTeam | null>(null);
   const [players, setPlayers] = useState<SavedPlayer[]>([]);
+  const [games, setGames] = useState<FullGameData[]>([]);
   const [loading, setLoading] = useState(true);
 
   // Editing team name
@@ -87,9 +96,10 @@ export default function TeamRosterPage() {
 
     setLoading(true);
     try {
-      const [teamData, playersData] = await Promise.all([
+      const [teamData, playersData, gamesData] = await Promise.all([
         fetchTeam(teamId),
         fetchTeamPlayers(teamId),
+        fetchTeamGameData(teamId),
       ]);
 
       if (!teamData) {
@@ -100,6 +110,7 @@ export default function TeamRosterPage() {
 
       setTeam(teamData);
       setPlayers(playersData);
+      setGames(gamesData);
     } catch (e) {
       showToast(getErrorMessage(e), "error");
     } finally {
@@ -142,6 +153,7 @@ export default function TeamRosterPage() {
         throws: (newPlayerThrows as ThrowingHand) || null,
         primary_position: (newPlayerPosition as Position) || null,
         secondary_positions: null,
+        pitcher_id: null,
       });
       setPlayers((prev) => [...prev, player].sort((a, b) => a.last_name.localeCompare(b.last_name)));
       resetNewPlayerForm();
@@ -201,6 +213,9 @@ export default function TeamRosterPage() {
     return null;
   }
 
+  // Players and scorekeepers can read an organization's rosters
+  const editable = canEdit(accessFor(session.user.id, memberships, team.org_id), team);
+
   return (
     <main className="min-h-screen bg-gray-50 p-4 md:p-6">
       <div className="max-w-3xl mx-auto">
@@ -226,7 +241,7 @@ export default function TeamRosterPage() {
                   Cancel
                 </Button>
               </div>
-            ) : (
+            ) : editable ? (
               <h1
                 className="text-2xl md:text-3xl font-bold cursor-pointer hover:text-gray-700"
                 onClick={() => {
@@ -237,6 +252,8 @@ export default function TeamRosterPage() {
               >
                 {team.name}
               </h1>
+            ) : (
+              <h1 className="text-2xl md:text-3xl font-bold">{team.name}</h1>
             )}
             <p className="text-gray-600 text-sm mt-1">
               {players.length} player{players.length !== 1 ? "s" : ""} on roster
@@ -345,9 +362,11 @@ export default function TeamRosterPage() {
             </CardContent>
           </Card>
         ) : (
-          <Button onClick={() => setShowNewPlayerForm(true)} className="mb-6">
-            Add Player
-          </Button>
+          editable && (
+            <Button onClick={() => setShowNewPlayerForm(true)} className="mb-6">
+              Add Player
+            </Button>
+          )
         )}
 
         {/* Players List */}
@@ -355,9 +374,11 @@ export default function TeamRosterPage() {
           <Card>
             <CardContent className="py-12 text-center">
               <p className="text-gray-500 mb-4">No players on roster</p>
-              <p className="text-sm text-gray-400">
-                Add players to use this team in games.
-              </p>
+              {editable && (
+                <p className="text-sm text-gray-400">
+                  Add players to use this team in games.
+                </p>
+              )}
             </CardContent>
           </Card>
         ) : (
@@ -385,41 +406,54 @@ export default function TeamRosterPage() {
                           )}
                           {player.bats && <span>B: {player.bats}</span>}
                           {player.throws && <span>T: {player.throws}</span>}
+                          {player.pitcher_id && (
+                            <Link href={`/pitchers/${player.pitcher_id}`} className="underline underline-offset-4 hover:text-gray-700">
+                              Bullpen profile
+                            </Link>
+                          )}
                         </div>
                       </div>
                     </div>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={() =>
-                        handleDeletePlayer(
-                          player.id,
-                          `${player.first_name} ${player.last_name}`
-                        )
-                      }
-                    >
-                      <svg
-                        xmlns="http://www.w3.org/2000/svg"
-                        width="16"
-                        height="16"
-                        viewBox="0 0 24 24"
-                        fill="none"
-                        stroke="currentColor"
-                        strokeWidth="2"
-                        strokeLinecap="round"
-                        strokeLinejoin="round"
+                    {editable && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() =>
+                          handleDeletePlayer(
+                            player.id,
+                            `${player.first_name} ${player.last_name}`
+                          )
+                        }
                       >
-                        <path d="M3 6h18" />
-                        <path d="M19 6v14c0 1-1 2-2 2H7c-1 0-2-1-2-2V6" />
-                        <path d="M8 6V4c0-1 1-2 2-2h4c1 0 2 1 2 2v2" />
-                      </svg>
-                    </Button>
+                        <svg
+                          xmlns="http://www.w3.org/2000/svg"
+                          width="16"
+                          height="16"
+                          viewBox="0 0 24 24"
+                          fill="none"
+                          stroke="currentColor"
+                          strokeWidth="2"
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                        >
+                          <path d="M3 6h18" />
+                          <path d="M19 6v14c0 1-1 2-2 2H7c-1 0-2-1-2-2V6" />
+                          <path d="M8 6V4c0-1 1-2 2-2h4c1 0 2 1 2 2v2" />
+                        </svg>
+                      </Button>
+                    )}
                   </div>
                 ))}
               </div>
             </CardContent>
           </Card>
         )}
+
+        {/* Who can pitch today under the level's rest rules */}
+        {players.length > 0 && <PitcherEligibilityCard team={team} players={players} games={games} />}
+
+        {/* Season and career stats */}
+        {games.length > 0 && <SeasonStatsView team={team} players={players} games={games} />}
       </div>
     </main>
   );
@@ -27,12 +27,17 @@ import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/components/ui/toast";
 import { useConfirm } from "@/components/ui/confirm-dialog";
+import { useOrganization } from "@/components/OrganizationProvider";
+import { activeOrgId, canManage } from "@/lib/organizations";
 import type { Session } from "@supabase/supabase-js";
 
 export default function TeamsPage() {
   const router = useRouter();
   const { showToast } = useToast();
   const confirm = useConfirm();
+  const { access } = useOrganization();
+  const orgId = activeOrgId(access);
+  const manage = canManage(access);
 
   const [session, setSession] = useState<Session | null>(null);
   const [teams, setTeams] = useState<SavedTeam[]>([]);
@@ -73,7 +78,7 @@ export default function TeamsPage() {
 
     setLoading(true);
     try {
-      const data = await fetchTeams(session.user.id);
+      const data = await fetchTeams({ userId: session.user.id, orgId });
       setTeams(data);
 
       // Load player counts for each team
@@ -94,7 +99,7 @@ export default function TeamsPage() {
     } finally {
       setLoading(false);
     }
-  }, [session?.user?.id, showToast]);
+  }, [session?.user?.id, orgId, showToast]);
 
   useEffect(() => {
     if (session?.user?.id) {
@@ -110,6 +115,7 @@ export default function TeamsPage() {
     try {
       const team = await createTeam({
         user_id: session.user.id,
+        org_id: orgId,
         name: newTeamName.trim(),
         abbreviation: newTeamAbbr.trim() || null,
         level: (newTeamLevel as SavedTeam["level"]) || null,
@@ -231,9 +237,11 @@ export default function TeamsPage() {
             </CardContent>
           </Card>
         ) : (
-          <Button onClick={() => setShowNewTeamForm(true)} className="mb-6">
-            Create New Team
-          </Button>
+          manage && (
+            <Button onClick={() => setShowNewTeamForm(true)} className="mb-6">
+              Create New Team
+            </Button>
+          )
         )}
 
         {/* Teams List */}
@@ -247,9 +255,11 @@ export default function TeamsPage() {
           <Card>
             <CardContent className="py-12 text-center">
               <p className="text-gray-500 mb-4">No teams yet</p>
-              <p className="text-sm text-gray-400">
-                Create a team to save rosters for quick lineup setup.
-              </p>
+              {manage && (
+                <p className="text-sm text-gray-400">
+                  Create a team to save rosters for quick lineup setup.
+                </p>
+              )}
             </CardContent>
           </Card>
         ) : (
@@ -275,30 +285,32 @@ export default function TeamsPage() {
                       </div>
                     </div>
                     <div className="flex items-center gap-2">
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          handleDeleteTeam(team.id, team.name);
-                        }}
-                      >
-                        <svg
-                          xmlns="http://www.w3.org/2000/svg"
-                          width="16"
-                          height="16"
-                          viewBox="0 0 24 24"
-                          fill="none"
-                          stroke="currentColor"
-                          strokeWidth="2"
-                          strokeLinecap="round"
-                          strokeLinejoin="round"
+                      {manage && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleDeleteTeam(team.id, team.name);
+                          }}
                         >
-                          <path d="M3 6h18" />
-                          <path d="M19 6v14c0 1-1 2-2 2H7c-1 0-2-1-2-2V6" />
-                          <path d="M8 6V4c0-1 1-2 2-2h4c1 0 2 1 2 2v2" />
-                        </svg>
-                      </Button>
+                          <svg
+                            xmlns="http://www.w3.org/2000/svg"
+                            width="16"
+                            height="16"
+                            viewBox="0 0 24 24"
+                            fill="none"
+                            stroke="currentColor"
+                            strokeWidth="2"
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                          >
+                            <path d="M3 6h18" />
+                            <path d="M19 6v14c0 1-1 2-2 2H7c-1 0-2-1-2-2V6" />
+                            <path d="M8 6V4c0-1 1-2 2-2h4c1 0 2 1 2 2v2" />
+                          </svg>
+                        </Button>
+                      )}
                     </div>
                   </div>
                 </CardContent>
@@ -2,6 +2,8 @@
 
 import { useState, useEffect } from "react";
 import { supabase } from "@/lib/supabaseClient";
+import { getErrorMessage } from "@/lib/api";
+import { repositories } from "@/lib/repository";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import Link from "next/link";
@@ -110,18 +112,17 @@ export default function SeedPage() {
       const pitcherIds: string[] = [];
       for (const pitcher of PITCHERS) {
         log(`Creating pitcher: ${pitcher.name}`);
-        const { data, error } = await supabase
-          .from("pitchers")
-          .insert({ user_id: userId, name: pitcher.name, throwing_hand: pitcher.throwing_hand })
-          .select("id")
-          .single();
-
-        if (error) {
-          log(`Error creating pitcher ${pitcher.name}: ${error.message}`);
-          continue;
+        try {
+          const created = await repositories.pitchers.create({
+            user_id: userId,
+            name: pitcher.name,
+            throwing_hand: pitcher.throwing_hand,
+          });
+          pitcherIds.push(created.id);
+          log(`Created pitcher: ${pitcher.name} (${created.id})`);
+        } catch (e) {
+          log(`Error creating pitcher ${pitcher.name}: ${getErrorMessage(e)}`);
         }
-        pitcherIds.push(data.id);
-        log(`Created pitcher: ${pitcher.name} (${data.id})`);
       }
 
       // Create sessions for each pitcher (3-5 sessions per pitcher)
@@ -142,23 +143,20 @@ export default function SeedPage() {
           const labels = ["Bullpen #1", "Bullpen #2", "Side work", "Game prep", "Live BP", null];
           const label = randomPick(labels);
 
-          const { data: sessionData, error: sessionError } = await supabase
-            .from("sessions")
-            .insert({
+          let sessionId: string;
+          try {
+            const created = await repositories.sessions.create({
               user_id: userId,
               pitcher_id: pitcherId,
               session_date: dateStr,
               label,
-            })
-            .select("id")
-            .single();
-
-          if (sessionError) {
-            log(`Error creating session: ${sessionError.message}`);
+            });
+            sessionId = created.id;
+          } catch (e) {
+            log(`Error creating session: ${getErrorMessage(e)}`);
             continue;
           }
 
-          const sessionId = sessionData.id;
           log(`Created session: ${dateStr} ${label || ""} for ${pitcherName}`);
 
           // Generate pitches for this session (20-40 pitches per session)
@@ -176,13 +174,11 @@ export default function SeedPage() {
             });
           }
 
-          // Insert pitches in batches
-          const { error: pitchError } = await supabase.from("pitches").insert(pitches);
-
-          if (pitchError) {
-            log(`Error creating pitches: ${pitchError.message}`);
-          } else {
+          try {
+            await Promise.all(pitches.map((pitch) => repositories.pitches.create(pitch)));
             log(`Created ${numPitches} pitches for session`);
+          } catch (e) {
+            log(`Error creating pitches: ${getErrorMessage(e)}`);
           }
         }
       }
@@ -214,26 +210,18 @@ export default function SeedPage() {
       log("Clearing all data...");
 
       // Delete in order due to foreign keys
-      const { error: pitchesError } = await supabase
-        .from("pitches")
-        .delete()
-        .eq("user_id", userId);
-      if (pitchesError) log(`Error deleting pitches: ${pitchesError.message}`);
-      else log("Deleted all pitches");
-
-      const { error: sessionsError } = await supabase
-        .from("sessions")
-        .delete()
-        .eq("user_id", userId);
-      if (sessionsError) log(`Error deleting sessions: ${sessionsError.message}`);
-      else log("Deleted all sessions");
-
-      const { error: pitchersError } = await supabase
-        .from("pitchers")
-        .delete()
-        .eq("user_id", userId);
-      if (pitchersError) log(`Error deleting pitchers: ${pitchersError.message}`);
-      else log("Deleted all pitchers");
+      for (const [table, label] of [
+        ["pitches", "pitches"],
+        ["sessions", "sessions"],
+        ["pitchers", "pitchers"],
+      ] as const) {
+        try {
+          await repositories.account.deleteOwned(table, userId);
+          log(`Deleted all ${label}`);
+        } catch (e) {
+          log(`Error deleting ${label}: ${getErrorMessage(e)}`);
+        }
+      }
 
       log("All data cleared!");
     } catch (e) {
@@ -16,11 +16,32 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { StrikeZoneHeatmap } from "@/components/StrikeZoneHeatmap";
 import { StrikeZoneGrid } from "@/components/StrikeZoneGrid";
+import { LiveCountSummary } from "@/components/LiveCountSummary";
+import { LocationAnalysisCard } from "@/components/LocationAnalysisCard";
 import { Skeleton, SkeletonCard, SkeletonHeatmap, SkeletonPitchList } from "@/components/ui/skeleton";
-import { buildZones5x5, computeSummaryStats, computeZoneCounts, type ZoneId } from "@/lib/strikeZone";
+import {
+  buildZones5x5,
+  computeMiss,
+  computeSummaryStats,
+  isHand,
+  loadZoneGeometry,
+  zoneIdToPoint,
+  type ZoneId,
+} from "@/lib/strikeZone";
 import { supabase } from "@/lib/supabaseClient";
+import { getErrorMessage } from "@/lib/api";
+import { repositories } from "@/lib/repository";
+import { accessFor, canEdit } from "@/lib/organizations";
+import { useOrganization } from "@/components/OrganizationProvider";
+import { computeCountSummary } from "@/lib/simulatedCount";
+import {
+  commandScoreTone,
+  computeCommandByType,
+  computeCommandScore,
+  computePitchCommandScore,
+  formatCommandScore,
+} from "@/lib/commandScore";
 
 type PitchRow = {
   id: string;
@@ -28,6 +49,13 @@ type PitchRow = {
   tag: string | null;
   intended_location_zone_id: string | null;
   actual_location_zone_id: string | null;
+  target_x: number | null;
+  target_y: number | null;
+  actual_x: number | null;
+  actual_y: number | null;
+  batter_side: string | null;
+  pitch_call: string | null;
+  sim_batter: number | null;
   notes: string | null;
   created_at: string | null;
 };
@@ -67,7 +95,10 @@ type SessionRow = {
 
 type PitcherRow = {
   id: string;
+  user_id: string;
+  org_id: string | null;
   name: string;
+  throwing_hand: string | null;
 };
 
 const zones5x5 = buildZones5x5();
@@ -97,22 +128,6 @@ function friendlyZoneLabel(zoneId: string | null | undefined) {
   return zone.kind === "OUT" ? `Out: ${base}` : base;
 }
 
-function missDirectionLabel(fromZoneId: string, toZoneId: string) {
-  const from = zoneById.get(fromZoneId as ZoneId);
-  const to = zoneById.get(toZoneId as ZoneId);
-  if (!from || !to) return null;
-
-  const rowDelta = to.row - from.row;
-  const colDelta = to.col - from.col;
-  if (rowDelta === 0 && colDelta === 0) return null;
-
-  const vertical = rowDelta < 0 ? "High" : rowDelta > 0 ? "Low" : "";
-  const horizontal = colDelta < 0 ? "Left" : colDelta > 0 ? "Right" : "";
-
-  if (vertical && horizontal) return `${vertical}-${horizontal}`;
-  return vertical || horizontal || null;
-}
-
 function formatTimestamp(seconds: number) {
   const safeSeconds = Math.max(0, Math.floor(seconds));
   const hours = Math.floor(safeSeconds / 3600);
@@ -143,15 +158,6 @@ function parseTimestampInput(value: string) {
   return null;
 }
 
-function zoneIdToPoint(zoneId: ZoneId) {
-  const zone = zoneById.get(zoneId);
-  if (!zone) return { x: 0.5, y: 0.5 };
-  return {
-    x: (zone.col + 0.5) / 5,
-    y: (zone.row + 0.5) / 5,
-  };
-}
-
 function isYouTubeUrl(url: string) {
   return /youtube\.com|youtu\.be/.test(url);
 }
@@ -219,14 +225,21 @@ export default function SessionSummaryPage() {
   const params = useParams<{ sessionId: string }>();
   const sessionId = params?.sessionId;
 
+  const { memberships } = useOrganization();
   const [authSession, setAuthSession] = useState<Session | null>(null);
   const [pitches, setPitches] = useState<PitchRow[]>([]);
+  const [zoneGeometry] = useState(loadZoneGeometry);
   const [sessionRow, setSessionRow] = useState<SessionRow | null>(null);
   const [pitcherRow, setPitcherRow] = useState<PitcherRow | null>(null);
   const [videoRow, setVideoRow] = useState<SessionVideoRow | null>(null);
   const [pitchEvents, setPitchEvents] = useState<PitchEventRow[]>([]);
   const [videoUrlInput, setVideoUrlInput] = useState<string>("");
   const [savingVideo, setSavingVideo] = useState(false);
+  // Players can review their own sessions; coaches link video and log pitches
+  const editable =
+    !!authSession?.user?.id &&
+    !!pitcherRow &&
+    canEdit(accessFor(authSession.user.id, memberships, pitcherRow.org_id), pitcherRow);
   const [markingPitch, setMarkingPitch] = useState(false);
   const [statusMessage, setStatusMessage] = useState<string | null>(null);
   const [timestampInput, setTimestampInput] = useState<string>("0");
@@ -266,7 +279,7 @@ export default function SessionSummaryPage() {
   }
 
   async function handleCreatePitchFromEvent(event: PitchEventRow) {
-    if (!supabase || !sessionId) return;
+    if (!sessionId) return;
     if (!authSession?.user?.id) {
       setReviewErrors((prev) => ({ ...prev, [event.id]: "Please sign in." }));
       return;
@@ -290,49 +303,34 @@ export default function SessionSummaryPage() {
     setReviewSaving((prev) => ({ ...prev, [event.id]: true }));
     setReviewErrors((prev) => ({ ...prev, [event.id]: "" }));
     try {
-      const { data, error } = await supabase
-        .from("pitches")
-        .insert({
-          user_id: authSession.user.id,
-          pitcher_id: sessionRow.pitcher_id,
-          session_id: sessionId,
-          pitch_type: form.pitch_type,
-          tag: form.tag || null,
-          intended_location_zone_id: form.intended_location_zone_id,
-          actual_location_zone_id: form.actual_location_zone_id,
-          target_x: target.x,
-          target_y: target.y,
-          actual_x: actual.x,
-          actual_y: actual.y,
-          dx,
-          dy,
-          notes: form.notes || null,
-        })
-        .select(
-          "id,pitch_type,tag,intended_location_zone_id,actual_location_zone_id,notes,created_at"
-        )
-        .single();
-      if (error) throw error;
-      if (data) {
-        const newPitch = data as PitchRow;
-        setPitches((prev) => [newPitch, ...prev]);
-        const { error: linkError } = await supabase
-          .from("pitch_events")
-          .update({ pitch_id: newPitch.id })
-          .eq("id", event.id)
-          .eq("user_id", authSession.user.id);
-        if (linkError) throw linkError;
-
-        setPitchEvents((prev) =>
-          prev.map((row) => (row.id === event.id ? { ...row, pitch_id: newPitch.id } : row))
-        );
-        setReviewOpenEventId(null);
-      }
+      const newPitch = await repositories.pitches.create({
+        user_id: authSession.user.id,
+        pitcher_id: sessionRow.pitcher_id,
+        session_id: sessionId,
+        pitch_type: form.pitch_type,
+        tag: form.tag || null,
+        intended_location_zone_id: form.intended_location_zone_id,
+        actual_location_zone_id: form.actual_location_zone_id,
+        target_x: target.x,
+        target_y: target.y,
+        actual_x: actual.x,
+        actual_y: actual.y,
+        dx,
+        dy,
+        notes: form.notes || null,
+      });
+      setPitches((prev) => [newPitch, ...prev]);
+      await repositories.videos.linkEvent(event.id, newPitch.id);
+
+      setPitchEvents((prev) =>
+        prev.map((row) => (row.id === event.id ? { ...row, pitch_id: newPitch.id } : row))
+      );
+      setReviewOpenEventId(null);
     } catch (e) {
       console.error(e);
       setReviewErrors((prev) => ({
         ...prev,
-        [event.id]: "Save failed. This may be due to Supabase RLS policies.",
+        [event.id]: `Save failed: ${getErrorMessage(e)}`,
       }));
     } finally {
       setReviewSaving((prev) => ({ ...prev, [event.id]: false }));
@@ -360,48 +358,18 @@ export default function SessionSummaryPage() {
 
   useEffect(() => {
     if (!sessionId) return;
-    if (!supabase) return;
 
     setLoading(true);
     setErrorMessage(null);
 
     const load = async () => {
       try {
-        const { data: pitchesData, error: pitchesError } = await supabase
-          .from("pitches")
-          .select("id,pitch_type,tag,intended_location_zone_id,actual_location_zone_id,notes,created_at")
-          .eq("session_id", sessionId)
-          .order("created_at", { ascending: false });
-
-        if (pitchesError) throw pitchesError;
-        setPitches((pitchesData ?? []) as PitchRow[]);
-
-        const { data: sessionData, error: sessionError } = await supabase
-          .from("sessions")
-          .select("id,session_date,label,pitcher_id,created_at")
-          .eq("id", sessionId)
-          .single();
-
-        if (sessionError) {
-          console.error(sessionError);
-        } else {
-          const row = sessionData as SessionRow;
-          setSessionRow(row);
+        setPitches(await repositories.pitches.list({ sessionId }));
 
-          if (row.pitcher_id) {
-            const { data: pitcherData, error: pitcherError } = await supabase
-              .from("pitchers")
-              .select("id,name")
-              .eq("id", row.pitcher_id)
-              .single();
-            if (pitcherError) {
-              console.error(pitcherError);
-            } else {
-              setPitcherRow(pitcherData as PitcherRow);
-            }
-          } else {
-            setPitcherRow(null);
-          }
+        const row = await repositories.sessions.get(sessionId);
+        if (row) {
+          setSessionRow(row);
+          setPitcherRow(row.pitcher_id ? await repositories.pitchers.get(row.pitcher_id) : null);
         }
       } catch (e: unknown) {
         console.error(e);
@@ -415,55 +383,18 @@ export default function SessionSummaryPage() {
   }, [sessionId]);
 
   async function loadVideoAndEvents() {
-    if (!sessionId || !supabase) return;
+    if (!sessionId) return;
     try {
-      const { data: videoData, error: videoError } = await supabase
-        .from("session_videos")
-        .select("id,session_id,video_url,original_filename,created_at")
-        .eq("session_id", sessionId)
-        .maybeSingle();
-
-      if (videoError) {
-        console.error(
-          "supabase error",
-          videoError.message,
-          videoError.details,
-          videoError.hint,
-          videoError.code
-        );
-        setStatusMessage(videoError.message);
-        throw videoError;
-      }
-      const video = (videoData ?? null) as SessionVideoRow | null;
+      const [video = null] = await repositories.videos.listBySessions([sessionId], 1);
       setVideoRow(video);
       if (video?.video_url) {
         setVideoUrlInput(video.video_url);
       }
 
-      if (video?.id) {
-        const { data: eventsData, error: eventsError } = await supabase
-          .from("pitch_events")
-          .select("id,session_id,video_id,timestamp_seconds,pitch_id,created_at")
-          .eq("session_id", sessionId)
-          .eq("video_id", video.id)
-          .order("timestamp_seconds", { ascending: true });
-        if (eventsError) {
-          console.error(
-            "supabase error",
-            eventsError.message,
-            eventsError.details,
-            eventsError.hint,
-            eventsError.code
-          );
-          setStatusMessage(eventsError.message);
-          throw eventsError;
-        }
-        setPitchEvents((eventsData ?? []) as PitchEventRow[]);
-      } else {
-        setPitchEvents([]);
-      }
+      setPitchEvents(video ? await repositories.videos.listEvents(video.id) : []);
     } catch (e) {
       console.error(e);
+      setStatusMessage(getErrorMessage(e));
     }
   }
 
@@ -473,7 +404,7 @@ export default function SessionSummaryPage() {
   }, [sessionId]);
 
   async function handleSaveVideoUrl() {
-    if (!supabase || !sessionId) return;
+    if (!sessionId) return;
     if (!videoUrlInput.trim()) {
       setStatusMessage("Paste a video URL first.");
       return;
@@ -487,41 +418,25 @@ export default function SessionSummaryPage() {
     setStatusMessage(null);
     try {
       const url = normalizeVideoUrl(videoUrlInput);
-      const { error: upsertError } = await supabase
-        .from("session_videos")
-        .upsert(
-          {
-            session_id: sessionId,
-            video_url: url,
-            original_filename: null,
-            user_id: authSession.user.id,
-          },
-          { onConflict: "session_id" }
-        );
-      if (upsertError) {
-        console.error(
-          "supabase error",
-          upsertError.message,
-          upsertError.details,
-          upsertError.hint,
-          upsertError.code
-        );
-        setStatusMessage(upsertError.message);
-        throw upsertError;
-      }
+      await repositories.videos.save({
+        session_id: sessionId,
+        video_url: url,
+        original_filename: null,
+        user_id: authSession.user.id,
+      });
 
       setStatusMessage("Video link saved.");
       await loadVideoAndEvents();
     } catch (e) {
       console.error(e);
-      setStatusMessage("Save failed. This may be due to Supabase RLS policies.");
+      setStatusMessage(`Save failed: ${getErrorMessage(e)}`);
     } finally {
       setSavingVideo(false);
     }
   }
 
   async function handleMarkPitch() {
-    if (!supabase || !sessionId || !videoRow) return;
+    if (!sessionId || !videoRow) return;
     if (!authSession?.user?.id) {
       setStatusMessage("Sign in to mark pitches.");
       return;
@@ -535,20 +450,19 @@ export default function SessionSummaryPage() {
         setStatusMessage("Enter a valid timestamp in seconds.");
         return;
       }
-      const { error } = await supabase.from("pitch_events").insert({
+      await repositories.videos.createEvent({
         session_id: sessionId,
         video_id: videoRow.id,
         timestamp_seconds: timestampSeconds,
         pitch_id: null,
         user_id: authSession.user.id,
       });
-      if (error) throw error;
 
       setStatusMessage("Pitch marked.");
       await loadVideoAndEvents();
     } catch (e) {
       console.error(e);
-      setStatusMessage("Mark failed. This may be due to Supabase RLS policies.");
+      setStatusMessage(`Mark failed: ${getErrorMessage(e)}`);
     } finally {
       setMarkingPitch(false);
     }
@@ -587,14 +501,8 @@ export default function SessionSummaryPage() {
   }, [pitches, pitchTypeFilter, tagFilter]);
 
   const stats = useMemo(() => computeSummaryStats(filteredPitches), [filteredPitches]);
-  const actualCounts = useMemo(
-    () => computeZoneCounts(filteredPitches, "actual_location_zone_id"),
-    [filteredPitches]
-  );
-  const intendedCounts = useMemo(
-    () => computeZoneCounts(filteredPitches, "intended_location_zone_id"),
-    [filteredPitches]
-  );
+  // Counts replay the whole at-bat, so filters don't apply here
+  const countSummary = useMemo(() => computeCountSummary(pitches), [pitches]);
 
   const pitchTypeBreakdown = useMemo(() => {
     const counts = new Map<string, number>();
@@ -605,6 +513,12 @@ export default function SessionSummaryPage() {
     return Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
   }, [filteredPitches]);
 
+  const command = useMemo(() => computeCommandScore(filteredPitches, zoneGeometry), [filteredPitches, zoneGeometry]);
+  const commandByType = useMemo(
+    () => new Map(computeCommandByType(filteredPitches, zoneGeometry).map((row) => [row.pitchType, row.command])),
+    [filteredPitches, zoneGeometry]
+  );
+
   const topMissedZones = useMemo(() => {
     const counts = new Map<string, number>();
     for (const pitch of filteredPitches) {
@@ -631,6 +545,8 @@ export default function SessionSummaryPage() {
     return Number.isNaN(date.getTime()) ? sessionId ?? "—" : date.toLocaleDateString();
   }, [sessionRow, sessionId]);
 
+  const throwingHand = isHand(pitcherRow?.throwing_hand) ? pitcherRow.throwing_hand : null;
+
   const coachingInsights = useMemo(() => {
     const insights: string[] = [];
     const total = stats.total;
@@ -655,18 +571,9 @@ export default function SessionSummaryPage() {
       }
       accuracyByType.set(typeKey, entry);
 
-      if (
-        pitch.intended_location_zone_id &&
-        pitch.actual_location_zone_id &&
-        pitch.intended_location_zone_id !== pitch.actual_location_zone_id
-      ) {
-        const label = missDirectionLabel(
-          pitch.intended_location_zone_id,
-          pitch.actual_location_zone_id
-        );
-        if (label) {
-          missDirections.set(label, (missDirections.get(label) ?? 0) + 1);
-        }
+      const label = computeMiss(pitch, zoneGeometry, throwingHand)?.direction;
+      if (label) {
+        missDirections.set(label, (missDirections.get(label) ?? 0) + 1);
       }
     }
 
@@ -712,7 +619,7 @@ export default function SessionSummaryPage() {
     }
 
     return insights;
-  }, [filteredPitches, stats]);
+  }, [filteredPitches, stats, throwingHand, zoneGeometry]);
 
   const csvFilename = useMemo(() => {
     const raw = sessionRow?.session_date || sessionRow?.created_at;
@@ -859,7 +766,7 @@ export default function SessionSummaryPage() {
                 />
                 <Button
                   onClick={handleSaveVideoUrl}
-                  disabled={savingVideo || !videoUrlInput.trim() || !authSession?.user?.id}
+                  disabled={savingVideo || !videoUrlInput.trim() || !editable}
                 >
                   {savingVideo ? "Saving…" : "Save Video Link"}
                 </Button>
@@ -900,14 +807,16 @@ export default function SessionSummaryPage() {
                 />
                 <Button
                   onClick={handleSaveVideoUrl}
-                  disabled={savingVideo || !videoUrlInput.trim() || !authSession?.user?.id}
+                  disabled={savingVideo || !videoUrlInput.trim() || !editable}
                   variant="outline"
                 >
                   {savingVideo ? "Saving…" : "Change Video Link"}
                 </Button>
                 <Button
                   onClick={handleMarkPitch}
-                  disabled={!videoRow?.video_url || markingPitch || !parsedTimestampSeconds || parsedTimestampSeconds === 0}
+                  disabled={
+                    !videoRow?.video_url || markingPitch || !parsedTimestampSeconds || parsedTimestampSeconds === 0 || !editable
+                  }
                 >
                   {markingPitch ? "Marking…" : "Mark pitch"}
                 </Button>
@@ -1120,7 +1029,7 @@ export default function SessionSummaryPage() {
                             <div className="flex items-center gap-2">
                               <Button
                                 onClick={() => handleCreatePitchFromEvent(event)}
-                                disabled={saving}
+                                disabled={saving || !editable}
                               >
                                 {saving ? "Saving…" : "Save pitch"}
                               </Button>
@@ -1160,7 +1069,7 @@ export default function SessionSummaryPage() {
         <div className="text-sm text-red-600">{errorMessage}</div>
       ) : (
         <>
-          <div className="grid gap-4 md:grid-cols-3">
+          <div className="grid gap-4 md:grid-cols-4">
             <Card>
               <CardHeader className="pb-2">
                 <CardTitle>Total pitches</CardTitle>
@@ -1187,6 +1096,19 @@ export default function SessionSummaryPage() {
                 <div className="text-xs text-gray-500">{stats.accuracyCount} matched intended</div>
               </CardContent>
             </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle>Command score</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className={`text-3xl font-semibold ${commandScoreTone(command.score)}`}>
+                  {formatCommandScore(command.score)}
+                </div>
+                <div className="text-xs text-gray-500">
+                  {command.safeMisses} safe misses · {command.middleMisses} middle-middle
+                </div>
+              </CardContent>
+            </Card>
           </div>
 
           <div className="grid gap-6 md:grid-cols-2">
@@ -1197,12 +1119,20 @@ export default function SessionSummaryPage() {
               <CardContent>
                 {pitchTypeBreakdown.length ? (
                   <div className="space-y-2 text-sm">
-                    {pitchTypeBreakdown.map(([type, count]) => (
-                      <div key={type} className="flex items-center justify-between">
-                        <span className="font-medium">{type}</span>
-                        <span className="text-gray-600">{count}</span>
-                      </div>
-                    ))}
+                    {pitchTypeBreakdown.map(([type, count]) => {
+                      const typeScore = commandByType.get(type)?.score ?? null;
+                      return (
+                        <div key={type} className="flex items-center justify-between">
+                          <span className="font-medium">{type}</span>
+                          <span className="text-gray-600">
+                            {count}
+                            <span className={`ml-3 tabular-nums ${commandScoreTone(typeScore)}`}>
+                              {formatCommandScore(typeScore)} cmd
+                            </span>
+                          </span>
+                        </div>
+                      );
+                    })}
                   </div>
                 ) : (
                   <div className="text-sm text-gray-500">No pitches yet.</div>
@@ -1231,6 +1161,8 @@ export default function SessionSummaryPage() {
             </Card>
           </div>
 
+          {countSummary.pitches > 0 && <LiveCountSummary summary={countSummary} />}
+
           <Card>
             <CardHeader className="pb-2">
               <CardTitle>Coaching Insights</CardTitle>
@@ -1244,10 +1176,7 @@ export default function SessionSummaryPage() {
             </CardContent>
           </Card>
 
-          <div className="grid gap-6 md:grid-cols-2">
-            <StrikeZoneHeatmap title="Intended Location" counts={intendedCounts} />
-            <StrikeZoneHeatmap title="Actual Location" counts={actualCounts} />
-          </div>
+          <LocationAnalysisCard pitches={filteredPitches} throws={throwingHand} />
 
           <Card>
             <CardHeader className="pb-2">
@@ -1258,22 +1187,35 @@ export default function SessionSummaryPage() {
                 <div className="text-sm text-gray-500">No pitches match the current filters.</div>
               ) : (
                 <div className="divide-y rounded-lg border">
-                  {filteredPitches.slice(0, 25).map((pitch, idx) => (
-                    <div key={pitch.id} className="flex items-center justify-between px-3 py-2 text-sm">
-                      <div className="flex items-center gap-3">
-                        <div className="font-mono text-gray-500">#{idx + 1}</div>
-                        <div className="font-medium">{pitch.pitch_type}</div>
-                        {pitch.tag ? (
-                          <span className="inline-flex rounded-full bg-gray-100 px-2 py-0.5 text-xs text-gray-600">
-                            {pitch.tag}
-                          </span>
-                        ) : null}
-                      </div>
-                      <div className="text-xs text-gray-500">
-                        {pitch.created_at ? new Date(pitch.created_at).toLocaleTimeString() : ""}
+                  {filteredPitches.slice(0, 25).map((pitch, idx) => {
+                    const pitchScore = computePitchCommandScore(pitch, zoneGeometry);
+                    return (
+                      <div key={pitch.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                        <div className="flex items-center gap-3">
+                          <div className="font-mono text-gray-500">#{idx + 1}</div>
+                          <div className="font-medium">{pitch.pitch_type}</div>
+                          {pitch.tag ? (
+                            <span className="inline-flex rounded-full bg-gray-100 px-2 py-0.5 text-xs text-gray-600">
+                              {pitch.tag}
+                            </span>
+                          ) : null}
+                        </div>
+                        <div className="flex items-center gap-3 text-xs text-gray-500">
+                          {pitchScore && (
+                            <span
+                              className={`tabular-nums font-medium ${commandScoreTone(pitchScore.score)}`}
+                              title={`${pitchScore.distance.toFixed(1)} in from target${
+                                pitchScore.middleMiss ? ", missed middle-middle" : pitchScore.safeMiss ? ", safe miss" : ""
+                              }`}
+                            >
+                              {pitchScore.score}
+                            </span>
+                          )}
+                          <span>{pitch.created_at ? new Date(pitch.created_at).toLocaleTimeString() : ""}</span>
+                        </div>
                       </div>
-                    </div>
-                  ))}
+                    );
+                  })}
                 </div>
               )}
             </CardContent>
@@ -3,17 +3,11 @@
 import { useEffect, useMemo, useState } from "react";
 import { useParams, useSearchParams } from "next/navigation";
 import Link from "next/link";
-import { createClient } from "@supabase/supabase-js";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { StrikeZoneHeatmap } from "@/components/StrikeZoneHeatmap";
 import { buildZones5x5, computeSummaryStats, computeZoneCounts, type ZoneId } from "@/lib/strikeZone";
-
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
-const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
-
-const supabase =
-  supabaseUrl && supabaseAnonKey ? createClient(supabaseUrl, supabaseAnonKey) : null;
+import { repositories } from "@/lib/repository";
 
 const zones5x5 = buildZones5x5();
 const zoneById = new Map(zones5x5.map((zone) => [zone.id, zone]));
@@ -67,39 +61,19 @@ export default function SessionSummaryPrintPage() {
 
   useEffect(() => {
     if (!sessionId) return;
-    if (!supabase) return;
 
     const load = async () => {
       setLoading(true);
       try {
-        const { data: pitchesData, error: pitchesError } = await supabase
-          .from("pitches")
-          .select("id,pitch_type,intended_location_zone_id,actual_location_zone_id")
-          .eq("session_id", sessionId)
-          .order("created_at", { ascending: false });
-
-        if (pitchesError) throw pitchesError;
-        setPitches((pitchesData ?? []) as PitchRow[]);
-
-        const { data: sessionData, error: sessionError } = await supabase
-          .from("sessions")
-          .select("id,session_date,label,pitcher_id,created_at")
-          .eq("id", sessionId)
-          .single();
+        setPitches(await repositories.pitches.list({ sessionId }));
 
-        if (!sessionError && sessionData) {
-          const row = sessionData as SessionRow;
+        const row = await repositories.sessions.get(sessionId);
+        if (row) {
           setSessionRow(row);
 
           if (row.pitcher_id) {
-            const { data: pitcherData, error: pitcherError } = await supabase
-              .from("pitchers")
-              .select("id,name")
-              .eq("id", row.pitcher_id)
-              .single();
-            if (!pitcherError && pitcherData) {
-              setPitcherRow(pitcherData as PitcherRow);
-            }
+            const pitcher = await repositories.pitchers.get(row.pitcher_id);
+            if (pitcher) setPitcherRow(pitcher);
           }
         }
       } catch (e) {
@@ -2,6 +2,7 @@
 
 import { useEffect, useMemo, useState } from "react";
 import { supabase } from "@/lib/supabaseClient";
+import { repositories } from "@/lib/repository";
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -16,11 +17,23 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { useDebounce } from "@/lib/hooks";
-import { computeSummaryStats, isInZone } from "@/lib/strikeZone";
+import { useOrganization } from "@/components/OrganizationProvider";
+import { canViewPitcher, ownerScope } from "@/lib/organizations";
+import { computeCommandScore, formatCommandScore } from "@/lib/commandScore";
+import {
+  computeMissSummary,
+  computeSummaryStats,
+  computeVelocityStats,
+  isHand,
+  isInZone,
+  loadZoneGeometry,
+  type VelocityStats,
+} from "@/lib/strikeZone";
 
 type PitcherRow = {
   id: string;
   name: string;
+  throwing_hand: string | null;
 };
 
 type SessionRow = {
@@ -37,8 +50,14 @@ type PitchRow = {
   pitch_type: string;
   intended_location_zone_id: string | null;
   actual_location_zone_id: string | null;
+  target_x: number | null;
+  target_y: number | null;
+  actual_x: number | null;
+  actual_y: number | null;
+  batter_side: string | null;
   dx: number | null;
   dy: number | null;
+  velocity: number | null;
 };
 
 type SessionMetrics = {
@@ -48,7 +67,19 @@ type SessionMetrics = {
   inZoneRate: number;
   accuracyRate: number;
   avgMissDist: number;
+  // Inches towards the pitcher's arm side; null when the hand isn't set
+  avgArmSide: number | null;
+  // Graded 0-100; null when no pitch had a location
+  commandScore: number | null;
   outOfZoneRate: number;
+  velocityCount: number;
+  avgVelocity: number;
+  maxVelocity: number;
+};
+
+type VelocityBand = VelocityStats & {
+  pitchType: string;
+  min: number;
 };
 
 function formatSessionLabel(session: SessionRow) {
@@ -58,12 +89,27 @@ function formatSessionLabel(session: SessionRow) {
   return date.toLocaleDateString(undefined, { month: "short", day: "numeric" });
 }
 
-function LineChart({ title, values, labels }: { title: string; values: number[]; labels: string[] }) {
+function formatPercent(value: number) {
+  return `${Math.round(value * 100)}%`;
+}
+
+function LineChart({
+  title,
+  values,
+  labels,
+  format = formatPercent,
+}: {
+  title: string;
+  values: number[];
+  labels: string[];
+  format?: (value: number) => string;
+}) {
   const width = 520;
   const height = 140;
   const padding = 20;
   const max = Math.max(...values, 1);
-  const min = Math.min(...values, 0);
+  // Non-percentage series (velocity) would flatten against a zero baseline
+  const min = format === formatPercent ? Math.min(...values, 0) : Math.min(...values);
   const span = max - min || 1;
 
   const points = values.map((v, idx) => {
@@ -81,7 +127,7 @@ function LineChart({ title, values, labels }: { title: string; values: number[];
       <div className="flex items-center justify-between">
         <div className="text-sm font-medium text-gray-700">{title}</div>
         <div className="text-xs text-gray-500">
-          Latest: {values.length ? Math.round(values[values.length - 1] * 100) : 0}%
+          Latest: {format(values.length ? values[values.length - 1] : 0)}
         </div>
       </div>
       <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-36" role="img" aria-label={title}>
@@ -128,9 +174,11 @@ function BarChart({ title, values, labels }: { title: string; values: number[];
 
 export default function TrendsPage() {
   const supabaseReady = Boolean(supabase);
+  const { access } = useOrganization();
   const [pitchers, setPitchers] = useState<PitcherRow[]>([]);
   const [sessions, setSessions] = useState<SessionRow[]>([]);
   const [pitches, setPitches] = useState<PitchRow[]>([]);
+  const [zoneGeometry] = useState(loadZoneGeometry);
   const [loading, setLoading] = useState(false);
 
   const [selectedPitcherId, setSelectedPitcherId] = useState<string>("ALL");
@@ -150,50 +198,31 @@ export default function TrendsPage() {
   const debouncedPitchTypeFilter = useDebounce(pitchTypeFilter, 300);
 
   useEffect(() => {
-    if (!supabase) return;
-
     const loadPitchers = async () => {
       try {
-        const { data, error } = await supabase
-          .from("pitchers")
-          .select("id,name")
-          .order("created_at", { ascending: false });
-        if (error) throw error;
-        setPitchers((data ?? []) as PitcherRow[]);
+        const rows = await repositories.pitchers.list(ownerScope(access));
+        setPitchers(rows.filter((row) => canViewPitcher(access, row)));
       } catch (e) {
         console.error(e);
       }
     };
 
     loadPitchers();
-  }, []);
+  }, [access]);
 
   useEffect(() => {
-    if (!supabase) return;
-
     const loadSessionsAndPitches = async () => {
       setLoading(true);
       try {
-        let sessionsQuery = supabase
-          .from("sessions")
-          .select("id,session_date,label,pitcher_id,created_at")
-          .order("session_date", { ascending: true, nullsFirst: false })
-          .order("created_at", { ascending: true });
-
-        if (debouncedPitcherId !== "ALL") {
-          sessionsQuery = sessionsQuery.eq("pitcher_id", debouncedPitcherId);
-        }
-        if (debouncedDateFrom) {
-          sessionsQuery = sessionsQuery.gte("session_date", debouncedDateFrom);
-        }
-        if (debouncedDateTo) {
-          sessionsQuery = sessionsQuery.lte("session_date", debouncedDateTo);
-        }
-
-        const { data: sessionsData, error: sessionsError } = await sessionsQuery;
-        if (sessionsError) throw sessionsError;
-
-        const sessionRows = (sessionsData ?? []) as SessionRow[];
+        // "All" means every pitcher in the workspace, not every row the user can read
+        const sessionRows = await repositories.sessions.list({
+          ...(debouncedPitcherId !== "ALL"
+            ? { pitcherId: debouncedPitcherId }
+            : { pitcherIds: pitchers.map((p) => p.id) }),
+          from: debouncedDateFrom || undefined,
+          to: debouncedDateTo || undefined,
+          ascending: true,
+        });
         setSessions(sessionRows);
 
         const sessionIds = sessionRows.map((s) => s.id);
@@ -202,15 +231,7 @@ export default function TrendsPage() {
           return;
         }
 
-        const { data: pitchesData, error: pitchesError } = await supabase
-          .from("pitches")
-          .select(
-            "id,session_id,pitch_type,intended_location_zone_id,actual_location_zone_id,dx,dy"
-          )
-          .in("session_id", sessionIds);
-        if (pitchesError) throw pitchesError;
-
-        setPitches((pitchesData ?? []) as PitchRow[]);
+        setPitches(await repositories.pitches.list({ sessionIds, ascending: true }));
       } catch (e) {
         console.error(e);
       } finally {
@@ -219,7 +240,7 @@ export default function TrendsPage() {
     };
 
     loadSessionsAndPitches();
-  }, [debouncedPitcherId, debouncedDateFrom, debouncedDateTo]);
+  }, [debouncedPitcherId, debouncedDateFrom, debouncedDateTo, pitchers]);
 
   const availablePitchTypes = useMemo(() => {
     const set = new Set<string>();
@@ -228,6 +249,9 @@ export default function TrendsPage() {
   }, [pitches]);
 
   const sessionMetrics = useMemo(() => {
+    const handByPitcher = new Map(
+      pitchers.map((p) => [p.id, isHand(p.throwing_hand) ? p.throwing_hand : null] as const)
+    );
     const pitchesBySession = new Map<string, PitchRow[]>();
     for (const pitch of pitches) {
       if (debouncedPitchTypeFilter !== "ALL" && pitch.pitch_type !== debouncedPitchTypeFilter) continue;
@@ -259,6 +283,9 @@ export default function TrendsPage() {
         if (!isInZone(pitch.actual_location_zone_id)) outCount += 1;
       }
 
+      const throws = session.pitcher_id ? handByPitcher.get(session.pitcher_id) ?? null : null;
+      const misses = computeMissSummary(list, zoneGeometry, throws);
+
       metrics.push({
         sessionId: session.id,
         label: formatSessionLabel(session),
@@ -266,12 +293,17 @@ export default function TrendsPage() {
         inZoneRate: stats.inZoneRate,
         accuracyRate: stats.accuracyRate,
         avgMissDist: missCount ? missSum / missCount : 0,
+        avgArmSide: misses.located ? misses.avgArmSide : null,
+        commandScore: computeCommandScore(list, zoneGeometry).score,
         outOfZoneRate: total ? outCount / total : 0,
+        velocityCount: stats.velocityCount,
+        avgVelocity: stats.avgVelocity,
+        maxVelocity: stats.maxVelocity,
       });
     }
 
     return metrics;
-  }, [sessions, pitches, debouncedPitchTypeFilter]);
+  }, [sessions, pitches, pitchers, zoneGeometry, debouncedPitchTypeFilter]);
 
   const totalBySession = sessionMetrics.map((m) => m.total);
   const inZoneBySession = sessionMetrics.map((m) => m.inZoneRate);
@@ -279,6 +311,49 @@ export default function TrendsPage() {
   const avgMissBySession = sessionMetrics.map((m) => m.avgMissDist);
   const labels = sessionMetrics.map((m) => m.label);
 
+  // Sessions logged without a radar gun would read as 0 mph
+  const veloSessions = sessionMetrics.filter((m) => m.velocityCount > 0);
+  const avgVeloBySession = veloSessions.map((m) => m.avgVelocity);
+  const maxVeloBySession = veloSessions.map((m) => m.maxVelocity);
+  const veloLabels = veloSessions.map((m) => m.label);
+
+  // Normalized by throwing hand, so lefties and righties share one scale
+  const armSideSessions = sessionMetrics.filter((m) => m.avgArmSide !== null);
+  const armSideBySession = armSideSessions.map((m) => m.avgArmSide ?? 0);
+  const armSideLabels = armSideSessions.map((m) => m.label);
+
+  const commandSessions = sessionMetrics.filter((m) => m.commandScore !== null);
+  const commandBySession = commandSessions.map((m) => m.commandScore ?? 0);
+  const commandLabels = commandSessions.map((m) => m.label);
+
+  // Velo bands per pitch type, ignoring the pitch type filter so types can be compared
+  const velocityBands = useMemo(() => {
+    const byType = new Map<string, PitchRow[]>();
+    for (const pitch of pitches) {
+      if (pitch.velocity === null) continue;
+      const list = byType.get(pitch.pitch_type) ?? [];
+      list.push(pitch);
+      byType.set(pitch.pitch_type, list);
+    }
+
+    const bands: VelocityBand[] = [];
+    for (const [pitchType, list] of byType) {
+      bands.push({
+        pitchType,
+        ...computeVelocityStats(list),
+        min: Math.min(...list.map((p) => p.velocity ?? Infinity)),
+      });
+    }
+    return bands.sort((a, b) => b.avg - a.avg);
+  }, [pitches]);
+
+  // Shared scale so the band bars line up across pitch types
+  const velocityRange = useMemo(() => {
+    const low = Math.min(...velocityBands.map((b) => b.min));
+    const high = Math.max(...velocityBands.map((b) => b.max));
+    return { low, span: high - low || 1 };
+  }, [velocityBands]);
+
   const overallStats = useMemo(() => {
     const all = pitches.filter((p) => debouncedPitchTypeFilter === "ALL" || p.pitch_type === debouncedPitchTypeFilter);
     const stats = computeSummaryStats(all);
@@ -300,8 +375,13 @@ export default function TrendsPage() {
       accuracyRate: stats.accuracyRate,
       avgMissDist: missCount ? missSum / missCount : 0,
       outOfZoneRate: stats.total ? outCount / stats.total : 0,
+      velocityCount: stats.velocityCount,
+      avgVelocity: stats.avgVelocity,
+      maxVelocity: stats.maxVelocity,
+      velocityStdDev: stats.velocityStdDev,
+      commandScore: computeCommandScore(all, zoneGeometry).score,
     };
-  }, [pitches, debouncedPitchTypeFilter]);
+  }, [pitches, zoneGeometry, debouncedPitchTypeFilter]);
 
   // Session comparison metrics
   const comparisonData = useMemo(() => {
@@ -325,6 +405,11 @@ export default function TrendsPage() {
         inZoneRate: calcDiff(sessionAMeta.inZoneRate, sessionBMeta.inZoneRate),
         accuracyRate: calcDiff(sessionAMeta.accuracyRate, sessionBMeta.accuracyRate),
         avgMissDist: calcDiff(sessionAMeta.avgMissDist, sessionBMeta.avgMissDist),
+        // Already a 0-100 scale, so the change is in points
+        commandScore:
+          sessionAMeta.commandScore !== null && sessionBMeta.commandScore !== null
+            ? sessionBMeta.commandScore - sessionAMeta.commandScore
+            : null,
       },
     };
   }, [compareSessionA, compareSessionB, sessionMetrics]);
@@ -452,7 +537,7 @@ export default function TrendsPage() {
 
             {comparisonData && (
               <div className="space-y-4">
-                <div className="grid gap-4 md:grid-cols-4">
+                <div className="grid gap-4 md:grid-cols-5">
                   <div className="rounded-lg border p-4">
                     <div className="text-sm text-gray-500 mb-1">Total Pitches</div>
                     <div className="flex items-baseline gap-2">
@@ -545,6 +630,32 @@ export default function TrendsPage() {
                       </span>
                     </div>
                   </div>
+                  <div className="rounded-lg border p-4">
+                    <div className="text-sm text-gray-500 mb-1">Command Score</div>
+                    <div className="flex items-baseline gap-2">
+                      <span className="text-xl font-semibold">
+                        {formatCommandScore(comparisonData.sessionA.commandScore)}
+                      </span>
+                      <span className="text-gray-400">→</span>
+                      <span className="text-xl font-semibold">
+                        {formatCommandScore(comparisonData.sessionB.commandScore)}
+                      </span>
+                      {comparisonData.diff.commandScore !== null && (
+                        <span
+                          className={`text-sm ${
+                            comparisonData.diff.commandScore > 0
+                              ? "text-green-600"
+                              : comparisonData.diff.commandScore < 0
+                              ? "text-red-600"
+                              : "text-gray-500"
+                          }`}
+                        >
+                          ({comparisonData.diff.commandScore > 0 ? "+" : ""}
+                          {Math.round(comparisonData.diff.commandScore)} pts)
+                        </span>
+                      )}
+                    </div>
+                  </div>
                 </div>
 
                 <div className="text-sm text-gray-600 bg-gray-50 rounded-lg p-3">
@@ -575,7 +686,8 @@ export default function TrendsPage() {
 
       {loading ? (
         <div className="space-y-6">
-          <div className="grid gap-4 md:grid-cols-4">
+          <div className="grid gap-4 md:grid-cols-5">
+            <SkeletonCard />
             <SkeletonCard />
             <SkeletonCard />
             <SkeletonCard />
@@ -592,7 +704,7 @@ export default function TrendsPage() {
         <div className="text-sm text-gray-600">No sessions found for these filters.</div>
       ) : (
         <>
-          <div className="grid gap-4 md:grid-cols-4">
+          <div className="grid gap-4 md:grid-cols-5">
             <Card>
               <CardHeader className="pb-2">
                 <CardTitle>Total pitches</CardTitle>
@@ -625,6 +737,14 @@ export default function TrendsPage() {
                 <div className="text-3xl font-semibold">{overallStats.avgMissDist.toFixed(3)}</div>
               </CardContent>
             </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle>Command score</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-3xl font-semibold">{formatCommandScore(overallStats.commandScore)}</div>
+              </CardContent>
+            </Card>
           </div>
 
           <div className="grid gap-6 md:grid-cols-2">
@@ -667,7 +787,143 @@ export default function TrendsPage() {
                 />
               </CardContent>
             </Card>
+
+            {commandSessions.length > 0 && (
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle>Command score by session</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <LineChart
+                    title="Command score"
+                    values={commandBySession}
+                    labels={commandLabels}
+                    format={(v) => v.toFixed(0)}
+                  />
+                </CardContent>
+              </Card>
+            )}
+
+            {armSideSessions.length > 0 && (
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle>Arm-side / glove-side miss</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <LineChart
+                    title="Avg horizontal miss (+ arm side, − glove side)"
+                    values={armSideBySession}
+                    labels={armSideLabels}
+                    format={(v) => `${v > 0 ? "+" : ""}${v.toFixed(1)} in`}
+                  />
+                </CardContent>
+              </Card>
+            )}
           </div>
+
+          {veloSessions.length > 0 && (
+            <>
+              <div className="grid gap-6 md:grid-cols-2">
+                <Card>
+                  <CardHeader className="pb-2">
+                    <CardTitle>Average velocity by session</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <LineChart
+                      title="Avg velocity (mph)"
+                      values={avgVeloBySession}
+                      labels={veloLabels}
+                      format={(v) => v.toFixed(1)}
+                    />
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader className="pb-2">
+                    <CardTitle>Max velocity by session</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <LineChart
+                      title="Max velocity (mph)"
+                      values={maxVeloBySession}
+                      labels={veloLabels}
+                      format={(v) => v.toFixed(1)}
+                    />
+                  </CardContent>
+                </Card>
+              </div>
+
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle>Velocity bands by pitch type</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {overallStats.velocityCount > 0 && (
+                    <div className="flex flex-wrap gap-6 text-sm">
+                      <div>
+                        <span className="text-gray-500">Avg </span>
+                        <span className="font-semibold tabular-nums">
+                          {overallStats.avgVelocity.toFixed(1)} ± {overallStats.velocityStdDev.toFixed(1)} mph
+                        </span>
+                      </div>
+                      <div>
+                        <span className="text-gray-500">Max </span>
+                        <span className="font-semibold tabular-nums">{overallStats.maxVelocity.toFixed(1)} mph</span>
+                      </div>
+                      <div>
+                        <span className="text-gray-500">Clocked </span>
+                        <span className="font-semibold tabular-nums">
+                          {overallStats.velocityCount} of {overallStats.total}
+                        </span>
+                      </div>
+                    </div>
+                  )}
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b text-gray-500">
+                          <th className="text-left py-2 px-2 font-medium">Pitch</th>
+                          <th className="text-right py-2 px-2 font-medium">N</th>
+                          <th className="text-right py-2 px-2 font-medium">Min</th>
+                          <th className="text-right py-2 px-2 font-medium">Avg</th>
+                          <th className="text-right py-2 px-2 font-medium">Max</th>
+                          <th className="text-right py-2 px-2 font-medium">SD</th>
+                          <th className="py-2 px-2 font-medium w-1/3">Range</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {velocityBands.map((band) => {
+                          const { low, span } = velocityRange;
+                          return (
+                            <tr key={band.pitchType} className="border-b border-gray-100">
+                              <td className="py-2 px-2 font-medium">{band.pitchType}</td>
+                              <td className="py-2 px-2 text-right tabular-nums">{band.count}</td>
+                              <td className="py-2 px-2 text-right tabular-nums">{band.min.toFixed(1)}</td>
+                              <td className="py-2 px-2 text-right tabular-nums font-semibold">{band.avg.toFixed(1)}</td>
+                              <td className="py-2 px-2 text-right tabular-nums">{band.max.toFixed(1)}</td>
+                              <td className="py-2 px-2 text-right tabular-nums">{band.stdDev.toFixed(1)}</td>
+                              <td className="py-2 px-2">
+                                <div className="relative h-2 rounded bg-gray-100">
+                                  <div
+                                    className="absolute h-full rounded bg-gray-800"
+                                    style={{
+                                      left: `${((band.min - low) / span) * 100}%`,
+                                      width: `${Math.max(((band.max - band.min) / span) * 100, 1)}%`,
+                                    }}
+                                    title={`${band.min.toFixed(1)}–${band.max.toFixed(1)} mph`}
+                                  />
+                                </div>
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                </CardContent>
+              </Card>
+            </>
+          )}
         </>
       )}
     </main>
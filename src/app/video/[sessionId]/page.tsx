@@ -4,6 +4,7 @@ import { useState, useEffect, useCallback, useMemo } from "react";
 import { useParams, useRouter } from "next/navigation";
 import Link from "next/link";
 import { supabase } from "@/lib/supabaseClient";
+import { repositories } from "@/lib/repository";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { VideoPlayer, type PitchMarker } from "@/components/VideoPlayer";
@@ -19,13 +20,10 @@ interface SessionData {
   label: string | null;
   video_url: string | null;
   pitcher_id: string;
-  pitchers?: {
+  pitcher: {
     name: string;
-    throwing_hand: string;
-  } | Array<{
-    name: string;
-    throwing_hand: string;
-  }>;
+    throwing_hand: string | null;
+  } | null;
 }
 
 interface PitchRow {
@@ -61,7 +59,7 @@ export default function VideoSessionPage() {
 
   // Load session and pitches
   useEffect(() => {
-    if (!supabase || !sessionId) return;
+    if (!sessionId) return;
 
     const loadData = async () => {
       setLoading(true);
@@ -76,45 +74,20 @@ export default function VideoSessionPage() {
           return;
         }
 
-        // Load session with pitcher info
-        const { data: sessionData, error: sessionError } = await supabase
-          .from("sessions")
-          .select(`
-            id,
-            session_date,
-            label,
-            video_url,
-            pitcher_id,
-            pitchers (
-              name,
-              throwing_hand
-            )
-          `)
-          .eq("id", sessionId)
-          .eq("user_id", uid)
-          .single();
-
-        if (sessionError) {
-          console.error("Error loading session:", sessionError);
+        const sessionRow = await repositories.sessions.get(sessionId);
+        if (!sessionRow || sessionRow.user_id !== uid) {
           showToast("Failed to load session", "error");
           return;
         }
-
-        setSession(sessionData as SessionData);
-
-        // Load pitches with timestamps
-        const { data: pitchesData, error: pitchesError } = await supabase
-          .from("pitches")
-          .select("*")
-          .eq("session_id", sessionId)
-          .eq("user_id", uid)
-          .order("timestamp", { ascending: true, nullsFirst: false });
-
-        if (pitchesError) {
-          console.error("Error loading pitches:", pitchesError);
-        } else {
-          setPitches(pitchesData || []);
-        }
+        const pitcher = await repositories.pitchers.get(sessionRow.pitcher_id);
+        setSession({ ...sessionRow, pitcher });
+
+        // Pitches in the order they appear in the video
+        const pitchRows = await repositories.pitches.list({ sessionId, ascending: true });
+        setPitches(pitchRows.sort((a, b) => (a.timestamp ?? Infinity) - (b.timestamp ?? Infinity)));
+      } catch (e) {
+        console.error("Error loading session:", e);
+        showToast("Failed to load session", "error");
       } finally {
         setLoading(false);
       }
@@ -180,33 +153,27 @@ export default function VideoSessionPage() {
   // Handle marking a new pitch
   const handleMarkPitch = useCallback(
     async (timestamp: number) => {
-      if (!supabase || !userId || !session) return;
+      if (!userId || !session) return;
 
       try {
-        const { data, error } = await supabase
-          .from("pitches")
-          .insert({
-            user_id: userId,
-            pitcher_id: session.pitcher_id,
-            session_id: sessionId,
-            timestamp,
-            pitch_type: "Untagged",
-            tag: "",
-            target_x: 0,
-            target_y: 0,
-            actual_x: 0,
-            actual_y: 0,
-            dx: 0,
-            dy: 0,
-            notes: "",
-          })
-          .select()
-          .single();
-
-        if (error) throw error;
+        const data = await repositories.pitches.create({
+          user_id: userId,
+          pitcher_id: session.pitcher_id,
+          session_id: sessionId,
+          timestamp,
+          pitch_type: "Untagged",
+          tag: "",
+          target_x: 0,
+          target_y: 0,
+          actual_x: 0,
+          actual_y: 0,
+          dx: 0,
+          dy: 0,
+          notes: "",
+        });
 
         setPitches((prev) => {
-          const updated = [...prev, data as PitchRow];
+          const updated = [...prev, data];
           // Sort by timestamp
           updated.sort((a, b) => (a.timestamp ?? 0) - (b.timestamp ?? 0));
           return updated;
@@ -229,31 +196,27 @@ export default function VideoSessionPage() {
         showToast(`Failed to mark pitch: ${errorDetails}`, "error");
       }
     },
-    [supabase, userId, session, sessionId, pitches.length, markers, showToast]
+    [userId, session, sessionId, pitches.length, markers, showToast]
   );
 
   // Handle saving pitch data
   const handleSavePitch = useCallback(
     async (data: PitchData) => {
-      if (!supabase || !data.id) return;
+      if (!data.id) return;
 
       try {
-        const { error } = await supabase
-          .from("pitches")
-          .update({
-            pitch_type: data.pitch_type,
-            tag: data.tag,
-            intended_location_zone_id: data.intended_location_zone_id,
-            actual_location_zone_id: data.actual_location_zone_id,
-            target_x: data.target_x,
-            target_y: data.target_y,
-            actual_x: data.actual_x,
-            actual_y: data.actual_y,
-            notes: data.notes,
-          })
-          .eq("id", data.id);
-
-        if (error) throw error;
+        // Type and coordinates are required columns, so blanks leave them as they were
+        await repositories.pitches.update(data.id, {
+          pitch_type: data.pitch_type ?? undefined,
+          tag: data.tag,
+          intended_location_zone_id: data.intended_location_zone_id,
+          actual_location_zone_id: data.actual_location_zone_id,
+          target_x: data.target_x ?? undefined,
+          target_y: data.target_y ?? undefined,
+          actual_x: data.actual_x ?? undefined,
+          actual_y: data.actual_y ?? undefined,
+          notes: data.notes,
+        });
 
         setPitches((prev) =>
           prev.map((p) =>
@@ -280,18 +243,14 @@ export default function VideoSessionPage() {
         showToast("Failed to save pitch", "error");
       }
     },
-    [supabase, showToast]
+    [showToast]
   );
 
   // Handle deleting pitch marker
   const handleDeletePitch = useCallback(
     async (id: string) => {
-      if (!supabase) return;
-
       try {
-        const { error } = await supabase.from("pitches").delete().eq("id", id);
-
-        if (error) throw error;
+        await repositories.pitches.delete(id);
 
         setPitches((prev) => prev.filter((p) => p.id !== id));
         setShowTaggingOverlay(false);
@@ -303,7 +262,7 @@ export default function VideoSessionPage() {
         showToast("Failed to delete pitch", "error");
       }
     },
-    [supabase, showToast]
+    [showToast]
   );
 
   // Handle marker click from video player
@@ -345,17 +304,12 @@ export default function VideoSessionPage() {
 
   // Handle saving video URL
   const handleSaveVideoUrl = useCallback(async () => {
-    if (!videoUrlInput.trim() || !supabase || !sessionId) return;
+    if (!videoUrlInput.trim() || !sessionId) return;
 
     setSavingUrl(true);
     try {
       // Update session with video URL
-      const { error: updateError } = await supabase
-        .from("sessions")
-        .update({ video_url: videoUrlInput.trim() })
-        .eq("id", sessionId);
-
-      if (updateError) throw updateError;
+      await repositories.sessions.update(sessionId, { video_url: videoUrlInput.trim() });
 
       setSession((prev) => (prev ? { ...prev, video_url: videoUrlInput.trim() } : prev));
       setVideoUrlInput("");
@@ -366,20 +320,15 @@ export default function VideoSessionPage() {
     } finally {
       setSavingUrl(false);
     }
-  }, [videoUrlInput, supabase, sessionId, showToast]);
+  }, [videoUrlInput, sessionId, showToast]);
 
   // Handle clearing video URL
   const handleClearVideoUrl = useCallback(async () => {
-    if (!supabase || !sessionId) return;
+    if (!sessionId) return;
 
     setSavingUrl(true);
     try {
-      const { error } = await supabase
-        .from("sessions")
-        .update({ video_url: null })
-        .eq("id", sessionId);
-
-      if (error) throw error;
+      await repositories.sessions.update(sessionId, { video_url: null });
 
       setSession((prev) => (prev ? { ...prev, video_url: null } : prev));
       showToast("Video removed", "success");
@@ -389,7 +338,7 @@ export default function VideoSessionPage() {
     } finally {
       setSavingUrl(false);
     }
-  }, [supabase, sessionId, showToast]);
+  }, [sessionId, showToast]);
 
   if (loading) {
     return (
@@ -411,7 +360,7 @@ export default function VideoSessionPage() {
     );
   }
 
-  const pitcher = Array.isArray(session.pitchers) ? session.pitchers[0] : session.pitchers;
+  const { pitcher } = session;
   const pitcherName = pitcher?.name || "Unknown Pitcher";
   const sessionLabel = session.label || `Session ${session.session_date}`;
 
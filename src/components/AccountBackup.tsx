@@ -0,0 +1,98 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { useToast } from "@/components/ui/toast";
+import { useConfirm } from "@/components/ui/confirm-dialog";
+import { getErrorMessage } from "@/lib/api";
+import {
+  BACKUP_TABLES,
+  exportAccount,
+  generateBackupFilename,
+  parseBackupArchive,
+  restoreAccount,
+} from "@/lib/backup";
+import { downloadFile } from "@/lib/scorebook/export";
+import { Download, Upload } from "lucide-react";
+
+type Props = {
+  userId: string;
+};
+
+export function AccountBackup({ userId }: Props) {
+  const { showToast } = useToast();
+  const confirm = useConfirm();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [busy, setBusy] = useState<"export" | "restore" | null>(null);
+
+  const handleExport = async () => {
+    setBusy("export");
+    try {
+      const archive = await exportAccount(userId);
+      downloadFile(JSON.stringify(archive), generateBackupFilename(), "application/json;charset=utf-8;");
+      const rows = BACKUP_TABLES.reduce((sum, table) => sum + archive.tables[table].length, 0);
+      showToast(`Backed up ${rows} record${rows !== 1 ? "s" : ""}`, "success");
+    } catch (err) {
+      showToast(getErrorMessage(err), "error");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleRestore = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      const archive = parseBackupArchive(await file.text());
+      const confirmed = await confirm({
+        title: "Restore Backup",
+        message: `Merge the backup from ${archive.exported_at.slice(0, 10) || "an unknown date"} into this account? Records you already have are kept as they are.`,
+        confirmLabel: "Restore",
+      });
+      if (!confirmed) return;
+
+      setBusy("restore");
+      const result = await restoreAccount(archive, userId);
+      const added = BACKUP_TABLES.reduce((sum, table) => sum + result[table].added, 0);
+      const skipped = BACKUP_TABLES.reduce((sum, table) => sum + result[table].skipped, 0);
+      showToast(`Restored ${added} record${added !== 1 ? "s" : ""}, ${skipped} already present`, "success");
+    } catch (err) {
+      showToast(getErrorMessage(err), "error");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardContent className="p-6 flex flex-col md:flex-row md:items-center gap-4">
+        <div className="flex-1">
+          <h2 className="font-semibold text-slate-900">Backup &amp; Restore</h2>
+          <p className="text-sm text-slate-600 mt-1">
+            Download all your pitchers, sessions, teams and games as one file, or merge a backup into this account.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleExport} disabled={busy !== null}>
+            <Download className="h-4 w-4" />
+            {busy === "export" ? "Exporting..." : "Back Up"}
+          </Button>
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={busy !== null}>
+            <Upload className="h-4 w-4" />
+            {busy === "restore" ? "Restoring..." : "Restore"}
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={handleRestore}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -6,6 +6,7 @@ import { type Session } from "@supabase/supabase-js";
 import { Button } from "@/components/ui/button";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { supabase } from "@/lib/supabaseClient";
+import { OrganizationSwitcher } from "@/components/OrganizationSwitcher";
 
 export default function AccountBar() {
   const router = useRouter();
@@ -44,6 +45,7 @@ export default function AccountBar() {
   return (
     <div className="w-full">
       <div className="flex items-center justify-end gap-3 rounded-xl border bg-white px-3 py-2 shadow-sm pointer-events-auto">
+        <OrganizationSwitcher />
         <div className="text-sm text-gray-700 truncate max-w-[220px]">
           Signed in as{" "}
           <TooltipProvider>
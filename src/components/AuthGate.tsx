@@ -4,6 +4,29 @@ import { useEffect, useState } from "react";
 import { usePathname, useRouter } from "next/navigation";
 import { type Session } from "@supabase/supabase-js";
 import { supabase } from "@/lib/supabaseClient";
+import { OrganizationProvider, useOrganization } from "@/components/OrganizationProvider";
+
+function LoadingScreen() {
+  return (
+    <div className="p-6 space-y-3">
+      <div className="h-4 w-56 rounded-md bg-gray-200 animate-pulse" />
+      <div className="h-4 w-72 rounded-md bg-gray-200 animate-pulse" />
+      <div className="h-4 w-40 rounded-md bg-gray-200 animate-pulse" />
+    </div>
+  );
+}
+
+// Live game links are for spectators, who don't need an account
+function isPublicPath(pathname: string) {
+  return pathname.startsWith("/live/");
+}
+
+// Pages scope their queries to the active organization, so wait for it
+function MembershipGate({ children }: { children: React.ReactNode }) {
+  const { loading } = useOrganization();
+  if (loading) return <LoadingScreen />;
+  return <>{children}</>;
+}
 
 export default function AuthGate({ children }: { children: React.ReactNode }) {
   const router = useRouter();
@@ -40,22 +63,20 @@ export default function AuthGate({ children }: { children: React.ReactNode }) {
       router.replace("/");
       return;
     }
-    if (pathname === "/login") return;
+    if (pathname === "/login" || isPublicPath(pathname)) return;
 
     if (!session) {
       router.replace("/login");
     }
   }, [loaded, session, pathname, router]);
 
+  if (isPublicPath(pathname)) {
+    return <>{children}</>;
+  }
+
   // While checking session, show a simple loading screen everywhere except /login
   if (pathname !== "/login" && !loaded) {
-    return (
-      <div className="p-6 space-y-3">
-        <div className="h-4 w-56 rounded-md bg-gray-200 animate-pulse" />
-        <div className="h-4 w-72 rounded-md bg-gray-200 animate-pulse" />
-        <div className="h-4 w-40 rounded-md bg-gray-200 animate-pulse" />
-      </div>
-    );
+    return <LoadingScreen />;
   }
 
   // If not signed in and not on /login, show nothing while redirecting
@@ -63,5 +84,13 @@ export default function AuthGate({ children }: { children: React.ReactNode }) {
     return null;
   }
 
-  return <>{children}</>;
+  if (!session) {
+    return <>{children}</>;
+  }
+
+  return (
+    <OrganizationProvider key={session.user.id} userId={session.user.id}>
+      {pathname === "/login" ? children : <MembershipGate>{children}</MembershipGate>}
+    </OrganizationProvider>
+  );
 }
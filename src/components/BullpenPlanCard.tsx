@@ -0,0 +1,297 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardAction, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ZONE_LABELS } from "@/components/StrikeZoneGrid";
+import { IN_ZONE_IDS, OUT_ZONE_IDS, type ZoneId } from "@/lib/strikeZone";
+import type { BullpenPlan, BullpenPlanStep, PlanProgress } from "@/lib/bullpenPlans";
+import { Plus, Trash2 } from "lucide-react";
+
+const NO_PLAN = "none";
+const PITCH_TYPES = ["FB", "SL", "CB", "CH", "CT", "SI", "OT"];
+const ZONE_OPTIONS: ZoneId[] = [...IN_ZONE_IDS, ...OUT_ZONE_IDS];
+
+export type PlanDraft = {
+  name: string;
+  steps: BullpenPlanStep[];
+};
+
+type BullpenPlanCardProps = {
+  plans: BullpenPlan[];
+  selectedPlanId: string | null;
+  progress: PlanProgress | null;
+  onAttachPlan: (planId: string | null) => Promise<void>;
+  onSavePlan: (draft: PlanDraft, planId: string | null) => Promise<BullpenPlan | null>;
+  onDeletePlan: (planId: string) => Promise<void>;
+  disabled: boolean;
+};
+
+function zoneLabel(zoneId: ZoneId) {
+  return `${zoneId} · ${ZONE_LABELS[zoneId] ?? zoneId}`;
+}
+
+function emptyStep(): BullpenPlanStep {
+  return { pitch_type: "FB", zone_id: "C1", reps: 5 };
+}
+
+export function BullpenPlanCard({
+  plans,
+  selectedPlanId,
+  progress,
+  onAttachPlan,
+  onSavePlan,
+  onDeletePlan,
+  disabled,
+}: BullpenPlanCardProps) {
+  const [draft, setDraft] = useState<PlanDraft | null>(null);
+  const [editingPlanId, setEditingPlanId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const selectedPlan = plans.find((p) => p.id === selectedPlanId) ?? null;
+
+  const startNew = () => {
+    setEditingPlanId(null);
+    setDraft({ name: "", steps: [emptyStep()] });
+  };
+
+  const startEdit = (plan: BullpenPlan) => {
+    setEditingPlanId(plan.id);
+    setDraft({ name: plan.name, steps: plan.steps.map((s) => ({ ...s })) });
+  };
+
+  const updateStep = (index: number, changes: Partial<BullpenPlanStep>) => {
+    setDraft((d) => d && { ...d, steps: d.steps.map((s, i) => (i === index ? { ...s, ...changes } : s)) });
+  };
+
+  const handleSave = async () => {
+    if (!draft || !draft.name.trim() || draft.steps.length === 0) return;
+    setSaving(true);
+    try {
+      const saved = await onSavePlan({ ...draft, name: draft.name.trim() }, editingPlanId);
+      if (saved) {
+        setDraft(null);
+        setEditingPlanId(null);
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Bullpen plan</CardTitle>
+        <CardAction>
+          <Button variant="outline" size="sm" onClick={startNew} disabled={Boolean(draft)} className="min-h-[36px]">
+            <Plus className="h-4 w-4" />
+            New plan
+          </Button>
+        </CardAction>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {draft ? (
+          <div className="space-y-3">
+            <div>
+              <Label htmlFor="plan-name" className="block text-sm font-medium mb-1">
+                Plan name
+              </Label>
+              <Input
+                id="plan-name"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="Example: Tuesday side, 30 pitches"
+              />
+            </div>
+
+            <div className="space-y-2">
+              {draft.steps.map((step, index) => (
+                <div key={index} className="grid grid-cols-[2rem_1fr_2fr_4rem_auto] gap-2 items-center">
+                  <span className="text-sm text-gray-500 font-mono">{index + 1}.</span>
+                  <Select value={step.pitch_type} onValueChange={(v) => updateStep(index, { pitch_type: v })}>
+                    <SelectTrigger aria-label={`Step ${index + 1} pitch type`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PITCH_TYPES.map((t) => (
+                        <SelectItem key={t} value={t}>
+                          {t}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select value={step.zone_id} onValueChange={(v) => updateStep(index, { zone_id: v as ZoneId })}>
+                    <SelectTrigger aria-label={`Step ${index + 1} target zone`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ZONE_OPTIONS.map((zoneId) => (
+                        <SelectItem key={zoneId} value={zoneId}>
+                          {zoneLabel(zoneId)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={step.reps}
+                    onChange={(e) => updateStep(index, { reps: Math.max(1, Number(e.target.value) || 1) })}
+                    aria-label={`Step ${index + 1} reps`}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setDraft({ ...draft, steps: draft.steps.filter((_, i) => i !== index) })}
+                    disabled={draft.steps.length === 1}
+                    aria-label={`Remove step ${index + 1}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setDraft({ ...draft, steps: [...draft.steps, emptyStep()] })}
+                className="min-h-[36px]"
+              >
+                Add step
+              </Button>
+            </div>
+
+            <div className="flex gap-2">
+              <Button onClick={handleSave} disabled={saving || !draft.name.trim()} className="min-h-[44px]">
+                {saving ? "Saving..." : "Save plan"}
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => {
+                  setDraft(null);
+                  setEditingPlanId(null);
+                }}
+                className="min-h-[44px]"
+              >
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <>
+            <div>
+              <Label htmlFor="plan-select" className="block text-sm font-medium mb-1">
+                Script for this session
+              </Label>
+              <Select
+                value={selectedPlanId ?? NO_PLAN}
+                onValueChange={(v) => onAttachPlan(v === NO_PLAN ? null : v)}
+                disabled={disabled}
+              >
+                <SelectTrigger id="plan-select" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_PLAN}>Free logging (no plan)</SelectItem>
+                  {plans.map((plan) => (
+                    <SelectItem key={plan.id} value={plan.id}>
+                      {plan.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {disabled && <div className="mt-1 text-xs text-gray-500">Select a session to attach a plan.</div>}
+            </div>
+
+            {selectedPlan && progress && (
+              <div className="space-y-3">
+                <div>
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-gray-600">
+                      {progress.thrown} of {progress.totalReps} pitches
+                      {progress.extra > 0 && ` (+${progress.extra} extra)`}
+                    </span>
+                    <span className="font-medium">{Math.round(progress.accuracy * 100)}% on target</span>
+                  </div>
+                  <div className="mt-2 h-2 w-full rounded bg-gray-100 overflow-hidden">
+                    <div
+                      className="h-full bg-gray-800"
+                      style={{ width: `${progress.totalReps ? (progress.thrown / progress.totalReps) * 100 : 0}%` }}
+                    />
+                  </div>
+                </div>
+
+                {progress.next ? (
+                  <div className="rounded-md border border-blue-200 bg-blue-50 px-3 py-2 text-sm text-blue-900">
+                    Next: <span className="font-semibold">{progress.next.pitch_type}</span> to{" "}
+                    {zoneLabel(progress.next.zone_id)} (rep {progress.next.rep} of{" "}
+                    {selectedPlan.steps[progress.next.stepIndex].reps})
+                  </div>
+                ) : (
+                  <div className="rounded-md border border-green-200 bg-green-50 px-3 py-2 text-sm text-green-900">
+                    Plan complete.
+                  </div>
+                )}
+
+                <div className="divide-y rounded-lg border">
+                  {progress.steps.map((row) => {
+                    const isCurrent = progress.next?.stepIndex === row.index;
+                    return (
+                      <div
+                        key={row.index}
+                        className={`flex items-center justify-between gap-3 px-3 py-2 text-sm ${
+                          isCurrent ? "bg-blue-50" : row.complete ? "text-gray-500" : ""
+                        }`}
+                      >
+                        <div className="flex items-center gap-2 min-w-0">
+                          <span className="font-mono text-gray-500">{row.index + 1}.</span>
+                          <span className="font-medium">
+                            {row.step.reps} {row.step.pitch_type}
+                          </span>
+                          <span className="truncate text-gray-600">{zoneLabel(row.step.zone_id)}</span>
+                        </div>
+                        <div className="flex items-center gap-3 shrink-0 tabular-nums">
+                          <span>
+                            {row.thrown}/{row.step.reps}
+                          </span>
+                          <span className="w-12 text-right">
+                            {row.thrown ? `${Math.round(row.accuracy * 100)}%` : "—"}
+                          </span>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+                <div className="text-xs text-gray-500">
+                  Pitches fill the script in the order thrown. Accuracy counts pitches landing in the step&apos;s zone.
+                </div>
+
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => startEdit(selectedPlan)} className="min-h-[36px]">
+                    Edit plan
+                  </Button>
+                  <Button
+                    variant="destructive"
+                    size="sm"
+                    onClick={() => onDeletePlan(selectedPlan.id)}
+                    className="min-h-[36px]"
+                  >
+                    Delete plan
+                  </Button>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
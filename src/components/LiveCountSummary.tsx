@@ -0,0 +1,97 @@
+"use client";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import type { CountBehavior, CountSummary } from "@/lib/simulatedCount";
+
+// Every count a pitch can be thrown in, in the order a scout reads them
+const COUNTS = ["0-0", "1-0", "0-1", "2-0", "1-1", "0-2", "3-0", "2-1", "1-2", "3-1", "2-2", "3-2"];
+
+function pct(value: number) {
+  return `${Math.round(value * 100)}%`;
+}
+
+function BehaviorCard({ title, behavior }: { title: string; behavior: CountBehavior }) {
+  return (
+    <div className="rounded-lg border p-3 text-sm">
+      <div className="text-gray-500">{title}</div>
+      {behavior.pitches ? (
+        <>
+          <div className="text-xl font-semibold">{pct(behavior.strikeRate)} strikes</div>
+          <div className="text-xs text-gray-500">
+            {behavior.pitches} pitch{behavior.pitches !== 1 ? "es" : ""} · hitters ended {behavior.outcomes.K} K,{" "}
+            {behavior.outcomes.BB} BB, {behavior.outcomes.contact} in play
+          </div>
+        </>
+      ) : (
+        <div className="text-xl font-semibold text-gray-400">—</div>
+      )}
+    </div>
+  );
+}
+
+export function LiveCountSummary({ summary }: { summary: CountSummary }) {
+  const pitchTypes = Array.from(
+    new Set(Object.values(summary.selectionByCount).flatMap((types) => Object.keys(types)))
+  ).sort();
+  const counts = COUNTS.filter((c) => summary.selectionByCount[c]);
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle>Live count</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-3 grid-cols-2 md:grid-cols-4 text-sm">
+          <div className="rounded-lg border p-3">
+            <div className="text-gray-500">Hitters</div>
+            <div className="text-xl font-semibold">{summary.batters}</div>
+            <div className="text-xs text-gray-500">
+              {summary.outcomes.K} K · {summary.outcomes.BB} BB · {summary.outcomes.contact} in play
+            </div>
+          </div>
+          <div className="rounded-lg border p-3">
+            <div className="text-gray-500">First-pitch strike</div>
+            <div className="text-xl font-semibold">{pct(summary.firstPitchStrikeRate)}</div>
+            <div className="text-xs text-gray-500">{summary.firstPitchStrikes} of {summary.batters}</div>
+          </div>
+          <BehaviorCard title="0-2" behavior={summary.twoStrikeNoBall} />
+          <BehaviorCard title="3-0" behavior={summary.threeBallNoStrike} />
+        </div>
+
+        <div>
+          <div className="text-sm font-medium mb-2">Pitch selection by count</div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-gray-500">
+                  <th className="text-left py-2 px-2 font-medium">Count</th>
+                  {pitchTypes.map((type) => (
+                    <th key={type} className="text-right py-2 px-2 font-medium">
+                      {type}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {counts.map((count) => {
+                  const types = summary.selectionByCount[count];
+                  const total = Object.values(types).reduce((sum, n) => sum + n, 0);
+                  return (
+                    <tr key={count} className="border-b border-gray-100">
+                      <td className="py-2 px-2 font-mono">{count}</td>
+                      {pitchTypes.map((type) => (
+                        <td key={type} className="py-2 px-2 text-right tabular-nums">
+                          {types[type] ? `${types[type]} (${pct(types[type] / total)})` : "—"}
+                        </td>
+                      ))}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,279 @@
+"use client";
+
+import { useMemo, useState, type ReactNode } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardAction, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ZoneDensityHeatmap } from "@/components/ZoneDensityHeatmap";
+import {
+  DEFAULT_ZONE_GEOMETRY,
+  LOCATION_VIEWS,
+  ZONE_GRIDS,
+  buildZoneGrid,
+  computeMissSummary,
+  getActualPoint,
+  getTargetPoint,
+  isHand,
+  isLocationView,
+  isZoneGridKind,
+  loadZoneGeometry,
+  orientPoint,
+  saveZoneGeometry,
+  zoneForBatterHeight,
+  type Hand,
+  type LocationView,
+  type MissSummary,
+  type PitchLocation,
+  type StrikeZoneGeometry,
+  type ZoneGridKind,
+} from "@/lib/strikeZone";
+
+type LocationAnalysisCardProps = {
+  pitches: PitchLocation[];
+  title?: string;
+  // Pitcher's throwing hand, for arm-side/glove-side reads
+  throws?: Hand | null;
+  // Rendered above the heatmaps, e.g. a pitch type filter
+  filters?: ReactNode;
+};
+
+function formatInches(value: number) {
+  return `${value.toFixed(1)} in`;
+}
+
+function describeBias(misses: MissSummary) {
+  const { avgVertical, avgArmSide, avgHorizontal } = misses;
+  const parts: string[] = [];
+  if (Math.abs(avgVertical) >= 0.5) {
+    parts.push(`${formatInches(Math.abs(avgVertical))} ${avgVertical > 0 ? "high" : "low"}`);
+  }
+  if (avgArmSide !== null && Math.abs(avgArmSide) >= 0.5) {
+    parts.push(`${formatInches(Math.abs(avgArmSide))} ${avgArmSide > 0 ? "arm-side" : "glove-side"}`);
+  } else if (avgArmSide === null && Math.abs(avgHorizontal) >= 0.5) {
+    parts.push(`${formatInches(Math.abs(avgHorizontal))} ${avgHorizontal > 0 ? "right" : "left"}`);
+  }
+  return parts.length ? parts.join(", ") : "Centered on target";
+}
+
+/**
+ * Location analytics from the continuous target/actual coordinates: density
+ * heatmaps at a chosen grid resolution and miss distance and direction in
+ * inches for a configurable zone
+ */
+export function LocationAnalysisCard({ pitches, title = "Location", throws = null, filters }: LocationAnalysisCardProps) {
+  const [gridKind, setGridKind] = useState<ZoneGridKind>("5x5");
+  const [view, setView] = useState<LocationView>("grid");
+  const [geometry, setGeometry] = useState<StrikeZoneGeometry>(loadZoneGeometry);
+  const [editingZone, setEditingZone] = useState(false);
+  const [batterHeight, setBatterHeight] = useState("");
+
+  const grid = useMemo(() => buildZoneGrid(gridKind), [gridKind]);
+  const oriented = useMemo(() => {
+    const hands = (pitch: PitchLocation) => ({
+      throws,
+      batterSide: isHand(pitch.batter_side) ? pitch.batter_side : null,
+    });
+    return {
+      target: pitches.map((p) => orientPoint(getTargetPoint(p), view, hands(p))),
+      actual: pitches.map((p) => orientPoint(getActualPoint(p), view, hands(p))),
+    };
+  }, [pitches, view, throws]);
+  // Pitches the view can't place because the hand wasn't recorded
+  const unoriented = pitches.filter(getActualPoint).length - oriented.actual.filter(Boolean).length;
+  const misses = useMemo(() => computeMissSummary(pitches, geometry, throws), [pitches, geometry, throws]);
+  const missRows = Array.from(misses.directions, ([direction, count]) => ({ direction, count }));
+
+  const updateGeometry = (changes: Partial<StrikeZoneGeometry>) => {
+    const next = { ...geometry, ...changes };
+    setGeometry(next);
+    if (next.plateWidth > 0 && next.top > next.bottom && next.bottom >= 0) saveZoneGeometry(next);
+  };
+
+  const applyBatterHeight = () => {
+    const height = Number(batterHeight);
+    if (!Number.isFinite(height) || height <= 0) return;
+    updateGeometry(zoneForBatterHeight(height, geometry.plateWidth));
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle>{title}</CardTitle>
+        <CardAction>
+          <Select value={gridKind} onValueChange={(v) => isZoneGridKind(v) && setGridKind(v)}>
+            <SelectTrigger className="w-[150px]" aria-label="Grid resolution">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(ZONE_GRIDS).map(([key, label]) => (
+                <SelectItem key={key} value={key}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardAction>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-3">
+          {filters}
+          <div className="max-w-[220px]">
+            <Label htmlFor="location-view" className="block text-sm font-medium mb-1">
+              View
+            </Label>
+            <Select value={view} onValueChange={(v) => isLocationView(v) && setView(v)}>
+              <SelectTrigger id="location-view" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(LOCATION_VIEWS).map(([key, label]) => (
+                  <SelectItem key={key} value={key} disabled={key === "arm_side" && !throws}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <div className="grid gap-6 md:grid-cols-2">
+          <ZoneDensityHeatmap title="Intended Location" points={oriented.target} grid={grid} />
+          <ZoneDensityHeatmap title="Actual Location" points={oriented.actual} grid={grid} />
+        </div>
+        {unoriented > 0 && (
+          <p className="text-xs text-gray-500">
+            {unoriented} {unoriented === 1 ? "pitch isn't" : "pitches aren't"} shown: no{" "}
+            {view === "inside" ? "batter side" : "throwing hand"} recorded.
+          </p>
+        )}
+
+        {misses.located > 0 ? (
+          <div className="grid gap-4 md:grid-cols-3 text-sm">
+            <div>
+              <div className="text-gray-500">Avg miss distance</div>
+              <div className="text-2xl font-semibold tabular-nums">{formatInches(misses.avgDistance)}</div>
+              <div className="text-xs text-gray-500">
+                {misses.onTarget} of {misses.located} within a ball&apos;s width
+              </div>
+            </div>
+            <div>
+              <div className="text-gray-500">Miss tendency</div>
+              <div className="font-medium">{describeBias(misses)}</div>
+              <div className="text-xs text-gray-500">Average finish relative to target</div>
+              {misses.avgInside !== null && Math.abs(misses.avgInside) >= 0.5 && (
+                <div className="text-xs text-gray-500">
+                  {formatInches(Math.abs(misses.avgInside))} {misses.avgInside > 0 ? "in" : "away"} to batters
+                </div>
+              )}
+            </div>
+            <div>
+              <div className="text-gray-500 mb-1">Miss direction</div>
+              {missRows.length ? (
+                <div className="space-y-1">
+                  {missRows.slice(0, 4).map((row) => (
+                    <div key={row.direction} className="flex justify-between">
+                      <span>{row.direction}</span>
+                      <span className="tabular-nums text-gray-600">{row.count}</span>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <div className="text-gray-500">No misses.</div>
+              )}
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">No located pitches yet.</p>
+        )}
+
+        <div className="text-sm">
+          <button
+            type="button"
+            className="text-xs text-slate-600 underline underline-offset-4 hover:text-slate-900"
+            onClick={() => setEditingZone((v) => !v)}
+          >
+            {editingZone
+              ? "Hide zone settings"
+              : `Zone: ${geometry.plateWidth}" plate, ${geometry.bottom}"–${geometry.top}" high`}
+          </button>
+          {editingZone && (
+            <div className="mt-3 space-y-3">
+              <div className="grid grid-cols-3 gap-3">
+                <div>
+                  <Label htmlFor="zone-plate-width" className="block text-xs font-medium mb-1">
+                    Plate width (in)
+                  </Label>
+                  <Input
+                    id="zone-plate-width"
+                    type="number"
+                    min={1}
+                    step={0.5}
+                    value={geometry.plateWidth}
+                    onChange={(e) => updateGeometry({ plateWidth: Number(e.target.value) })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="zone-bottom" className="block text-xs font-medium mb-1">
+                    Bottom (in)
+                  </Label>
+                  <Input
+                    id="zone-bottom"
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    value={geometry.bottom}
+                    onChange={(e) => updateGeometry({ bottom: Number(e.target.value) })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="zone-top" className="block text-xs font-medium mb-1">
+                    Top (in)
+                  </Label>
+                  <Input
+                    id="zone-top"
+                    type="number"
+                    min={1}
+                    step={0.5}
+                    value={geometry.top}
+                    onChange={(e) => updateGeometry({ top: Number(e.target.value) })}
+                  />
+                </div>
+              </div>
+              <div className="flex items-end gap-2">
+                <div>
+                  <Label htmlFor="zone-batter-height" className="block text-xs font-medium mb-1">
+                    Batter height (in)
+                  </Label>
+                  <Input
+                    id="zone-batter-height"
+                    type="number"
+                    min={1}
+                    value={batterHeight}
+                    onChange={(e) => setBatterHeight(e.target.value)}
+                    placeholder="e.g. 72"
+                  />
+                </div>
+                <Button variant="outline" size="sm" onClick={applyBatterHeight} disabled={!batterHeight}>
+                  Fit zone
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => updateGeometry(DEFAULT_ZONE_GEOMETRY)}>
+                  Reset
+                </Button>
+              </div>
+              {!(geometry.top > geometry.bottom) && (
+                <p className="text-xs text-red-600">The top of the zone must be above the bottom.</p>
+              )}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,87 @@
+"use client";
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useState, type ReactNode } from "react";
+import { storageBackend } from "@/lib/repository";
+import {
+  fetchAssignedGameIds,
+  fetchMemberships,
+  type Access,
+  type Membership,
+} from "@/lib/organizations";
+
+const ACTIVE_ORG_KEY = "organization:activeOrgId";
+
+type OrganizationContextValue = {
+  access: Access;
+  memberships: Membership[];
+  // Games a scorekeeper has been assigned, across their organizations
+  assignedGameIds: Set<string>;
+  loading: boolean;
+  // null works with the user's own records
+  setActiveOrg: (orgId: string | null) => void;
+  reload: () => Promise<void>;
+};
+
+const OrganizationContext = createContext<OrganizationContextValue | null>(null);
+
+export function OrganizationProvider({ userId, children }: { userId: string; children: ReactNode }) {
+  const [memberships, setMemberships] = useState<Membership[]>([]);
+  const [assignedGameIds, setAssignedGameIds] = useState<Set<string>>(() => new Set());
+  // Organizations only exist in Supabase; the in-browser backend is single-user
+  const [loading, setLoading] = useState(storageBackend === "supabase");
+  // Only rendered once signed in, so localStorage is available
+  const [activeOrgId, setActiveOrgId] = useState<string | null>(() => window.localStorage.getItem(ACTIVE_ORG_KEY));
+
+  const reload = useCallback(async () => {
+    if (storageBackend !== "supabase") return;
+    try {
+      const [nextMemberships, nextAssigned] = await Promise.all([
+        fetchMemberships(userId),
+        fetchAssignedGameIds(userId),
+      ]);
+      setMemberships(nextMemberships);
+      setAssignedGameIds(nextAssigned);
+    } catch (e) {
+      // Without memberships the user still has their own records
+      console.error(e);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    void reload();
+  }, [reload]);
+
+  const setActiveOrg = useCallback((orgId: string | null) => {
+    setActiveOrgId(orgId);
+    if (orgId) {
+      window.localStorage.setItem(ACTIVE_ORG_KEY, orgId);
+    } else {
+      window.localStorage.removeItem(ACTIVE_ORG_KEY);
+    }
+  }, []);
+
+  const value = useMemo<OrganizationContextValue>(() => {
+    // A stored organization the user has since left falls back to their own records
+    const membership = memberships.find((m) => m.org_id === activeOrgId) ?? null;
+    return {
+      access: { userId, membership },
+      memberships,
+      assignedGameIds,
+      loading,
+      setActiveOrg,
+      reload,
+    };
+  }, [userId, memberships, activeOrgId, assignedGameIds, loading, setActiveOrg, reload]);
+
+  return <OrganizationContext.Provider value={value}>{children}</OrganizationContext.Provider>;
+}
+
+export function useOrganization() {
+  const context = useContext(OrganizationContext);
+  if (!context) {
+    throw new Error("useOrganization must be used within an OrganizationProvider");
+  }
+  return context;
+}
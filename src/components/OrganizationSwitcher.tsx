@@ -0,0 +1,50 @@
+"use client";
+
+import Link from "next/link";
+import { Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useOrganization } from "@/components/OrganizationProvider";
+import { storageBackend } from "@/lib/repository";
+import { activeOrgId, ORG_ROLES } from "@/lib/organizations";
+
+// Select items can't have an empty value
+const PERSONAL = "personal";
+
+/**
+ * Picks whose pitchers, teams and games the app shows: the user's own, or an
+ * organization's they belong to
+ */
+export function OrganizationSwitcher() {
+  const { access, memberships, setActiveOrg } = useOrganization();
+
+  if (storageBackend !== "supabase") return null;
+
+  return (
+    <div className="flex items-center gap-2">
+      {memberships.length > 0 && (
+        <Select
+          value={activeOrgId(access) ?? PERSONAL}
+          onValueChange={(value) => setActiveOrg(value === PERSONAL ? null : value)}
+        >
+          <SelectTrigger className="w-[200px]" aria-label="Workspace">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={PERSONAL}>My records</SelectItem>
+            {memberships.map((m) => (
+              <SelectItem key={m.org_id} value={m.org_id}>
+                {m.organization.name} · {ORG_ROLES[m.role]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      <Button asChild variant="ghost" size="icon" title="Organizations">
+        <Link href="/organization">
+          <Users className="h-4 w-4" />
+        </Link>
+      </Button>
+    </div>
+  );
+}
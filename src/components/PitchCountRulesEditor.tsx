@@ -0,0 +1,138 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { PLAY_LEVELS, type PlayLevel } from "@/lib/scorebook/types";
+import {
+  resetPitchCountRules,
+  savePitchCountRules,
+  type PitchCountRule,
+  type PitchCountRules,
+} from "@/lib/workload";
+
+type PitchCountRulesEditorProps = {
+  level: PlayLevel;
+  rules: PitchCountRules;
+  onChange: (rules: PitchCountRules) => void;
+};
+
+/**
+ * Collapsible editor for one level's daily limit and rest tiers. Changes are
+ * saved as they're made.
+ */
+export function PitchCountRulesEditor({ level, rules, onChange }: PitchCountRulesEditorProps) {
+  const [open, setOpen] = useState(false);
+  const rule = rules[level];
+
+  const updateRule = (changes: Partial<PitchCountRule>) => {
+    const next = { ...rules, [level]: { ...rule, ...changes } };
+    onChange(next);
+    savePitchCountRules(next);
+  };
+
+  return (
+    <div className="text-sm">
+      <button
+        type="button"
+        className="text-xs text-slate-600 underline underline-offset-4 hover:text-slate-900"
+        onClick={() => setOpen((v) => !v)}
+      >
+        {open ? "Hide pitch-count rules" : `Pitch-count rules (${PLAY_LEVELS[level]})`}
+      </button>
+      {open && (
+        <div className="mt-3 space-y-3">
+          <div className="grid grid-cols-2 gap-3 items-end">
+            <div>
+              <Label htmlFor={`rule-daily-max-${level}`} className="block text-xs font-medium mb-1">
+                Daily max (blank for none)
+              </Label>
+              <Input
+                id={`rule-daily-max-${level}`}
+                type="number"
+                min={1}
+                value={rule.dailyMax ?? ""}
+                onChange={(e) => updateRule({ dailyMax: e.target.value ? Number(e.target.value) : null })}
+              />
+            </div>
+            <label className="inline-flex items-center gap-2 text-xs text-slate-600 select-none cursor-pointer pb-2">
+              <input
+                type="checkbox"
+                className="h-4 w-4"
+                checked={rule.countBullpen}
+                onChange={(e) => updateRule({ countBullpen: e.target.checked })}
+              />
+              <span>Bullpen pitches count</span>
+            </label>
+          </div>
+
+          <div className="space-y-2">
+            <div className="grid grid-cols-[1fr_1fr_auto] gap-2 text-xs text-gray-500">
+              <span>From pitches</span>
+              <span>Rest days</span>
+              <span />
+            </div>
+            {rule.restTiers.map((tier, index) => (
+              <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-2">
+                <Input
+                  type="number"
+                  min={1}
+                  value={tier.minPitches}
+                  aria-label={`Tier ${index + 1} pitches`}
+                  onChange={(e) =>
+                    updateRule({
+                      restTiers: rule.restTiers.map((t, i) =>
+                        i === index ? { ...t, minPitches: Number(e.target.value) || 0 } : t
+                      ),
+                    })
+                  }
+                />
+                <Input
+                  type="number"
+                  min={0}
+                  value={tier.restDays}
+                  aria-label={`Tier ${index + 1} rest days`}
+                  onChange={(e) =>
+                    updateRule({
+                      restTiers: rule.restTiers.map((t, i) =>
+                        i === index ? { ...t, restDays: Number(e.target.value) || 0 } : t
+                      ),
+                    })
+                  }
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => updateRule({ restTiers: rule.restTiers.filter((_, i) => i !== index) })}
+                >
+                  Remove
+                </Button>
+              </div>
+            ))}
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  const last = rule.restTiers[rule.restTiers.length - 1];
+                  updateRule({
+                    restTiers: [
+                      ...rule.restTiers,
+                      { minPitches: (last?.minPitches ?? 0) + 15, restDays: (last?.restDays ?? 0) + 1 },
+                    ],
+                  });
+                }}
+              >
+                Add tier
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => onChange(resetPitchCountRules())}>
+                Reset all to defaults
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
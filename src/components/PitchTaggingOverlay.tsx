@@ -21,6 +21,7 @@ const TAGS = [
   { value: "good feel", label: "Good Feel", color: "bg-green-100 text-green-800" },
   { value: "miss up", label: "Miss Up", color: "bg-red-100 text-red-800" },
   { value: "miss arm-side", label: "Miss Arm-Side", color: "bg-orange-100 text-orange-800" },
+  { value: "miss glove-side", label: "Miss Glove-Side", color: "bg-orange-100 text-orange-800" },
   { value: "hung", label: "Hung", color: "bg-red-100 text-red-800" },
   { value: "sharp", label: "Sharp", color: "bg-blue-100 text-blue-800" },
   { value: "flat", label: "Flat", color: "bg-gray-100 text-gray-800" },
@@ -1,10 +1,11 @@
 "use client";
 
 import { useState } from "react";
+import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Card, CardAction, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import {
   Select,
   SelectContent,
@@ -31,7 +32,8 @@ type PitcherCardProps = {
   pitchers: Pitcher[];
   selectedPitcherId: string;
   onSelectPitcher: (id: string) => void;
-  onCreatePitcher: (name: string, hand: Hand) => Promise<void>;
+  // Omitted for members who can only view pitchers
+  onCreatePitcher?: (name: string, hand: Hand) => Promise<void>;
   loading: boolean;
   hydrated: boolean;
 };
@@ -49,7 +51,7 @@ export function PitcherCard({
   const [creating, setCreating] = useState(false);
 
   const handleCreate = async () => {
-    if (!newPitcherName.trim()) return;
+    if (!onCreatePitcher || !newPitcherName.trim()) return;
     setCreating(true);
     try {
       await onCreatePitcher(newPitcherName.trim(), newPitcherHand);
@@ -63,6 +65,13 @@ export function PitcherCard({
     <Card>
       <CardHeader>
         <CardTitle>Pitcher</CardTitle>
+        {selectedPitcherId && (
+          <CardAction>
+            <Button asChild variant="outline" size="sm">
+              <Link href={`/pitchers/${selectedPitcherId}`}>Profile</Link>
+            </Button>
+          </CardAction>
+        )}
       </CardHeader>
       <CardContent>
         <Label htmlFor="pitcher-select" className="block text-sm font-medium mb-1">
@@ -86,47 +95,49 @@ export function PitcherCard({
           </Select>
         )}
 
-        <div className="mt-4 grid gap-3 md:grid-cols-3 items-end">
-          <div className="md:col-span-2">
-            <Label htmlFor="new-pitcher-name" className="block text-sm font-medium mb-1">
-              Add pitcher
-            </Label>
-            <Input
-              id="new-pitcher-name"
-              value={newPitcherName}
-              onChange={(e) => setNewPitcherName(e.target.value)}
-              placeholder="Name"
-              onKeyDown={(e) => {
-                if (e.key === "Enter" && newPitcherName.trim()) {
-                  handleCreate();
-                }
-              }}
-            />
-          </div>
-          <div className="md:col-span-1">
-            <Label htmlFor="new-pitcher-hand" className="block text-sm font-medium mb-1">
-              Throws
-            </Label>
-            <Select value={newPitcherHand} onValueChange={(v) => setNewPitcherHand(toHand(v))}>
-              <SelectTrigger id="new-pitcher-hand" className="w-full">
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="R">R</SelectItem>
-                <SelectItem value="L">L</SelectItem>
-              </SelectContent>
-            </Select>
+        {onCreatePitcher && (
+          <div className="mt-4 grid gap-3 md:grid-cols-3 items-end">
+            <div className="md:col-span-2">
+              <Label htmlFor="new-pitcher-name" className="block text-sm font-medium mb-1">
+                Add pitcher
+              </Label>
+              <Input
+                id="new-pitcher-name"
+                value={newPitcherName}
+                onChange={(e) => setNewPitcherName(e.target.value)}
+                placeholder="Name"
+                onKeyDown={(e) => {
+                  if (e.key === "Enter" && newPitcherName.trim()) {
+                    handleCreate();
+                  }
+                }}
+              />
+            </div>
+            <div className="md:col-span-1">
+              <Label htmlFor="new-pitcher-hand" className="block text-sm font-medium mb-1">
+                Throws
+              </Label>
+              <Select value={newPitcherHand} onValueChange={(v) => setNewPitcherHand(toHand(v))}>
+                <SelectTrigger id="new-pitcher-hand" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="R">R</SelectItem>
+                  <SelectItem value="L">L</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="md:col-span-3">
+              <Button
+                onClick={handleCreate}
+                disabled={creating || !newPitcherName.trim()}
+                className="min-h-[44px] min-w-[100px]"
+              >
+                {creating ? "Adding..." : "Add pitcher"}
+              </Button>
+            </div>
           </div>
-          <div className="md:col-span-3">
-            <Button
-              onClick={handleCreate}
-              disabled={creating || !newPitcherName.trim()}
-              className="min-h-[44px] min-w-[100px]"
-            >
-              {creating ? "Adding..." : "Add pitcher"}
-            </Button>
-          </div>
-        </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,186 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardAction, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ARM_SLOTS, formatHeight, isArmSlot, type ArmSlot } from "@/lib/athletes";
+import { PLAY_LEVELS, isPlayLevel, type PlayLevel } from "@/lib/scorebook/types";
+
+export type PitcherProfile = {
+  height_inches: number | null;
+  level: PlayLevel | null;
+  arm_slot: ArmSlot | null;
+  goals: string | null;
+};
+
+type PitcherProfileCardProps = {
+  profile: PitcherProfile;
+  onSave: (profile: PitcherProfile) => Promise<void>;
+  // Hides editing for members who can only view the pitcher
+  readOnly?: boolean;
+};
+
+const NONE = "none";
+
+export function PitcherProfileCard({ profile, onSave, readOnly = false }: PitcherProfileCardProps) {
+  const [editing, setEditing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [feet, setFeet] = useState("");
+  const [inches, setInches] = useState("");
+  const [level, setLevel] = useState<PlayLevel | null>(null);
+  const [armSlot, setArmSlot] = useState<ArmSlot | null>(null);
+  const [goals, setGoals] = useState("");
+
+  const startEditing = () => {
+    setFeet(profile.height_inches ? String(Math.floor(profile.height_inches / 12)) : "");
+    setInches(profile.height_inches ? String(profile.height_inches % 12) : "");
+    setLevel(profile.level);
+    setArmSlot(profile.arm_slot);
+    setGoals(profile.goals ?? "");
+    setEditing(true);
+  };
+
+  const handleSave = async () => {
+    const totalInches = (Number(feet) || 0) * 12 + (Number(inches) || 0);
+    setSaving(true);
+    try {
+      await onSave({
+        height_inches: totalInches > 0 ? totalInches : null,
+        level,
+        arm_slot: armSlot,
+        goals: goals.trim() || null,
+      });
+      setEditing(false);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle>Profile</CardTitle>
+        {!editing && !readOnly && (
+          <CardAction>
+            <Button variant="outline" size="sm" onClick={startEditing}>
+              Edit
+            </Button>
+          </CardAction>
+        )}
+      </CardHeader>
+      <CardContent>
+        {editing ? (
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="profile-feet" className="block text-sm font-medium mb-1">
+                  Height (ft)
+                </Label>
+                <Input id="profile-feet" type="number" min={0} value={feet} onChange={(e) => setFeet(e.target.value)} />
+              </div>
+              <div>
+                <Label htmlFor="profile-inches" className="block text-sm font-medium mb-1">
+                  (in)
+                </Label>
+                <Input
+                  id="profile-inches"
+                  type="number"
+                  min={0}
+                  max={11}
+                  value={inches}
+                  onChange={(e) => setInches(e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="profile-level" className="block text-sm font-medium mb-1">
+                  Level
+                </Label>
+                <Select value={level ?? NONE} onValueChange={(v) => setLevel(isPlayLevel(v) ? v : null)}>
+                  <SelectTrigger id="profile-level" className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>Not set</SelectItem>
+                    {Object.entries(PLAY_LEVELS).map(([key, label]) => (
+                      <SelectItem key={key} value={key}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="profile-arm-slot" className="block text-sm font-medium mb-1">
+                  Arm slot
+                </Label>
+                <Select value={armSlot ?? NONE} onValueChange={(v) => setArmSlot(isArmSlot(v) ? v : null)}>
+                  <SelectTrigger id="profile-arm-slot" className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>Not set</SelectItem>
+                    {Object.entries(ARM_SLOTS).map(([key, label]) => (
+                      <SelectItem key={key} value={key}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="profile-goals" className="block text-sm font-medium mb-1">
+                Goals
+              </Label>
+              <Textarea
+                id="profile-goals"
+                value={goals}
+                onChange={(e) => setGoals(e.target.value)}
+                placeholder="e.g. Land the slider glove-side for strikes"
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button onClick={handleSave} disabled={saving}>
+                {saving ? "Saving..." : "Save"}
+              </Button>
+              <Button variant="outline" onClick={() => setEditing(false)} disabled={saving}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <dl className="grid grid-cols-3 gap-3 text-sm">
+            <div>
+              <dt className="text-gray-500">Height</dt>
+              <dd className="font-medium">{formatHeight(profile.height_inches)}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Level</dt>
+              <dd className="font-medium">{profile.level ? PLAY_LEVELS[profile.level] : "—"}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Arm slot</dt>
+              <dd className="font-medium">{profile.arm_slot ? ARM_SLOTS[profile.arm_slot] : "—"}</dd>
+            </div>
+            <div className="col-span-3">
+              <dt className="text-gray-500">Goals</dt>
+              <dd className="whitespace-pre-wrap">{profile.goals || "—"}</dd>
+            </div>
+          </dl>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
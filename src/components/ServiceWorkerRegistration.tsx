@@ -1,11 +1,30 @@
 "use client";
 
 import { useEffect } from "react";
+import { flushWriteQueue } from "@/lib/offlineQueue";
+import { flushScorebookJournal } from "@/lib/scorebook/offline";
+
+function syncWriteQueue() {
+  flushWriteQueue().catch((error) => console.error("[App] Offline sync failed:", error));
+  flushScorebookJournal().catch((error) => console.error("[App] Scorebook sync failed:", error));
+}
 
 export function ServiceWorkerRegistration() {
   useEffect(() => {
     if (typeof window === "undefined") return;
-    if (!("serviceWorker" in navigator)) return;
+
+    // Writes queued in an earlier visit
+    syncWriteQueue();
+    window.addEventListener("online", syncWriteQueue);
+
+    if (!("serviceWorker" in navigator)) {
+      return () => window.removeEventListener("online", syncWriteQueue);
+    }
+
+    const handleWorkerMessage = (event: MessageEvent) => {
+      if (event.data?.type === "sync-write-queue") syncWriteQueue();
+    };
+    navigator.serviceWorker.addEventListener("message", handleWorkerMessage);
 
     // Register service worker
     navigator.serviceWorker
@@ -43,6 +62,8 @@ export function ServiceWorkerRegistration() {
     return () => {
       window.removeEventListener("online", handleOnline);
       window.removeEventListener("offline", handleOffline);
+      window.removeEventListener("online", syncWriteQueue);
+      navigator.serviceWorker.removeEventListener("message", handleWorkerMessage);
     };
   }, []);
 
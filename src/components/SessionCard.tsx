@@ -14,6 +14,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Skeleton } from "@/components/ui/skeleton";
+import { commandScoreTone, formatCommandScore, type CommandScore } from "@/lib/commandScore";
 
 type SessionRow = {
   id: string;
@@ -28,11 +29,14 @@ type SessionCardProps = {
   sessions: SessionRow[];
   selectedSessionId: string | null;
   onSelectSession: (id: string) => void;
-  onCreateSession: (date: string, label: string) => Promise<void>;
+  // Omitted for members who can only view sessions
+  onCreateSession?: (date: string, label: string) => Promise<void>;
   onRefresh: () => Promise<void>;
   loading: boolean;
   selectedPitcherId: string;
   disabled: boolean;
+  // For the selected session, once its pitches are loaded
+  commandScore?: CommandScore | null;
 };
 
 export function SessionCard({
@@ -44,6 +48,7 @@ export function SessionCard({
   loading,
   selectedPitcherId,
   disabled,
+  commandScore,
 }: SessionCardProps) {
   const [newSessionLabel, setNewSessionLabel] = useState("");
   const [newSessionDate, setNewSessionDate] = useState<string>(() => {
@@ -58,6 +63,7 @@ export function SessionCard({
   const [refreshing, setRefreshing] = useState(false);
 
   const handleCreate = async () => {
+    if (!onCreateSession) return;
     setCreating(true);
     try {
       await onCreateSession(newSessionDate, newSessionLabel.trim());
@@ -132,6 +138,18 @@ export function SessionCard({
           </Select>
         )}
 
+        {selectedSessionId && commandScore && commandScore.score !== null && (
+          <div className="mt-3 flex items-baseline gap-2 text-sm">
+            <span className="text-gray-500">Command score</span>
+            <span className={`text-lg font-semibold tabular-nums ${commandScoreTone(commandScore.score)}`}>
+              {formatCommandScore(commandScore.score)}
+            </span>
+            <span className="text-xs text-gray-500">
+              {commandScore.scored} pitches · {commandScore.middleMisses} middle-middle
+            </span>
+          </div>
+        )}
+
         <div className="mt-3">
           {selectedSessionId ? (
             <Button asChild variant="outline" size="sm" className="min-h-[44px]">
@@ -144,57 +162,59 @@ export function SessionCard({
           )}
         </div>
 
-        <div className="mt-4 grid gap-3 md:grid-cols-3 items-end">
-          <div className="md:col-span-1">
-            <Label htmlFor="session-date" className="block text-sm font-medium mb-1">
-              Date
-            </Label>
-            <Input
-              id="session-date"
-              value={newSessionDate}
-              onChange={(e) => setNewSessionDate(e.target.value)}
-              type="date"
-              disabled={Boolean(selectedSessionId) && !sessionDateUnlocked}
-            />
-            {selectedSessionId && (
+        {onCreateSession && (
+          <div className="mt-4 grid gap-3 md:grid-cols-3 items-end">
+            <div className="md:col-span-1">
+              <Label htmlFor="session-date" className="block text-sm font-medium mb-1">
+                Date
+              </Label>
+              <Input
+                id="session-date"
+                value={newSessionDate}
+                onChange={(e) => setNewSessionDate(e.target.value)}
+                type="date"
+                disabled={Boolean(selectedSessionId) && !sessionDateUnlocked}
+              />
+              {selectedSessionId && (
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  className="mt-2 min-h-[36px]"
+                  onClick={() => setSessionDateUnlocked(true)}
+                  disabled={sessionDateUnlocked}
+                >
+                  Edit date
+                </Button>
+              )}
+            </div>
+            <div className="md:col-span-2">
+              <Label htmlFor="session-label" className="block text-sm font-medium mb-1">
+                Label (optional)
+              </Label>
+              <Input
+                id="session-label"
+                value={newSessionLabel}
+                onChange={(e) => setNewSessionLabel(e.target.value)}
+                placeholder="Example: Side work, Bullpen #3"
+                onKeyDown={(e) => {
+                  if (e.key === "Enter" && selectedPitcherId) {
+                    handleCreate();
+                  }
+                }}
+              />
+            </div>
+            <div className="md:col-span-3">
               <Button
-                type="button"
-                size="sm"
-                variant="outline"
-                className="mt-2 min-h-[36px]"
-                onClick={() => setSessionDateUnlocked(true)}
-                disabled={sessionDateUnlocked}
+                onClick={handleCreate}
+                disabled={disabled || creating}
+                className="min-h-[44px] min-w-[120px]"
               >
-                Edit date
+                {creating ? "Adding..." : "Add session"}
               </Button>
-            )}
+            </div>
           </div>
-          <div className="md:col-span-2">
-            <Label htmlFor="session-label" className="block text-sm font-medium mb-1">
-              Label (optional)
-            </Label>
-            <Input
-              id="session-label"
-              value={newSessionLabel}
-              onChange={(e) => setNewSessionLabel(e.target.value)}
-              placeholder="Example: Side work, Bullpen #3"
-              onKeyDown={(e) => {
-                if (e.key === "Enter" && selectedPitcherId) {
-                  handleCreate();
-                }
-              }}
-            />
-          </div>
-          <div className="md:col-span-3">
-            <Button
-              onClick={handleCreate}
-              disabled={disabled || creating}
-              className="min-h-[44px] min-w-[120px]"
-            >
-              {creating ? "Adding..." : "Add session"}
-            </Button>
-          </div>
-        </div>
+        )}
       </CardContent>
     </Card>
   );
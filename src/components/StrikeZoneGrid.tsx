@@ -6,7 +6,7 @@ import { buildZones5x5, type ZoneId } from "@/lib/strikeZone";
 const zones = buildZones5x5();
 
 // Human-readable zone labels for accessibility
-const ZONE_LABELS: Record<string, string> = {
+export const ZONE_LABELS: Record<string, string> = {
   O1: "High-Left (Out)",
   O2: "High-Left (Out)",
   O3: "High (Out)",
@@ -0,0 +1,166 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/components/ui/toast";
+import { PitchCountRulesEditor } from "@/components/PitchCountRulesEditor";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { PLAY_LEVELS, isPlayLevel, type PlayLevel } from "@/lib/scorebook/types";
+import {
+  NO_PITCH_COUNT_RULE,
+  computeWorkloadStatus,
+  getWorkloadWarnings,
+  loadPitchCountRules,
+  type AcwrZone,
+  type PitchCountRule,
+  type PitchCountRules,
+  type WorkloadAppearance,
+} from "@/lib/workload";
+
+const NO_LEVEL = "none";
+
+const ACWR_STYLES: Record<AcwrZone, string> = {
+  low: "text-slate-600 border-slate-200",
+  optimal: "text-green-700 border-green-200",
+  caution: "text-amber-700 border-amber-200",
+  danger: "text-red-700 border-red-200",
+};
+
+const WARNING_STYLES = {
+  info: "border-blue-200 bg-blue-50 text-blue-900",
+  warning: "border-amber-200 bg-amber-50 text-amber-900",
+  error: "border-red-200 bg-red-50 text-red-900",
+};
+
+type WorkloadCardProps = {
+  level: PlayLevel | null;
+  // Omitted for members who can only view the pitcher
+  onChangeLevel?: (level: PlayLevel | null) => Promise<void>;
+  appearances: WorkloadAppearance[];
+  loading: boolean;
+};
+
+export function WorkloadCard({ level, onChangeLevel, appearances, loading }: WorkloadCardProps) {
+  const { showToast } = useToast();
+  // Only rendered once signed in, so localStorage is available
+  const [rules, setRules] = useState<PitchCountRules>(loadPitchCountRules);
+
+  const rule: PitchCountRule = level ? rules[level] : NO_PITCH_COUNT_RULE;
+  const status = useMemo(() => computeWorkloadStatus(appearances, rule), [appearances, rule]);
+  const warnings = useMemo(() => getWorkloadWarnings(status, rule), [status, rule]);
+
+  // Toast each warning once as it first appears while logging; warnings
+  // already showing when a pitcher loads stay as banners only
+  const shownWarningsRef = useRef<Set<string> | null>(null);
+  useEffect(() => {
+    if (loading) {
+      shownWarningsRef.current = null;
+      return;
+    }
+    const messages = new Set(warnings.filter((w) => w.level !== "info").map((w) => w.message));
+    if (shownWarningsRef.current) {
+      for (const warning of warnings) {
+        if (warning.level !== "info" && !shownWarningsRef.current.has(warning.message)) {
+          showToast(warning.message, warning.level);
+        }
+      }
+    }
+    shownWarningsRef.current = messages;
+  }, [warnings, loading, showToast]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Workload</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <Label htmlFor="workload-level" className="block text-sm font-medium mb-1">
+            Level
+          </Label>
+          <Select
+            value={level ?? NO_LEVEL}
+            onValueChange={(v) => onChangeLevel?.(isPlayLevel(v) ? v : null)}
+            disabled={!onChangeLevel}
+          >
+            <SelectTrigger id="workload-level" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_LEVEL}>No level (no pitch-count rules)</SelectItem>
+              {Object.entries(PLAY_LEVELS).map(([key, label]) => (
+                <SelectItem key={key} value={key}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {loading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-3 text-sm">
+              <div className="rounded-lg border p-3">
+                <div className="text-gray-500">Today</div>
+                <div className="text-xl font-semibold">
+                  {status.todayPitches}
+                  {status.dailyMax !== null && (
+                    <span className="text-sm font-normal text-gray-500"> / {status.dailyMax}</span>
+                  )}
+                </div>
+              </div>
+              <div className="rounded-lg border p-3">
+                <div className="text-gray-500">Acute : chronic</div>
+                <div className="flex items-center gap-2">
+                  <span className="text-xl font-semibold">{status.acwr !== null ? status.acwr.toFixed(2) : "—"}</span>
+                  {status.acwrZone && (
+                    <Badge variant="outline" className={ACWR_STYLES[status.acwrZone]}>
+                      {status.acwrZone}
+                    </Badge>
+                  )}
+                </div>
+                <div className="text-xs text-gray-500">
+                  {status.acute} last 7 days · {Math.round(status.chronicWeekly)}/wk avg
+                </div>
+              </div>
+              <div className="rounded-lg border p-3 col-span-2">
+                <div className="text-gray-500">Rest</div>
+                <div className="font-semibold">
+                  {status.nextEligibleDate > status.today
+                    ? `${status.restDaysRequired} day${status.restDaysRequired !== 1 ? "s" : ""} required · eligible ${status.nextEligibleDate}`
+                    : "No rest owed"}
+                </div>
+              </div>
+            </div>
+
+            {warnings.length > 0 && (
+              <div className="space-y-2">
+                {warnings.map((warning) => (
+                  <div
+                    key={warning.message}
+                    className={`rounded-md border px-3 py-2 text-sm ${WARNING_STYLES[warning.level]}`}
+                  >
+                    {warning.message}
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+
+        {level && <PitchCountRulesEditor level={level} rules={rules} onChange={setRules} />}
+      </CardContent>
+    </Card>
+  );
+}
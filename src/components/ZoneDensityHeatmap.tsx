@@ -0,0 +1,96 @@
+"use client";
+
+import { useMemo } from "react";
+import {
+  ZONE_FRAME,
+  computeGridCounts,
+  isPointInZone,
+  type GridCell,
+  type NormalizedPoint,
+} from "@/lib/strikeZone";
+
+type ZoneDensityHeatmapProps = {
+  title: string;
+  points: (NormalizedPoint | null)[];
+  grid: GridCell[];
+  className?: string;
+};
+
+// Outside cells that wrap around the zone (13-zone quadrants) are labelled in
+// their corner rather than under the zone
+function labelPoint(cell: GridCell): NormalizedPoint {
+  const center = { x: (cell.x0 + cell.x1) / 2, y: (cell.y0 + cell.y1) / 2 };
+  if (cell.inZone || !isPointInZone(center)) return center;
+  return {
+    x: center.x < 0.5 ? ZONE_FRAME.left / 2 : (1 + ZONE_FRAME.right) / 2,
+    y: center.y < 0.5 ? ZONE_FRAME.top / 2 : (1 + ZONE_FRAME.bottom) / 2,
+  };
+}
+
+/**
+ * Density of continuous pitch locations over any zone grid. Cells are drawn
+ * from their bounds, so the grid doesn't have to be square.
+ */
+export function ZoneDensityHeatmap({ title, points, grid, className }: ZoneDensityHeatmapProps) {
+  const { counts, outside } = useMemo(() => computeGridCounts(points, grid), [points, grid]);
+  const maxCount = Math.max(0, ...counts.values());
+  const totalCount = Array.from(counts.values()).reduce((sum, v) => sum + v, 0);
+  // Outside cells first so the zone's cells paint over overlapping quadrants
+  const ordered = useMemo(() => [...grid].sort((a, b) => Number(a.inZone) - Number(b.inZone)), [grid]);
+  const containerClassName = className ? `flex flex-col gap-2 ${className}` : "flex flex-col gap-2";
+
+  return (
+    <div className={containerClassName}>
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-medium text-gray-700">{title}</div>
+        {totalCount > 0 && <div className="text-xs text-gray-500">{totalCount} total</div>}
+      </div>
+      <svg viewBox="0 0 100 100" className="w-full aspect-square" role="img" aria-label={`${title} heatmap`}>
+        {ordered.map((cell) => {
+          const count = counts.get(cell.id) ?? 0;
+          const alpha = maxCount ? 0.08 + 0.65 * (count / maxCount) : 0;
+          const fill = cell.inZone ? `rgba(16, 185, 129, ${alpha})` : `rgba(245, 158, 11, ${alpha})`;
+          const anchor = labelPoint(cell);
+          const label = `${cell.label}: ${count} ${count === 1 ? "pitch" : "pitches"}`;
+          return (
+            <g key={cell.id}>
+              <rect
+                x={cell.x0 * 100}
+                y={cell.y0 * 100}
+                width={(cell.x1 - cell.x0) * 100}
+                height={(cell.y1 - cell.y0) * 100}
+                fill={alpha ? fill : "white"}
+                stroke="#e5e7eb"
+                strokeWidth={0.5}
+              >
+                <title>{label}</title>
+              </rect>
+              {count > 0 && (
+                <text
+                  x={anchor.x * 100}
+                  y={anchor.y * 100}
+                  textAnchor="middle"
+                  dominantBaseline="central"
+                  className="fill-gray-800 text-[4px] font-semibold pointer-events-none"
+                >
+                  {count}
+                </text>
+              )}
+            </g>
+          );
+        })}
+        <rect
+          x={ZONE_FRAME.left * 100}
+          y={ZONE_FRAME.top * 100}
+          width={(ZONE_FRAME.right - ZONE_FRAME.left) * 100}
+          height={(ZONE_FRAME.bottom - ZONE_FRAME.top) * 100}
+          fill="none"
+          stroke="#111827"
+          strokeWidth={0.75}
+          pointerEvents="none"
+        />
+      </svg>
+      {outside > 0 && <div className="text-xs text-gray-500">{outside} outside the zone</div>}
+    </div>
+  );
+}
@@ -6,8 +6,19 @@ import type {
   GameLineupEntry,
   Position,
   BaseState,
+  PitchResult,
+  PitchType,
 } from "@/lib/scorebook/types";
-import { AT_BAT_RESULTS, AT_BAT_RESULT_TYPES, POSITION_LIST } from "@/lib/scorebook/types";
+import {
+  AT_BAT_RESULTS,
+  AT_BAT_RESULT_TYPES,
+  PITCH_RESULTS,
+  PITCH_TYPES,
+  POSITION_LIST,
+} from "@/lib/scorebook/types";
+import { getCountAfterPitch } from "@/lib/scorebook/gameState";
+import type { ZoneId } from "@/lib/strikeZone";
+import { StrikeZoneGrid } from "@/components/StrikeZoneGrid";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -28,7 +39,18 @@ type Props = {
   outs: number;
   onSubmit: (data: AtBatEntryData) => void;
   onCancel: () => void;
+  // Opens the runner event form without losing the pitches entered so far
+  onRunnerEvent?: () => void;
   isSubmitting?: boolean;
+  // Pitches the pitcher threw before this at-bat, for the live counter
+  pitcherPitchCount?: number;
+  pitchLimit?: number | null;
+};
+
+export type PitchEntry = {
+  result: PitchResult;
+  pitchType: PitchType | null;
+  zoneId: ZoneId | null;
 };
 
 export type AtBatEntryData = {
@@ -39,6 +61,8 @@ export type AtBatEntryData = {
   pitchCount: number;
   rbis: number;
   notes: string | null;
+  // Empty when the at-bat was scored without pitch-by-pitch entry
+  pitches: PitchEntry[];
   // Runner advancements
   runnerAdvances: {
     runnerId: string;
@@ -56,7 +80,10 @@ export function AtBatEntryForm({
   outs,
   onSubmit,
   onCancel,
+  onRunnerEvent,
   isSubmitting = false,
+  pitcherPitchCount,
+  pitchLimit = null,
 }: Props) {
   const [resultType, setResultType] = useState<AtBatResultType | null>(null);
   const [resultDetail, setResultDetail] = useState("");
@@ -65,6 +92,30 @@ export function AtBatEntryForm({
   const [rbis, setRbis] = useState(0);
   const [notes, setNotes] = useState("");
   const [showAdvanced, setShowAdvanced] = useState(false);
+  const [pitches, setPitches] = useState<PitchEntry[]>([]);
+  const [pitchType, setPitchType] = useState<PitchType | null>(null);
+  const [pitchZone, setPitchZone] = useState<ZoneId | null>(null);
+  const [showZone, setShowZone] = useState(false);
+
+  const pitchResults: PitchResult[] = [
+    "ball",
+    "called_strike",
+    "swinging_strike",
+    "foul",
+    "in_play",
+    "hit_by_pitch",
+  ];
+
+  // Once pitches are entered the count comes from them
+  const isTrackingPitches = pitches.length > 0;
+  const count = pitches.reduce(
+    (c, p) => getCountAfterPitch(c.balls, c.strikes, p.result),
+    { balls: 0, strikes: 0, outcome: null } as ReturnType<typeof getCountAfterPitch>
+  );
+  const currentBalls = isTrackingPitches ? count.balls : balls;
+  const currentStrikes = isTrackingPitches ? count.strikes : strikes;
+  const isBallInPlay = count.outcome === "in_play";
+  const basesLoaded = !!(baseState.first && baseState.second && baseState.third);
 
   // Quick result buttons organized by category
   const hitResults: AtBatResultType[] = ["1B", "2B", "3B", "HR"];
@@ -82,21 +133,50 @@ export function AtBatEntryForm({
     }
   };
 
+  const buildData = (
+    result: AtBatResultType,
+    entered: PitchEntry[],
+    finalBalls: number,
+    finalStrikes: number,
+    finalRbis: number
+  ): AtBatEntryData => ({
+    resultType: result,
+    resultDetail: resultDetail.trim() || null,
+    balls: finalBalls,
+    strikes: finalStrikes,
+    pitchCount: entered.length > 0 ? entered.length : finalBalls + finalStrikes,
+    rbis: finalRbis,
+    notes: notes.trim() || null,
+    pitches: entered,
+    runnerAdvances: [], // Will be handled separately in advanced mode
+  });
+
+  const handlePitch = (result: PitchResult) => {
+    const next = getCountAfterPitch(count.balls, count.strikes, result);
+    const updated = [...pitches, { result, pitchType, zoneId: pitchZone }];
+    setPitches(updated);
+    setPitchZone(null);
+
+    if (next.outcome === "in_play") {
+      // Scorer picks the result from the buttons below
+      setResultType(null);
+      return;
+    }
+
+    // Walks, strikeouts and HBP complete the at-bat on their own
+    if (next.outcome) {
+      const forcedRun = (next.outcome === "BB" || next.outcome === "HBP") && basesLoaded;
+      onSubmit(buildData(next.outcome, updated, next.balls, next.strikes, forcedRun ? 1 : 0));
+    }
+  };
+
+  const handleUndoPitch = () => {
+    setPitches(pitches.slice(0, -1));
+  };
+
   const handleSubmit = () => {
     if (!resultType) return;
-
-    const data: AtBatEntryData = {
-      resultType,
-      resultDetail: resultDetail.trim() || null,
-      balls,
-      strikes,
-      pitchCount: balls + strikes, // Simplified
-      rbis,
-      notes: notes.trim() || null,
-      runnerAdvances: [], // Will be handled separately in advanced mode
-    };
-
-    onSubmit(data);
+    onSubmit(buildData(resultType, pitches, currentBalls, currentStrikes, rbis));
   };
 
   const ResultButton = ({
@@ -131,9 +211,122 @@ export function AtBatEntryForm({
         <div>
           <span className="text-gray-500">Pitching:</span>{" "}
           <span className="font-medium">{pitcher.player_name}</span>
+          {pitcherPitchCount !== undefined && (
+            <span
+              className={`ml-1 tabular-nums ${
+                pitchLimit !== null && pitcherPitchCount + pitches.length >= pitchLimit
+                  ? "text-red-600 font-medium"
+                  : "text-gray-400"
+              }`}
+            >
+              ({pitcherPitchCount + pitches.length}
+              {pitchLimit !== null ? `/${pitchLimit}` : ""} P)
+            </span>
+          )}
         </div>
       </div>
 
+      {/* Pitch-by-pitch entry */}
+      <div className="space-y-2 p-3 border rounded-lg">
+        <div className="flex items-center justify-between">
+          <Label className="text-sm font-medium">Pitches</Label>
+          <div className="flex items-center gap-2">
+            <span className="font-mono text-lg font-bold">
+              {currentBalls}-{currentStrikes}
+            </span>
+            {isTrackingPitches && (
+              <span className="text-xs text-gray-500">{pitches.length} P</span>
+            )}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-1">
+          {pitchResults.map((r) => (
+            <Button
+              key={r}
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => handlePitch(r)}
+              disabled={isBallInPlay || isSubmitting}
+            >
+              {PITCH_RESULTS[r].label}
+            </Button>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Select
+            value={pitchType ?? "none"}
+            onValueChange={(v) => setPitchType(v === "none" ? null : (v as PitchType))}
+          >
+            <SelectTrigger className="h-8 w-36">
+              <SelectValue placeholder="Pitch type" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">No pitch type</SelectItem>
+              {(Object.keys(PITCH_TYPES) as PitchType[]).map((t) => (
+                <SelectItem key={t} value={t}>
+                  {PITCH_TYPES[t]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => setShowZone(!showZone)}
+            className="text-gray-500"
+          >
+            {showZone ? "Hide" : "Add"} location{pitchZone ? ` (${pitchZone})` : ""}
+          </Button>
+          {onRunnerEvent && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={onRunnerEvent}
+              disabled={isBallInPlay || isSubmitting}
+            >
+              Runner event
+            </Button>
+          )}
+          {isTrackingPitches && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={handleUndoPitch}
+              disabled={isSubmitting}
+            >
+              Undo pitch
+            </Button>
+          )}
+        </div>
+
+        {showZone && (
+          <div className="w-48">
+            <StrikeZoneGrid value={pitchZone} onSelect={setPitchZone} />
+          </div>
+        )}
+
+        {isTrackingPitches && (
+          <div className="flex flex-wrap gap-1">
+            {pitches.map((p, i) => (
+              <Badge key={i} variant="secondary" className="font-mono">
+                {PITCH_RESULTS[p.result].code}
+                {p.pitchType && ` ${p.pitchType}`}
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        {isBallInPlay && (
+          <p className="text-xs text-gray-500">Ball in play &mdash; choose the result below.</p>
+        )}
+      </div>
+
       {/* Quick result buttons */}
       <div className="space-y-2">
         <Label className="text-sm font-medium">Result</Label>
@@ -235,43 +428,45 @@ export function AtBatEntryForm({
       {/* Advanced options */}
       {showAdvanced && (
         <div className="space-y-3 p-3 border rounded-lg">
-          {/* Count */}
-          <div className="grid grid-cols-2 gap-3">
-            <div>
-              <Label className="text-xs">Balls</Label>
-              <div className="flex items-center gap-1 mt-1">
-                {[0, 1, 2, 3, 4].map((n) => (
-                  <Button
-                    key={n}
-                    type="button"
-                    variant={balls === n ? "default" : "outline"}
-                    size="sm"
-                    className="h-8 w-8 p-0"
-                    onClick={() => setBalls(n)}
-                  >
-                    {n}
-                  </Button>
-                ))}
+          {/* Count (only when pitches aren't being entered) */}
+          {!isTrackingPitches && (
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label className="text-xs">Balls</Label>
+                <div className="flex items-center gap-1 mt-1">
+                  {[0, 1, 2, 3, 4].map((n) => (
+                    <Button
+                      key={n}
+                      type="button"
+                      variant={balls === n ? "default" : "outline"}
+                      size="sm"
+                      className="h-8 w-8 p-0"
+                      onClick={() => setBalls(n)}
+                    >
+                      {n}
+                    </Button>
+                  ))}
+                </div>
               </div>
-            </div>
-            <div>
-              <Label className="text-xs">Strikes</Label>
-              <div className="flex items-center gap-1 mt-1">
-                {[0, 1, 2, 3].map((n) => (
-                  <Button
-                    key={n}
-                    type="button"
-                    variant={strikes === n ? "default" : "outline"}
-                    size="sm"
-                    className="h-8 w-8 p-0"
-                    onClick={() => setStrikes(n)}
-                  >
-                    {n}
-                  </Button>
-                ))}
+              <div>
+                <Label className="text-xs">Strikes</Label>
+                <div className="flex items-center gap-1 mt-1">
+                  {[0, 1, 2, 3].map((n) => (
+                    <Button
+                      key={n}
+                      type="button"
+                      variant={strikes === n ? "default" : "outline"}
+                      size="sm"
+                      className="h-8 w-8 p-0"
+                      onClick={() => setStrikes(n)}
+                    >
+                      {n}
+                    </Button>
+                  ))}
+                </div>
               </div>
             </div>
-          </div>
+          )}
 
           {/* Notes */}
           <div>
@@ -1,14 +1,18 @@
 "use client";
 
 import type { FullGameData } from "@/lib/scorebook/db";
-import type { BatterBoxScore, PitcherBoxScore, LineScore } from "@/lib/scorebook/types";
+import type { BatterBoxScore, PitcherBoxScore, FieldingBoxScore, LineScore } from "@/lib/scorebook/types";
 import {
   computeTeamBattingStats,
   computeTeamPitchingStats,
   computeLineScore,
   formatAverage,
   formatERA,
+  formatPercentage,
 } from "@/lib/scorebook/stats";
+import { computeEarnedRuns } from "@/lib/scorebook/earnedRuns";
+import { computePitchingDecisions, formatDecisions } from "@/lib/scorebook/decisions";
+import { computeFieldingStats } from "@/lib/scorebook/fielding";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 
@@ -17,13 +21,17 @@ type Props = {
 };
 
 export function BoxScoreView({ gameData }: Props) {
-  const { game, homeLineup, awayLineup, atBats, plays } = gameData;
+  const { game, homeLineup, awayLineup, atBats, plays, pitches } = gameData;
 
   // Compute stats
   const awayBatting = computeTeamBattingStats(atBats, plays, awayLineup);
   const homeBatting = computeTeamBattingStats(atBats, plays, homeLineup);
-  const awayPitching = computeTeamPitchingStats(atBats, plays, awayLineup);
-  const homePitching = computeTeamPitchingStats(atBats, plays, homeLineup);
+  const earnedRuns = computeEarnedRuns(gameData);
+  const decisions = computePitchingDecisions(gameData, earnedRuns);
+  const awayPitching = computeTeamPitchingStats(atBats, plays, awayLineup, { pitches, earnedRuns, decisions });
+  const homePitching = computeTeamPitchingStats(atBats, plays, homeLineup, { pitches, earnedRuns, decisions });
+  const awayFielding = computeFieldingStats(gameData, "away");
+  const homeFielding = computeFieldingStats(gameData, "home");
 
   const maxInning = Math.max(
     game.current_inning,
@@ -101,6 +109,27 @@ export function BoxScoreView({ gameData }: Props) {
           </CardContent>
         </Card>
       </div>
+
+      {/* Fielding Stats */}
+      <div className="grid gap-4 md:grid-cols-2">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg">{game.away_team_name} Fielding</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <FieldingStatsTable fielders={awayFielding} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg">{game.home_team_name} Fielding</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <FieldingStatsTable fielders={homeFielding} />
+          </CardContent>
+        </Card>
+      </div>
     </div>
   );
 }
@@ -109,7 +138,7 @@ export function BoxScoreView({ gameData }: Props) {
 // SUB-COMPONENTS
 // ==============================================
 
-function LinescoreTable({
+export function LinescoreTable({
   awayTeam,
   homeTeam,
   lineScore,
@@ -184,7 +213,7 @@ function BatterStatsTable({
   totals,
 }: {
   batters: BatterBoxScore[];
-  totals: { ab: number; r: number; h: number; rbi: number; bb: number; k: number; avg: number };
+  totals: { ab: number; r: number; h: number; rbi: number; bb: number; k: number; sb: number; cs: number; avg: number };
 }) {
   if (batters.length === 0) {
     return <p className="text-gray-500 text-sm py-4 text-center">No at-bats recorded</p>;
@@ -202,6 +231,8 @@ function BatterStatsTable({
             <th className="text-center py-2 px-1 font-medium w-8">RBI</th>
             <th className="text-center py-2 px-1 font-medium w-8">BB</th>
             <th className="text-center py-2 px-1 font-medium w-8">K</th>
+            <th className="text-center py-2 px-1 font-medium w-8">SB</th>
+            <th className="text-center py-2 px-1 font-medium w-8">CS</th>
             <th className="text-center py-2 px-1 font-medium w-12">AVG</th>
           </tr>
         </thead>
@@ -225,6 +256,8 @@ function BatterStatsTable({
               <td className="text-center py-2 px-1 tabular-nums">{batter.rbi}</td>
               <td className="text-center py-2 px-1 tabular-nums">{batter.bb}</td>
               <td className="text-center py-2 px-1 tabular-nums">{batter.k}</td>
+              <td className="text-center py-2 px-1 tabular-nums">{batter.sb}</td>
+              <td className="text-center py-2 px-1 tabular-nums">{batter.cs}</td>
               <td className="text-center py-2 px-1 tabular-nums font-mono text-xs">
                 {formatAverage(batter.avg)}
               </td>
@@ -239,6 +272,8 @@ function BatterStatsTable({
             <td className="text-center py-2 px-1 tabular-nums">{totals.rbi}</td>
             <td className="text-center py-2 px-1 tabular-nums">{totals.bb}</td>
             <td className="text-center py-2 px-1 tabular-nums">{totals.k}</td>
+            <td className="text-center py-2 px-1 tabular-nums">{totals.sb}</td>
+            <td className="text-center py-2 px-1 tabular-nums">{totals.cs}</td>
             <td className="text-center py-2 px-1 tabular-nums font-mono text-xs">
               {formatAverage(totals.avg)}
             </td>
@@ -260,6 +295,9 @@ function PitcherStatsTable({
     return <p className="text-gray-500 text-sm py-4 text-center">No pitching recorded</p>;
   }
 
+  // Only show pitch-level rates once some at-bats were scored pitch by pitch
+  const hasPitchData = pitchers.some((p) => p.pitchesTracked > 0);
+
   return (
     <div className="overflow-x-auto">
       <table className="w-full text-sm">
@@ -273,12 +311,25 @@ function PitcherStatsTable({
             <th className="text-center py-2 px-1 font-medium w-8">BB</th>
             <th className="text-center py-2 px-1 font-medium w-8">K</th>
             <th className="text-center py-2 px-1 font-medium w-12">ERA</th>
+            {hasPitchData && (
+              <>
+                <th className="text-center py-2 px-1 font-medium w-10">PC</th>
+                <th className="text-center py-2 px-1 font-medium w-14">Str%</th>
+                <th className="text-center py-2 px-1 font-medium w-14">FPS%</th>
+                <th className="text-center py-2 px-1 font-medium w-14">Whiff%</th>
+              </>
+            )}
           </tr>
         </thead>
         <tbody>
           {pitchers.map((pitcher) => (
             <tr key={pitcher.lineupId} className="border-b border-gray-100">
-              <td className="py-2 px-1 truncate">{pitcher.playerName}</td>
+              <td className="py-2 px-1 truncate">
+                {pitcher.playerName}
+                {pitcher.decisions.length > 0 && (
+                  <span className="text-gray-500 ml-1">({formatDecisions(pitcher.decisions)})</span>
+                )}
+              </td>
               <td className="text-center py-2 px-1 tabular-nums">{pitcher.ipDisplay}</td>
               <td className="text-center py-2 px-1 tabular-nums">{pitcher.h}</td>
               <td className="text-center py-2 px-1 tabular-nums">{pitcher.r}</td>
@@ -288,6 +339,20 @@ function PitcherStatsTable({
               <td className="text-center py-2 px-1 tabular-nums font-mono text-xs">
                 {formatERA(pitcher.era)}
               </td>
+              {hasPitchData && (
+                <>
+                  <td className="text-center py-2 px-1 tabular-nums">{pitcher.pc}</td>
+                  <td className="text-center py-2 px-1 tabular-nums font-mono text-xs">
+                    {pitcher.pitchesTracked > 0 ? formatPercentage(pitcher.strikePct) : "-"}
+                  </td>
+                  <td className="text-center py-2 px-1 tabular-nums font-mono text-xs">
+                    {pitcher.pitchesTracked > 0 ? formatPercentage(pitcher.firstPitchStrikePct) : "-"}
+                  </td>
+                  <td className="text-center py-2 px-1 tabular-nums font-mono text-xs">
+                    {pitcher.pitchesTracked > 0 ? formatPercentage(pitcher.whiffPct) : "-"}
+                  </td>
+                </>
+              )}
             </tr>
           ))}
           {/* Totals row */}
@@ -302,6 +367,68 @@ function PitcherStatsTable({
             <td className="text-center py-2 px-1 tabular-nums font-mono text-xs">
               {formatERA(totals.era)}
             </td>
+            {hasPitchData && <td colSpan={4} />}
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function FieldingStatsTable({ fielders }: { fielders: FieldingBoxScore[] }) {
+  if (fielders.length === 0) {
+    return <p className="text-gray-500 text-sm py-4 text-center">No fielding chances recorded</p>;
+  }
+
+  const totals = fielders.reduce(
+    (acc, f) => ({ po: acc.po + f.po, a: acc.a + f.a, e: acc.e + f.e }),
+    { po: 0, a: 0, e: 0 }
+  );
+  const totalChances = totals.po + totals.a + totals.e;
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b text-gray-500">
+            <th className="text-left py-2 px-1 font-medium">Fielder</th>
+            <th className="text-center py-2 px-1 font-medium w-8">PO</th>
+            <th className="text-center py-2 px-1 font-medium w-8">A</th>
+            <th className="text-center py-2 px-1 font-medium w-8">E</th>
+            <th className="text-center py-2 px-1 font-medium w-8">DP</th>
+            <th className="text-center py-2 px-1 font-medium w-12">FPCT</th>
+          </tr>
+        </thead>
+        <tbody>
+          {fielders.map((fielder) => (
+            <tr key={`${fielder.lineupId}-${fielder.position}`} className="border-b border-gray-100">
+              <td className="py-2 px-1">
+                <div className="flex items-center gap-1">
+                  <span className="truncate">{fielder.playerName}</span>
+                  <Badge variant="outline" className="text-xs ml-1">
+                    {fielder.position}
+                  </Badge>
+                </div>
+              </td>
+              <td className="text-center py-2 px-1 tabular-nums">{fielder.po}</td>
+              <td className="text-center py-2 px-1 tabular-nums">{fielder.a}</td>
+              <td className="text-center py-2 px-1 tabular-nums">{fielder.e}</td>
+              <td className="text-center py-2 px-1 tabular-nums">{fielder.dp}</td>
+              <td className="text-center py-2 px-1 tabular-nums font-mono text-xs">
+                {formatAverage(fielder.fpct)}
+              </td>
+            </tr>
+          ))}
+          {/* Totals row */}
+          <tr className="font-semibold bg-gray-50">
+            <td className="py-2 px-1">Totals</td>
+            <td className="text-center py-2 px-1 tabular-nums">{totals.po}</td>
+            <td className="text-center py-2 px-1 tabular-nums">{totals.a}</td>
+            <td className="text-center py-2 px-1 tabular-nums">{totals.e}</td>
+            <td />
+            <td className="text-center py-2 px-1 tabular-nums font-mono text-xs">
+              {formatAverage(totalChances > 0 ? (totals.po + totals.a) / totalChances : 0)}
+            </td>
           </tr>
         </tbody>
       </table>
@@ -33,6 +33,8 @@ import {
 } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/components/ui/toast";
+import { useOrganization } from "@/components/OrganizationProvider";
+import { activeOrgId } from "@/lib/organizations";
 import type { Session } from "@supabase/supabase-js";
 
 type WizardStep = "teams" | "settings" | "away_lineup" | "home_lineup" | "review";
@@ -53,6 +55,8 @@ type Props = {
 export function GameSetupWizard({ session }: Props) {
   const router = useRouter();
   const { showToast } = useToast();
+  const { access } = useOrganization();
+  const orgId = activeOrgId(access);
 
   const [step, setStep] = useState<WizardStep>("teams");
   const [creating, setCreating] = useState(false);
@@ -82,7 +86,7 @@ export function GameSetupWizard({ session }: Props) {
   useEffect(() => {
     const loadTeams = async () => {
       try {
-        const teams = await fetchTeams(session.user.id);
+        const teams = await fetchTeams({ userId: session.user.id, orgId });
         setSavedTeams(teams);
       } catch (e) {
         showToast(getErrorMessage(e), "error");
@@ -91,7 +95,7 @@ export function GameSetupWizard({ session }: Props) {
       }
     };
     loadTeams();
-  }, [session.user.id, showToast]);
+  }, [session.user.id, orgId, showToast]);
 
   // Load team players when a saved team is selected
   const loadTeamPlayers = useCallback(
@@ -220,6 +224,7 @@ export function GameSetupWizard({ session }: Props) {
       // Create the game
       const gameData: GameInsert = {
         user_id: session.user.id,
+        org_id: orgId,
         game_date: gameDate,
         game_time: gameTime || null,
         location: location || null,
@@ -236,6 +241,7 @@ export function GameSetupWizard({ session }: Props) {
         away_final_score: 0,
         innings_scheduled: parseInt(inningsScheduled, 10) || 9,
         use_dh: useDH,
+        share_token: null,
       };
 
       const game = await createGame(gameData);
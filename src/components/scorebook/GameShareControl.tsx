@@ -0,0 +1,89 @@
+"use client";
+
+import { useState } from "react";
+import { Link2, Link2Off } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/components/ui/toast";
+import { useConfirm } from "@/components/ui/confirm-dialog";
+import { getErrorMessage } from "@/lib/scorebook/db";
+import { getShareUrl, shareGame, stopSharingGame } from "@/lib/scorebook/share";
+
+type Props = {
+  gameId: string;
+  shareToken: string | null;
+  onChange: (shareToken: string | null) => void;
+};
+
+/**
+ * Turns a game's public live link on and off, and copies it
+ */
+export function GameShareControl({ gameId, shareToken, onChange }: Props) {
+  const { showToast } = useToast();
+  const confirm = useConfirm();
+  const [saving, setSaving] = useState(false);
+
+  const copyLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(getShareUrl(token));
+      showToast("Live link copied", "success");
+    } catch {
+      // Clipboard access can be refused; the link is still on
+      showToast(getShareUrl(token), "info");
+    }
+  };
+
+  const handleShare = async () => {
+    setSaving(true);
+    try {
+      const token = await shareGame(gameId);
+      onChange(token);
+      await copyLink(token);
+    } catch (e) {
+      showToast(getErrorMessage(e), "error");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleStopSharing = async () => {
+    const confirmed = await confirm({
+      title: "Stop Sharing",
+      message: "The live link will stop working for everyone who has it.",
+      confirmLabel: "Stop Sharing",
+      variant: "destructive",
+    });
+    if (!confirmed) return;
+
+    setSaving(true);
+    try {
+      await stopSharingGame(gameId);
+      onChange(null);
+      showToast("Live link revoked", "success");
+    } catch (e) {
+      showToast(getErrorMessage(e), "error");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!shareToken) {
+    return (
+      <Button variant="outline" onClick={handleShare} disabled={saving}>
+        <Link2 className="h-4 w-4" />
+        Share Live
+      </Button>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-1">
+      <Button variant="outline" onClick={() => copyLink(shareToken)}>
+        <Link2 className="h-4 w-4" />
+        Copy Live Link
+      </Button>
+      <Button variant="ghost" size="icon" onClick={handleStopSharing} disabled={saving} title="Stop sharing">
+        <Link2Off className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { FullGameData } from "@/lib/scorebook/db";
+import type { SavedPlayer, SavedTeam } from "@/lib/scorebook/types";
+import { getPlayerAppearances, getRuleForLevel } from "@/lib/scorebook/pitchCount";
+import {
+  CHRONIC_DAYS,
+  addDays,
+  computeWorkloadStatus,
+  loadPitchCountRules,
+  toDateKey,
+} from "@/lib/workload";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { PitchCountRulesEditor } from "@/components/PitchCountRulesEditor";
+
+type Props = {
+  team: SavedTeam;
+  players: SavedPlayer[];
+  games: FullGameData[];
+};
+
+function isPitcher(player: SavedPlayer): boolean {
+  return player.primary_position === "P" || !!player.secondary_positions?.includes("P");
+}
+
+export function PitcherEligibilityCard({ team, players, games }: Props) {
+  const [rules, setRules] = useState(loadPitchCountRules);
+  const today = toDateKey(new Date());
+
+  const rows = useMemo(() => {
+    const appearancesByPlayer = getPlayerAppearances(games);
+    const rule = getRuleForLevel(rules, team.level);
+    const windowStart = addDays(today, -CHRONIC_DAYS);
+
+    return players
+      .map((player) => {
+        const appearances = (appearancesByPlayer.get(player.id) ?? []).filter(
+          (a) => a.date >= windowStart && a.date <= today
+        );
+        const last = appearances.reduce<(typeof appearances)[number] | null>(
+          (latest, a) => (!latest || a.date > latest.date ? a : latest),
+          null
+        );
+        return { player, last, status: computeWorkloadStatus(appearances, rule, today) };
+      })
+      .filter((row) => row.last || isPitcher(row.player));
+  }, [games, players, rules, team.level, today]);
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Pitcher Eligibility</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!team.level && (
+          <p className="text-sm text-gray-500">Set the team&apos;s level to apply pitch-count rest rules.</p>
+        )}
+
+        {rows.length === 0 ? (
+          <p className="text-sm text-gray-500">No pitchers on the roster and no recent outings.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-gray-500">
+                  <th className="text-left py-2 px-2 font-medium">Player</th>
+                  <th className="text-left py-2 px-2 font-medium">Last outing</th>
+                  <th className="text-right py-2 px-2 font-medium">Last 7 days</th>
+                  <th className="text-right py-2 px-2 font-medium">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(({ player, last, status }) => (
+                  <tr key={player.id} className="border-b border-gray-100">
+                    <td className="py-2 px-2">
+                      {player.jersey_number && <span className="font-mono text-gray-400 mr-2">{player.jersey_number}</span>}
+                      {player.first_name} {player.last_name}
+                    </td>
+                    <td className="py-2 px-2 text-gray-600">
+                      {last ? `${last.date} · ${last.pitches} P` : "—"}
+                    </td>
+                    <td className="py-2 px-2 text-right tabular-nums">{status.acute}</td>
+                    <td className="py-2 px-2 text-right">
+                      {status.eligibleToday && status.nextEligibleDate <= today ? (
+                        <Badge variant="outline" className="text-green-700 border-green-200">
+                          Available
+                        </Badge>
+                      ) : (
+                        <Badge variant="outline" className="text-red-700 border-red-200">
+                          Rest until {status.nextEligibleDate}
+                        </Badge>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {team.level && <PitchCountRulesEditor level={team.level} rules={rules} onChange={setRules} />}
+      </CardContent>
+    </Card>
+  );
+}
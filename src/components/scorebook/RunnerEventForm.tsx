@@ -0,0 +1,176 @@
+"use client";
+
+import { useState } from "react";
+import type { Base, BaseDestination, BaseState, GameLineupEntry } from "@/lib/scorebook/types";
+import { PLAY_TYPES } from "@/lib/scorebook/types";
+import {
+  RUNNER_EVENT_TYPES,
+  getDefaultRunnerEventMovements,
+  type RunnerEventType,
+  type RunnerMovement,
+} from "@/lib/scorebook/gameEngine";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+type Props = {
+  baseState: BaseState;
+  onSubmit: (data: RunnerEventData) => void;
+  onCancel: () => void;
+  isSubmitting?: boolean;
+};
+
+export type RunnerEventData = {
+  eventType: RunnerEventType;
+  movements: RunnerMovement[];
+  fieldingSequence: string | null;
+};
+
+const DESTINATION_LABELS: Record<BaseDestination, string> = {
+  "1": "1st",
+  "2": "2nd",
+  "3": "3rd",
+  H: "Home",
+  OUT: "Out",
+};
+
+const BASE_LABELS: Record<"1" | "2" | "3", string> = { "1": "1B", "2": "2B", "3": "3B" };
+
+function getDestinationOptions(from: "1" | "2" | "3"): BaseDestination[] {
+  const ahead = (["2", "3", "H"] as BaseDestination[]).filter(
+    (d) => d === "H" || Number(d) > Number(from)
+  );
+  return [...ahead, "OUT"];
+}
+
+function toDestinations(movements: RunnerMovement[]): Partial<Record<Base, BaseDestination>> {
+  return Object.fromEntries(movements.map((m) => [m.from, m.to]));
+}
+
+export function RunnerEventForm({ baseState, onSubmit, onCancel, isSubmitting = false }: Props) {
+  const [eventType, setEventType] = useState<RunnerEventType>("stolen_base");
+  const [destinations, setDestinations] = useState(() =>
+    toDestinations(getDefaultRunnerEventMovements(baseState, "stolen_base"))
+  );
+  const [fieldingSequence, setFieldingSequence] = useState("");
+
+  // Lead runner first, matching how the movements are applied
+  const runners = (
+    [
+      ["3", baseState.third],
+      ["2", baseState.second],
+      ["1", baseState.first],
+    ] as ["1" | "2" | "3", GameLineupEntry | null][]
+  ).filter((r): r is ["1" | "2" | "3", GameLineupEntry] => r[1] !== null);
+
+  const movements: RunnerMovement[] = runners.flatMap(([base, runner]) => {
+    const to = destinations[base];
+    return to ? [{ runnerId: runner.id, from: base, to }] : [];
+  });
+
+  // Two runners can't finish on the same base, and nobody passes the runner ahead
+  const finalBases = runners.map(([base]) => destinations[base] ?? base);
+  const occupied = finalBases.filter((b) => b !== "H" && b !== "OUT");
+  const hasCollision = new Set(occupied).size !== occupied.length;
+  const hasPassing = occupied.some((b, i) => i > 0 && Number(b) > Number(occupied[i - 1]));
+  const isValid = movements.length > 0 && !hasCollision && !hasPassing;
+
+  const handleEventType = (type: RunnerEventType) => {
+    setEventType(type);
+    setDestinations(toDestinations(getDefaultRunnerEventMovements(baseState, type)));
+  };
+
+  const handleSubmit = () => {
+    if (!isValid) return;
+    onSubmit({ eventType, movements, fieldingSequence: fieldingSequence.trim() || null });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label className="text-sm font-medium">Runner Event</Label>
+        <div className="flex flex-wrap gap-1">
+          {RUNNER_EVENT_TYPES.map((type) => (
+            <Button
+              key={type}
+              type="button"
+              variant={eventType === type ? "default" : "outline"}
+              size="sm"
+              onClick={() => handleEventType(type)}
+            >
+              {PLAY_TYPES[type]}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {/* Where each runner ended up */}
+      <div className="space-y-2">
+        {runners.map(([base, runner]) => (
+          <div key={runner.id} className="flex items-center justify-between gap-2 text-sm">
+            <div className="truncate">
+              <span className="font-mono text-gray-400 mr-2">{BASE_LABELS[base]}</span>
+              {runner.player_name}
+            </div>
+            <Select
+              value={destinations[base] ?? "stay"}
+              onValueChange={(v) =>
+                setDestinations({
+                  ...destinations,
+                  [base]: v === "stay" ? undefined : (v as BaseDestination),
+                })
+              }
+            >
+              <SelectTrigger className="h-8 w-28">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="stay">Stays</SelectItem>
+                {getDestinationOptions(base).map((d) => (
+                  <SelectItem key={d} value={d}>
+                    {DESTINATION_LABELS[d]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <Label htmlFor="runner-fielding" className="text-xs">
+          Fielding notation (e.g., 2-6, 1-3)
+        </Label>
+        <Input
+          id="runner-fielding"
+          value={fieldingSequence}
+          onChange={(e) => setFieldingSequence(e.target.value)}
+          placeholder="Optional"
+          className="mt-1"
+        />
+      </div>
+
+      {(hasCollision || hasPassing) && (
+        <p className="text-xs text-red-600">
+          {hasCollision ? "Two runners can't end up on the same base." : "A runner can't pass the runner ahead."}
+        </p>
+      )}
+
+      <div className="flex justify-end gap-2 pt-2 border-t">
+        <Button type="button" variant="outline" onClick={onCancel} disabled={isSubmitting}>
+          Cancel
+        </Button>
+        <Button type="button" onClick={handleSubmit} disabled={!isValid || isSubmitting}>
+          {isSubmitting ? "Saving..." : "Record Event"}
+        </Button>
+      </div>
+    </div>
+  );
+}
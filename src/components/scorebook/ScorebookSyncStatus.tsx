@@ -0,0 +1,100 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Cloud, CloudOff, RefreshCw } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/components/ui/toast";
+import { isOffline } from "@/lib/offlineQueue";
+import { flushScorebookJournal, getJournal, subscribeToScorebookJournal } from "@/lib/scorebook/offline";
+import { getErrorMessage } from "@/lib/scorebook/db";
+
+type Props = {
+  gameId: string;
+  // Called when changes to this game reach the server, so it can be reloaded
+  onSynced: () => void;
+};
+
+export function ScorebookSyncStatus({ gameId, onSynced }: Props) {
+  const { showToast } = useToast();
+  const [online, setOnline] = useState(() => !isOffline());
+  const [pending, setPending] = useState(0);
+  const [syncing, setSyncing] = useState(false);
+
+  useEffect(() => {
+    const handleOnline = () => setOnline(true);
+    const handleOffline = () => setOnline(false);
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, []);
+
+  useEffect(() => {
+    getJournal()
+      .then((entries) => setPending(entries.length))
+      .catch((e: unknown) => console.error(e));
+
+    return subscribeToScorebookJournal((event) => {
+      if (event.type === "changed") {
+        setPending(event.pending);
+        setSyncing(event.syncing);
+        return;
+      }
+
+      const { synced, conflicts } = event.result;
+      if (synced) showToast(`Synced ${synced} offline scorebook ${synced === 1 ? "change" : "changes"}`, "success");
+      if (conflicts.length) {
+        showToast(
+          `${conflicts.length} offline ${conflicts.length === 1 ? "change" : "changes"} couldn't be synced: ${conflicts[0].message}`,
+          "error"
+        );
+      }
+      if (event.result.gameIds.includes(gameId)) onSynced();
+    });
+  }, [gameId, onSynced, showToast]);
+
+  const handleSyncNow = async () => {
+    try {
+      await flushScorebookJournal();
+    } catch (e) {
+      showToast(getErrorMessage(e), "error");
+    }
+  };
+
+  if (!online) {
+    return (
+      <Badge variant="outline" className="gap-1 border-amber-300 bg-amber-50 text-amber-900">
+        <CloudOff className="h-3 w-3" />
+        Offline{pending > 0 ? ` · ${pending} saved on this device` : ""}
+      </Badge>
+    );
+  }
+
+  if (syncing) {
+    return (
+      <Badge variant="outline" className="gap-1">
+        <RefreshCw className="h-3 w-3 animate-spin" />
+        Syncing {pending}...
+      </Badge>
+    );
+  }
+
+  if (pending > 0) {
+    return (
+      <Button variant="outline" size="sm" onClick={handleSyncNow} className="gap-1">
+        <RefreshCw className="h-3 w-3" />
+        {pending} waiting to sync
+      </Button>
+    );
+  }
+
+  return (
+    <Badge variant="outline" className="gap-1 text-gray-600">
+      <Cloud className="h-3 w-3" />
+      Saved
+    </Badge>
+  );
+}
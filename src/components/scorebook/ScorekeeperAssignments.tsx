@@ -0,0 +1,88 @@
+"use client";
+
+import { useState } from "react";
+import { X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/components/ui/toast";
+import { getErrorMessage } from "@/lib/api";
+import { assignScorekeeper, unassignScorekeeper, type OrgMember } from "@/lib/organizations";
+
+type Props = {
+  gameId: string;
+  orgId: string;
+  // Members with the scorekeeper role
+  scorekeepers: OrgMember[];
+  assignedUserIds: string[];
+  onChange: (assignedUserIds: string[]) => void;
+};
+
+/**
+ * Lets a coach choose which scorekeepers can score a game
+ */
+export function ScorekeeperAssignments({ gameId, orgId, scorekeepers, assignedUserIds, onChange }: Props) {
+  const { showToast } = useToast();
+  const [saving, setSaving] = useState(false);
+
+  const assigned = scorekeepers.filter((m) => assignedUserIds.includes(m.user_id));
+  const available = scorekeepers.filter((m) => !assignedUserIds.includes(m.user_id));
+
+  const handleAssign = async (userId: string) => {
+    setSaving(true);
+    try {
+      await assignScorekeeper(gameId, userId, orgId);
+      onChange([...assignedUserIds, userId]);
+    } catch (e) {
+      showToast(getErrorMessage(e), "error");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUnassign = async (userId: string) => {
+    setSaving(true);
+    try {
+      await unassignScorekeeper(gameId, userId);
+      onChange(assignedUserIds.filter((id) => id !== userId));
+    } catch (e) {
+      showToast(getErrorMessage(e), "error");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    // Sits inside a clickable game card
+    <div className="flex flex-wrap items-center gap-2 text-sm" onClick={(e) => e.stopPropagation()}>
+      <span className="text-gray-500">Scorekeepers:</span>
+      {assigned.map((m) => (
+        <Badge key={m.user_id} variant="secondary" className="gap-1">
+          {m.email ?? "Scorekeeper"}
+          <button
+            type="button"
+            onClick={() => handleUnassign(m.user_id)}
+            disabled={saving}
+            aria-label={`Unassign ${m.email ?? "scorekeeper"}`}
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </Badge>
+      ))}
+      {available.length > 0 && (
+        <Select value="" onValueChange={handleAssign} disabled={saving}>
+          <SelectTrigger className="h-7 w-[160px] text-xs">
+            <SelectValue placeholder="Assign..." />
+          </SelectTrigger>
+          <SelectContent>
+            {available.map((m) => (
+              <SelectItem key={m.user_id} value={m.user_id}>
+                {m.email ?? m.user_id}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      {assigned.length === 0 && available.length === 0 && <span className="text-gray-400">none</span>}
+    </div>
+  );
+}
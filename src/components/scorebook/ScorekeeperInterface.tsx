@@ -1,17 +1,27 @@
 "use client";
 
-import { useState, useCallback, useMemo } from "react";
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
 import type { FullGameData } from "@/lib/scorebook/db";
 import {
   createAtBat,
   createPlay,
+  createPlays,
+  createPitches,
+  createLineupEntry,
+  createSubstitution,
+  createInningSummary,
   updateGame,
+  updatePlay,
   deleteAtBat,
+  fetchFullGameData,
   getErrorMessage,
 } from "@/lib/scorebook/db";
 import type {
+  AtBat,
   AtBatInsert,
+  Play,
   PlayInsert,
+  GamePitchInsert,
   GameLineupEntry,
   HalfInning,
   TeamSide,
@@ -20,25 +30,59 @@ import type {
 import {
   getBattingTeam,
   getFieldingTeam,
+  getHalfInningLabel,
   AT_BAT_RESULTS,
+  PLAY_TYPES,
+  SUBSTITUTION_TYPES,
 } from "@/lib/scorebook/types";
 import {
-  getCurrentGameState,
-  getStartingLineup,
   getCurrentPitcher,
-  shouldAdvanceHalfInning,
-  getNextHalfInning,
-  getOutsFromResult,
   getBatterBaseAdvancement,
-  calculateCorrectInningState,
-  calculateScores,
+  getNextHalfInning,
+  getCountAfterPitch,
+  formatPitchSequence,
 } from "@/lib/scorebook/gameState";
+import {
+  getGameStateAt,
+  applyGameEvent,
+  toCurrentGameState,
+  getCurrentBatter,
+  getCurrentBattingOrder,
+  getDefensivePlayer,
+  getBattedBallRunnerMovements,
+  getRunnerEventPlayType,
+} from "@/lib/scorebook/gameEngine";
+import { computeEarnedRuns, getEarnedRunCorrections } from "@/lib/scorebook/earnedRuns";
+import { computeInningSummary } from "@/lib/scorebook/stats";
+import { parseFieldingNotation } from "@/lib/scorebook/fielding";
+import {
+  EMPTY_HISTORY,
+  createHistoryEntry,
+  getHistoryStorageKey,
+  pickGameFields,
+  pushHistory,
+  redoHistoryEntry,
+  undoHistoryEntry,
+  type HistoryEntry,
+  type ScorebookHistory,
+} from "@/lib/scorebook/history";
+import {
+  fetchPitchCountContext,
+  getGamePitchCounts,
+  getPitcherEligibility,
+  getRuleForLevel,
+  type PitchCountContext,
+} from "@/lib/scorebook/pitchCount";
+import { loadPitchCountRules } from "@/lib/workload";
+import { useLocalStorage } from "@/lib/hooks";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/components/ui/toast";
 import { BaseRunnersDisplay, OutCounter, GameSituationDisplay } from "./BaseRunnersDisplay";
 import { AtBatEntryForm, type AtBatEntryData } from "./AtBatEntryForm";
+import { SubstitutionDialog, type SubstitutionData } from "./SubstitutionDialog";
+import { RunnerEventForm, type RunnerEventData } from "./RunnerEventForm";
 
 type Props = {
   gameData: FullGameData;
@@ -46,23 +90,112 @@ type Props = {
   onGameUpdate: () => void;
 };
 
+/**
+ * Store the reconstructed earned/unearned flag on newly created scoring plays
+ */
+async function applyEarnedRunFlags(gameData: FullGameData, created: Play[]): Promise<Play[]> {
+  const corrections = getEarnedRunCorrections(computeEarnedRuns(gameData), created);
+  const updated = await Promise.all(
+    corrections.map((c) => updatePlay(c.playId, { is_earned_run: c.isEarned }))
+  );
+  return created.map((play) => updated.find((u) => u.id === play.id) ?? play);
+}
+
+function halfInningKey(inning: number, half: HalfInning): string {
+  return `${inning}:${half}`;
+}
+
+/**
+ * The half-innings some at-bats and plays belong to
+ */
+function getHalfInnings(atBats: AtBat[], plays: Play[]): Set<string> {
+  const keys = new Set(atBats.map((ab) => halfInningKey(ab.inning, ab.half)));
+  for (const play of plays) {
+    if (play.inning !== null && play.half !== null) keys.add(halfInningKey(play.inning, play.half));
+  }
+  return keys;
+}
+
+/**
+ * Store the earned/unearned flags again for every scoring play in some
+ * half-innings. Removing or restoring an error changes how the rest of its
+ * half-inning reconstructs, not just the plays the change touched.
+ */
+async function refreshEarnedRunFlags(gameData: FullGameData, halfInnings: Set<string>): Promise<void> {
+  if (halfInnings.size === 0) return;
+  const atBatById = new Map(gameData.atBats.map((ab) => [ab.id, ab]));
+  const affected = gameData.plays.filter((play) => {
+    const atBat = play.at_bat_id ? atBatById.get(play.at_bat_id) : undefined;
+    const inning = play.inning ?? atBat?.inning;
+    const half = play.half ?? atBat?.half;
+    return inning !== undefined && half !== undefined && halfInnings.has(halfInningKey(inning, half));
+  });
+  await applyEarnedRunFlags(gameData, affected);
+}
+
+/**
+ * Reload the game after an undo or redo and refresh the flags in the
+ * half-innings the entry's rows belong to
+ */
+async function refreshEarnedRunFlagsAfter(gameId: string, entry: HistoryEntry): Promise<void> {
+  const halfInnings = getHalfInnings(
+    [...entry.created.atBats, ...entry.deleted.atBats],
+    [...entry.created.plays, ...entry.deleted.plays]
+  );
+  if (halfInnings.size === 0) return;
+  const gameData = await fetchFullGameData(gameId);
+  if (gameData) await refreshEarnedRunFlags(gameData, halfInnings);
+}
+
 export function ScorekeeperInterface({ gameData, userId, onGameUpdate }: Props) {
   const { showToast } = useToast();
   const [isRecording, setIsRecording] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [isDeleting, setIsDeleting] = useState<string | null>(null);
   const [showHistory, setShowHistory] = useState(true);
+  const [isReverting, setIsReverting] = useState(false);
+  const [isAdvancing, setIsAdvancing] = useState(false);
+  const [subTeam, setSubTeam] = useState<TeamSide | null>(null);
+  const [isSubstituting, setIsSubstituting] = useState(false);
+  const [showRunnerEvent, setShowRunnerEvent] = useState(false);
+  const [isSavingRunnerEvent, setIsSavingRunnerEvent] = useState(false);
+  const [pitchCountRules] = useState(loadPitchCountRules);
+  const [pitchCountContext, setPitchCountContext] = useState<PitchCountContext | null>(null);
 
   const { game, homeLineup, awayLineup, atBats, plays } = gameData;
 
-  // Calculate current game state
-  const currentState = useMemo(
-    () => getCurrentGameState(game, homeLineup, awayLineup, atBats, plays),
-    [game, homeLineup, awayLineup, atBats, plays]
+  // Team levels and earlier outings, reloaded when a saved player joins the game
+  const lineupPlayerKey = [...new Set([...homeLineup, ...awayLineup].map((l) => l.player_id).filter(Boolean))]
+    .sort()
+    .join(",");
+  useEffect(() => {
+    let cancelled = false;
+    fetchPitchCountContext(
+      { game_date: game.game_date, home_team_id: game.home_team_id, away_team_id: game.away_team_id },
+      lineupPlayerKey ? lineupPlayerKey.split(",") : []
+    )
+      .then((context) => {
+        if (!cancelled) setPitchCountContext(context);
+      })
+      .catch((e) => {
+        if (!cancelled) showToast(getErrorMessage(e), "error");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [game.game_date, game.home_team_id, game.away_team_id, lineupPlayerKey, showToast]);
+
+  // Undo/redo stacks persist per game so they survive a reload
+  const [history, setHistory] = useLocalStorage<ScorebookHistory>(
+    getHistoryStorageKey(game.id),
+    EMPTY_HISTORY
   );
 
+  // Replay the game to get the current state
+  const engineState = useMemo(() => getGameStateAt(gameData), [gameData]);
+  const currentState = useMemo(() => toCurrentGameState(engineState), [engineState]);
+
   // Get lineups
-  const battingLineup = currentState.battingTeam === "home" ? homeLineup : awayLineup;
   const fieldingLineup = currentState.battingTeam === "home" ? awayLineup : homeLineup;
   const battingTeamName =
     currentState.battingTeam === "home" ? game.home_team_name : game.away_team_name;
@@ -70,15 +203,69 @@ export function ScorekeeperInterface({ gameData, userId, onGameUpdate }: Props)
     currentState.battingTeam === "home" ? game.away_team_name : game.home_team_name;
 
   // Get current batter and pitcher
-  const startingLineup = getStartingLineup(battingLineup);
-  const currentBatter = startingLineup[currentState.currentBatterIndex] ?? null;
-  const currentPitcher = getCurrentPitcher(fieldingLineup);
+  const battingOrder = getCurrentBattingOrder(engineState, currentState.battingTeam);
+  const currentBatter = getCurrentBatter(engineState);
+  const currentPitcher =
+    getDefensivePlayer(engineState, currentState.fieldingTeam, "P") ?? getCurrentPitcher(fieldingLineup);
+
+  // Pitch counts and whether each pitcher may (still) pitch under the level's rules
+  const gamePitchCounts = useMemo(() => getGamePitchCounts(atBats), [atBats]);
+  const getEligibility = useCallback(
+    (entry: GameLineupEntry, side: TeamSide) =>
+      getPitcherEligibility(
+        (entry.player_id && pitchCountContext?.history.get(entry.player_id)) || [],
+        game,
+        gamePitchCounts.get(entry.id) ?? 0,
+        getRuleForLevel(pitchCountRules, pitchCountContext?.levels[side] ?? null)
+      ),
+    [game, gamePitchCounts, pitchCountContext, pitchCountRules]
+  );
+  const pitcherEligibility = currentPitcher ? getEligibility(currentPitcher, currentState.fieldingTeam) : null;
+  const pitcherBlocked = !!pitcherEligibility && !pitcherEligibility.status.eligibleToday;
+
+  // Toast warnings as they first appear for the pitcher on the mound
+  const pitcherWarningKey = (pitcherEligibility?.warnings ?? [])
+    .filter((w) => w.level !== "info")
+    .map((w) => w.message)
+    .join("\n");
+  const currentPitcherId = currentPitcher?.id ?? null;
+  const currentPitcherName = currentPitcher?.player_name ?? "";
+  const shownWarningsRef = useRef<{ pitcherId: string | null; messages: Set<string> }>({
+    pitcherId: null,
+    messages: new Set(),
+  });
+  useEffect(() => {
+    if (!pitchCountContext || !currentPitcherId) return;
+    const messages = pitcherWarningKey ? pitcherWarningKey.split("\n") : [];
+    const shown = shownWarningsRef.current;
+    if (shown.pitcherId === currentPitcherId) {
+      for (const message of messages) {
+        if (!shown.messages.has(message)) showToast(`${currentPitcherName}: ${message}`, "warning");
+      }
+    }
+    shownWarningsRef.current = { pitcherId: currentPitcherId, messages: new Set(messages) };
+  }, [pitchCountContext, currentPitcherId, currentPitcherName, pitcherWarningKey, showToast]);
 
   // Count at-bats in current half-inning
   const currentInningAtBats = atBats.filter(
     (ab) => ab.inning === currentState.inning && ab.half === currentState.half
   );
   const batterNumberInInning = currentInningAtBats.length + 1;
+  const hasRunners = !!(currentState.bases.first || currentState.bases.second || currentState.bases.third);
+
+  // Players on the field or in the order, and those still available to enter
+  const getSubstitutionLineups = (side: TeamSide) => {
+    const lineup = side === "home" ? engineState.homeLineup : engineState.awayLineup;
+    const inGame = new Set([
+      ...engineState.battingOrder[side],
+      ...Object.values(engineState.defense[side]),
+    ]);
+    const removed = new Set(engineState.substitutions.map((sub) => sub.outgoing_lineup_id));
+    return {
+      active: lineup.filter((entry) => inGame.has(entry.id)),
+      bench: lineup.filter((entry) => !inGame.has(entry.id) && !removed.has(entry.id)),
+    };
+  };
 
   // Handle recording an at-bat
   const handleRecordAtBat = useCallback(
@@ -104,11 +291,12 @@ export function ScorekeeperInterface({ gameData, userId, onGameUpdate }: Props)
           balls: data.balls,
           strikes: data.strikes,
           pitch_count: data.pitchCount,
-          pitch_sequence: null,
+          pitch_sequence:
+            data.pitches.length > 0 ? formatPitchSequence(data.pitches.map((p) => p.result)) : null,
           hit_location_x: null,
           hit_location_y: null,
           hit_zone_id: null,
-          final_pitch_zone_id: null,
+          final_pitch_zone_id: data.pitches.at(-1)?.zoneId ?? null,
           rbis: data.rbis,
           is_quality_ab: false,
           notes: data.notes,
@@ -116,25 +304,48 @@ export function ScorekeeperInterface({ gameData, userId, onGameUpdate }: Props)
 
         const newAtBat = await createAtBat(atBatData);
 
+        // Store each pitch with the count it was thrown in
+        let count = { balls: 0, strikes: 0 };
+        const pitchRows: GamePitchInsert[] = data.pitches.map((pitch, idx) => {
+          const row: GamePitchInsert = {
+            user_id: userId,
+            game_id: game.id,
+            at_bat_id: newAtBat.id,
+            pitch_number: idx + 1,
+            pitch_result: pitch.result,
+            pitch_type: pitch.pitchType,
+            zone_id: pitch.zoneId,
+            balls_before: count.balls,
+            strikes_before: count.strikes,
+          };
+          count = getCountAfterPitch(count.balls, count.strikes, pitch.result);
+          return row;
+        });
+        const newPitches = await createPitches(pitchRows);
+
         // Create plays based on the result
         const resultInfo = AT_BAT_RESULTS[data.resultType];
-        const outsFromResult = getOutsFromResult(data.resultType);
         const batterDestination = getBatterBaseAdvancement(data.resultType);
+        const credits = parseFieldingNotation(data.resultDetail, data.resultType);
 
         // Create the batter's play
         const batterPlay: PlayInsert = {
           user_id: userId,
           game_id: game.id,
           at_bat_id: newAtBat.id,
+          inning: null,
+          half: null,
+          batter_number: null,
+          pitcher_lineup_id: null,
           play_sequence: 1,
           runner_lineup_id: currentBatter.id,
           play_type: resultInfo.isOut ? "out" : "advance",
           from_base: "0",
           to_base: batterDestination,
           fielding_sequence: data.resultDetail,
-          putout_positions: null,
-          assist_positions: null,
-          error_position: data.resultType === "E" ? null : null, // Would need to parse from resultDetail
+          putout_positions: credits.putouts.length > 0 ? credits.putouts : null,
+          assist_positions: credits.assists.length > 0 ? credits.assists : null,
+          error_position: credits.error,
           error_type: null,
           is_out: resultInfo.isOut,
           run_scored: batterDestination === "H",
@@ -142,34 +353,70 @@ export function ScorekeeperInterface({ gameData, userId, onGameUpdate }: Props)
           notes: null,
         };
 
-        await createPlay(batterPlay);
+        let newPlays = [await createPlay(batterPlay)];
 
-        // Calculate new outs
-        const newOuts = currentState.outs + outsFromResult;
+        // Record the runners the batter forced along or put out so every run
+        // and out has a play
+        const runnerPlays: PlayInsert[] = getBattedBallRunnerMovements(
+          currentState.bases,
+          data.resultType,
+          currentState.outs
+        ).map((movement, idx) => ({
+          user_id: userId,
+          game_id: game.id,
+          at_bat_id: newAtBat.id,
+          inning: null,
+          half: null,
+          batter_number: null,
+          pitcher_lineup_id: null,
+          play_sequence: idx + 2,
+          runner_lineup_id: movement.runnerId,
+          play_type: movement.to === "OUT" ? "out" : "advance",
+          from_base: movement.from,
+          to_base: movement.to,
+          fielding_sequence: null,
+          putout_positions: null,
+          assist_positions: null,
+          error_position: null,
+          error_type: null,
+          is_out: movement.to === "OUT",
+          run_scored: movement.to === "H",
+          is_earned_run: movement.to === "H" && data.resultType !== "E",
+          notes: null,
+        }));
+        if (runnerPlays.length > 0) {
+          newPlays.push(...(await createPlays(runnerPlays)));
+        }
+        newPlays = await applyEarnedRunFlags(
+          { ...gameData, atBats: [...atBats, newAtBat], plays: [...plays, ...newPlays] },
+          newPlays
+        );
 
-        // Check if we need to advance the half-inning
-        if (shouldAdvanceHalfInning(newOuts)) {
-          const { inning: newInning, half: newHalf } = getNextHalfInning(
-            currentState.inning,
-            currentState.half
-          );
+        // Advance the game through the engine and store where it ended up
+        const nextState = applyGameEvent(engineState, {
+          type: "plate_appearance",
+          atBat: newAtBat,
+          plays: newPlays,
+        });
+        const gameAfter = {
+          ...pickGameFields(game),
+          current_inning: nextState.game.current_inning,
+          current_half: nextState.game.current_half,
+          home_final_score: nextState.game.home_final_score,
+          away_final_score: nextState.game.away_final_score,
+        };
+        await updateGame(game.id, gameAfter);
 
-          // Update game state
-          await updateGame(game.id, {
-            current_inning: newInning,
-            current_half: newHalf,
-            home_final_score: currentState.homeScore + (currentState.battingTeam === "home" && batterDestination === "H" ? 1 : 0),
-            away_final_score: currentState.awayScore + (currentState.battingTeam === "away" && batterDestination === "H" ? 1 : 0),
-          });
-        } else {
-          // Just update scores if a run scored
-          if (batterDestination === "H") {
-            await updateGame(game.id, {
-              home_final_score: currentState.homeScore + (currentState.battingTeam === "home" ? 1 : 0),
-              away_final_score: currentState.awayScore + (currentState.battingTeam === "away" ? 1 : 0),
-            });
-          }
-        }
+        setHistory((prev) =>
+          pushHistory(
+            prev,
+            createHistoryEntry(`${currentBatter.player_name} ${data.resultType}`, {
+              created: { atBats: [newAtBat], plays: newPlays, pitches: newPitches },
+              gameBefore: pickGameFields(game),
+              gameAfter,
+            })
+          )
+        );
 
         setIsRecording(false);
         showToast("At-bat recorded", "success");
@@ -182,43 +429,161 @@ export function ScorekeeperInterface({ gameData, userId, onGameUpdate }: Props)
     },
     [
       userId,
-      game.id,
+      game,
+      gameData,
+      atBats,
+      plays,
+      setHistory,
       currentBatter,
       currentPitcher,
       currentState,
+      engineState,
       batterNumberInInning,
       showToast,
       onGameUpdate,
     ]
   );
 
-  // Handle deleting an at-bat (undo)
+  // Handle a steal, wild pitch, pickoff or balk while the batter is still up
+  const handleRunnerEvent = useCallback(
+    async (data: RunnerEventData) => {
+      if (!currentPitcher) {
+        showToast("Missing pitcher", "error");
+        return;
+      }
+
+      setIsSavingRunnerEvent(true);
+      try {
+        // The notation covers the whole event, so it's credited on one play
+        const outs = data.movements.filter((m) => m.to === "OUT").length;
+        const credits = parseFieldingNotation(data.fieldingSequence, null, outs);
+        const creditedIdx = Math.max(data.movements.findIndex((m) => m.to === "OUT"), 0);
+        const runnerPlays: PlayInsert[] = data.movements.map((movement, idx) => ({
+          user_id: userId,
+          game_id: game.id,
+          at_bat_id: null,
+          inning: currentState.inning,
+          half: currentState.half,
+          batter_number: batterNumberInInning,
+          pitcher_lineup_id: currentPitcher.id,
+          play_sequence: idx + 1,
+          runner_lineup_id: movement.runnerId,
+          play_type: getRunnerEventPlayType(data.eventType, movement.to),
+          from_base: movement.from,
+          to_base: movement.to,
+          fielding_sequence: data.fieldingSequence,
+          putout_positions: idx === creditedIdx && credits.putouts.length > 0 ? credits.putouts : null,
+          assist_positions: idx === creditedIdx && credits.assists.length > 0 ? credits.assists : null,
+          error_position: idx === creditedIdx ? credits.error : null,
+          error_type: null,
+          is_out: movement.to === "OUT",
+          run_scored: movement.to === "H",
+          is_earned_run: movement.to === "H" && data.eventType !== "passed_ball",
+          notes: null,
+        }));
+        const created = await createPlays(runnerPlays);
+        const newPlays = await applyEarnedRunFlags({ ...gameData, plays: [...plays, ...created] }, created);
+
+        const nextState = newPlays.reduce(
+          (state, play) => applyGameEvent(state, { type: "runner_play", play }),
+          engineState
+        );
+        const gameAfter = {
+          ...pickGameFields(game),
+          current_inning: nextState.game.current_inning,
+          current_half: nextState.game.current_half,
+          home_final_score: nextState.game.home_final_score,
+          away_final_score: nextState.game.away_final_score,
+        };
+        await updateGame(game.id, gameAfter);
+
+        setHistory((prev) =>
+          pushHistory(
+            prev,
+            createHistoryEntry(PLAY_TYPES[data.eventType].toLowerCase(), {
+              created: { plays: newPlays },
+              gameBefore: pickGameFields(game),
+              gameAfter,
+            })
+          )
+        );
+
+        setShowRunnerEvent(false);
+        showToast(`${PLAY_TYPES[data.eventType]} recorded`, "success");
+        onGameUpdate();
+      } catch (e) {
+        showToast(getErrorMessage(e), "error");
+      } finally {
+        setIsSavingRunnerEvent(false);
+      }
+    },
+    [
+      userId,
+      game,
+      gameData,
+      plays,
+      setHistory,
+      currentPitcher,
+      currentState,
+      engineState,
+      batterNumberInInning,
+      showToast,
+      onGameUpdate,
+    ]
+  );
+
+  // Handle deleting an at-bat from the history list
   const handleDeleteAtBat = useCallback(
     async (atBatId: string) => {
+      const atBat = atBats.find((ab) => ab.id === atBatId);
+      if (!atBat) return;
+
       setIsDeleting(atBatId);
       try {
-        // Delete the at-bat (plays are deleted via cascade)
+        // Delete the at-bat (plays and pitches are deleted via cascade)
         await deleteAtBat(atBatId);
 
-        // Recalculate the correct inning state after deletion
-        const remainingAtBats = atBats.filter((ab) => ab.id !== atBatId);
-        const remainingPlays = plays.filter((p) => p.at_bat_id !== atBatId);
-
-        const { inning: correctInning, half: correctHalf } = calculateCorrectInningState(
-          remainingAtBats,
-          remainingPlays
-        );
+        const remaining: FullGameData = {
+          ...gameData,
+          atBats: atBats.filter((ab) => ab.id !== atBatId),
+          plays: plays.filter((p) => p.at_bat_id !== atBatId),
+          pitches: gameData.pitches.filter((p) => p.at_bat_id !== atBatId),
+        };
+        await refreshEarnedRunFlags(remaining, getHalfInnings([atBat], []));
 
-        // Recalculate scores
-        const { homeScore, awayScore } = calculateScores(remainingAtBats, remainingPlays);
+        // Replay what's left, ignoring the stored position so it can move back
+        const replayed = getGameStateAt({
+          ...remaining,
+          game: { ...game, current_inning: 1, current_half: "top" },
+        });
 
         // Update game state to the correct inning/half and scores
-        await updateGame(game.id, {
-          current_inning: correctInning,
-          current_half: correctHalf,
-          home_final_score: homeScore,
-          away_final_score: awayScore,
-        });
+        const gameAfter = {
+          ...pickGameFields(game),
+          current_inning: replayed.game.current_inning,
+          current_half: replayed.game.current_half,
+          home_final_score: replayed.game.home_final_score,
+          away_final_score: replayed.game.away_final_score,
+        };
+        await updateGame(game.id, gameAfter);
+
+        const batterName =
+          [...homeLineup, ...awayLineup].find((l) => l.id === atBat.batter_lineup_id)?.player_name ??
+          "at-bat";
+        setHistory((prev) =>
+          pushHistory(
+            prev,
+            createHistoryEntry(`remove ${batterName} ${atBat.result_type}`, {
+              deleted: {
+                atBats: [atBat],
+                plays: plays.filter((p) => p.at_bat_id === atBatId),
+                pitches: gameData.pitches.filter((p) => p.at_bat_id === atBatId),
+              },
+              gameBefore: pickGameFields(game),
+              gameAfter,
+            })
+          )
+        );
 
         showToast("At-bat removed", "success");
         onGameUpdate();
@@ -228,9 +593,194 @@ export function ScorekeeperInterface({ gameData, userId, onGameUpdate }: Props)
         setIsDeleting(null);
       }
     },
-    [game.id, atBats, plays, showToast, onGameUpdate]
+    [game, gameData, atBats, plays, homeLineup, awayLineup, setHistory, showToast, onGameUpdate]
+  );
+
+  // Handle a substitution for either team
+  const handleSubstitution = useCallback(
+    async (data: SubstitutionData) => {
+      if (!subTeam) return;
+
+      // Nobody takes the mound while they owe rest or are over the limit
+      const incomingLineupId =
+        data.substitutionType === "position_change" ? data.outgoingPlayerId : data.incomingPlayerId;
+      const incomingEntry =
+        (data.substitutionType === "pitching_change" || data.newPosition === "P") && incomingLineupId
+          ? [...homeLineup, ...awayLineup].find((l) => l.id === incomingLineupId)
+          : undefined;
+      if (incomingEntry) {
+        const { status, warnings } = getEligibility(incomingEntry, subTeam);
+        if (!status.eligibleToday) {
+          showToast(
+            `${incomingEntry.player_name} can't pitch: ${warnings[0]?.message ?? "not eligible today"}`,
+            "error"
+          );
+          return;
+        }
+      }
+
+      setIsSubstituting(true);
+      try {
+        const createdEntries: GameLineupEntry[] = [];
+        let incomingId =
+          data.substitutionType === "position_change" ? data.outgoingPlayerId : data.incomingPlayerId;
+
+        // A player who isn't on the game roster yet gets a lineup row first
+        if (!incomingId) {
+          const entry = await createLineupEntry({
+            user_id: userId,
+            game_id: game.id,
+            team_side: subTeam,
+            player_id: null,
+            player_name: data.incomingPlayerName.trim(),
+            jersey_number: null,
+            bats: null,
+            throws: null,
+            batting_order: null,
+            defensive_position: null,
+            entry_inning: currentState.inning,
+            entry_half: currentState.half,
+            entry_batter: batterNumberInInning,
+            is_active: true,
+          });
+          createdEntries.push(entry);
+          incomingId = entry.id;
+        }
+
+        const outgoingId =
+          data.substitutionType === "pitching_change"
+            ? (getDefensivePlayer(engineState, subTeam, "P")?.id ?? null)
+            : data.outgoingPlayerId;
+
+        const substitution = await createSubstitution({
+          user_id: userId,
+          game_id: game.id,
+          team_side: subTeam,
+          incoming_lineup_id: incomingId,
+          outgoing_lineup_id: outgoingId,
+          inning: currentState.inning,
+          half: currentState.half,
+          batter_number: batterNumberInInning,
+          substitution_type: data.substitutionType,
+          new_batting_order: data.newBattingOrder,
+          new_position: data.newPosition,
+          notes: data.notes,
+        });
+
+        const fields = pickGameFields(game);
+        setHistory((prev) =>
+          pushHistory(
+            prev,
+            createHistoryEntry(
+              `${SUBSTITUTION_TYPES[data.substitutionType].toLowerCase()} (${data.incomingPlayerName || "position"})`,
+              {
+                created: { lineupEntries: createdEntries, substitutions: [substitution] },
+                gameBefore: fields,
+                gameAfter: fields,
+              }
+            )
+          )
+        );
+
+        setSubTeam(null);
+        showToast("Substitution recorded", "success");
+        onGameUpdate();
+      } catch (e) {
+        showToast(getErrorMessage(e), "error");
+      } finally {
+        setIsSubstituting(false);
+      }
+    },
+    [
+      subTeam,
+      userId,
+      game,
+      homeLineup,
+      awayLineup,
+      getEligibility,
+      engineState,
+      currentState,
+      batterNumberInInning,
+      setHistory,
+      showToast,
+      onGameUpdate,
+    ]
   );
 
+  // Handle ending the half-inning early (e.g. a mercy or time rule). Its
+  // summary is what keeps the advance when the game is replayed.
+  const handleEndHalfInning = useCallback(async () => {
+    setIsAdvancing(true);
+    try {
+      const summary = await createInningSummary({
+        user_id: userId,
+        game_id: game.id,
+        ...computeInningSummary(atBats, plays, currentState.inning, currentState.half),
+      });
+      const { inning, half } = getNextHalfInning(currentState.inning, currentState.half);
+      const gameAfter = { ...pickGameFields(game), current_inning: inning, current_half: half };
+      await updateGame(game.id, gameAfter);
+
+      setHistory((prev) =>
+        pushHistory(
+          prev,
+          createHistoryEntry(`end of ${getHalfInningLabel(currentState.half, currentState.inning)}`, {
+            created: { inningSummaries: [summary] },
+            gameBefore: pickGameFields(game),
+            gameAfter,
+          })
+        )
+      );
+
+      showToast(`Moved to ${getHalfInningLabel(half, inning)}`, "success");
+      onGameUpdate();
+    } catch (e) {
+      showToast(getErrorMessage(e), "error");
+    } finally {
+      setIsAdvancing(false);
+    }
+  }, [userId, game, atBats, plays, currentState, setHistory, showToast, onGameUpdate]);
+
+  // Handle undo/redo of the most recent action
+  const handleUndo = useCallback(async () => {
+    const entry = history.undo[history.undo.length - 1];
+    if (!entry) return;
+
+    setIsReverting(true);
+    try {
+      await undoHistoryEntry(game.id, entry);
+      await refreshEarnedRunFlagsAfter(game.id, entry);
+      setHistory((prev) => ({ undo: prev.undo.filter((e) => e.id !== entry.id), redo: [...prev.redo, entry] }));
+      showToast(`Undid ${entry.label}`, "success");
+      onGameUpdate();
+    } catch (e) {
+      showToast(getErrorMessage(e), "error");
+    } finally {
+      setIsReverting(false);
+    }
+  }, [game.id, history, setHistory, showToast, onGameUpdate]);
+
+  const handleRedo = useCallback(async () => {
+    const entry = history.redo[history.redo.length - 1];
+    if (!entry) return;
+
+    setIsReverting(true);
+    try {
+      await redoHistoryEntry(game.id, entry);
+      await refreshEarnedRunFlagsAfter(game.id, entry);
+      setHistory((prev) => ({ undo: [...prev.undo, entry], redo: prev.redo.filter((e) => e.id !== entry.id) }));
+      showToast(`Redid ${entry.label}`, "success");
+      onGameUpdate();
+    } catch (e) {
+      showToast(getErrorMessage(e), "error");
+    } finally {
+      setIsReverting(false);
+    }
+  }, [game.id, history, setHistory, showToast, onGameUpdate]);
+
+  const nextUndo = history.undo[history.undo.length - 1] ?? null;
+  const nextRedo = history.redo[history.redo.length - 1] ?? null;
+
   // Get at-bats for current inning (most recent first for history display)
   const recentAtBats = useMemo(() => {
     return [...atBats]
@@ -296,7 +846,7 @@ export function ScorekeeperInterface({ gameData, userId, onGameUpdate }: Props)
           <div className="mt-4">
             <p className="text-sm font-medium text-gray-500 mb-2">Batting Order</p>
             <div className="grid grid-cols-3 gap-2 text-sm">
-              {startingLineup.map((player, idx) => (
+              {battingOrder.map((player, idx) => player && (
                 <div
                   key={player.id}
                   className={`flex items-center gap-2 p-2 rounded ${
@@ -322,7 +872,32 @@ export function ScorekeeperInterface({ gameData, userId, onGameUpdate }: Props)
       {/* Right: Play entry */}
       <Card>
         <CardHeader className="pb-2">
-          <CardTitle className="text-lg">Record Play</CardTitle>
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-lg">Record Play</CardTitle>
+            <div className="flex items-center gap-1">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleUndo}
+                disabled={!nextUndo || isReverting}
+                title={nextUndo ? `Undo ${nextUndo.label}` : "Nothing to undo"}
+              >
+                Undo
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleRedo}
+                disabled={!nextRedo || isReverting}
+                title={nextRedo ? `Redo ${nextRedo.label}` : "Nothing to redo"}
+              >
+                Redo
+              </Button>
+            </div>
+          </div>
+          {nextUndo && (
+            <p className="text-xs text-gray-500 truncate">Last: {nextUndo.label}</p>
+          )}
         </CardHeader>
         <CardContent>
           {isGameComplete ? (
@@ -340,16 +915,47 @@ export function ScorekeeperInterface({ gameData, userId, onGameUpdate }: Props)
                 Both teams need a complete batting order and a pitcher to start scoring.
               </p>
             </div>
-          ) : isRecording ? (
-            <AtBatEntryForm
-              batter={currentBatter}
-              pitcher={currentPitcher}
-              baseState={currentState.bases}
-              outs={currentState.outs}
-              onSubmit={handleRecordAtBat}
-              onCancel={() => setIsRecording(false)}
-              isSubmitting={isSaving}
+          ) : subTeam ? (
+            <SubstitutionDialog
+              teamSide={subTeam}
+              teamName={subTeam === "home" ? game.home_team_name : game.away_team_name}
+              activeLineup={getSubstitutionLineups(subTeam).active}
+              benchPlayers={getSubstitutionLineups(subTeam).bench}
+              inning={currentState.inning}
+              half={currentState.half}
+              onSubmit={handleSubstitution}
+              onCancel={() => setSubTeam(null)}
+              isSubmitting={isSubstituting}
             />
+          ) : isRecording || showRunnerEvent ? (
+            <>
+              {/* Kept mounted under a runner event so the pitches entered so far survive */}
+              {isRecording && (
+                <div className={showRunnerEvent ? "hidden" : undefined}>
+                  <AtBatEntryForm
+                    key={`${currentState.inning}-${currentState.half}-${currentBatter.id}`}
+                    batter={currentBatter}
+                    pitcher={currentPitcher}
+                    baseState={currentState.bases}
+                    outs={currentState.outs}
+                    onSubmit={handleRecordAtBat}
+                    onCancel={() => setIsRecording(false)}
+                    onRunnerEvent={hasRunners ? () => setShowRunnerEvent(true) : undefined}
+                    isSubmitting={isSaving}
+                    pitcherPitchCount={gamePitchCounts.get(currentPitcher.id) ?? 0}
+                    pitchLimit={pitcherEligibility?.status.dailyMax ?? null}
+                  />
+                </div>
+              )}
+              {showRunnerEvent && (
+                <RunnerEventForm
+                  baseState={currentState.bases}
+                  onSubmit={handleRunnerEvent}
+                  onCancel={() => setShowRunnerEvent(false)}
+                  isSubmitting={isSavingRunnerEvent}
+                />
+              )}
+            </>
           ) : (
             <div className="space-y-4">
               {/* Current matchup */}
@@ -367,11 +973,33 @@ export function ScorekeeperInterface({ gameData, userId, onGameUpdate }: Props)
                   </div>
                   <div className="text-right">
                     <p className="font-semibold">{currentPitcher.player_name}</p>
-                    <p className="text-sm text-gray-500">{fieldingTeamName}</p>
+                    <p className="text-sm text-gray-500">
+                      {fieldingTeamName} ·{" "}
+                      <span className="tabular-nums">
+                        {gamePitchCounts.get(currentPitcher.id) ?? 0}
+                        {pitcherEligibility?.status.dailyMax != null && `/${pitcherEligibility.status.dailyMax}`} P
+                      </span>
+                    </p>
                   </div>
                 </div>
               </div>
 
+              {/* Pitch-count rule warnings */}
+              {pitcherEligibility?.warnings.map((warning) => (
+                <div
+                  key={warning.message}
+                  className={`rounded-md border px-3 py-2 text-sm ${
+                    warning.level === "error"
+                      ? "border-red-200 bg-red-50 text-red-900"
+                      : warning.level === "warning"
+                        ? "border-amber-200 bg-amber-50 text-amber-900"
+                        : "border-blue-200 bg-blue-50 text-blue-900"
+                  }`}
+                >
+                  {warning.message}
+                </div>
+              ))}
+
               {/* Situation summary */}
               <div className="flex items-center justify-center">
                 <BaseRunnersDisplay bases={currentState.bases} size="md" />
@@ -386,8 +1014,34 @@ export function ScorekeeperInterface({ gameData, userId, onGameUpdate }: Props)
                 onClick={() => setIsRecording(true)}
                 className="w-full"
                 size="lg"
+                disabled={pitcherBlocked}
+              >
+                {pitcherBlocked ? "Pitching change required" : "Record At-Bat"}
+              </Button>
+
+              {hasRunners && (
+                <Button variant="outline" className="w-full" onClick={() => setShowRunnerEvent(true)}>
+                  Runner Event
+                </Button>
+              )}
+
+              <div className="grid grid-cols-2 gap-2">
+                <Button variant="outline" size="sm" onClick={() => setSubTeam("away")}>
+                  Sub {game.away_team_name}
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => setSubTeam("home")}>
+                  Sub {game.home_team_name}
+                </Button>
+              </div>
+
+              <Button
+                variant="ghost"
+                size="sm"
+                className="w-full text-gray-500"
+                onClick={handleEndHalfInning}
+                disabled={isAdvancing}
               >
-                Record At-Bat
+                {isAdvancing ? "Advancing..." : "End half-inning"}
               </Button>
             </div>
           )}
@@ -462,7 +1116,7 @@ export function ScorekeeperInterface({ gameData, userId, onGameUpdate }: Props)
                           onClick={() => handleDeleteAtBat(ab.id)}
                           disabled={isDeleting === ab.id}
                         >
-                          {isDeleting === ab.id ? "Removing..." : "Undo"}
+                          {isDeleting === ab.id ? "Removing..." : "Remove"}
                         </Button>
                       </div>
                     </div>
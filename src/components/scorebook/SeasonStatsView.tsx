@@ -0,0 +1,253 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { FullGameData } from "@/lib/scorebook/db";
+import type { SavedPlayer, SavedTeam } from "@/lib/scorebook/types";
+import {
+  computeSeasonStats,
+  getOpponents,
+  getSeasons,
+  type SeasonBattingLine,
+  type SeasonFilters,
+  type SeasonPitchingLine,
+} from "@/lib/scorebook/seasonStats";
+import { formatAverage, formatERA } from "@/lib/scorebook/stats";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+type Props = {
+  team: SavedTeam;
+  players: SavedPlayer[];
+  games: FullGameData[];
+};
+
+const CAREER = "career";
+const ALL_OPPONENTS = "all";
+
+export function SeasonStatsView({ team, players, games }: Props) {
+  const seasons = useMemo(() => getSeasons(games), [games]);
+  const opponents = useMemo(() => getOpponents(games, team.id), [games, team.id]);
+
+  const [season, setSeason] = useState<string>(CAREER);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [opponent, setOpponent] = useState<string>(ALL_OPPONENTS);
+
+  const stats = useMemo(() => {
+    // A season narrows the range; explicit dates narrow it further
+    const filters: SeasonFilters = {
+      from: from || (season !== CAREER ? `${season}-01-01` : undefined),
+      to: to || (season !== CAREER ? `${season}-12-31` : undefined),
+      opponent: opponent !== ALL_OPPONENTS ? opponent : undefined,
+    };
+    return computeSeasonStats(games, team, players, filters);
+  }, [games, team, players, season, from, to, opponent]);
+
+  const { record } = stats;
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Stats</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Filters */}
+        <div className="grid gap-3 grid-cols-2 md:grid-cols-4">
+          <div>
+            <Label htmlFor="stats-season" className="text-xs">Season</Label>
+            <Select value={season} onValueChange={setSeason}>
+              <SelectTrigger id="stats-season">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={CAREER}>Career</SelectItem>
+                {seasons.map((year) => (
+                  <SelectItem key={year} value={String(year)}>
+                    {year}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="stats-from" className="text-xs">From</Label>
+            <Input id="stats-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="stats-to" className="text-xs">To</Label>
+            <Input id="stats-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="stats-opponent" className="text-xs">Opponent</Label>
+            <Select value={opponent} onValueChange={setOpponent}>
+              <SelectTrigger id="stats-opponent">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_OPPONENTS}>All opponents</SelectItem>
+                {opponents.map((name) => (
+                  <SelectItem key={name} value={name}>
+                    {name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {/* Team summary */}
+        <div className="flex flex-wrap gap-6 text-sm">
+          <div>
+            <span className="text-gray-500">Record </span>
+            <span className="font-semibold tabular-nums">
+              {record.wins}-{record.losses}
+              {record.ties > 0 && `-${record.ties}`}
+            </span>
+          </div>
+          <div>
+            <span className="text-gray-500">Runs </span>
+            <span className="font-semibold tabular-nums">
+              {record.runsFor}-{record.runsAgainst}
+            </span>
+          </div>
+          <div>
+            <span className="text-gray-500">Team AVG </span>
+            <span className="font-semibold font-mono">{formatAverage(stats.team.batting.avg)}</span>
+          </div>
+          <div>
+            <span className="text-gray-500">Team ERA </span>
+            <span className="font-semibold font-mono">{formatERA(stats.team.pitching.era)}</span>
+          </div>
+        </div>
+
+        <div>
+          <h3 className="text-sm font-semibold mb-2">Batting</h3>
+          <SeasonBattingTable lines={stats.batting} totals={stats.team.batting} />
+        </div>
+
+        <div>
+          <h3 className="text-sm font-semibold mb-2">Pitching</h3>
+          <SeasonPitchingTable lines={stats.pitching} totals={stats.team.pitching} />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function SeasonBattingTable({ lines, totals }: { lines: SeasonBattingLine[]; totals: SeasonBattingLine }) {
+  if (lines.length === 0) {
+    return <p className="text-gray-500 text-sm py-4 text-center">No at-bats recorded</p>;
+  }
+
+  const row = (line: SeasonBattingLine, label: string, className: string) => (
+    <tr key={line.id} className={className}>
+      <td className="py-2 px-1 truncate">{label}</td>
+      <td className="text-center py-2 px-1 tabular-nums">{line.games}</td>
+      <td className="text-center py-2 px-1 tabular-nums">{line.pa}</td>
+      <td className="text-center py-2 px-1 tabular-nums">{line.ab}</td>
+      <td className="text-center py-2 px-1 tabular-nums">{line.r}</td>
+      <td className="text-center py-2 px-1 tabular-nums">{line.h}</td>
+      <td className="text-center py-2 px-1 tabular-nums">{line.rbi}</td>
+      <td className="text-center py-2 px-1 tabular-nums">{line.bb}</td>
+      <td className="text-center py-2 px-1 tabular-nums">{line.k}</td>
+      <td className="text-center py-2 px-1 tabular-nums">{line.sb}</td>
+      <td className="text-center py-2 px-1 tabular-nums font-mono text-xs">{formatAverage(line.avg)}</td>
+      <td className="text-center py-2 px-1 tabular-nums font-mono text-xs">{formatAverage(line.obp)}</td>
+      <td className="text-center py-2 px-1 tabular-nums font-mono text-xs">{formatAverage(line.slg)}</td>
+      <td className="text-center py-2 px-1 tabular-nums font-mono text-xs">{formatAverage(line.ops)}</td>
+    </tr>
+  );
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b text-gray-500">
+            <th className="text-left py-2 px-1 font-medium">Player</th>
+            <th className="text-center py-2 px-1 font-medium w-8">G</th>
+            <th className="text-center py-2 px-1 font-medium w-8">PA</th>
+            <th className="text-center py-2 px-1 font-medium w-8">AB</th>
+            <th className="text-center py-2 px-1 font-medium w-8">R</th>
+            <th className="text-center py-2 px-1 font-medium w-8">H</th>
+            <th className="text-center py-2 px-1 font-medium w-8">RBI</th>
+            <th className="text-center py-2 px-1 font-medium w-8">BB</th>
+            <th className="text-center py-2 px-1 font-medium w-8">K</th>
+            <th className="text-center py-2 px-1 font-medium w-8">SB</th>
+            <th className="text-center py-2 px-1 font-medium w-12">AVG</th>
+            <th className="text-center py-2 px-1 font-medium w-12">OBP</th>
+            <th className="text-center py-2 px-1 font-medium w-12">SLG</th>
+            <th className="text-center py-2 px-1 font-medium w-12">OPS</th>
+          </tr>
+        </thead>
+        <tbody>
+          {lines.map((line) => row(line, line.playerName, "border-b border-gray-100"))}
+          {row(totals, "Team", "font-semibold bg-gray-50")}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function SeasonPitchingTable({ lines, totals }: { lines: SeasonPitchingLine[]; totals: SeasonPitchingLine }) {
+  if (lines.length === 0) {
+    return <p className="text-gray-500 text-sm py-4 text-center">No pitching recorded</p>;
+  }
+
+  const row = (line: SeasonPitchingLine, label: string, className: string) => (
+    <tr key={line.id} className={className}>
+      <td className="py-2 px-1 truncate">{label}</td>
+      <td className="text-center py-2 px-1 tabular-nums">{line.games}</td>
+      <td className="text-center py-2 px-1 tabular-nums">
+        {line.W}-{line.L}
+      </td>
+      <td className="text-center py-2 px-1 tabular-nums">{line.SV}</td>
+      <td className="text-center py-2 px-1 tabular-nums">{line.HLD}</td>
+      <td className="text-center py-2 px-1 tabular-nums">{line.ipDisplay}</td>
+      <td className="text-center py-2 px-1 tabular-nums">{line.h}</td>
+      <td className="text-center py-2 px-1 tabular-nums">{line.er}</td>
+      <td className="text-center py-2 px-1 tabular-nums">{line.bb}</td>
+      <td className="text-center py-2 px-1 tabular-nums">{line.k}</td>
+      <td className="text-center py-2 px-1 tabular-nums font-mono text-xs">{formatERA(line.era)}</td>
+      <td className="text-center py-2 px-1 tabular-nums font-mono text-xs">{line.whip.toFixed(2)}</td>
+      <td className="text-center py-2 px-1 tabular-nums font-mono text-xs">{line.kPer9.toFixed(1)}</td>
+      <td className="text-center py-2 px-1 tabular-nums font-mono text-xs">{line.bbPer9.toFixed(1)}</td>
+    </tr>
+  );
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b text-gray-500">
+            <th className="text-left py-2 px-1 font-medium">Pitcher</th>
+            <th className="text-center py-2 px-1 font-medium w-8">G</th>
+            <th className="text-center py-2 px-1 font-medium w-10">W-L</th>
+            <th className="text-center py-2 px-1 font-medium w-8">SV</th>
+            <th className="text-center py-2 px-1 font-medium w-8">HLD</th>
+            <th className="text-center py-2 px-1 font-medium w-10">IP</th>
+            <th className="text-center py-2 px-1 font-medium w-8">H</th>
+            <th className="text-center py-2 px-1 font-medium w-8">ER</th>
+            <th className="text-center py-2 px-1 font-medium w-8">BB</th>
+            <th className="text-center py-2 px-1 font-medium w-8">K</th>
+            <th className="text-center py-2 px-1 font-medium w-12">ERA</th>
+            <th className="text-center py-2 px-1 font-medium w-12">WHIP</th>
+            <th className="text-center py-2 px-1 font-medium w-12">K/9</th>
+            <th className="text-center py-2 px-1 font-medium w-12">BB/9</th>
+          </tr>
+        </thead>
+        <tbody>
+          {lines.map((line) => row(line, line.playerName, "border-b border-gray-100"))}
+          {row(totals, "Team", "font-semibold bg-gray-50")}
+        </tbody>
+      </table>
+    </div>
+  );
+}
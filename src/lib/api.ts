@@ -33,7 +33,8 @@ export async function withRetry<T>(
     } catch (error) {
       lastError = error instanceof Error ? error : new Error(String(error));
 
-      if (attempt === opts.maxRetries) {
+      // A permission refusal won't change on retry
+      if (attempt === opts.maxRetries || isRLSError(error)) {
         break;
       }
 
@@ -48,10 +49,15 @@ export async function withRetry<T>(
   throw lastError;
 }
 
+export const PERMISSION_DENIED_MESSAGE =
+  "You don't have permission to do that. Ask a coach in your organization for access.";
+
 /**
  * Extract error message from unknown error
  */
 export function getErrorMessage(error: unknown): string {
+  // Row-level security refusals read as raw Postgres errors otherwise
+  if (isRLSError(error)) return PERMISSION_DENIED_MESSAGE;
   if (error instanceof Error) return error.message;
   if (typeof error === "string") return error;
   if (error && typeof error === "object" && "message" in error) {
@@ -85,7 +91,8 @@ export function isRLSError(error: unknown): boolean {
     const err = error as { code?: string; message?: string };
     const isCode42501 = err.code === "42501";
     const hasRLSMessage = err.message?.toLowerCase().includes("row-level security") ?? false;
-    const hasRLS = err.message?.toLowerCase().includes("rls") ?? false;
+    // Whole word, so messages about URLs don't match
+    const hasRLS = /\brls\b/i.test(err.message ?? "");
     return isCode42501 || hasRLSMessage || hasRLS;
   }
   return false;
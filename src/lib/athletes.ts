@@ -0,0 +1,109 @@
+/**
+ * Athletes across the bullpen and the scorebook
+ *
+ * A bullpen pitcher and a scorebook player are separate records. A saved
+ * player who throws can be linked to a pitcher (sb_team_players.pitcher_id),
+ * and one pitcher may be linked to players on several teams, so their game
+ * pitching can be read alongside their bullpen work. Profile fields that
+ * describe the athlete (height, arm slot, goals) live on the pitcher.
+ */
+
+import { fetchTeam, fetchTeamGameData, updatePlayer } from "@/lib/scorebook/db";
+import { computeEarnedRuns } from "@/lib/scorebook/earnedRuns";
+import { computePitchingDecisions } from "@/lib/scorebook/decisions";
+import { computeSeasonStats, type SeasonPitchingLine } from "@/lib/scorebook/seasonStats";
+import { computePitcherStats } from "@/lib/scorebook/stats";
+import type { PitcherBoxScore, SavedPlayer } from "@/lib/scorebook/types";
+
+export const ARM_SLOTS = {
+  overhand: "Overhand",
+  three_quarter: "Three-quarter",
+  sidearm: "Sidearm",
+  submarine: "Submarine",
+} as const;
+
+export type ArmSlot = keyof typeof ARM_SLOTS;
+
+export function isArmSlot(value: string | null | undefined): value is ArmSlot {
+  return !!value && value in ARM_SLOTS;
+}
+
+/**
+ * 74 -> 6'2"
+ */
+export function formatHeight(inches: number | null): string {
+  if (inches === null || inches <= 0) return "—";
+  return `${Math.floor(inches / 12)}'${inches % 12}"`;
+}
+
+export type GamePitchingLine = PitcherBoxScore & {
+  gameId: string;
+  gameDate: string;
+  playerId: string;
+  teamName: string;
+  opponent: string;
+};
+
+export type TeamPitchingLine = SeasonPitchingLine & {
+  playerId: string;
+  teamName: string;
+};
+
+export type AthleteGamePitching = {
+  // Most recent first
+  games: GamePitchingLine[];
+  // Career line per linked player (one per team)
+  totals: TeamPitchingLine[];
+};
+
+export async function linkPlayerToPitcher(playerId: string, pitcherId: string | null): Promise<SavedPlayer> {
+  return updatePlayer(playerId, { pitcher_id: pitcherId });
+}
+
+/**
+ * Game log and career pitching lines for the players linked to a pitcher
+ */
+export async function fetchAthleteGamePitching(players: SavedPlayer[]): Promise<AthleteGamePitching> {
+  const games: GamePitchingLine[] = [];
+  const totals: TeamPitchingLine[] = [];
+
+  // Teams one at a time; an athlete is rarely on more than two or three
+  for (const teamId of new Set(players.map((p) => p.team_id))) {
+    const [team, teamGames] = await Promise.all([fetchTeam(teamId), fetchTeamGameData(teamId)]);
+    if (!team) continue;
+    const teamPlayers = players.filter((p) => p.team_id === teamId);
+    const playerIds = new Set(teamPlayers.map((p) => p.id));
+
+    for (const data of teamGames) {
+      const isHome = data.game.home_team_id === teamId;
+      const lineup = isHome ? data.homeLineup : data.awayLineup;
+      const entries = lineup.filter(
+        (entry) =>
+          entry.player_id &&
+          playerIds.has(entry.player_id) &&
+          data.atBats.some((ab) => ab.pitcher_lineup_id === entry.id)
+      );
+      if (entries.length === 0) continue;
+
+      const earnedRuns = computeEarnedRuns(data);
+      const decisions = computePitchingDecisions(data, earnedRuns);
+      for (const entry of entries) {
+        games.push({
+          ...computePitcherStats(data.atBats, data.plays, entry, { pitches: data.pitches, earnedRuns, decisions }),
+          gameId: data.game.id,
+          gameDate: data.game.game_date,
+          playerId: entry.player_id as string,
+          teamName: team.name,
+          opponent: isHome ? data.game.away_team_name : data.game.home_team_name,
+        });
+      }
+    }
+
+    for (const line of computeSeasonStats(teamGames, team, teamPlayers).pitching) {
+      totals.push({ ...line, playerId: line.id, teamName: team.name });
+    }
+  }
+
+  games.sort((a, b) => b.gameDate.localeCompare(a.gameDate));
+  return { games, totals };
+}
@@ -0,0 +1,310 @@
+/**
+ * Account backup and restore
+ *
+ * A backup is a versioned JSON archive of every row the user owns across the
+ * bullpen and scorebook tables. Restoring gives each new row a fresh id,
+ * rewrites foreign keys to match, and merges into the current account: rows
+ * that already exist (same id, or same natural key) are reused, not copied.
+ */
+
+import { repositories, type OwnedRow } from "@/lib/repository";
+
+export const BACKUP_FORMAT = "baseball-tools-backup";
+export const BACKUP_VERSION = 1;
+
+type Row = OwnedRow;
+
+type TableSpec = {
+  // Column -> table it references
+  references: Record<string, BackupTable>;
+  // Columns that must resolve for the row to be restored
+  required: string[];
+  // Identifies the same record in another account, after keys are remapped
+  naturalKey: (row: Row) => unknown[];
+  // Columns cleared on restore because they point outside the user's own records
+  cleared?: string[];
+};
+
+// Parents before children, so references are mapped before they are needed
+export const BACKUP_TABLES = [
+  "pitchers",
+  "bullpen_plans",
+  "sessions",
+  "pitches",
+  "session_videos",
+  "pitch_events",
+  "sb_teams",
+  "sb_team_players",
+  "sb_games",
+  "sb_game_lineups",
+  "sb_substitutions",
+  "sb_at_bats",
+  "sb_plays",
+  "sb_pitches",
+  "sb_inning_summaries",
+] as const;
+
+export type BackupTable = (typeof BACKUP_TABLES)[number];
+
+export type BackupArchive = {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exported_at: string;
+  tables: Record<BackupTable, Row[]>;
+};
+
+export type RestoreResult = Record<BackupTable, { added: number; skipped: number }>;
+
+const lower = (value: unknown) => (typeof value === "string" ? value.trim().toLowerCase() : value);
+
+const TABLE_SPECS: Record<BackupTable, TableSpec> = {
+  pitchers: {
+    references: {},
+    required: [],
+    naturalKey: (r) => [lower(r.name)],
+    // Organizations aren't part of the archive; restored rows come back as the user's own
+    cleared: ["org_id"],
+  },
+  bullpen_plans: {
+    references: {},
+    required: [],
+    naturalKey: (r) => [lower(r.name)],
+  },
+  sessions: {
+    references: { pitcher_id: "pitchers", plan_id: "bullpen_plans" },
+    required: ["pitcher_id"],
+    naturalKey: (r) => [r.pitcher_id, r.session_date, r.created_at],
+  },
+  pitches: {
+    references: { pitcher_id: "pitchers", session_id: "sessions" },
+    required: ["pitcher_id", "session_id"],
+    naturalKey: (r) => [r.session_id, r.created_at, r.pitch_type, r.target_x, r.target_y, r.actual_x, r.actual_y],
+  },
+  session_videos: {
+    references: { session_id: "sessions" },
+    required: ["session_id"],
+    // One video per session
+    naturalKey: (r) => [r.session_id],
+  },
+  pitch_events: {
+    references: { session_id: "sessions", video_id: "session_videos", pitch_id: "pitches" },
+    required: ["session_id", "video_id"],
+    naturalKey: (r) => [r.video_id, r.timestamp_seconds],
+  },
+  sb_teams: {
+    references: {},
+    required: [],
+    naturalKey: (r) => [lower(r.name)],
+    cleared: ["org_id"],
+  },
+  sb_team_players: {
+    references: { team_id: "sb_teams", pitcher_id: "pitchers" },
+    required: ["team_id"],
+    naturalKey: (r) => [r.team_id, lower(r.first_name), lower(r.last_name), r.jersey_number],
+  },
+  sb_games: {
+    references: { home_team_id: "sb_teams", away_team_id: "sb_teams" },
+    required: [],
+    naturalKey: (r) => [r.game_date, r.home_team_name, r.away_team_name, r.created_at],
+    // A restored game starts unshared, so a revoked live link stays revoked
+    cleared: ["org_id", "share_token"],
+  },
+  sb_game_lineups: {
+    references: { game_id: "sb_games", player_id: "sb_team_players" },
+    required: ["game_id"],
+    naturalKey: (r) => [
+      r.game_id,
+      r.team_side,
+      r.player_name,
+      r.batting_order,
+      r.entry_inning,
+      r.entry_half,
+      r.entry_batter,
+    ],
+  },
+  sb_substitutions: {
+    references: {
+      game_id: "sb_games",
+      incoming_lineup_id: "sb_game_lineups",
+      outgoing_lineup_id: "sb_game_lineups",
+    },
+    required: ["game_id", "incoming_lineup_id"],
+    naturalKey: (r) => [r.game_id, r.incoming_lineup_id, r.outgoing_lineup_id, r.substitution_type],
+  },
+  sb_at_bats: {
+    references: {
+      game_id: "sb_games",
+      batter_lineup_id: "sb_game_lineups",
+      pitcher_lineup_id: "sb_game_lineups",
+    },
+    required: ["game_id", "batter_lineup_id", "pitcher_lineup_id"],
+    naturalKey: (r) => [r.game_id, r.inning, r.half, r.batter_number],
+  },
+  sb_plays: {
+    references: {
+      game_id: "sb_games",
+      at_bat_id: "sb_at_bats",
+      runner_lineup_id: "sb_game_lineups",
+      pitcher_lineup_id: "sb_game_lineups",
+    },
+    required: ["game_id"],
+    naturalKey: (r) => [
+      r.game_id,
+      r.at_bat_id,
+      r.inning,
+      r.half,
+      r.batter_number,
+      r.play_sequence,
+      r.runner_lineup_id,
+      r.from_base,
+    ],
+  },
+  sb_pitches: {
+    references: { game_id: "sb_games", at_bat_id: "sb_at_bats" },
+    required: ["game_id", "at_bat_id"],
+    naturalKey: (r) => [r.at_bat_id, r.pitch_number],
+  },
+  sb_inning_summaries: {
+    references: { game_id: "sb_games" },
+    required: ["game_id"],
+    naturalKey: (r) => [r.game_id, r.inning, r.half],
+  },
+};
+
+// ==============================================
+// EXPORT
+// ==============================================
+
+async function fetchAccountTables(userId: string): Promise<Record<BackupTable, Row[]>> {
+  const tables = {} as Record<BackupTable, Row[]>;
+  // One table at a time keeps the request count predictable on large accounts
+  for (const table of BACKUP_TABLES) {
+    tables[table] = await repositories.account.listOwned(table, userId);
+  }
+  return tables;
+}
+
+/**
+ * Everything the user owns, as a versioned archive
+ */
+export async function exportAccount(userId: string): Promise<BackupArchive> {
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exported_at: new Date().toISOString(),
+    tables: await fetchAccountTables(userId),
+  };
+}
+
+export function generateBackupFilename(date: Date = new Date()): string {
+  return `baseball-tools-backup-${date.toISOString().slice(0, 10)}.json`;
+}
+
+// ==============================================
+// RESTORE
+// ==============================================
+
+/**
+ * Check a parsed file is an archive this version can restore
+ */
+export function parseBackupArchive(text: string): BackupArchive {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("Backup file is not valid JSON");
+  }
+
+  const archive = parsed as Partial<BackupArchive> | null;
+  if (!archive || archive.format !== BACKUP_FORMAT || typeof archive.tables !== "object" || !archive.tables) {
+    throw new Error("File is not a Baseball Tools backup");
+  }
+  if (typeof archive.version !== "number") {
+    throw new Error("Backup file has no version");
+  }
+  if (archive.version > BACKUP_VERSION) {
+    throw new Error(`Backup version ${archive.version} is newer than this app supports`);
+  }
+
+  const tables = {} as Record<BackupTable, Row[]>;
+  for (const table of BACKUP_TABLES) {
+    const rows = archive.tables[table] ?? [];
+    if (!Array.isArray(rows) || rows.some((row) => !row || typeof row.id !== "string")) {
+      throw new Error(`Backup table "${table}" is malformed`);
+    }
+    tables[table] = rows;
+  }
+
+  return { format: BACKUP_FORMAT, version: archive.version, exported_at: archive.exported_at ?? "", tables };
+}
+
+/**
+ * Merge an archive into the user's account. Rows are given new ids unless the
+ * same record is already there, so restoring a backup twice, or into the
+ * account it came from, adds nothing. Tables are written parents first; a
+ * failure part way leaves the rows written so far, and running the restore
+ * again picks up where it stopped.
+ */
+export async function restoreAccount(archive: BackupArchive, userId: string): Promise<RestoreResult> {
+  const existing = await fetchAccountTables(userId);
+  const result = {} as RestoreResult;
+  // Archive id -> id in this account, per table
+  const idMaps = Object.fromEntries(BACKUP_TABLES.map((t) => [t, new Map<string, string>()])) as Record<
+    BackupTable,
+    Map<string, string>
+  >;
+
+  for (const table of BACKUP_TABLES) {
+    const spec = TABLE_SPECS[table];
+    const idMap = idMaps[table];
+    const ownIds = new Set(existing[table].map((row) => row.id));
+    const byKey = new Map(existing[table].map((row) => [JSON.stringify(spec.naturalKey(row)), row.id]));
+    const toInsert: Row[] = [];
+    let skipped = 0;
+
+    for (const source of archive.tables[table]) {
+      const row: Row = { ...source };
+
+      let unresolved = false;
+      for (const [column, target] of Object.entries(spec.references)) {
+        const value = row[column];
+        if (typeof value !== "string") continue;
+        const mapped = idMaps[target].get(value) ?? null;
+        row[column] = mapped;
+        if (!mapped && spec.required.includes(column)) unresolved = true;
+      }
+      if (unresolved) {
+        skipped++;
+        continue;
+      }
+
+      if (ownIds.has(source.id)) {
+        idMap.set(source.id, source.id);
+        skipped++;
+        continue;
+      }
+
+      const key = JSON.stringify(spec.naturalKey(row));
+      const match = byKey.get(key);
+      if (match) {
+        idMap.set(source.id, match);
+        skipped++;
+        continue;
+      }
+
+      row.id = crypto.randomUUID();
+      row.user_id = userId;
+      for (const column of spec.cleared ?? []) {
+        if (column in row) row[column] = null;
+      }
+      idMap.set(source.id, row.id);
+      byKey.set(key, row.id);
+      toInsert.push(row);
+    }
+
+    await repositories.account.save(table, toInsert);
+    result[table] = { added: toInsert.length, skipped };
+  }
+
+  return result;
+}
@@ -0,0 +1,171 @@
+/**
+ * Scripted bullpen plans
+ *
+ * A plan is an ordered list of steps ("5 FB low and away, 3 SL back-foot").
+ * Attached to a session, the logged pitches fill the script's slots in the
+ * order they were thrown, so the next open slot is the pitch to pre-fill and
+ * each step's slots give its accuracy against the plan.
+ */
+
+import { repositories, type PlanRecord } from "@/lib/repository";
+import { isZoneId, type ZoneId } from "@/lib/strikeZone";
+
+export type BullpenPlanStep = {
+  pitch_type: string;
+  zone_id: ZoneId;
+  reps: number;
+};
+
+export type BullpenPlan = {
+  id: string;
+  user_id: string;
+  name: string;
+  notes: string | null;
+  steps: BullpenPlanStep[];
+  created_at: string;
+  updated_at: string;
+};
+
+export type BullpenPlanInsert = Pick<BullpenPlan, "user_id" | "name" | "notes" | "steps">;
+export type BullpenPlanUpdate = Partial<Pick<BullpenPlan, "name" | "notes" | "steps">>;
+
+// The fields progress needs from a logged pitch
+export type PlannedPitch = {
+  pitch_type: string;
+  intended_location_zone_id: string | null;
+  actual_location_zone_id: string | null;
+  created_at: string;
+};
+
+export type PlanStepProgress = {
+  step: BullpenPlanStep;
+  index: number;
+  thrown: number;
+  // Pitch landed in the step's zone
+  hits: number;
+  // Pitch was the step's pitch type
+  typeMatches: number;
+  accuracy: number;
+  complete: boolean;
+};
+
+export type PlanSlot = {
+  stepIndex: number;
+  // 1-based rep within the step
+  rep: number;
+  pitch_type: string;
+  zone_id: ZoneId;
+};
+
+export type PlanProgress = {
+  totalReps: number;
+  thrown: number;
+  // Pitches logged after the script ran out
+  extra: number;
+  complete: boolean;
+  accuracy: number;
+  steps: PlanStepProgress[];
+  next: PlanSlot | null;
+};
+
+// ==============================================
+// DATABASE
+// ==============================================
+
+/**
+ * Steps saved by an older build or edited by hand may be malformed
+ */
+function normalizeSteps(raw: unknown): BullpenPlanStep[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((step): step is BullpenPlanStep => {
+      return (
+        step !== null &&
+        typeof step === "object" &&
+        typeof step.pitch_type === "string" &&
+        isZoneId(step.zone_id) &&
+        Number.isFinite(step.reps)
+      );
+    })
+    .map((step) => ({ pitch_type: step.pitch_type, zone_id: step.zone_id, reps: Math.max(1, Math.round(step.reps)) }));
+}
+
+function toPlan(row: PlanRecord): BullpenPlan {
+  return { ...row, steps: normalizeSteps(row.steps) };
+}
+
+export async function fetchBullpenPlans(userId: string): Promise<BullpenPlan[]> {
+  return (await repositories.plans.list(userId)).map(toPlan);
+}
+
+export async function createBullpenPlan(plan: BullpenPlanInsert): Promise<BullpenPlan> {
+  return toPlan(await repositories.plans.create(plan));
+}
+
+export async function updateBullpenPlan(id: string, updates: BullpenPlanUpdate): Promise<BullpenPlan> {
+  return toPlan(await repositories.plans.update(id, updates));
+}
+
+export async function deleteBullpenPlan(id: string): Promise<void> {
+  return repositories.plans.delete(id);
+}
+
+export async function setSessionPlan(sessionId: string, planId: string | null): Promise<void> {
+  await repositories.sessions.update(sessionId, { plan_id: planId });
+}
+
+// ==============================================
+// PROGRESS
+// ==============================================
+
+export function getPlanTotalReps(plan: Pick<BullpenPlan, "steps">): number {
+  return plan.steps.reduce((sum, step) => sum + step.reps, 0);
+}
+
+/**
+ * Walk the session's pitches through the script in the order they were thrown.
+ * Every pitch takes the next slot, on-script or not, so a missed rep still
+ * counts against the step it was meant for.
+ */
+export function computePlanProgress(plan: Pick<BullpenPlan, "steps">, pitches: PlannedPitch[]): PlanProgress {
+  const ordered = [...pitches].sort(
+    (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+  );
+  const totalReps = getPlanTotalReps(plan);
+
+  let cursor = 0;
+  let next: PlanSlot | null = null;
+  const steps = plan.steps.map((step, index): PlanStepProgress => {
+    const slots = ordered.slice(cursor, cursor + step.reps);
+    cursor += step.reps;
+
+    const hits = slots.filter((p) => p.actual_location_zone_id === step.zone_id).length;
+    const typeMatches = slots.filter((p) => p.pitch_type === step.pitch_type).length;
+    if (!next && slots.length < step.reps) {
+      next = { stepIndex: index, rep: slots.length + 1, pitch_type: step.pitch_type, zone_id: step.zone_id };
+    }
+
+    return {
+      step,
+      index,
+      thrown: slots.length,
+      hits,
+      typeMatches,
+      accuracy: slots.length ? hits / slots.length : 0,
+      complete: slots.length >= step.reps,
+    };
+  });
+
+  const thrown = Math.min(ordered.length, totalReps);
+  const hits = steps.reduce((sum, s) => sum + s.hits, 0);
+
+  return {
+    totalReps,
+    thrown,
+    extra: Math.max(0, ordered.length - totalReps),
+    complete: totalReps > 0 && thrown >= totalReps,
+    accuracy: thrown ? hits / thrown : 0,
+    steps,
+    next,
+  };
+}
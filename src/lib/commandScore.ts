@@ -0,0 +1,125 @@
+/**
+ * Command score
+ *
+ * A graded 0-100 read of how well a pitch was located, instead of the binary
+ * "landed in the intended zone". A pitch within a ball's width of its target
+ * scores 100 and the score falls off with distance. Misses that finish
+ * farther from the heart of the plate than the target was are the safe way to
+ * miss, so they are charged for half their distance; misses that leak into
+ * the middle-middle when the target wasn't there lose extra points.
+ */
+
+import {
+  BALL_DIAMETER_INCHES,
+  computeMiss,
+  getActualPoint,
+  getTargetPoint,
+  toPlateCoordinates,
+  type NormalizedPoint,
+  type PitchLocation,
+  type StrikeZoneGeometry,
+} from "@/lib/strikeZone";
+
+// A miss this far off (about a plate width) scores zero
+const ZERO_SCORE_INCHES = 18;
+const SAFE_MISS_FACTOR = 0.5;
+const MIDDLE_MIDDLE_PENALTY = 30;
+// The middle third of the zone on both axes
+const HEART = { left: 0.4, right: 0.6, top: 0.4, bottom: 0.6 } as const;
+
+export type PitchCommandScore = {
+  score: number;
+  distance: number;
+  // Missed away from the heart of the plate
+  safeMiss: boolean;
+  // Missed into the heart of the plate
+  middleMiss: boolean;
+};
+
+export type CommandScore = {
+  // Average over scored pitches; null when none had a location
+  score: number | null;
+  scored: number;
+  safeMisses: number;
+  middleMisses: number;
+};
+
+function isInHeart(point: NormalizedPoint): boolean {
+  return point.x >= HEART.left && point.x <= HEART.right && point.y >= HEART.top && point.y <= HEART.bottom;
+}
+
+function distanceFromHeart(point: NormalizedPoint, geometry: StrikeZoneGeometry): number {
+  const plate = toPlateCoordinates(point, geometry);
+  return Math.hypot(plate.x, plate.z - (geometry.top + geometry.bottom) / 2);
+}
+
+export function computePitchCommandScore(
+  pitch: PitchLocation,
+  geometry: StrikeZoneGeometry
+): PitchCommandScore | null {
+  const target = getTargetPoint(pitch);
+  const actual = getActualPoint(pitch);
+  const miss = computeMiss(pitch, geometry);
+  if (!target || !actual || !miss) return null;
+
+  const onTarget = miss.distance < BALL_DIAMETER_INCHES;
+  const middleMiss = !onTarget && isInHeart(actual) && !isInHeart(target);
+  const safeMiss =
+    !onTarget && !middleMiss && distanceFromHeart(actual, geometry) > distanceFromHeart(target, geometry);
+
+  const charged = safeMiss ? miss.distance * SAFE_MISS_FACTOR : miss.distance;
+  const falloff = (charged - BALL_DIAMETER_INCHES) / (ZERO_SCORE_INCHES - BALL_DIAMETER_INCHES);
+  let score = 100 * (1 - Math.min(Math.max(falloff, 0), 1));
+  if (middleMiss) score -= MIDDLE_MIDDLE_PENALTY;
+
+  return { score: Math.max(0, Math.round(score)), distance: miss.distance, safeMiss, middleMiss };
+}
+
+export function computeCommandScore(pitches: PitchLocation[], geometry: StrikeZoneGeometry): CommandScore {
+  let total = 0;
+  let scored = 0;
+  let safeMisses = 0;
+  let middleMisses = 0;
+
+  for (const pitch of pitches) {
+    const result = computePitchCommandScore(pitch, geometry);
+    if (!result) continue;
+    total += result.score;
+    scored += 1;
+    if (result.safeMiss) safeMisses += 1;
+    if (result.middleMiss) middleMisses += 1;
+  }
+
+  return { score: scored ? total / scored : null, scored, safeMisses, middleMisses };
+}
+
+/**
+ * Command score per pitch type, best first
+ */
+export function computeCommandByType<T extends PitchLocation & { pitch_type: string }>(
+  pitches: T[],
+  geometry: StrikeZoneGeometry
+): { pitchType: string; command: CommandScore }[] {
+  const byType = new Map<string, T[]>();
+  for (const pitch of pitches) {
+    const key = pitch.pitch_type || "Unknown";
+    byType.set(key, [...(byType.get(key) ?? []), pitch]);
+  }
+  return Array.from(byType, ([pitchType, list]) => ({ pitchType, command: computeCommandScore(list, geometry) })).sort(
+    (a, b) => (b.command.score ?? -1) - (a.command.score ?? -1)
+  );
+}
+
+export function formatCommandScore(score: number | null): string {
+  return score === null ? "—" : String(Math.round(score));
+}
+
+/**
+ * Text colour for a score, matching the app's green/amber/red status tones
+ */
+export function commandScoreTone(score: number | null): string {
+  if (score === null) return "text-gray-500";
+  if (score >= 70) return "text-green-700";
+  if (score >= 45) return "text-amber-700";
+  return "text-red-700";
+}
@@ -54,9 +54,14 @@ export function useDebouncedCallback<T extends (...args: any[]) => any>(
 }
 
 /**
- * Local storage hook with SSR safety
+ * Local storage hook with SSR safety. Like useState, the setter takes a value
+ * or a function of the latest value, so updates made after an await don't
+ * overwrite ones that landed in between.
  */
-export function useLocalStorage<T>(key: string, initialValue: T): [T, (value: T) => void] {
+export function useLocalStorage<T>(
+  key: string,
+  initialValue: T
+): [T, (value: T | ((prev: T) => T)) => void] {
   const [storedValue, setStoredValue] = useState<T>(initialValue);
   const [hydrated, setHydrated] = useState(false);
 
@@ -75,15 +80,18 @@ export function useLocalStorage<T>(key: string, initialValue: T): [T, (value: T)
   }, [key]);
 
   const setValue = useCallback(
-    (value: T) => {
-      try {
-        setStoredValue(value);
-        if (typeof window !== "undefined") {
-          window.localStorage.setItem(key, JSON.stringify(value));
+    (value: T | ((prev: T) => T)) => {
+      setStoredValue((prev) => {
+        const next = value instanceof Function ? value(prev) : value;
+        try {
+          if (typeof window !== "undefined") {
+            window.localStorage.setItem(key, JSON.stringify(next));
+          }
+        } catch (error) {
+          console.warn(`Error setting localStorage key "${key}":`, error);
         }
-      } catch (error) {
-        console.warn(`Error setting localStorage key "${key}":`, error);
-      }
+        return next;
+      });
     },
     [key]
   );
@@ -0,0 +1,42 @@
+/**
+ * Small IndexedDB helpers shared by the offline stores
+ */
+
+export type StoreRunner = <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T> | void
+) => Promise<T | undefined>;
+
+/**
+ * Returns a function that runs fn in one transaction on the named database
+ * and resolves once it has committed. upgrade creates or migrates the stores.
+ */
+export function createStoreRunner(name: string, version: number, upgrade: (db: IDBDatabase) => void): StoreRunner {
+  const openDb = () =>
+    new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(name, version);
+      request.onupgradeneeded = () => upgrade(request.result);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+  return async (storeName, mode, fn) => {
+    const db = await openDb();
+    try {
+      return await new Promise((resolve, reject) => {
+        const transaction = db.transaction(storeName, mode);
+        const request = fn(transaction.objectStore(storeName));
+        transaction.oncomplete = () => resolve(request ? request.result : undefined);
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+      });
+    } finally {
+      db.close();
+    }
+  };
+}
+
+export function hasIndexedDb(): boolean {
+  return typeof indexedDB !== "undefined";
+}
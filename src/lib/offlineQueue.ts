@@ -0,0 +1,326 @@
+/**
+ * Offline write queue
+ *
+ * Bullpen writes made without a connection are kept in IndexedDB and
+ * replayed to Supabase, in the order they were made, once the connection
+ * returns. Rows created offline get a temporary id ("tmp_…") so they can be
+ * shown and referenced straight away; on replay each insert's real id
+ * replaces the temporary one in the writes queued after it.
+ *
+ * The real id is chosen when the insert is queued and replayed as an upsert,
+ * so an insert whose response was lost can be sent again without
+ * duplicating the row. With the local storage backend nothing is ever
+ * queued, since there's no connection to lose.
+ */
+
+import { getErrorMessage, isNetworkError } from "@/lib/api";
+import { createStoreRunner, hasIndexedDb } from "@/lib/idb";
+import {
+  repositories,
+  storageBackend,
+  type PitchInsert,
+  type PitcherInsert,
+  type SessionInsert,
+} from "@/lib/repository";
+
+export type QueueTable = "pitchers" | "sessions" | "pitches";
+
+export type QueuedWrite = {
+  // IndexedDB key; replay order
+  seq?: number;
+  table: QueueTable;
+  op: "insert" | "update" | "delete";
+  // The temporary id for inserts, otherwise the target row (possibly temporary)
+  id: string;
+  // The id an insert is saved under. Missing on inserts queued before ids
+  // were chosen up front.
+  rowId?: string;
+  values: Record<string, unknown>;
+  queuedAt: string;
+};
+
+export type SyncConflict = {
+  write: QueuedWrite;
+  message: string;
+};
+
+export type SyncResult = {
+  synced: number;
+  // Temporary id -> real id for every row inserted by this sync
+  idMap: Map<string, string>;
+  // Writes that were dropped because the server rejected them
+  conflicts: SyncConflict[];
+  pending: number;
+};
+
+export type QueueEvent = { type: "changed"; pending: number } | { type: "synced"; result: SyncResult };
+
+const DB_NAME = "BullpenTrackerOffline";
+// v1 had an unused pendingPitches store
+const DB_VERSION = 2;
+const QUEUE_STORE = "writeQueue";
+const ID_MAP_STORE = "idMap";
+const TEMP_ID_PREFIX = "tmp_";
+// Columns that reference rows which may have been created offline
+const REFERENCE_COLUMNS = ["pitcher_id", "session_id"] as const;
+
+const listeners = new Set<(event: QueueEvent) => void>();
+let flushing: Promise<SyncResult> | null = null;
+// Writes queued after a sync read the queue wait for the next one
+let queuedWhileFlushing = false;
+
+// ==============================================
+// TEMPORARY IDS
+// ==============================================
+
+export function createTempId(): string {
+  return `${TEMP_ID_PREFIX}${crypto.randomUUID()}`;
+}
+
+export function isTempId(id: string | null | undefined): boolean {
+  return !!id && id.startsWith(TEMP_ID_PREFIX);
+}
+
+export function isOffline(): boolean {
+  return typeof navigator !== "undefined" && !navigator.onLine;
+}
+
+// ==============================================
+// INDEXEDDB
+// ==============================================
+
+const withStore = createStoreRunner(DB_NAME, DB_VERSION, (db) => {
+  if (db.objectStoreNames.contains("pendingPitches")) db.deleteObjectStore("pendingPitches");
+  if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+    db.createObjectStore(QUEUE_STORE, { keyPath: "seq", autoIncrement: true });
+  }
+  if (!db.objectStoreNames.contains(ID_MAP_STORE)) {
+    db.createObjectStore(ID_MAP_STORE, { keyPath: "tempId" });
+  }
+});
+
+export async function getPendingWrites(): Promise<QueuedWrite[]> {
+  if (!hasIndexedDb()) return [];
+  const writes = await withStore<QueuedWrite[]>(QUEUE_STORE, "readonly", (store) => store.getAll());
+  return (writes ?? []).sort((a, b) => (a.seq ?? 0) - (b.seq ?? 0));
+}
+
+async function loadIdMap(): Promise<Map<string, string>> {
+  const rows = await withStore<{ tempId: string; id: string }[]>(ID_MAP_STORE, "readonly", (store) => store.getAll());
+  return new Map((rows ?? []).map((row) => [row.tempId, row.id]));
+}
+
+async function addWrite(write: QueuedWrite): Promise<void> {
+  if (flushing) queuedWhileFlushing = true;
+  await withStore(QUEUE_STORE, "readwrite", (store) => store.add(write));
+}
+
+function notify(event: QueueEvent) {
+  for (const listener of listeners) listener(event);
+}
+
+async function notifyChanged() {
+  notify({ type: "changed", pending: (await getPendingWrites()).length });
+}
+
+export function subscribeToWriteQueue(listener: (event: QueueEvent) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// ==============================================
+// QUEUEING
+// ==============================================
+
+/**
+ * Queue an insert and return the row as it will look once synced, with a
+ * temporary id. Pass rowId when the same row may already have been sent.
+ */
+export async function queueInsert<T extends Record<string, unknown>>(
+  table: QueueTable,
+  values: T,
+  rowId: string = crypto.randomUUID()
+): Promise<T & { id: string; created_at: string }> {
+  const id = createTempId();
+  const write: QueuedWrite = { table, op: "insert", id, rowId, values, queuedAt: new Date().toISOString() };
+  await addWrite(write);
+  await notifyChanged();
+  return { ...values, id, created_at: write.queuedAt };
+}
+
+/**
+ * Queue an update. A row that was itself created offline has its queued
+ * insert amended instead, unless a sync may already be sending that insert.
+ */
+export async function queueUpdate(table: QueueTable, id: string, values: Record<string, unknown>): Promise<void> {
+  let amended = false;
+  await withStore(QUEUE_STORE, "readwrite", (store) => {
+    // Checked as the write is made, since a sync may have started meanwhile
+    if (!isTempId(id) || flushing) return;
+    // Read in the same transaction, so an insert a sync has sent since isn't amended
+    const request = store.getAll();
+    request.onsuccess = () => {
+      const pendingInsert = (request.result as QueuedWrite[]).find((w) => w.op === "insert" && w.id === id);
+      if (!pendingInsert) return;
+      store.put({ ...pendingInsert, values: { ...pendingInsert.values, ...values } });
+      amended = true;
+    };
+  });
+  if (!amended) await addWrite({ table, op: "update", id, values, queuedAt: new Date().toISOString() });
+  await notifyChanged();
+}
+
+/**
+ * Queue a delete. A row that was created offline is never sent: its queued
+ * writes are dropped instead, unless a sync may already be sending them.
+ */
+export async function queueDelete(table: QueueTable, id: string): Promise<void> {
+  let dropped = false;
+  await withStore(QUEUE_STORE, "readwrite", (store) => {
+    if (!isTempId(id) || flushing) return;
+    // Read in the same transaction: once a sync has sent the insert, the row is
+    // on the server and the delete has to be sent too
+    const request = store.getAll();
+    request.onsuccess = () => {
+      const writes = (request.result as QueuedWrite[]).filter((w) => w.id === id);
+      if (!writes.some((w) => w.op === "insert")) return;
+      for (const write of writes) store.delete(write.seq as number);
+      dropped = true;
+    };
+  });
+  if (!dropped) await addWrite({ table, op: "delete", id, values: {}, queuedAt: new Date().toISOString() });
+  await notifyChanged();
+}
+
+/**
+ * Send a write, queueing it instead when offline, when it must wait for
+ * writes already queued (mustQueue), or when the connection drops while
+ * sending. Inserts should pass the same row id to both so a send that landed
+ * without a response isn't saved twice.
+ */
+export async function sendOrQueue<T>(
+  send: () => Promise<T>,
+  queue: () => Promise<T>,
+  mustQueue = false
+): Promise<{ result: T; queued: boolean }> {
+  if (storageBackend === "local") return { result: await send(), queued: false };
+  if (mustQueue || isOffline()) return { result: await queue(), queued: true };
+  try {
+    return { result: await send(), queued: false };
+  } catch (e) {
+    if (!isOffline() && !isNetworkError(e)) throw e;
+    return { result: await queue(), queued: true };
+  }
+}
+
+// ==============================================
+// SYNC
+// ==============================================
+
+function resolveWrite(write: QueuedWrite, idMap: Map<string, string>): QueuedWrite {
+  const values = { ...write.values };
+  for (const column of REFERENCE_COLUMNS) {
+    const ref = values[column];
+    if (typeof ref === "string" && idMap.has(ref)) values[column] = idMap.get(ref);
+  }
+  return { ...write, id: write.op === "insert" ? write.id : (idMap.get(write.id) ?? write.id), values };
+}
+
+async function replayWrite(write: QueuedWrite): Promise<string | null> {
+  if (write.op === "insert") {
+    const values = { ...write.values, id: write.rowId ?? crypto.randomUUID() };
+    const row =
+      write.table === "pitchers"
+        ? await repositories.pitchers.create(values as PitcherInsert)
+        : write.table === "sessions"
+          ? await repositories.sessions.create(values as SessionInsert)
+          : await repositories.pitches.create(values as PitchInsert);
+    return row.id;
+  }
+
+  if (write.op === "update") {
+    await repositories[write.table].update(write.id, write.values);
+    return null;
+  }
+
+  // Only pitches are deleted from the bullpen
+  if (write.table !== "pitches") throw new Error(`Deleting ${write.table} isn't supported`);
+  await repositories.pitches.delete(write.id);
+  return null;
+}
+
+async function flush(): Promise<SyncResult> {
+  const idMap = await loadIdMap();
+  const newIds = new Map<string, string>();
+  const conflicts: SyncConflict[] = [];
+  let synced = 0;
+
+  // Mappings are kept until no queued write refers to them, since a write made
+  // just as an earlier sync finished can still carry the temporary id
+  const writes = await getPendingWrites();
+  const referenced = new Set(writes.flatMap((w) => [w.id, ...REFERENCE_COLUMNS.map((column) => w.values[column])]));
+  const stale = [...idMap.keys()].filter((tempId) => !referenced.has(tempId));
+  if (stale.length > 0) {
+    await withStore(ID_MAP_STORE, "readwrite", (store) => {
+      for (const tempId of stale) store.delete(tempId);
+    });
+    for (const tempId of stale) idMap.delete(tempId);
+  }
+
+  for (const queued of writes) {
+    if (isOffline()) break;
+    const write = resolveWrite(queued, idMap);
+    const unresolved =
+      (write.op !== "insert" && isTempId(write.id)) ||
+      REFERENCE_COLUMNS.some((column) => isTempId(write.values[column] as string | undefined));
+
+    try {
+      if (unresolved) throw new Error("It depends on a change that couldn't be synced");
+      const id = await replayWrite(write);
+      if (id) {
+        idMap.set(write.id, id);
+        newIds.set(write.id, id);
+        await withStore(ID_MAP_STORE, "readwrite", (store) => store.put({ tempId: write.id, id }));
+      }
+      synced += 1;
+    } catch (e) {
+      // Still offline, or the connection dropped mid-sync: try again later
+      if (!unresolved && (isOffline() || isNetworkError(e))) break;
+      conflicts.push({ write: queued, message: getErrorMessage(e) });
+    }
+    await withStore(QUEUE_STORE, "readwrite", (store) => store.delete(queued.seq as number));
+  }
+
+  const pending = (await getPendingWrites()).length;
+  return { synced, idMap: newIds, conflicts, pending };
+}
+
+/**
+ * Replay queued writes to Supabase. Concurrent calls share one sync.
+ */
+export function flushWriteQueue(): Promise<SyncResult> {
+  if (flushing) return flushing;
+  if (!hasIndexedDb() || storageBackend === "local") {
+    return Promise.resolve({ synced: 0, idMap: new Map(), conflicts: [], pending: 0 });
+  }
+  if (isOffline()) {
+    return getPendingWrites().then((writes) => ({ synced: 0, idMap: new Map(), conflicts: [], pending: writes.length }));
+  }
+
+  flushing = flush()
+    .then((result) => {
+      if (result.synced || result.conflicts.length) notify({ type: "synced", result });
+      notify({ type: "changed", pending: result.pending });
+      return result;
+    })
+    .finally(() => {
+      flushing = null;
+      if (queuedWhileFlushing) {
+        queuedWhileFlushing = false;
+        void flushWriteQueue();
+      }
+    });
+  return flushing;
+}
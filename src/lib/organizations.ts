@@ -0,0 +1,270 @@
+/**
+ * Organizations and roles
+ *
+ * A coaching staff shares pitchers, teams and games through an organization.
+ * Coaches edit everything, players see their own pitcher's bullpen data and
+ * the organization's games, and scorekeepers score only the games a coach
+ * assigns them. Records with no org_id belong to the user who made them.
+ *
+ * The row-level policies in supabase/migrations enforce this; the helpers
+ * here keep pages from offering what the database would refuse.
+ */
+
+import { supabase } from "@/lib/supabaseClient";
+import { withRetry } from "@/lib/api";
+import type { OwnerScope } from "@/lib/repository";
+
+export const ORG_ROLES = {
+  coach: "Coach",
+  player: "Player",
+  scorekeeper: "Scorekeeper",
+} as const;
+
+export type OrgRole = keyof typeof ORG_ROLES;
+
+export type Organization = {
+  id: string;
+  name: string;
+  // Shared with staff and players so they can join
+  join_code: string;
+  created_by: string;
+  created_at: string;
+};
+
+export type OrgMember = {
+  id: string;
+  org_id: string;
+  user_id: string;
+  email: string | null;
+  role: OrgRole;
+  // The bullpen pitcher a player sees
+  pitcher_id: string | null;
+  created_at: string;
+};
+
+export type Membership = OrgMember & { organization: Organization };
+
+export type ScorekeeperAssignment = {
+  game_id: string;
+  user_id: string;
+};
+
+export type OrgMemberUpdate = Partial<Pick<OrgMember, "role" | "pitcher_id">>;
+
+/**
+ * Who is asking: the signed-in user and the organization they are working
+ * in, if any. With no membership they work with their own records.
+ */
+export type Access = {
+  userId: string;
+  membership: Membership | null;
+};
+
+// Records that can belong to an organization
+type OwnedRecord = { user_id: string; org_id?: string | null };
+
+export function isOrgRole(value: string | null | undefined): value is OrgRole {
+  return value !== null && value !== undefined && value in ORG_ROLES;
+}
+
+// ==============================================
+// PERMISSIONS
+// ==============================================
+
+/**
+ * The organization new pitchers, teams and games go into
+ */
+export function activeOrgId(access: Access): string | null {
+  return access.membership?.org_id ?? null;
+}
+
+/**
+ * Access to a record opened directly, such as from a link, whichever
+ * workspace is selected
+ */
+export function accessFor(userId: string, memberships: Membership[], orgId: string | null): Access {
+  return { userId, membership: orgId ? (memberships.find((m) => m.org_id === orgId) ?? null) : null };
+}
+
+/**
+ * Which records list queries return for this user
+ */
+export function ownerScope(access: Access): OwnerScope {
+  return { userId: access.userId, orgId: activeOrgId(access) };
+}
+
+/**
+ * Whether a record is in the workspace the user is looking at: the active
+ * organization, or their own records when they have none selected
+ */
+export function inWorkspace(access: Access, record: OwnedRecord): boolean {
+  const orgId = activeOrgId(access);
+  return orgId ? record.org_id === orgId : !record.org_id && record.user_id === access.userId;
+}
+
+/**
+ * Coaches, and anyone working with their own records, can create and edit
+ * pitchers, sessions, teams and games
+ */
+export function canManage(access: Access): boolean {
+  return !access.membership || access.membership.role === "coach";
+}
+
+/**
+ * Whether the user can change a pitcher, team or game record and its rows
+ */
+export function canEdit(access: Access, record: OwnedRecord): boolean {
+  return inWorkspace(access, record) && canManage(access);
+}
+
+export function canViewPitcher(access: Access, pitcher: OwnedRecord & { id: string }): boolean {
+  if (!inWorkspace(access, pitcher)) return false;
+  if (access.membership?.role === "player") return access.membership.pitcher_id === pitcher.id;
+  return canManage(access);
+}
+
+export function canViewGame(access: Access, game: OwnedRecord & { id: string }, assignedGameIds: Set<string>): boolean {
+  if (!inWorkspace(access, game)) return false;
+  if (access.membership?.role === "scorekeeper") return assignedGameIds.has(game.id);
+  return true;
+}
+
+export function canScoreGame(access: Access, game: OwnedRecord & { id: string }, assignedGameIds: Set<string>): boolean {
+  if (!inWorkspace(access, game)) return false;
+  if (access.membership?.role === "scorekeeper") return assignedGameIds.has(game.id);
+  return canManage(access);
+}
+
+// ==============================================
+// DATABASE
+// ==============================================
+
+const MEMBER_COLUMNS = "id,org_id,user_id,email,role,pitcher_id,created_at";
+
+export async function fetchMemberships(userId: string): Promise<Membership[]> {
+  return withRetry(async () => {
+    const { data, error } = await supabase
+      .from("org_members")
+      .select(`${MEMBER_COLUMNS},organization:organizations(*)`)
+      .eq("user_id", userId)
+      .order("created_at", { ascending: true });
+    if (error) throw error;
+    return (data ?? []) as unknown as Membership[];
+  });
+}
+
+export async function fetchOrgMembers(orgId: string): Promise<OrgMember[]> {
+  return withRetry(async () => {
+    const { data, error } = await supabase
+      .from("org_members")
+      .select(MEMBER_COLUMNS)
+      .eq("org_id", orgId)
+      .order("created_at", { ascending: true });
+    if (error) throw error;
+    return (data ?? []) as OrgMember[];
+  });
+}
+
+/**
+ * Create an organization with the caller as its first coach
+ */
+export async function createOrganization(name: string): Promise<Organization> {
+  const { data, error } = await supabase.rpc("create_organization", { org_name: name });
+  if (error) throw error;
+  return data as Organization;
+}
+
+/**
+ * Join with a code a coach shared; new members start as players
+ */
+export async function joinOrganization(code: string): Promise<OrgMember> {
+  const { data, error } = await supabase.rpc("join_organization", { code });
+  if (error) throw error;
+  return data as OrgMember;
+}
+
+export async function updateOrgMember(memberId: string, updates: OrgMemberUpdate): Promise<OrgMember> {
+  return withRetry(async () => {
+    const { data, error } = await supabase
+      .from("org_members")
+      .update(updates)
+      .eq("id", memberId)
+      .select(MEMBER_COLUMNS)
+      .single();
+    if (error) throw error;
+    return data as OrgMember;
+  });
+}
+
+export async function removeOrgMember(memberId: string): Promise<void> {
+  return withRetry(async () => {
+    const { error } = await supabase.from("org_members").delete().eq("id", memberId);
+    if (error) throw error;
+  });
+}
+
+/**
+ * Move a coach's own pitchers, teams and games into their organization.
+ * Sessions, pitches and game rows follow their parents.
+ */
+export async function shareRecordsWithOrganization(userId: string, orgId: string): Promise<void> {
+  for (const table of ["pitchers", "sb_teams", "sb_games"]) {
+    await withRetry(async () => {
+      const { error } = await supabase
+        .from(table)
+        .update({ org_id: orgId })
+        .eq("user_id", userId)
+        .is("org_id", null);
+      if (error) throw error;
+    });
+  }
+}
+
+// ==============================================
+// SCOREKEEPER ASSIGNMENTS
+// ==============================================
+
+/**
+ * Games the user has been assigned to score
+ */
+export async function fetchAssignedGameIds(userId: string): Promise<Set<string>> {
+  return withRetry(async () => {
+    const { data, error } = await supabase.from("sb_game_scorekeepers").select("game_id").eq("user_id", userId);
+    if (error) throw error;
+    return new Set((data ?? []).map((row) => row.game_id as string));
+  });
+}
+
+/**
+ * Every scorekeeper assignment in an organization, for coaches
+ */
+export async function fetchScorekeeperAssignments(orgId: string): Promise<ScorekeeperAssignment[]> {
+  return withRetry(async () => {
+    const { data, error } = await supabase
+      .from("sb_game_scorekeepers")
+      .select("game_id,user_id")
+      .eq("org_id", orgId);
+    if (error) throw error;
+    return (data ?? []) as ScorekeeperAssignment[];
+  });
+}
+
+export async function assignScorekeeper(gameId: string, userId: string, orgId: string): Promise<void> {
+  return withRetry(async () => {
+    const { error } = await supabase
+      .from("sb_game_scorekeepers")
+      .upsert({ game_id: gameId, user_id: userId, org_id: orgId }, { onConflict: "game_id,user_id" });
+    if (error) throw error;
+  });
+}
+
+export async function unassignScorekeeper(gameId: string, userId: string): Promise<void> {
+  return withRetry(async () => {
+    const { error } = await supabase
+      .from("sb_game_scorekeepers")
+      .delete()
+      .eq("game_id", gameId)
+      .eq("user_id", userId);
+    if (error) throw error;
+  });
+}
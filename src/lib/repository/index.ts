@@ -0,0 +1,22 @@
+/**
+ * Data access for every bullpen and scorebook record
+ *
+ * NEXT_PUBLIC_STORAGE_BACKEND=local keeps everything in this browser instead
+ * of Supabase.
+ */
+
+import { supabase } from "@/lib/supabaseClient";
+import { createLocalRepositories } from "./local";
+import { createSupabaseRepositories } from "./supabase";
+import type { Repositories } from "./types";
+
+export type StorageBackend = "supabase" | "local";
+
+export const storageBackend: StorageBackend =
+  process.env.NEXT_PUBLIC_STORAGE_BACKEND === "local" ? "local" : "supabase";
+
+export const repositories: Repositories =
+  storageBackend === "local" ? createLocalRepositories() : createSupabaseRepositories(supabase);
+
+export { createLocalRepositories, createSupabaseRepositories };
+export type * from "./types";
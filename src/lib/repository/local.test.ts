@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import { createLocalRepositories } from "./local";
+
+const USER = "user-1";
+const OTHER_USER = "user-2";
+const ORG = "org-1";
+
+// A fresh database per test, so no test sees another's rows
+let dbCount = 0;
+const freshRepositories = () => createLocalRepositories(`local-test-${++dbCount}`);
+
+describe("createLocalRepositories", () => {
+  describe("gameRows.delete", () => {
+    it("deletes an at-bat's plays and pitches with it", async () => {
+      const repos = freshRepositories();
+      await repos.account.save("sb_at_bats", [
+        { id: "ab-1", user_id: USER, game_id: "game-1" },
+        { id: "ab-2", user_id: USER, game_id: "game-1" },
+      ]);
+      await repos.account.save("sb_plays", [
+        { id: "play-1", user_id: USER, game_id: "game-1", at_bat_id: "ab-1" },
+        { id: "play-2", user_id: USER, game_id: "game-1", at_bat_id: "ab-2" },
+      ]);
+      await repos.account.save("sb_pitches", [
+        { id: "pitch-1", user_id: USER, game_id: "game-1", at_bat_id: "ab-1" },
+        { id: "pitch-2", user_id: USER, game_id: "game-1", at_bat_id: "ab-1" },
+        { id: "pitch-3", user_id: USER, game_id: "game-1", at_bat_id: "ab-2" },
+      ]);
+
+      await repos.gameRows.delete("sb_at_bats", "ab-1");
+
+      const ids = async (table: "sb_at_bats" | "sb_plays" | "sb_pitches") =>
+        (await repos.gameRows.list(table, "game_id", ["game-1"])).map((row) => row.id).sort();
+      expect(await ids("sb_at_bats")).toEqual(["ab-2"]);
+      expect(await ids("sb_plays")).toEqual(["play-2"]);
+      expect(await ids("sb_pitches")).toEqual(["pitch-3"]);
+    });
+
+    it("leaves other rows alone when deleting a play", async () => {
+      const repos = freshRepositories();
+      await repos.account.save("sb_at_bats", [{ id: "ab-1", user_id: USER, game_id: "game-1" }]);
+      await repos.account.save("sb_plays", [{ id: "play-1", user_id: USER, game_id: "game-1", at_bat_id: "ab-1" }]);
+
+      await repos.gameRows.delete("sb_plays", "play-1");
+
+      expect(await repos.gameRows.list("sb_plays", "game_id", ["game-1"])).toEqual([]);
+      expect(await repos.gameRows.list("sb_at_bats", "game_id", ["game-1"])).toHaveLength(1);
+    });
+  });
+
+  describe("scope filters", () => {
+    it("lists a user's own pitchers apart from their organization's", async () => {
+      const repos = freshRepositories();
+      await repos.pitchers.create({ user_id: USER, name: "Own" });
+      await repos.pitchers.create({ user_id: USER, name: "Shared", org_id: ORG });
+      await repos.pitchers.create({ user_id: OTHER_USER, name: "Teammate's", org_id: ORG });
+      await repos.pitchers.create({ user_id: OTHER_USER, name: "Someone else's" });
+
+      const own = await repos.pitchers.list({ userId: USER, orgId: null });
+      const org = await repos.pitchers.list({ userId: USER, orgId: ORG });
+
+      expect(own.map((p) => p.name)).toEqual(["Own"]);
+      expect(org.map((p) => p.name).sort()).toEqual(["Shared", "Teammate's"]);
+    });
+
+    it("scopes teams and games the same way", async () => {
+      const repos = freshRepositories();
+      await repos.account.save("sb_teams", [
+        { id: "team-1", user_id: USER, org_id: null, name: "Own" },
+        { id: "team-2", user_id: OTHER_USER, org_id: ORG, name: "Org" },
+        { id: "team-3", user_id: OTHER_USER, org_id: null, name: "Other" },
+      ]);
+      await repos.account.save("sb_games", [
+        { id: "game-1", user_id: USER, org_id: null, game_date: "2026-04-01" },
+        { id: "game-2", user_id: USER, org_id: ORG, game_date: "2026-04-02" },
+        { id: "game-3", user_id: OTHER_USER, org_id: null, game_date: "2026-04-03" },
+      ]);
+
+      expect((await repos.teams.list({ userId: USER, orgId: null })).map((t) => t.id)).toEqual(["team-1"]);
+      expect((await repos.teams.list({ userId: USER, orgId: ORG })).map((t) => t.id)).toEqual(["team-2"]);
+      expect((await repos.games.list({ userId: USER, orgId: null })).map((g) => g.id)).toEqual(["game-1"]);
+      expect((await repos.games.list({ userId: USER, orgId: ORG })).map((g) => g.id)).toEqual(["game-2"]);
+    });
+  });
+
+  describe("account", () => {
+    it("lists only the user's rows, by id", async () => {
+      const repos = freshRepositories();
+      await repos.account.save("pitches", [
+        { id: "c", user_id: USER },
+        { id: "a", user_id: USER },
+        { id: "b", user_id: OTHER_USER },
+      ]);
+
+      expect((await repos.account.listOwned("pitches", USER)).map((row) => row.id)).toEqual(["a", "c"]);
+    });
+
+    it("replaces rows that are saved again", async () => {
+      const repos = freshRepositories();
+      await repos.account.save("sessions", [{ id: "s-1", user_id: USER, label: "First" }]);
+      await repos.account.save("sessions", [
+        { id: "s-1", user_id: USER, label: "Second" },
+        { id: "s-2", user_id: USER, label: "New" },
+      ]);
+
+      expect(await repos.account.listOwned("sessions", USER)).toEqual([
+        { id: "s-1", user_id: USER, label: "Second" },
+        { id: "s-2", user_id: USER, label: "New" },
+      ]);
+    });
+
+    it("deletes only the user's rows", async () => {
+      const repos = freshRepositories();
+      await repos.account.save("pitchers", [
+        { id: "p-1", user_id: USER },
+        { id: "p-2", user_id: OTHER_USER },
+      ]);
+
+      await repos.account.deleteOwned("pitchers", USER);
+
+      expect(await repos.account.listOwned("pitchers", USER)).toEqual([]);
+      expect(await repos.account.listOwned("pitchers", OTHER_USER)).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,322 @@
+/**
+ * In-browser repositories
+ *
+ * Keeps every record in IndexedDB on this device, for demos and for running
+ * without a backend. Ids and timestamps are made here; columns a caller
+ * leaves out are stored as null, as the database would.
+ */
+
+import { createStoreRunner } from "@/lib/idb";
+import type { Game, SavedPlayer, SavedTeam } from "@/lib/scorebook/types";
+import type {
+  GameRowTable,
+  GameRowTables,
+  OwnedRow,
+  OwnedTable,
+  OwnerScope,
+  PitchEventRecord,
+  PitchRecord,
+  PitcherRecord,
+  PlanRecord,
+  Repositories,
+  SessionRecord,
+  SessionVideoRecord,
+} from "./types";
+
+// v1 held only the bullpen stores and games
+const DB_VERSION = 2;
+const GAME_ROW_STORES: GameRowTable[] = [
+  "sb_game_lineups",
+  "sb_substitutions",
+  "sb_at_bats",
+  "sb_plays",
+  "sb_pitches",
+  "sb_inning_summaries",
+];
+const STORES: OwnedTable[] = [
+  "pitchers",
+  "bullpen_plans",
+  "sessions",
+  "pitches",
+  "session_videos",
+  "pitch_events",
+  "sb_teams",
+  "sb_team_players",
+  "sb_games",
+  ...GAME_ROW_STORES,
+];
+
+type LocalStore = OwnedTable;
+type LocalRow = { id: string } & Record<string, unknown>;
+
+const PITCHER_DEFAULTS = { org_id: null, throwing_hand: null, level: null, height_inches: null, arm_slot: null, goals: null };
+const SESSION_DEFAULTS = { label: null, notes: null, plan_id: null, video_url: null };
+const PITCH_DEFAULTS = {
+  tag: null,
+  intended_location_zone_id: null,
+  actual_location_zone_id: null,
+  velocity: null,
+  spin_rate: null,
+  horizontal_break: null,
+  vertical_break: null,
+  pitch_call: null,
+  sim_batter: null,
+  batter_side: null,
+  timestamp: null,
+  notes: null,
+};
+
+// Columns left undefined keep their default or current value, as in a query
+function definedValues(values: object): object {
+  return Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined));
+}
+
+function inScope(row: { user_id: string; org_id?: string | null }, scope: OwnerScope): boolean {
+  return scope.orgId ? row.org_id === scope.orgId : !row.org_id && row.user_id === scope.userId;
+}
+
+function byCreatedAt(ascending: boolean) {
+  return (a: { created_at: string }, b: { created_at: string }) =>
+    ascending ? a.created_at.localeCompare(b.created_at) : b.created_at.localeCompare(a.created_at);
+}
+
+export function createLocalRepositories(dbName = "BullpenTrackerLocal"): Repositories {
+  const withStore = createStoreRunner(dbName, DB_VERSION, (db) => {
+    for (const name of STORES) {
+      if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, { keyPath: "id" });
+    }
+  });
+
+  const all = async <T>(store: LocalStore) => ((await withStore<T[]>(store, "readonly", (s) => s.getAll())) ?? []) as T[];
+
+  const get = async <T>(store: LocalStore, id: string) =>
+    ((await withStore<T>(store, "readonly", (s) => s.get(id))) ?? null) as T | null;
+
+  const insert = async <T>(store: LocalStore, values: object, defaults: object = {}) => {
+    const row = { id: crypto.randomUUID(), ...defaults, ...definedValues(values), created_at: new Date().toISOString() };
+    // Put, so inserting a row again under the id it was given is harmless
+    await withStore(store, "readwrite", (s) => s.put(row));
+    return row as T;
+  };
+
+  const save = async (store: LocalStore, rows: LocalRow[]) => {
+    await withStore(store, "readwrite", (s) => {
+      for (const row of rows) s.put(row);
+    });
+  };
+
+  const update = async <T>(store: LocalStore, id: string, values: object) => {
+    const existing = await get<LocalRow>(store, id);
+    if (!existing) throw new Error("Record not found");
+    const row = { ...existing, ...definedValues(values) };
+    await withStore(store, "readwrite", (s) => s.put(row));
+    return row as T;
+  };
+
+  const remove = async (store: LocalStore, ids: string[]) => {
+    await withStore(store, "readwrite", (s) => {
+      for (const id of ids) s.delete(id);
+    });
+  };
+
+  // Rows whose column holds one of values
+  const where = async <T>(store: LocalStore, column: string, values: string[]) => {
+    const wanted = new Set(values);
+    return (await all<LocalRow>(store)).filter((row) => wanted.has(row[column] as string)) as T[];
+  };
+
+  // Child rows go with their parent, as foreign keys cascade in the database
+  const removeWhere = async (store: LocalStore, column: string, values: string[]) => {
+    const rows = await where<LocalRow>(store, column, values);
+    await remove(
+      store,
+      rows.map((row) => row.id)
+    );
+  };
+
+  return {
+    pitchers: {
+      list: async (scope) =>
+        (await all<PitcherRecord>("pitchers")).filter((row) => inScope(row, scope)).sort(byCreatedAt(false)),
+      get: (id) => get<PitcherRecord>("pitchers", id),
+      create: (values) => insert<PitcherRecord>("pitchers", values, PITCHER_DEFAULTS),
+      update: (id, values) => update<PitcherRecord>("pitchers", id, values),
+    },
+
+    sessions: {
+      list: async (filter = {}) => {
+        const ascending = filter.ascending ?? false;
+        const pitcherIds = filter.pitcherIds ? new Set(filter.pitcherIds) : null;
+        const rows = (await all<SessionRecord>("sessions")).filter(
+          (row) =>
+            (!filter.pitcherId || row.pitcher_id === filter.pitcherId) &&
+            (!pitcherIds || pitcherIds.has(row.pitcher_id)) &&
+            (!filter.from || row.session_date >= filter.from) &&
+            (!filter.to || row.session_date <= filter.to)
+        );
+        return rows.sort((a, b) => {
+          const byDate = a.session_date.localeCompare(b.session_date);
+          return (ascending ? byDate : -byDate) || byCreatedAt(ascending)(a, b);
+        });
+      },
+      get: (id) => get<SessionRecord>("sessions", id),
+      create: (values) => insert<SessionRecord>("sessions", values, SESSION_DEFAULTS),
+      update: (id, values) => update<SessionRecord>("sessions", id, values),
+    },
+
+    pitches: {
+      list: async (filter) => {
+        const sessionIds = filter.sessionIds ? new Set(filter.sessionIds) : null;
+        const rows = (await all<PitchRecord>("pitches"))
+          .filter(
+            (row) =>
+              (!filter.sessionId || row.session_id === filter.sessionId) &&
+              (!sessionIds || sessionIds.has(row.session_id)) &&
+              (!filter.pitcherId || row.pitcher_id === filter.pitcherId)
+          )
+          .sort(byCreatedAt(filter.ascending ?? false));
+        return filter.limit ? rows.slice(0, filter.limit) : rows;
+      },
+      create: (values) => insert<PitchRecord>("pitches", values, PITCH_DEFAULTS),
+      update: (id, values) => update<PitchRecord>("pitches", id, values),
+      countBySessions: async (sessionIds) => {
+        const counts = new Map(sessionIds.map((id) => [id, 0]));
+        for (const row of await where<PitchRecord>("pitches", "session_id", sessionIds)) {
+          counts.set(row.session_id, (counts.get(row.session_id) ?? 0) + 1);
+        }
+        return counts;
+      },
+      delete: (id) => remove("pitches", [id]),
+      deleteBySession: async (sessionId) => {
+        const rows = await all<PitchRecord>("pitches");
+        await remove(
+          "pitches",
+          rows.filter((row) => row.session_id === sessionId).map((row) => row.id)
+        );
+      },
+    },
+
+    videos: {
+      listBySessions: async (sessionIds, limit) => {
+        const ids = new Set(sessionIds);
+        const rows = (await all<SessionVideoRecord>("session_videos"))
+          .filter((row) => ids.has(row.session_id))
+          .sort(byCreatedAt(false));
+        return limit ? rows.slice(0, limit) : rows;
+      },
+      save: async (values) => {
+        const existing = (await all<SessionVideoRecord>("session_videos")).find(
+          (row) => row.session_id === values.session_id
+        );
+        return existing
+          ? update<SessionVideoRecord>("session_videos", existing.id, values)
+          : insert<SessionVideoRecord>("session_videos", values, { original_filename: null });
+      },
+      listEvents: async (videoId) =>
+        (await all<PitchEventRecord>("pitch_events"))
+          .filter((row) => row.video_id === videoId)
+          .sort((a, b) => a.timestamp_seconds - b.timestamp_seconds),
+      createEvent: (values) => insert<PitchEventRecord>("pitch_events", values, { pitch_id: null }),
+      linkEvent: async (eventId, pitchId) => {
+        await update("pitch_events", eventId, { pitch_id: pitchId });
+      },
+    },
+
+    plans: {
+      list: async (userId) =>
+        (await all<PlanRecord>("bullpen_plans"))
+          .filter((row) => row.user_id === userId)
+          .sort((a, b) => a.name.localeCompare(b.name)),
+      create: (values) =>
+        insert<PlanRecord>("bullpen_plans", { ...values, updated_at: new Date().toISOString() }, { notes: null }),
+      update: (id, values) =>
+        update<PlanRecord>("bullpen_plans", id, { ...values, updated_at: new Date().toISOString() }),
+      delete: async (id) => {
+        const sessions = await where<SessionRecord>("sessions", "plan_id", [id]);
+        await save(
+          "sessions",
+          sessions.map((session) => ({ ...session, plan_id: null }))
+        );
+        await remove("bullpen_plans", [id]);
+      },
+    },
+
+    teams: {
+      list: async (scope) =>
+        (await all<SavedTeam>("sb_teams"))
+          .filter((row) => inScope(row, scope))
+          .sort((a, b) => a.name.localeCompare(b.name)),
+      get: (id) => get<SavedTeam>("sb_teams", id),
+      create: (values) => insert<SavedTeam>("sb_teams", { ...values, updated_at: new Date().toISOString() }),
+      update: (id, values) => update<SavedTeam>("sb_teams", id, { ...values, updated_at: new Date().toISOString() }),
+      delete: async (id) => {
+        await removeWhere("sb_team_players", "team_id", [id]);
+        await remove("sb_teams", [id]);
+      },
+    },
+
+    players: {
+      list: async (filter) => {
+        const teamIds = filter.teamIds ? new Set(filter.teamIds) : null;
+        return (await all<SavedPlayer>("sb_team_players"))
+          .filter(
+            (row) =>
+              (!filter.teamId || row.team_id === filter.teamId) &&
+              (!teamIds || teamIds.has(row.team_id)) &&
+              (!filter.pitcherId || row.pitcher_id === filter.pitcherId) &&
+              (!filter.throwsOnly || row.throws !== null)
+          )
+          .sort((a, b) => a.last_name.localeCompare(b.last_name));
+      },
+      create: (values) =>
+        insert<SavedPlayer>("sb_team_players", { ...values, updated_at: new Date().toISOString() }),
+      update: (id, values) =>
+        update<SavedPlayer>("sb_team_players", id, { ...values, updated_at: new Date().toISOString() }),
+      delete: (id) => remove("sb_team_players", [id]),
+    },
+
+    games: {
+      list: async (scope) =>
+        (await all<Game>("sb_games"))
+          .filter((row) => inScope(row, scope))
+          .sort((a, b) => b.game_date.localeCompare(a.game_date)),
+      listByTeam: async (teamId) =>
+        (await all<Game>("sb_games"))
+          .filter((row) => row.home_team_id === teamId || row.away_team_id === teamId)
+          .sort((a, b) => a.game_date.localeCompare(b.game_date)),
+      listByIds: (ids) => where<Game>("sb_games", "id", ids),
+      get: (id) => get<Game>("sb_games", id),
+      create: (values) => insert<Game>("sb_games", { ...values, updated_at: new Date().toISOString() }),
+      update: (id, values) => update<Game>("sb_games", id, { ...values, updated_at: new Date().toISOString() }),
+      delete: async (id) => {
+        for (const store of GAME_ROW_STORES) await removeWhere(store, "game_id", [id]);
+        await remove("sb_games", [id]);
+      },
+    },
+
+    gameRows: {
+      list: (table, column, values) => where<GameRowTables[typeof table]>(table, column, values),
+      save: async (table, rows) => {
+        await save(table, rows);
+        return rows;
+      },
+      update: (table, id, values) => update<GameRowTables[typeof table]>(table, id, values),
+      delete: async (table, id) => {
+        if (table === "sb_at_bats") {
+          await removeWhere("sb_plays", "at_bat_id", [id]);
+          await removeWhere("sb_pitches", "at_bat_id", [id]);
+        }
+        await remove(table, [id]);
+      },
+    },
+
+    account: {
+      listOwned: async (table, userId) =>
+        (await all<OwnedRow>(table))
+          .filter((row) => row.user_id === userId)
+          .sort((a, b) => a.id.localeCompare(b.id)),
+      save: (table, rows) => save(table, rows),
+      deleteOwned: (table, userId) => removeWhere(table, "user_id", [userId]),
+    },
+  };
+}
@@ -0,0 +1,330 @@
+/**
+ * Supabase-backed repositories
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { withRetry } from "@/lib/api";
+import type { Game, SavedPlayer, SavedTeam } from "@/lib/scorebook/types";
+import type {
+  GameRowTables,
+  OwnedRow,
+  PitchEventRecord,
+  PitchRecord,
+  PitcherRecord,
+  PlanRecord,
+  Repositories,
+  SessionRecord,
+  SessionVideoRecord,
+} from "./types";
+
+// PostgREST's "no rows" error from .single()
+const NOT_FOUND = "PGRST116";
+const PAGE_SIZE = 1000;
+const SAVE_CHUNK_SIZE = 500;
+const PLAN_COLUMNS = "id,user_id,name,notes,steps,created_at,updated_at";
+
+export function createSupabaseRepositories(client: SupabaseClient): Repositories {
+  const getRow = <T>(table: string, id: string) =>
+    withRetry(async () => {
+      const { data, error } = await client.from(table).select("*").eq("id", id).single();
+      if (error) {
+        if (error.code === NOT_FOUND) return null;
+        throw error;
+      }
+      return data as T;
+    });
+
+  const insertRow = <T>(table: string, values: object, columns = "*") =>
+    withRetry(async () => {
+      // With its id chosen up front, a retried insert finds its own row
+      const query =
+        "id" in values ? client.from(table).upsert(values, { onConflict: "id" }) : client.from(table).insert(values);
+      const { data, error } = await query.select(columns).single();
+      if (error) throw error;
+      return data as T;
+    });
+
+  const updateRow = <T>(table: string, id: string, values: object, columns = "*") =>
+    withRetry(async () => {
+      const { data, error } = await client.from(table).update(values).eq("id", id).select(columns).single();
+      if (error) {
+        if (error.code === NOT_FOUND) throw new Error("Record not found");
+        throw error;
+      }
+      return data as T;
+    });
+
+  const deleteRows = (table: string, column: string, value: string) =>
+    withRetry(async () => {
+      const { error } = await client.from(table).delete().eq(column, value);
+      if (error) throw error;
+    });
+
+  return {
+    pitchers: {
+      list: (scope) =>
+        withRetry(async () => {
+          const query = client.from("pitchers").select("*").order("created_at", { ascending: false });
+          const { data, error } = scope.orgId
+            ? await query.eq("org_id", scope.orgId)
+            : await query.eq("user_id", scope.userId).is("org_id", null);
+          if (error) throw error;
+          return (data ?? []) as PitcherRecord[];
+        }),
+      get: (id) => getRow<PitcherRecord>("pitchers", id),
+      create: (values) => insertRow<PitcherRecord>("pitchers", values),
+      update: (id, values) => updateRow<PitcherRecord>("pitchers", id, values),
+    },
+
+    sessions: {
+      list: (filter = {}) =>
+        withRetry(async () => {
+          const ascending = filter.ascending ?? false;
+          let query = client
+            .from("sessions")
+            .select("*")
+            .order("session_date", { ascending, nullsFirst: false })
+            .order("created_at", { ascending });
+          if (filter.pitcherId) query = query.eq("pitcher_id", filter.pitcherId);
+          if (filter.pitcherIds) query = query.in("pitcher_id", filter.pitcherIds);
+          if (filter.from) query = query.gte("session_date", filter.from);
+          if (filter.to) query = query.lte("session_date", filter.to);
+          const { data, error } = await query;
+          if (error) throw error;
+          return (data ?? []) as SessionRecord[];
+        }),
+      get: (id) => getRow<SessionRecord>("sessions", id),
+      create: (values) => insertRow<SessionRecord>("sessions", values),
+      update: (id, values) => updateRow<SessionRecord>("sessions", id, values),
+    },
+
+    pitches: {
+      list: (filter) =>
+        withRetry(async () => {
+          let query = client
+            .from("pitches")
+            .select("*")
+            .order("created_at", { ascending: filter.ascending ?? false });
+          if (filter.sessionId) query = query.eq("session_id", filter.sessionId);
+          if (filter.sessionIds) query = query.in("session_id", filter.sessionIds);
+          if (filter.pitcherId) query = query.eq("pitcher_id", filter.pitcherId);
+          if (filter.limit) query = query.limit(filter.limit);
+          const { data, error } = await query;
+          if (error) throw error;
+          return (data ?? []) as PitchRecord[];
+        }),
+      create: (values) => insertRow<PitchRecord>("pitches", values),
+      update: (id, values) => updateRow<PitchRecord>("pitches", id, values),
+      countBySessions: async (sessionIds) => {
+        // One count per session; a list of rows would stop at one response
+        const counts = await Promise.all(
+          sessionIds.map((sessionId) =>
+            withRetry(async () => {
+              const { count, error } = await client
+                .from("pitches")
+                .select("id", { count: "exact", head: true })
+                .eq("session_id", sessionId);
+              if (error) throw error;
+              return [sessionId, count ?? 0] as const;
+            })
+          )
+        );
+        return new Map(counts);
+      },
+      delete: (id) => deleteRows("pitches", "id", id),
+      deleteBySession: (sessionId) => deleteRows("pitches", "session_id", sessionId),
+    },
+
+    videos: {
+      listBySessions: (sessionIds, limit) =>
+        withRetry(async () => {
+          if (sessionIds.length === 0) return [];
+          let query = client
+            .from("session_videos")
+            .select("*")
+            .in("session_id", sessionIds)
+            .order("created_at", { ascending: false });
+          if (limit) query = query.limit(limit);
+          const { data, error } = await query;
+          if (error) throw error;
+          return (data ?? []) as SessionVideoRecord[];
+        }),
+      save: (values) =>
+        withRetry(async () => {
+          const { data, error } = await client
+            .from("session_videos")
+            .upsert({ original_filename: null, ...values }, { onConflict: "session_id" })
+            .select()
+            .single();
+          if (error) throw error;
+          return data as SessionVideoRecord;
+        }),
+      listEvents: (videoId) =>
+        withRetry(async () => {
+          const { data, error } = await client
+            .from("pitch_events")
+            .select("*")
+            .eq("video_id", videoId)
+            .order("timestamp_seconds", { ascending: true });
+          if (error) throw error;
+          return (data ?? []) as PitchEventRecord[];
+        }),
+      createEvent: (values) => insertRow<PitchEventRecord>("pitch_events", values),
+      linkEvent: async (eventId, pitchId) => {
+        await updateRow("pitch_events", eventId, { pitch_id: pitchId });
+      },
+    },
+
+    plans: {
+      list: (userId) =>
+        withRetry(async () => {
+          const { data, error } = await client
+            .from("bullpen_plans")
+            .select(PLAN_COLUMNS)
+            .eq("user_id", userId)
+            .order("name", { ascending: true });
+          if (error) throw error;
+          return (data ?? []) as PlanRecord[];
+        }),
+      create: (values) => insertRow<PlanRecord>("bullpen_plans", values, PLAN_COLUMNS),
+      update: (id, values) =>
+        updateRow<PlanRecord>("bullpen_plans", id, { ...values, updated_at: new Date().toISOString() }, PLAN_COLUMNS),
+      delete: (id) =>
+        withRetry(async () => {
+          const { error: detachError } = await client.from("sessions").update({ plan_id: null }).eq("plan_id", id);
+          if (detachError) throw detachError;
+
+          const { error } = await client.from("bullpen_plans").delete().eq("id", id);
+          if (error) throw error;
+        }),
+    },
+
+    teams: {
+      list: (scope) =>
+        withRetry(async () => {
+          const query = client.from("sb_teams").select("*").order("name", { ascending: true });
+          const { data, error } = scope.orgId
+            ? await query.eq("org_id", scope.orgId)
+            : await query.eq("user_id", scope.userId).is("org_id", null);
+          if (error) throw error;
+          return (data ?? []) as SavedTeam[];
+        }),
+      get: (id) => getRow<SavedTeam>("sb_teams", id),
+      create: (values) => insertRow<SavedTeam>("sb_teams", values),
+      update: (id, values) => updateRow<SavedTeam>("sb_teams", id, values),
+      delete: (id) => deleteRows("sb_teams", "id", id),
+    },
+
+    players: {
+      list: (filter) =>
+        withRetry(async () => {
+          let query = client.from("sb_team_players").select("*").order("last_name", { ascending: true });
+          if (filter.teamId) query = query.eq("team_id", filter.teamId);
+          if (filter.teamIds) query = query.in("team_id", filter.teamIds);
+          if (filter.pitcherId) query = query.eq("pitcher_id", filter.pitcherId);
+          if (filter.throwsOnly) query = query.not("throws", "is", null);
+          const { data, error } = await query;
+          if (error) throw error;
+          return (data ?? []) as SavedPlayer[];
+        }),
+      create: (values) => insertRow<SavedPlayer>("sb_team_players", values),
+      update: (id, values) => updateRow<SavedPlayer>("sb_team_players", id, values),
+      delete: (id) => deleteRows("sb_team_players", "id", id),
+    },
+
+    games: {
+      list: (scope) =>
+        withRetry(async () => {
+          const query = client.from("sb_games").select("*").order("game_date", { ascending: false });
+          const { data, error } = scope.orgId
+            ? await query.eq("org_id", scope.orgId)
+            : await query.eq("user_id", scope.userId).is("org_id", null);
+          if (error) throw error;
+          return (data ?? []) as Game[];
+        }),
+      listByTeam: (teamId) =>
+        withRetry(async () => {
+          const { data, error } = await client
+            .from("sb_games")
+            .select("*")
+            .or(`home_team_id.eq.${teamId},away_team_id.eq.${teamId}`)
+            .order("game_date", { ascending: true });
+          if (error) throw error;
+          return (data ?? []) as Game[];
+        }),
+      listByIds: (ids) =>
+        withRetry(async () => {
+          if (ids.length === 0) return [];
+          const { data, error } = await client.from("sb_games").select("*").in("id", ids);
+          if (error) throw error;
+          return (data ?? []) as Game[];
+        }),
+      get: (id) => getRow<Game>("sb_games", id),
+      create: (values) => insertRow<Game>("sb_games", values),
+      update: (id, values) => updateRow<Game>("sb_games", id, values),
+      delete: (id) => deleteRows("sb_games", "id", id),
+    },
+
+    gameRows: {
+      list: async (table, column, values) => {
+        const rows: GameRowTables[typeof table][] = [];
+        if (values.length === 0) return rows;
+        // Paged, since a season of plays or pitches runs past one response
+        for (let from = 0; ; from += PAGE_SIZE) {
+          const page = await withRetry(async () => {
+            const { data, error } = await client
+              .from(table)
+              .select("*")
+              .in(column as string, values)
+              .order("id", { ascending: true })
+              .range(from, from + PAGE_SIZE - 1);
+            if (error) throw error;
+            return (data ?? []) as GameRowTables[typeof table][];
+          });
+          rows.push(...page);
+          if (page.length < PAGE_SIZE) return rows;
+        }
+      },
+      save: (table, rows) =>
+        withRetry(async () => {
+          if (rows.length === 0) return [];
+          const { data, error } = await client.from(table).upsert(rows).select();
+          if (error) throw error;
+          return (data ?? []) as GameRowTables[typeof table][];
+        }),
+      update: (table, id, values) => updateRow<GameRowTables[typeof table]>(table, id, values),
+      delete: (table, id) => deleteRows(table, "id", id),
+    },
+
+    account: {
+      listOwned: async (table, userId) => {
+        const rows: OwnedRow[] = [];
+        for (let from = 0; ; from += PAGE_SIZE) {
+          const page = await withRetry(async () => {
+            const { data, error } = await client
+              .from(table)
+              .select("*")
+              .eq("user_id", userId)
+              .order("id", { ascending: true })
+              .range(from, from + PAGE_SIZE - 1);
+            if (error) throw error;
+            return (data ?? []) as OwnedRow[];
+          });
+          rows.push(...page);
+          if (page.length < PAGE_SIZE) return rows;
+        }
+      },
+      save: async (table, rows) => {
+        for (let i = 0; i < rows.length; i += SAVE_CHUNK_SIZE) {
+          const chunk = rows.slice(i, i + SAVE_CHUNK_SIZE);
+          await withRetry(async () => {
+            // Upsert so a retried chunk that partly landed doesn't fail on its own rows
+            const { error } = await client.from(table).upsert(chunk, { onConflict: "id" });
+            if (error) throw error;
+          });
+        }
+      },
+      deleteOwned: (table, userId) => deleteRows(table, "user_id", userId),
+    },
+  };
+}
@@ -0,0 +1,315 @@
+/**
+ * Repository interfaces
+ *
+ * Pages read and write pitchers, sessions, pitches, videos, plans, teams,
+ * players and games through these rather than a particular database, so the
+ * same code runs against Supabase or entirely in the browser.
+ */
+
+import type { ArmSlot } from "@/lib/athletes";
+import type { Hand } from "@/lib/strikeZone";
+import type {
+  AtBat,
+  Game,
+  GameInsert,
+  GameLineupEntry,
+  GamePitch,
+  GameUpdate,
+  InningSummary,
+  Play,
+  PlayLevel,
+  SavedPlayer,
+  SavedPlayerInsert,
+  SavedPlayerUpdate,
+  SavedTeam,
+  SavedTeamInsert,
+  SavedTeamUpdate,
+  Substitution,
+} from "@/lib/scorebook/types";
+
+// ==============================================
+// RECORDS
+// ==============================================
+
+export type PitcherRecord = {
+  id: string;
+  user_id: string;
+  // Organization sharing this pitcher; null when private to user_id
+  org_id: string | null;
+  name: string;
+  throwing_hand: Hand | null;
+  level: PlayLevel | null;
+  height_inches: number | null;
+  arm_slot: ArmSlot | null;
+  goals: string | null;
+  created_at: string;
+};
+
+export type SessionRecord = {
+  id: string;
+  user_id: string;
+  pitcher_id: string;
+  session_date: string;
+  label: string | null;
+  notes: string | null;
+  plan_id: string | null;
+  video_url: string | null;
+  created_at: string;
+};
+
+export type PitchRecord = {
+  id: string;
+  user_id: string;
+  pitcher_id: string;
+  session_id: string;
+  pitch_type: string;
+  tag: string | null;
+  intended_location_zone_id: string | null;
+  actual_location_zone_id: string | null;
+  target_x: number;
+  target_y: number;
+  actual_x: number;
+  actual_y: number;
+  dx: number;
+  dy: number;
+  velocity: number | null;
+  spin_rate: number | null;
+  horizontal_break: number | null;
+  vertical_break: number | null;
+  pitch_call: string | null;
+  sim_batter: number | null;
+  batter_side: string | null;
+  // Seconds into the session video, for pitches tagged on the video page
+  timestamp: number | null;
+  notes: string | null;
+  created_at: string;
+};
+
+export type SessionVideoRecord = {
+  id: string;
+  user_id: string;
+  session_id: string;
+  video_url: string;
+  original_filename: string | null;
+  created_at: string;
+};
+
+export type PitchEventRecord = {
+  id: string;
+  user_id: string;
+  session_id: string;
+  video_id: string;
+  timestamp_seconds: number;
+  pitch_id: string | null;
+  created_at: string;
+};
+
+export type PlanRecord = {
+  id: string;
+  user_id: string;
+  name: string;
+  notes: string | null;
+  // Checked when read, since older builds or hand edits may have saved bad steps
+  steps: unknown;
+  created_at: string;
+  updated_at: string;
+};
+
+// The rows that make up a scored game, by table
+export type GameRowTables = {
+  sb_game_lineups: GameLineupEntry;
+  sb_substitutions: Substitution;
+  sb_at_bats: AtBat;
+  sb_plays: Play;
+  sb_pitches: GamePitch;
+  sb_inning_summaries: InningSummary;
+};
+
+export type GameRowTable = keyof GameRowTables;
+export type GameRow = GameRowTables[GameRowTable];
+
+// Every table holding records a user owns
+export type OwnedTable =
+  | "pitchers"
+  | "bullpen_plans"
+  | "sessions"
+  | "pitches"
+  | "session_videos"
+  | "pitch_events"
+  | "sb_teams"
+  | "sb_team_players"
+  | "sb_games"
+  | GameRowTable;
+
+export type OwnedRow = { id: string } & Record<string, unknown>;
+
+// Columns a new record must have; the rest default to null. An id may be
+// chosen up front so a retried insert can't create the record twice.
+type RecordInsert<T, Required extends keyof T> = Pick<T, Required> &
+  Partial<Omit<T, "created_at" | Required>>;
+type RecordUpdate<T> = Partial<Omit<T, "id" | "user_id" | "created_at">>;
+
+export type PitcherInsert = RecordInsert<PitcherRecord, "user_id" | "name">;
+export type PitcherUpdate = RecordUpdate<PitcherRecord>;
+export type SessionInsert = RecordInsert<SessionRecord, "user_id" | "pitcher_id" | "session_date">;
+export type SessionUpdate = RecordUpdate<SessionRecord>;
+export type PitchInsert = RecordInsert<
+  PitchRecord,
+  "user_id" | "pitcher_id" | "session_id" | "pitch_type" | "target_x" | "target_y" | "actual_x" | "actual_y" | "dx" | "dy"
+>;
+export type PitchUpdate = RecordUpdate<PitchRecord>;
+export type SessionVideoInsert = RecordInsert<SessionVideoRecord, "user_id" | "session_id" | "video_url">;
+export type PitchEventInsert = RecordInsert<PitchEventRecord, "user_id" | "session_id" | "video_id" | "timestamp_seconds">;
+export type PlanInsert = RecordInsert<PlanRecord, "user_id" | "name" | "steps">;
+export type PlanUpdate = RecordUpdate<PlanRecord>;
+
+// ==============================================
+// REPOSITORIES
+// ==============================================
+
+// Whose records to list: an organization's shared ones, or a user's own
+export type OwnerScope = {
+  userId: string;
+  orgId: string | null;
+};
+
+export type SessionFilter = {
+  pitcherId?: string;
+  pitcherIds?: string[];
+  // Inclusive session_date range (YYYY-MM-DD)
+  from?: string;
+  to?: string;
+  // Oldest first; newest first by default
+  ascending?: boolean;
+};
+
+export type PitchFilter = {
+  sessionId?: string;
+  sessionIds?: string[];
+  pitcherId?: string;
+  // Oldest first; newest first by default
+  ascending?: boolean;
+  limit?: number;
+};
+
+export type PlayerFilter = {
+  teamId?: string;
+  teamIds?: string[];
+  pitcherId?: string;
+  // Only players with a throwing hand
+  throwsOnly?: boolean;
+};
+
+export interface PitcherRepository {
+  // Newest first
+  list(scope: OwnerScope): Promise<PitcherRecord[]>;
+  get(id: string): Promise<PitcherRecord | null>;
+  create(values: PitcherInsert): Promise<PitcherRecord>;
+  update(id: string, values: PitcherUpdate): Promise<PitcherRecord>;
+}
+
+export interface SessionRepository {
+  // By session date, then creation time
+  list(filter?: SessionFilter): Promise<SessionRecord[]>;
+  get(id: string): Promise<SessionRecord | null>;
+  create(values: SessionInsert): Promise<SessionRecord>;
+  update(id: string, values: SessionUpdate): Promise<SessionRecord>;
+}
+
+export interface PitchRepository {
+  // By creation time
+  list(filter: PitchFilter): Promise<PitchRecord[]>;
+  create(values: PitchInsert): Promise<PitchRecord>;
+  update(id: string, values: PitchUpdate): Promise<PitchRecord>;
+  // Pitches thrown in each session, counted without loading them
+  countBySessions(sessionIds: string[]): Promise<Map<string, number>>;
+  delete(id: string): Promise<void>;
+  deleteBySession(sessionId: string): Promise<void>;
+}
+
+export interface VideoRepository {
+  // Newest first
+  listBySessions(sessionIds: string[], limit?: number): Promise<SessionVideoRecord[]>;
+  // One video per session; saving again replaces its link
+  save(values: SessionVideoInsert): Promise<SessionVideoRecord>;
+  // By timestamp
+  listEvents(videoId: string): Promise<PitchEventRecord[]>;
+  createEvent(values: PitchEventInsert): Promise<PitchEventRecord>;
+  linkEvent(eventId: string, pitchId: string | null): Promise<void>;
+}
+
+export interface PlanRepository {
+  // A user's own plans, by name
+  list(userId: string): Promise<PlanRecord[]>;
+  create(values: PlanInsert): Promise<PlanRecord>;
+  update(id: string, values: PlanUpdate): Promise<PlanRecord>;
+  // Sessions using the plan keep their pitches and lose the script
+  delete(id: string): Promise<void>;
+}
+
+export interface TeamRepository {
+  // By name
+  list(scope: OwnerScope): Promise<SavedTeam[]>;
+  get(id: string): Promise<SavedTeam | null>;
+  create(values: SavedTeamInsert): Promise<SavedTeam>;
+  update(id: string, values: SavedTeamUpdate): Promise<SavedTeam>;
+  delete(id: string): Promise<void>;
+}
+
+export interface PlayerRepository {
+  // By last name
+  list(filter: PlayerFilter): Promise<SavedPlayer[]>;
+  create(values: SavedPlayerInsert): Promise<SavedPlayer>;
+  update(id: string, values: SavedPlayerUpdate): Promise<SavedPlayer>;
+  delete(id: string): Promise<void>;
+}
+
+export interface GameRepository {
+  // Most recent game date first
+  list(scope: OwnerScope): Promise<Game[]>;
+  // Games either side of which is the team, oldest first
+  listByTeam(teamId: string): Promise<Game[]>;
+  listByIds(ids: string[]): Promise<Game[]>;
+  get(id: string): Promise<Game | null>;
+  // An imported game keeps the id it already has
+  create(values: GameInsert & { id?: string }): Promise<Game>;
+  update(id: string, values: GameUpdate): Promise<Game>;
+  // Its lineups, at-bats and other rows go with it
+  delete(id: string): Promise<void>;
+}
+
+export interface GameRowRepository {
+  // Rows whose column holds one of values, unordered
+  list<K extends GameRowTable>(
+    table: K,
+    column: keyof GameRowTables[K] & string,
+    values: string[]
+  ): Promise<GameRowTables[K][]>;
+  // Inserts new rows and replaces existing ones, by id
+  save<K extends GameRowTable>(table: K, rows: GameRowTables[K][]): Promise<GameRowTables[K][]>;
+  update<K extends GameRowTable>(table: K, id: string, values: Partial<GameRowTables[K]>): Promise<GameRowTables[K]>;
+  // An at-bat's plays and pitches go with it
+  delete(table: GameRowTable, id: string): Promise<void>;
+}
+
+// Whole tables at once, for backups
+export interface AccountRepository {
+  // By id
+  listOwned(table: OwnedTable, userId: string): Promise<OwnedRow[]>;
+  // Inserts new rows and replaces existing ones, by id
+  save(table: OwnedTable, rows: OwnedRow[]): Promise<void>;
+  deleteOwned(table: OwnedTable, userId: string): Promise<void>;
+}
+
+export type Repositories = {
+  pitchers: PitcherRepository;
+  sessions: SessionRepository;
+  pitches: PitchRepository;
+  videos: VideoRepository;
+  plans: PlanRepository;
+  teams: TeamRepository;
+  players: PlayerRepository;
+  games: GameRepository;
+  gameRows: GameRowRepository;
+  account: AccountRepository;
+};
@@ -3,8 +3,9 @@
  * CRUD helpers for all scorebook tables
  */
 
-import { supabase } from "@/lib/supabaseClient";
-import { withRetry, getErrorMessage } from "@/lib/api";
+import { getErrorMessage } from "@/lib/api";
+import { repositories, type OwnerScope } from "@/lib/repository";
+import { loadGameData, newScorebookRow, writeScorebook, type ScorebookRow } from "./offline";
 import type {
   SavedTeam,
   SavedTeamInsert,
@@ -26,77 +27,43 @@ import type {
   Play,
   PlayInsert,
   PlayUpdate,
+  GamePitch,
+  GamePitchInsert,
   InningSummary,
   InningSummaryInsert,
   TeamSide,
 } from "./types";
 
+// Repositories return game rows unordered; these are the orders callers expect
+const byCreatedAt = (a: { created_at: string }, b: { created_at: string }) => a.created_at.localeCompare(b.created_at);
+const byHalfInning = (a: { inning: number; half: string }, b: { inning: number; half: string }) =>
+  a.inning - b.inning || a.half.localeCompare(b.half);
+// Entries without a batting order last
+const byBattingOrder = (a: GameLineupEntry, b: GameLineupEntry) =>
+  (a.batting_order ?? Number.MAX_SAFE_INTEGER) - (b.batting_order ?? Number.MAX_SAFE_INTEGER);
+
 // ==============================================
 // TEAMS
 // ==============================================
 
-export async function fetchTeams(userId: string): Promise<SavedTeam[]> {
-  return withRetry(async () => {
-    const { data, error } = await supabase
-      .from("sb_teams")
-      .select("*")
-      .eq("user_id", userId)
-      .order("name", { ascending: true });
-
-    if (error) throw error;
-    return data ?? [];
-  });
+export async function fetchTeams(scope: OwnerScope): Promise<SavedTeam[]> {
+  return repositories.teams.list(scope);
 }
 
 export async function fetchTeam(teamId: string): Promise<SavedTeam | null> {
-  return withRetry(async () => {
-    const { data, error } = await supabase
-      .from("sb_teams")
-      .select("*")
-      .eq("id", teamId)
-      .single();
-
-    if (error) {
-      if (error.code === "PGRST116") return null;
-      throw error;
-    }
-    return data;
-  });
+  return repositories.teams.get(teamId);
 }
 
 export async function createTeam(team: SavedTeamInsert): Promise<SavedTeam> {
-  return withRetry(async () => {
-    const { data, error } = await supabase
-      .from("sb_teams")
-      .insert(team)
-      .select()
-      .single();
-
-    if (error) throw error;
-    return data;
-  });
+  return repositories.teams.create(team);
 }
 
 export async function updateTeam(teamId: string, updates: SavedTeamUpdate): Promise<SavedTeam> {
-  return withRetry(async () => {
-    const { data, error } = await supabase
-      .from("sb_teams")
-      .update(updates)
-      .eq("id", teamId)
-      .select()
-      .single();
-
-    if (error) throw error;
-    return data;
-  });
+  return repositories.teams.update(teamId, updates);
 }
 
 export async function deleteTeam(teamId: string): Promise<void> {
-  return withRetry(async () => {
-    const { error } = await supabase.from("sb_teams").delete().eq("id", teamId);
-
-    if (error) throw error;
-  });
+  return repositories.teams.delete(teamId);
 }
 
 // ==============================================
@@ -104,119 +71,60 @@ export async function deleteTeam(teamId: string): Promise<void> {
 // ==============================================
 
 export async function fetchTeamPlayers(teamId: string): Promise<SavedPlayer[]> {
-  return withRetry(async () => {
-    const { data, error } = await supabase
-      .from("sb_team_players")
-      .select("*")
-      .eq("team_id", teamId)
-      .order("last_name", { ascending: true });
-
-    if (error) throw error;
-    return data ?? [];
-  });
+  return repositories.players.list({ teamId });
+}
+
+/**
+ * Players who throw, across every team, for linking to bullpen pitchers
+ */
+export async function fetchThrowingPlayers(scope: OwnerScope): Promise<SavedPlayer[]> {
+  const teams = await fetchTeams(scope);
+  if (teams.length === 0) return [];
+
+  return repositories.players.list({ teamIds: teams.map((t) => t.id), throwsOnly: true });
+}
+
+export async function fetchLinkedPlayers(pitcherId: string): Promise<SavedPlayer[]> {
+  return repositories.players.list({ pitcherId });
 }
 
 export async function createPlayer(player: SavedPlayerInsert): Promise<SavedPlayer> {
-  return withRetry(async () => {
-    const { data, error } = await supabase
-      .from("sb_team_players")
-      .insert(player)
-      .select()
-      .single();
-
-    if (error) throw error;
-    return data;
-  });
+  return repositories.players.create(player);
 }
 
 export async function updatePlayer(playerId: string, updates: SavedPlayerUpdate): Promise<SavedPlayer> {
-  return withRetry(async () => {
-    const { data, error } = await supabase
-      .from("sb_team_players")
-      .update(updates)
-      .eq("id", playerId)
-      .select()
-      .single();
-
-    if (error) throw error;
-    return data;
-  });
+  return repositories.players.update(playerId, updates);
 }
 
 export async function deletePlayer(playerId: string): Promise<void> {
-  return withRetry(async () => {
-    const { error } = await supabase.from("sb_team_players").delete().eq("id", playerId);
-
-    if (error) throw error;
-  });
+  return repositories.players.delete(playerId);
 }
 
 // ==============================================
 // GAMES
 // ==============================================
 
-export async function fetchGames(userId: string): Promise<Game[]> {
-  return withRetry(async () => {
-    const { data, error } = await supabase
-      .from("sb_games")
-      .select("*")
-      .eq("user_id", userId)
-      .order("game_date", { ascending: false });
+// Updates are journaled with the rest of a game's writes
 
-    if (error) throw error;
-    return data ?? [];
-  });
+export async function fetchGames(scope: OwnerScope): Promise<Game[]> {
+  return repositories.games.list(scope);
 }
 
 export async function fetchGame(gameId: string): Promise<Game | null> {
-  return withRetry(async () => {
-    const { data, error } = await supabase
-      .from("sb_games")
-      .select("*")
-      .eq("id", gameId)
-      .single();
-
-    if (error) {
-      if (error.code === "PGRST116") return null;
-      throw error;
-    }
-    return data;
-  });
+  return repositories.games.get(gameId);
 }
 
 export async function createGame(game: GameInsert): Promise<Game> {
-  return withRetry(async () => {
-    const { data, error } = await supabase
-      .from("sb_games")
-      .insert(game)
-      .select()
-      .single();
-
-    if (error) throw error;
-    return data;
-  });
+  return repositories.games.create(game);
 }
 
 export async function updateGame(gameId: string, updates: GameUpdate): Promise<Game> {
-  return withRetry(async () => {
-    const { data, error } = await supabase
-      .from("sb_games")
-      .update(updates)
-      .eq("id", gameId)
-      .select()
-      .single();
-
-    if (error) throw error;
-    return data;
-  });
+  const [row] = await writeScorebook({ op: "update", table: "sb_games", id: gameId, values: updates });
+  return row as unknown as Game;
 }
 
 export async function deleteGame(gameId: string): Promise<void> {
-  return withRetry(async () => {
-    const { error } = await supabase.from("sb_games").delete().eq("id", gameId);
-
-    if (error) throw error;
-  });
+  return repositories.games.delete(gameId);
 }
 
 // ==============================================
@@ -224,83 +132,45 @@ export async function deleteGame(gameId: string): Promise<void> {
 // ==============================================
 
 export async function fetchGameLineups(gameId: string): Promise<GameLineupEntry[]> {
-  return withRetry(async () => {
-    const { data, error } = await supabase
-      .from("sb_game_lineups")
-      .select("*")
-      .eq("game_id", gameId)
-      .order("batting_order", { ascending: true });
-
-    if (error) throw error;
-    return data ?? [];
-  });
+  const rows = await repositories.gameRows.list("sb_game_lineups", "game_id", [gameId]);
+  return rows.sort(byBattingOrder);
 }
 
 export async function fetchGameLineupsBySide(
   gameId: string,
   teamSide: TeamSide
 ): Promise<GameLineupEntry[]> {
-  return withRetry(async () => {
-    const { data, error } = await supabase
-      .from("sb_game_lineups")
-      .select("*")
-      .eq("game_id", gameId)
-      .eq("team_side", teamSide)
-      .order("batting_order", { ascending: true });
-
-    if (error) throw error;
-    return data ?? [];
-  });
+  return (await fetchGameLineups(gameId)).filter((l) => l.team_side === teamSide);
 }
 
 export async function createLineupEntry(entry: GameLineupEntryInsert): Promise<GameLineupEntry> {
-  return withRetry(async () => {
-    const { data, error } = await supabase
-      .from("sb_game_lineups")
-      .insert(entry)
-      .select()
-      .single();
-
-    if (error) throw error;
-    return data;
-  });
+  const [row] = await writeScorebook({ op: "upsert", table: "sb_game_lineups", rows: [newScorebookRow(entry)] });
+  return row as unknown as GameLineupEntry;
 }
 
 export async function createLineupEntries(entries: GameLineupEntryInsert[]): Promise<GameLineupEntry[]> {
-  return withRetry(async () => {
-    const { data, error } = await supabase
-      .from("sb_game_lineups")
-      .insert(entries)
-      .select();
-
-    if (error) throw error;
-    return data ?? [];
-  });
+  const rows = await writeScorebook({ op: "upsert", table: "sb_game_lineups", rows: entries.map(newScorebookRow) });
+  return rows as unknown as GameLineupEntry[];
 }
 
 export async function updateLineupEntry(
   entryId: string,
   updates: GameLineupEntryUpdate
 ): Promise<GameLineupEntry> {
-  return withRetry(async () => {
-    const { data, error } = await supabase
-      .from("sb_game_lineups")
-      .update(updates)
-      .eq("id", entryId)
-      .select()
-      .single();
-
-    if (error) throw error;
-    return data;
-  });
+  const [row] = await writeScorebook({ op: "update", table: "sb_game_lineups", id: entryId, values: updates });
+  return row as unknown as GameLineupEntry;
 }
 
 export async function deleteLineupEntry(entryId: string): Promise<void> {
-  return withRetry(async () => {
-    const { error } = await supabase.from("sb_game_lineups").delete().eq("id", entryId);
+  await writeScorebook({ op: "delete", table: "sb_game_lineups", id: entryId });
+}
 
-    if (error) throw error;
-  });
+/**
+ * Re-insert previously deleted lineup rows, keeping their original IDs
+ */
+export async function restoreLineupEntries(entries: GameLineupEntry[]): Promise<void> {
+  if (entries.length === 0) return;
+  await writeScorebook({ op: "upsert", table: "sb_game_lineups", rows: entries as unknown as ScorebookRow[] });
 }
 
 // ==============================================
@@ -308,37 +178,25 @@ export async function deleteLineupEntry(entryId: string): Promise<void> {
 // ==============================================
 
 export async function fetchSubstitutions(gameId: string): Promise<Substitution[]> {
-  return withRetry(async () => {
-    const { data, error } = await supabase
-      .from("sb_substitutions")
-      .select("*")
-      .eq("game_id", gameId)
-      .order("created_at", { ascending: true });
-
-    if (error) throw error;
-    return data ?? [];
-  });
+  const rows = await repositories.gameRows.list("sb_substitutions", "game_id", [gameId]);
+  return rows.sort(byCreatedAt);
 }
 
 export async function createSubstitution(sub: SubstitutionInsert): Promise<Substitution> {
-  return withRetry(async () => {
-    const { data, error } = await supabase
-      .from("sb_substitutions")
-      .insert(sub)
-      .select()
-      .single();
-
-    if (error) throw error;
-    return data;
-  });
+  const [row] = await writeScorebook({ op: "upsert", table: "sb_substitutions", rows: [newScorebookRow(sub)] });
+  return row as unknown as Substitution;
 }
 
 export async function deleteSubstitution(subId: string): Promise<void> {
-  return withRetry(async () => {
-    const { error } = await supabase.from("sb_substitutions").delete().eq("id", subId);
+  await writeScorebook({ op: "delete", table: "sb_substitutions", id: subId });
+}
 
-    if (error) throw error;
-  });
+/**
+ * Re-insert previously deleted substitutions, keeping their original IDs
+ */
+export async function restoreSubstitutions(subs: Substitution[]): Promise<void> {
+  if (subs.length === 0) return;
+  await writeScorebook({ op: "upsert", table: "sb_substitutions", rows: subs as unknown as ScorebookRow[] });
 }
 
 // ==============================================
@@ -346,53 +204,30 @@ export async function deleteSubstitution(subId: string): Promise<void> {
 // ==============================================
 
 export async function fetchAtBats(gameId: string): Promise<AtBat[]> {
-  return withRetry(async () => {
-    const { data, error } = await supabase
-      .from("sb_at_bats")
-      .select("*")
-      .eq("game_id", gameId)
-      .order("inning", { ascending: true })
-      .order("half", { ascending: true })
-      .order("batter_number", { ascending: true });
-
-    if (error) throw error;
-    return data ?? [];
-  });
+  const rows = await repositories.gameRows.list("sb_at_bats", "game_id", [gameId]);
+  return rows.sort((a, b) => byHalfInning(a, b) || a.batter_number - b.batter_number);
 }
 
 export async function createAtBat(atBat: AtBatInsert): Promise<AtBat> {
-  return withRetry(async () => {
-    const { data, error } = await supabase
-      .from("sb_at_bats")
-      .insert(atBat)
-      .select()
-      .single();
-
-    if (error) throw error;
-    return data;
-  });
+  const [row] = await writeScorebook({ op: "upsert", table: "sb_at_bats", rows: [newScorebookRow(atBat)] });
+  return row as unknown as AtBat;
 }
 
 export async function updateAtBat(atBatId: string, updates: AtBatUpdate): Promise<AtBat> {
-  return withRetry(async () => {
-    const { data, error } = await supabase
-      .from("sb_at_bats")
-      .update(updates)
-      .eq("id", atBatId)
-      .select()
-      .single();
-
-    if (error) throw error;
-    return data;
-  });
+  const [row] = await writeScorebook({ op: "update", table: "sb_at_bats", id: atBatId, values: updates });
+  return row as unknown as AtBat;
 }
 
 export async function deleteAtBat(atBatId: string): Promise<void> {
-  return withRetry(async () => {
-    const { error } = await supabase.from("sb_at_bats").delete().eq("id", atBatId);
+  await writeScorebook({ op: "delete", table: "sb_at_bats", id: atBatId });
+}
 
-    if (error) throw error;
-  });
+/**
+ * Re-insert previously deleted at-bats, keeping their original IDs
+ */
+export async function restoreAtBats(atBats: AtBat[]): Promise<void> {
+  if (atBats.length === 0) return;
+  await writeScorebook({ op: "upsert", table: "sb_at_bats", rows: atBats as unknown as ScorebookRow[] });
 }
 
 // ==============================================
@@ -400,76 +235,63 @@ export async function deleteAtBat(atBatId: string): Promise<void> {
 // ==============================================
 
 export async function fetchPlays(gameId: string): Promise<Play[]> {
-  return withRetry(async () => {
-    const { data, error } = await supabase
-      .from("sb_plays")
-      .select("*")
-      .eq("game_id", gameId)
-      .order("created_at", { ascending: true });
-
-    if (error) throw error;
-    return data ?? [];
-  });
+  const rows = await repositories.gameRows.list("sb_plays", "game_id", [gameId]);
+  return rows.sort(byCreatedAt);
 }
 
 export async function fetchPlaysByAtBat(atBatId: string): Promise<Play[]> {
-  return withRetry(async () => {
-    const { data, error } = await supabase
-      .from("sb_plays")
-      .select("*")
-      .eq("at_bat_id", atBatId)
-      .order("play_sequence", { ascending: true });
-
-    if (error) throw error;
-    return data ?? [];
-  });
+  const rows = await repositories.gameRows.list("sb_plays", "at_bat_id", [atBatId]);
+  return rows.sort((a, b) => a.play_sequence - b.play_sequence);
 }
 
 export async function createPlay(play: PlayInsert): Promise<Play> {
-  return withRetry(async () => {
-    const { data, error } = await supabase
-      .from("sb_plays")
-      .insert(play)
-      .select()
-      .single();
-
-    if (error) throw error;
-    return data;
-  });
+  const [row] = await writeScorebook({ op: "upsert", table: "sb_plays", rows: [newScorebookRow(play)] });
+  return row as unknown as Play;
 }
 
 export async function createPlays(plays: PlayInsert[]): Promise<Play[]> {
-  return withRetry(async () => {
-    const { data, error } = await supabase
-      .from("sb_plays")
-      .insert(plays)
-      .select();
-
-    if (error) throw error;
-    return data ?? [];
-  });
+  const rows = await writeScorebook({ op: "upsert", table: "sb_plays", rows: plays.map(newScorebookRow) });
+  return rows as unknown as Play[];
 }
 
 export async function updatePlay(playId: string, updates: PlayUpdate): Promise<Play> {
-  return withRetry(async () => {
-    const { data, error } = await supabase
-      .from("sb_plays")
-      .update(updates)
-      .eq("id", playId)
-      .select()
-      .single();
-
-    if (error) throw error;
-    return data;
-  });
+  const [row] = await writeScorebook({ op: "update", table: "sb_plays", id: playId, values: updates });
+  return row as unknown as Play;
 }
 
 export async function deletePlay(playId: string): Promise<void> {
-  return withRetry(async () => {
-    const { error } = await supabase.from("sb_plays").delete().eq("id", playId);
+  await writeScorebook({ op: "delete", table: "sb_plays", id: playId });
+}
 
-    if (error) throw error;
-  });
+/**
+ * Re-insert previously deleted plays, keeping their original IDs
+ */
+export async function restorePlays(plays: Play[]): Promise<void> {
+  if (plays.length === 0) return;
+  await writeScorebook({ op: "upsert", table: "sb_plays", rows: plays as unknown as ScorebookRow[] });
+}
+
+// ==============================================
+// PITCHES
+// ==============================================
+
+export async function fetchPitches(gameId: string): Promise<GamePitch[]> {
+  const rows = await repositories.gameRows.list("sb_pitches", "game_id", [gameId]);
+  return rows.sort((a, b) => byCreatedAt(a, b) || a.pitch_number - b.pitch_number);
+}
+
+export async function createPitches(pitches: GamePitchInsert[]): Promise<GamePitch[]> {
+  if (pitches.length === 0) return [];
+  const rows = await writeScorebook({ op: "upsert", table: "sb_pitches", rows: pitches.map(newScorebookRow) });
+  return rows as unknown as GamePitch[];
+}
+
+/**
+ * Re-insert previously deleted pitches, keeping their original IDs
+ */
+export async function restorePitches(pitches: GamePitch[]): Promise<void> {
+  if (pitches.length === 0) return;
+  await writeScorebook({ op: "upsert", table: "sb_pitches", rows: pitches as unknown as ScorebookRow[] });
 }
 
 // ==============================================
@@ -477,29 +299,33 @@ export async function deletePlay(playId: string): Promise<void> {
 // ==============================================
 
 export async function fetchInningSummaries(gameId: string): Promise<InningSummary[]> {
-  return withRetry(async () => {
-    const { data, error } = await supabase
-      .from("sb_inning_summaries")
-      .select("*")
-      .eq("game_id", gameId)
-      .order("inning", { ascending: true })
-      .order("half", { ascending: true });
-
-    if (error) throw error;
-    return data ?? [];
-  });
+  const rows = await repositories.gameRows.list("sb_inning_summaries", "game_id", [gameId]);
+  return rows.sort(byHalfInning);
+}
+
+/**
+ * Record that a half-inning is over. The engine moves the game on past it
+ * even when it ended early, so replays keep the scorer's advance.
+ */
+export async function createInningSummary(summary: InningSummaryInsert): Promise<InningSummary> {
+  const row = { ...summary, id: crypto.randomUUID() };
+  const [created] = await writeScorebook({ op: "upsert", table: "sb_inning_summaries", rows: [row] });
+  return created as unknown as InningSummary;
 }
 
-export async function upsertInningSummary(summary: InningSummaryInsert): Promise<InningSummary> {
-  return withRetry(async () => {
-    const { data, error } = await supabase
-      .from("sb_inning_summaries")
-      .upsert(summary, { onConflict: "game_id,inning,half" })
-      .select()
-      .single();
+export async function deleteInningSummary(summaryId: string): Promise<void> {
+  await writeScorebook({ op: "delete", table: "sb_inning_summaries", id: summaryId });
+}
 
-    if (error) throw error;
-    return data;
+/**
+ * Re-insert previously deleted inning summaries, keeping their original IDs
+ */
+export async function restoreInningSummaries(summaries: InningSummary[]): Promise<void> {
+  if (summaries.length === 0) return;
+  await writeScorebook({
+    op: "upsert",
+    table: "sb_inning_summaries",
+    rows: summaries as unknown as ScorebookRow[],
   });
 }
 
@@ -513,18 +339,28 @@ export type FullGameData = {
   awayLineup: GameLineupEntry[];
   atBats: AtBat[];
   plays: Play[];
+  pitches: GamePitch[];
   substitutions: Substitution[];
   inningSummaries: InningSummary[];
 };
 
+/**
+ * Load a game for scoring. Games are cached on the device, and the cached
+ * copy (with any changes not yet synced) is used while offline.
+ */
 export async function fetchFullGameData(gameId: string): Promise<FullGameData | null> {
+  return loadGameData(gameId, () => fetchFullGameDataFromServer(gameId));
+}
+
+async function fetchFullGameDataFromServer(gameId: string): Promise<FullGameData | null> {
   const game = await fetchGame(gameId);
   if (!game) return null;
 
-  const [lineups, atBats, plays, substitutions, inningSummaries] = await Promise.all([
+  const [lineups, atBats, plays, pitches, substitutions, inningSummaries] = await Promise.all([
     fetchGameLineups(gameId),
     fetchAtBats(gameId),
     fetchPlays(gameId),
+    fetchPitches(gameId),
     fetchSubstitutions(gameId),
     fetchInningSummaries(gameId),
   ]);
@@ -538,10 +374,68 @@ export async function fetchFullGameData(gameId: string): Promise<FullGameData |
     awayLineup,
     atBats,
     plays,
+    pitches,
     substitutions,
     inningSummaries,
   };
 }
 
+export async function fetchTeamGames(teamId: string): Promise<Game[]> {
+  return repositories.games.listByTeam(teamId);
+}
+
+/**
+ * Load every game a saved team played in, for season and career stats.
+ * Child rows are fetched in one query per table rather than per game.
+ */
+export async function fetchTeamGameData(teamId: string): Promise<FullGameData[]> {
+  const games = await fetchTeamGames(teamId);
+  if (games.length === 0) return [];
+
+  const gameIds = games.map((g) => g.id);
+  const [lineups, atBats, plays, pitches, substitutions, inningSummaries] = await Promise.all([
+    repositories.gameRows.list("sb_game_lineups", "game_id", gameIds),
+    repositories.gameRows.list("sb_at_bats", "game_id", gameIds),
+    repositories.gameRows.list("sb_plays", "game_id", gameIds),
+    repositories.gameRows.list("sb_pitches", "game_id", gameIds),
+    repositories.gameRows.list("sb_substitutions", "game_id", gameIds),
+    // Half-innings ended by hand, so replays advance past them
+    repositories.gameRows.list("sb_inning_summaries", "game_id", gameIds),
+  ]);
+
+  return games.map((game) => ({
+    game,
+    homeLineup: lineups.filter((l) => l.game_id === game.id && l.team_side === "home"),
+    awayLineup: lineups.filter((l) => l.game_id === game.id && l.team_side === "away"),
+    atBats: atBats.filter((ab) => ab.game_id === game.id),
+    plays: plays.filter((p) => p.game_id === game.id),
+    pitches: pitches.filter((p) => p.game_id === game.id),
+    substitutions: substitutions.filter((s) => s.game_id === game.id),
+    inningSummaries: inningSummaries.filter((s) => s.game_id === game.id).sort(byHalfInning),
+  }));
+}
+
+/**
+ * Save a complete game built outside the scorekeeper (an import or a backup)
+ * with the ids it already has. A game that fails part way is removed again.
+ */
+export async function importGameData(data: FullGameData): Promise<Game> {
+  // A restored copy starts unshared; its old live link stays revoked
+  const game = await repositories.games.create({ ...data.game, share_token: null });
+
+  try {
+    await restoreLineupEntries([...data.awayLineup, ...data.homeLineup]);
+    await restoreSubstitutions(data.substitutions);
+    await restoreAtBats(data.atBats);
+    await restorePlays(data.plays);
+    await restorePitches(data.pitches);
+  } catch (e) {
+    await deleteGame(game.id);
+    throw e;
+  }
+
+  return game;
+}
+
 // Re-export utility
 export { getErrorMessage };
@@ -0,0 +1,208 @@
+/**
+ * Pitching decisions (W, L, SV, HLD, BS) for completed games
+ *
+ * Replays the game to find every pitching appearance and the situation it
+ * started in, then walks the runs in order to find the lead change that
+ * decided the game. Runs are charged using the earned run reconstruction, so
+ * the losing pitcher is whoever put the go-ahead runner on base.
+ */
+
+import type { PitchingDecision, TeamSide } from "./types";
+import { getBattingTeam, getFieldingTeam } from "./types";
+import {
+  buildGameEvents,
+  createInitialGameState,
+  applyGameEvent,
+  halfInningOrdinal,
+  type GameEngineInput,
+  type GameEngineState,
+} from "./gameEngine";
+import { computeEarnedRuns, type EarnedRunReport } from "./earnedRuns";
+
+export type PitchingDecisions = Record<string, PitchingDecision[]>;
+
+type Appearance = {
+  pitcherId: string;
+  side: TeamSide;
+  isStarter: boolean;
+  // Lead for the pitcher's team and runners on base when they came in
+  entryLead: number;
+  entryRunners: number;
+  outs: number;
+  lostLead: boolean;
+  exitLead: number;
+};
+
+// Outs a starter needs for the win: five innings, four in games of six or fewer
+function getStarterWinOuts(inningsScheduled: number): number {
+  return (inningsScheduled > 6 ? 5 : 4) * 3;
+}
+
+function isSaveSituation(appearance: Appearance): boolean {
+  const { entryLead, entryRunners } = appearance;
+  // Up by three or fewer, or the tying run is on base, at bat or on deck
+  return entryLead > 0 && (entryLead <= 3 || entryLead <= entryRunners + 2);
+}
+
+function getScore(state: GameEngineState, side: TeamSide): number {
+  return side === "home" ? state.game.home_final_score : state.game.away_final_score;
+}
+
+function addDecision(decisions: PitchingDecisions, pitcherId: string, decision: PitchingDecision) {
+  decisions[pitcherId] = [...(decisions[pitcherId] ?? []), decision];
+}
+
+/**
+ * Credit W, L, SV, HLD and BS. Returns an empty record until the game is
+ * completed; holds and blown saves need the full game too.
+ */
+export function computePitchingDecisions(
+  input: GameEngineInput,
+  earnedRuns: EarnedRunReport = computeEarnedRuns(input)
+): PitchingDecisions {
+  const decisions: PitchingDecisions = {};
+  if (input.game.status !== "completed") return decisions;
+
+  // Pitching appearances in the order they started
+  const appearances: Appearance[] = [];
+  const current: Partial<Record<TeamSide, Appearance>> = {};
+  const pitcherOfRecordAt: Record<TeamSide, string | null>[] = [];
+
+  let state = createInitialGameState(input);
+  for (const event of buildGameEvents(input)) {
+    pitcherOfRecordAt.push({
+      home: current.home?.pitcherId ?? null,
+      away: current.away?.pitcherId ?? null,
+    });
+
+    if (event.type !== "plate_appearance" && event.type !== "runner_play") {
+      state = applyGameEvent(state, event);
+      continue;
+    }
+
+    const half = event.type === "plate_appearance" ? event.atBat.half : (event.play.half ?? state.game.current_half);
+    const inning =
+      event.type === "plate_appearance" ? event.atBat.inning : (event.play.inning ?? state.game.current_inning);
+    const fieldingSide = getFieldingTeam(half);
+    const battingSide = getBattingTeam(half);
+    const pitcherId =
+      event.type === "plate_appearance"
+        ? event.atBat.pitcher_lineup_id
+        : (event.play.pitcher_lineup_id ?? state.defense[fieldingSide].P ?? null);
+
+    const sameHalf =
+      halfInningOrdinal(state.game.current_inning, state.game.current_half) === halfInningOrdinal(inning, half);
+    const outsBefore = sameHalf ? state.currentOuts : 0;
+    const leadBefore = getScore(state, fieldingSide) - getScore(state, battingSide);
+
+    if (pitcherId && current[fieldingSide]?.pitcherId !== pitcherId) {
+      const bases = sameHalf ? state.currentBaseState : null;
+      const appearance: Appearance = {
+        pitcherId,
+        side: fieldingSide,
+        isStarter: !appearances.some((a) => a.side === fieldingSide),
+        entryLead: leadBefore,
+        entryRunners: bases ? [bases.first, bases.second, bases.third].filter(Boolean).length : 0,
+        outs: 0,
+        lostLead: false,
+        exitLead: leadBefore,
+      };
+      appearances.push(appearance);
+      current[fieldingSide] = appearance;
+    }
+
+    const next = applyGameEvent(state, event);
+    const appearance = current[fieldingSide];
+    if (appearance) {
+      const stillInHalf =
+        halfInningOrdinal(next.game.current_inning, next.game.current_half) === halfInningOrdinal(inning, half);
+      appearance.outs += (stillInHalf ? next.currentOuts : 3) - outsBefore;
+      appearance.exitLead = getScore(next, fieldingSide) - getScore(next, battingSide);
+      if (appearance.entryLead > 0 && appearance.exitLead <= 0) appearance.lostLead = true;
+    }
+    state = next;
+  }
+
+  const finalHome = input.game.home_final_score;
+  const finalAway = input.game.away_final_score;
+
+  // Blown saves and holds don't depend on who won
+  for (const appearance of appearances) {
+    if (appearance.isStarter || !isSaveSituation(appearance)) continue;
+    const isFinisher = current[appearance.side] === appearance;
+    if (appearance.lostLead) {
+      addDecision(decisions, appearance.pitcherId, "BS");
+    } else if (!isFinisher && appearance.outs > 0 && appearance.exitLead > 0) {
+      addDecision(decisions, appearance.pitcherId, "HLD");
+    }
+  }
+
+  if (finalHome === finalAway) return decisions;
+  const winner: TeamSide = finalHome > finalAway ? "home" : "away";
+  const loser: TeamSide = winner === "home" ? "away" : "home";
+
+  // The run that gave the winner the lead for the last time
+  const tally: Record<TeamSide, number> = { home: 0, away: 0 };
+  let goAhead: EarnedRunReport["charges"][number] | null = null;
+  for (const charge of earnedRuns.charges) {
+    const side = getBattingTeam(charge.half);
+    const ledBefore = tally[winner] > tally[loser];
+    tally[side]++;
+    if (side === winner && !ledBefore && tally[winner] > tally[loser]) goAhead = charge;
+  }
+  if (!goAhead) return decisions;
+
+  // Loss goes to the pitcher charged with the go-ahead run
+  const losingPitcher =
+    goAhead.pitcherId ?? pitcherOfRecordAt[goAhead.eventIndex]?.[loser] ?? null;
+  if (losingPitcher) addDecision(decisions, losingPitcher, "L");
+
+  // Win goes to the winner's pitcher of record, if a starter went long enough
+  const winnerAppearances = appearances.filter((a) => a.side === winner);
+  // A lead taken before the winner's starter threw a pitch still belongs to that pitcher
+  let winningPitcher =
+    pitcherOfRecordAt[goAhead.eventIndex]?.[winner] ?? winnerAppearances[0]?.pitcherId ?? null;
+  const starter = winnerAppearances.find((a) => a.isStarter);
+  if (
+    starter &&
+    winningPitcher === starter.pitcherId &&
+    starter.outs < getStarterWinOuts(input.game.innings_scheduled)
+  ) {
+    // Otherwise the most effective reliever, judged here by outs recorded
+    const relievers = winnerAppearances.filter((a) => !a.isStarter);
+    const best = relievers.reduce<Appearance | null>(
+      (top, a) => (!top || a.outs > top.outs ? a : top),
+      null
+    );
+    if (best) winningPitcher = best.pitcherId;
+  }
+  if (winningPitcher) {
+    // A pitcher who picks up the win doesn't also get a hold
+    decisions[winningPitcher] = (decisions[winningPitcher] ?? []).filter((d) => d !== "HLD");
+    addDecision(decisions, winningPitcher, "W");
+  }
+
+  // Save for the finisher who protected the lead without earning the win
+  const finisher = current[winner];
+  if (
+    finisher &&
+    !finisher.isStarter &&
+    finisher.pitcherId !== winningPitcher &&
+    finisher.entryLead > 0 &&
+    !finisher.lostLead &&
+    ((finisher.entryLead <= 3 && finisher.outs >= 3) ||
+      finisher.entryLead <= finisher.entryRunners + 2 ||
+      finisher.outs >= 9)
+  ) {
+    addDecision(decisions, finisher.pitcherId, "SV");
+  }
+
+  return decisions;
+}
+
+/**
+ * Format decisions for a box score line, e.g. "W" or "BS, W"
+ */
+export function formatDecisions(decisions: PitchingDecision[]): string {
+  return decisions.join(", ");
+}
@@ -0,0 +1,347 @@
+/**
+ * Earned run reconstruction for the scorebook
+ *
+ * Replays the game through the engine and decides, for every run, which
+ * pitcher it is charged to and whether it is earned. Follows the official
+ * scoring approach of reconstructing each half-inning as it would have gone
+ * without errors and passed balls:
+ *   - a batter or runner kept safe by an error (reached on one, a dropped
+ *     foul fly, a dropped throw on a pickoff or steal) would have been out,
+ *     so the reconstruction gains an out and their runs are unearned
+ *   - advances on errors and passed balls don't count in the reconstruction;
+ *     a runner's run is earned only if the rest of the inning would still
+ *     have brought them home
+ *   - runs after the reconstructed third out are unearned
+ * Where the reconstruction is in doubt, runners are given the fewest bases.
+ * Runners are charged to the pitcher who put them on base, and a relief
+ * pitcher gets no benefit from errors made before entering the inning.
+ */
+
+import type { AtBat, BaseState, GameLineupEntry, Play } from "./types";
+import { AT_BAT_RESULTS, DROPPED_FOUL_ERROR, getBattingTeam } from "./types";
+import { getBatterBaseAdvancement } from "./gameState";
+import {
+  applyGameEvent,
+  buildGameEvents,
+  createInitialGameState,
+  getDefensivePlayer,
+  halfInningOrdinal,
+  type GameEngineInput,
+  type GameEngineState,
+  type GameEvent,
+} from "./gameEngine";
+
+export type RunCharge = {
+  runnerId: string;
+  pitcherId: string | null;
+  playId: string | null;
+  // Position of the scoring event in buildGameEvents()
+  eventIndex: number;
+  inning: number;
+  half: AtBat["half"];
+  // Earned for the charged pitcher; relievers can differ from the team total
+  isEarned: boolean;
+  isTeamEarned: boolean;
+};
+
+export type EarnedRunReport = {
+  charges: RunCharge[];
+  byPitcher: Record<string, { r: number; er: number }>;
+};
+
+type RunnerRecord = {
+  pitcherId: string | null;
+  // Reached on an error or interference, or was kept safe by an error
+  isUnearned: boolean;
+};
+
+// Bases as numbers; home is 4
+const HOME = 4;
+
+function isErrorPlay(play: Play): boolean {
+  return play.play_type === "error" || play.play_type === "passed_ball" || play.error_position !== null;
+}
+
+// A runner who would have been out but for an error: a dropped throw on a
+// pickoff or steal, or any error that left the runner where they were
+function isSavedByError(play: Play): boolean {
+  return (
+    !play.is_out &&
+    play.error_position !== null &&
+    (play.to_base === play.from_base || play.play_type === "caught_stealing" || play.play_type === "pickoff")
+  );
+}
+
+function runnerIds(bases: BaseState): string[] {
+  // Lead runner first
+  return [bases.third, bases.second, bases.first]
+    .filter((r): r is GameLineupEntry => r !== null)
+    .map((r) => r.id);
+}
+
+function runnerBases(bases: BaseState): Map<string, number> {
+  const positions = new Map<string, number>();
+  if (bases.first) positions.set(bases.first.id, 1);
+  if (bases.second) positions.set(bases.second.id, 2);
+  if (bases.third) positions.set(bases.third.id, 3);
+  return positions;
+}
+
+function baseNumber(destination: ReturnType<typeof getBatterBaseAdvancement>): number {
+  return destination === "H" ? HOME : Number(destination);
+}
+
+function eventOrdinal(
+  state: GameEngineState,
+  event: Extract<GameEvent, { type: "plate_appearance" | "runner_play" }>
+): number {
+  if (event.type === "plate_appearance") {
+    return halfInningOrdinal(event.atBat.inning, event.atBat.half);
+  }
+  return event.play.inning !== null && event.play.half !== null
+    ? halfInningOrdinal(event.play.inning, event.play.half)
+    : halfInningOrdinal(state.game.current_inning, state.game.current_half);
+}
+
+/**
+ * Work out who each run is charged to and whether it is earned
+ */
+export function computeEarnedRuns(input: GameEngineInput): EarnedRunReport {
+  const charges: RunCharge[] = [];
+
+  let state = createInitialGameState(input);
+  let trackedOrdinal = -1;
+  let runners = new Map<string, RunnerRecord>();
+  // Where each runner would be in the reconstructed inning. Runners who
+  // would have been out aren't in it.
+  let reconstructed = new Map<string, number>();
+  let errorOuts = 0;
+  let pitcherErrorOutsAtEntry = new Map<string, number>();
+
+  for (const [eventIndex, event] of buildGameEvents(input).entries()) {
+    if (event.type === "inning_transition") {
+      state = applyGameEvent(state, event);
+      continue;
+    }
+
+    if (event.type === "substitution") {
+      // A pinch runner takes over the runner's responsibility
+      const { incoming_lineup_id, outgoing_lineup_id } = event.substitution;
+      const record = outgoing_lineup_id ? runners.get(outgoing_lineup_id) : undefined;
+      if (outgoing_lineup_id && record) {
+        runners.delete(outgoing_lineup_id);
+        runners.set(incoming_lineup_id, record);
+      }
+      const base = outgoing_lineup_id ? reconstructed.get(outgoing_lineup_id) : undefined;
+      if (outgoing_lineup_id && base !== undefined) {
+        reconstructed.delete(outgoing_lineup_id);
+        reconstructed.set(incoming_lineup_id, base);
+      }
+      state = applyGameEvent(state, event);
+      continue;
+    }
+
+    const ordinal = eventOrdinal(state, event);
+    if (ordinal !== trackedOrdinal) {
+      trackedOrdinal = ordinal;
+      runners = new Map();
+      reconstructed = new Map();
+      errorOuts = 0;
+      pitcherErrorOutsAtEntry = new Map();
+    }
+
+    const inTrackedHalf =
+      halfInningOrdinal(state.game.current_inning, state.game.current_half) === trackedOrdinal;
+    const outsBefore = inTrackedHalf ? state.currentOuts : 0;
+    const basesBefore = inTrackedHalf ? runnerIds(state.currentBaseState) : [];
+    const positionsBefore = inTrackedHalf ? runnerBases(state.currentBaseState) : new Map<string, number>();
+    const half = trackedOrdinal % 2 === 1 ? "bottom" : "top";
+    const inning = Math.floor(trackedOrdinal / 2);
+    const battingTeam = getBattingTeam(half);
+    const scoreBefore = state.game[battingTeam === "home" ? "home_final_score" : "away_final_score"];
+
+    const plays = event.type === "plate_appearance" ? event.plays : [event.play];
+    const pitcherId =
+      event.type === "plate_appearance"
+        ? event.atBat.pitcher_lineup_id
+        : (event.play.pitcher_lineup_id ??
+          getDefensivePlayer(state, battingTeam === "home" ? "away" : "home", "P")?.id ??
+          null);
+    if (pitcherId && !pitcherErrorOutsAtEntry.has(pitcherId)) {
+      pitcherErrorOutsAtEntry.set(pitcherId, errorOuts);
+    }
+
+    const next = applyGameEvent(state, event);
+    const stillInHalf =
+      halfInningOrdinal(next.game.current_inning, next.game.current_half) === trackedOrdinal;
+    const basesAfter = new Set(stillInHalf ? runnerIds(next.currentBaseState) : []);
+    const positionsAfter = stillInHalf ? runnerBases(next.currentBaseState) : new Map<string, number>();
+    const runs =
+      next.game[battingTeam === "home" ? "home_final_score" : "away_final_score"] - scoreBefore;
+
+    const outIds = new Set(
+      plays.filter((p) => p.is_out && p.runner_lineup_id).map((p) => p.runner_lineup_id as string)
+    );
+
+    // Who scored: explicit scoring plays first, then whoever vanished from the
+    // bases without being put out, lead runner first
+    const explicit = plays
+      .filter((p) => (p.run_scored || p.to_base === "H") && p.runner_lineup_id)
+      .map((p) => p.runner_lineup_id as string);
+    const batterId = event.type === "plate_appearance" ? event.atBat.batter_lineup_id : null;
+    const vanished = [...basesBefore, ...(batterId ? [batterId] : [])].filter(
+      (id) => !basesAfter.has(id) && !outIds.has(id)
+    );
+    const scorers = [...new Set([...explicit, ...vanished])].slice(0, Math.max(runs, 0));
+    const baseAfter = (id: string) => (scorers.includes(id) ? HOME : (positionsAfter.get(id) ?? 0));
+
+    const batterPlay =
+      event.type === "plate_appearance"
+        ? plays.find(
+            (p) => p.from_base === "0" || (p.runner_lineup_id === batterId && p.from_base === null)
+          )
+        : undefined;
+    const runnerPlays = plays.filter((p) => p !== batterPlay);
+
+    // Runners the reconstruction puts out
+    for (const play of runnerPlays) {
+      if (!play.runner_lineup_id || !isSavedByError(play)) continue;
+      errorOuts++;
+      reconstructed.delete(play.runner_lineup_id);
+      const record = runners.get(play.runner_lineup_id);
+      if (record) record.isUnearned = true;
+    }
+
+    // How far the reconstruction moves a runner no matter what they did: the
+    // bases of a hit, or one base when forced by a batter awarded first
+    let forced: (base: number) => number = () => 0;
+    // The at-bat would have ended without anyone moving up
+    let holdRunners = false;
+    let batterBase: number | null = null;
+    let batterUnearned = false;
+
+    if (event.type === "plate_appearance" && batterId) {
+      const { atBat } = event;
+      const result = AT_BAT_RESULTS[atBat.result_type];
+      const batterOut = outIds.has(batterId) || baseAfter(batterId) === 0;
+      const droppedFoul = plays.some((p) => p.error_type === DROPPED_FOUL_ERROR);
+      const safeOnError =
+        atBat.result_type === "E" ||
+        (result.isOut && !!batterPlay && !batterPlay.is_out && isErrorPlay(batterPlay));
+
+      if (!batterOut && (safeOnError || droppedFoul)) {
+        errorOuts++;
+        batterUnearned = true;
+        holdRunners = true;
+      } else if (atBat.result_type === "CI") {
+        // Interference isn't the pitcher's doing either, but costs no out
+        batterUnearned = true;
+        holdRunners = true;
+      } else if (!batterOut) {
+        const awarded = getBatterBaseAdvancement(atBat.result_type);
+        batterBase =
+          batterPlay && isErrorPlay(batterPlay) && awarded && awarded !== "OUT"
+            ? baseNumber(awarded)
+            : baseAfter(batterId);
+        if (result.isHit) {
+          forced = () => batterBase ?? 0;
+        } else if (batterBase === 1) {
+          // Forced only with every base behind the runner taken
+          const occupied = new Set(reconstructed.values());
+          forced = (base) => {
+            for (let b = 1; b < base; b++) if (!occupied.has(b)) return 0;
+            return 1;
+          };
+        }
+      }
+    }
+
+    // Move everyone still in the reconstruction. Advances made on an error or
+    // passed ball only count as far as they were forced.
+    for (const [runnerId, base] of reconstructed) {
+      const before = positionsBefore.get(runnerId);
+      if (before === undefined) continue;
+      if (outIds.has(runnerId)) {
+        reconstructed.delete(runnerId);
+        continue;
+      }
+      if (holdRunners) continue;
+      const after = baseAfter(runnerId);
+      const play = runnerPlays.find((p) => p.runner_lineup_id === runnerId);
+      const minimum = forced(base);
+      const advance = play && isErrorPlay(play) ? minimum : Math.max(after - before, minimum);
+      reconstructed.set(runnerId, Math.max(base, Math.min(base + advance, after)));
+    }
+
+    if (event.type === "plate_appearance" && batterId) {
+      const { atBat } = event;
+      // A batter who replaces a runner forced out inherits that runner's pitcher
+      const replaced = [...outIds]
+        .map((id) => runners.get(id))
+        .find((r) => r && r.pitcherId !== atBat.pitcher_lineup_id);
+      const batterOut = outIds.has(batterId);
+      runners.set(batterId, {
+        pitcherId: !batterOut && replaced ? replaced.pitcherId : atBat.pitcher_lineup_id,
+        isUnearned: batterUnearned,
+      });
+      if (batterBase) reconstructed.set(batterId, batterBase);
+    }
+
+    for (const runnerId of scorers) {
+      // Runners the scorebook never saw reach (the extra-inning runner) aren't earned
+      const record = runners.get(runnerId) ?? { pitcherId, isUnearned: true };
+      const play = plays.find(
+        (p) => p.runner_lineup_id === runnerId && (p.run_scored || p.to_base === "H")
+      );
+      const entryErrorOuts = record.pitcherId ? (pitcherErrorOutsAtEntry.get(record.pitcherId) ?? 0) : 0;
+      const baseEarned = !record.isUnearned && reconstructed.get(runnerId) === HOME;
+
+      charges.push({
+        runnerId,
+        pitcherId: record.pitcherId,
+        playId: play?.id ?? null,
+        eventIndex,
+        inning,
+        half,
+        isEarned: baseEarned && outsBefore + (errorOuts - entryErrorOuts) < 3,
+        isTeamEarned: baseEarned && outsBefore + errorOuts < 3,
+      });
+      runners.delete(runnerId);
+      reconstructed.delete(runnerId);
+    }
+
+    for (const id of outIds) {
+      runners.delete(id);
+      reconstructed.delete(id);
+    }
+    state = next;
+  }
+
+  const byPitcher: EarnedRunReport["byPitcher"] = {};
+  for (const charge of charges) {
+    if (!charge.pitcherId) continue;
+    const totals = (byPitcher[charge.pitcherId] ??= { r: 0, er: 0 });
+    totals.r++;
+    if (charge.isEarned) totals.er++;
+  }
+
+  return { charges, byPitcher };
+}
+
+/**
+ * Plays whose stored is_earned_run disagrees with the reconstruction
+ */
+export function getEarnedRunCorrections(
+  report: EarnedRunReport,
+  plays: Play[]
+): { playId: string; isEarned: boolean }[] {
+  const earnedByPlay = new Map(
+    report.charges.filter((c) => c.playId).map((c) => [c.playId as string, c.isEarned])
+  );
+  return plays.flatMap((play) => {
+    const isEarned = earnedByPlay.get(play.id);
+    return isEarned !== undefined && isEarned !== play.is_earned_run
+      ? [{ playId: play.id, isEarned }]
+      : [];
+  });
+}
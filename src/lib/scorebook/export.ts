@@ -4,6 +4,9 @@
 
 import type { FullGameData } from "./db";
 import type { AtBat, GameLineupEntry } from "./types";
+import { computeTeamPitchingStats, formatERA } from "./stats";
+import { computeEarnedRuns } from "./earnedRuns";
+import { computePitchingDecisions, formatDecisions } from "./decisions";
 
 /**
  * Generate CSV content for game data
@@ -77,7 +80,7 @@ export function generateBoxScoreCSV(gameData: FullGameData): string {
   const { game, atBats, plays, homeLineup, awayLineup } = gameData;
 
   // We'll create a simple batting stats CSV
-  const headers = ["team", "batting_order", "player_name", "position", "ab", "r", "h", "rbi", "bb", "k"];
+  const headers = ["team", "batting_order", "player_name", "position", "ab", "r", "h", "rbi", "bb", "k", "sb", "cs"];
 
   const rows: (string | number)[][] = [];
 
@@ -105,6 +108,8 @@ export function generateBoxScoreCSV(gameData: FullGameData): string {
         }
 
         const r = playerPlays.filter((p) => p.run_scored).length;
+        const sb = playerPlays.filter((p) => p.play_type === "stolen_base").length;
+        const cs = playerPlays.filter((p) => p.play_type === "caught_stealing").length;
 
         return [
           teamName,
@@ -117,6 +122,8 @@ export function generateBoxScoreCSV(gameData: FullGameData): string {
           rbi,
           bb,
           k,
+          sb,
+          cs,
         ];
       });
   };
@@ -124,6 +131,28 @@ export function generateBoxScoreCSV(gameData: FullGameData): string {
   rows.push(...getBatterStats(awayLineup, game.away_team_name));
   rows.push(...getBatterStats(homeLineup, game.home_team_name));
 
+  // Pitching lines follow the batting lines as a second table
+  const earnedRuns = computeEarnedRuns(gameData);
+  const decisions = computePitchingDecisions(gameData, earnedRuns);
+  const pitchingHeaders = ["team", "player_name", "ip", "h", "r", "er", "bb", "k", "era", "decision"];
+  const pitchingRows: (string | number)[][] = [];
+  const getPitcherStats = (lineup: GameLineupEntry[], teamName: string) =>
+    computeTeamPitchingStats(atBats, plays, lineup, { pitches: gameData.pitches, earnedRuns, decisions })
+      .pitchers.map((p) => [
+        teamName,
+        p.playerName,
+        p.ipDisplay,
+        p.h,
+        p.r,
+        p.er,
+        p.bb,
+        p.k,
+        formatERA(p.era),
+        formatDecisions(p.decisions),
+      ]);
+  pitchingRows.push(...getPitcherStats(awayLineup, game.away_team_name));
+  pitchingRows.push(...getPitcherStats(homeLineup, game.home_team_name));
+
   const escapeCsv = (val: unknown): string => {
     const str = String(val ?? "");
     if (str.includes(",") || str.includes('"') || str.includes("\n")) {
@@ -132,14 +161,27 @@ export function generateBoxScoreCSV(gameData: FullGameData): string {
     return str;
   };
 
-  return [headers.join(","), ...rows.map((row) => row.map(escapeCsv).join(","))].join("\n");
+  return [
+    headers.join(","),
+    ...rows.map((row) => row.map(escapeCsv).join(",")),
+    "",
+    pitchingHeaders.join(","),
+    ...pitchingRows.map((row) => row.map(escapeCsv).join(",")),
+  ].join("\n");
 }
 
 /**
  * Trigger download of CSV file
  */
 export function downloadCSV(csvText: string, filename: string): void {
-  const blob = new Blob([csvText], { type: "text/csv;charset=utf-8;" });
+  downloadFile(csvText, filename, "text/csv;charset=utf-8;");
+}
+
+/**
+ * Trigger download of any text file
+ */
+export function downloadFile(text: string, filename: string, type = "text/plain;charset=utf-8;"): void {
+  const blob = new Blob([text], { type });
   const url = URL.createObjectURL(blob);
   const link = document.createElement("a");
   link.href = url;
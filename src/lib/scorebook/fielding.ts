@@ -0,0 +1,203 @@
+/**
+ * Fielding credits and stats for the scorebook
+ *
+ * Plays store the positions credited with putouts, assists and errors. Those
+ * positions are turned into players by replaying the game, so a fielder who
+ * came in on a defensive switch gets credit only for the plays made while at
+ * that position.
+ */
+
+import type {
+  AtBat,
+  AtBatResultType,
+  FieldingBoxScore,
+  GameLineupEntry,
+  Play,
+  Position,
+  TeamSide,
+} from "./types";
+import { POSITION_NUMBERS, getFieldingTeam } from "./types";
+import { getOutsFromResult } from "./gameState";
+import {
+  applyGameEvent,
+  buildGameEvents,
+  createInitialGameState,
+  type GameEngineInput,
+} from "./gameEngine";
+
+export type FieldingCredits = {
+  putouts: Position[];
+  assists: Position[];
+  error: Position | null;
+};
+
+const POSITION_BY_NUMBER = Object.fromEntries(
+  Object.entries(POSITION_NUMBERS)
+    .filter(([, n]) => n > 0)
+    .map(([pos, n]) => [String(n), pos as Position])
+) as Record<string, Position>;
+
+function unique(positions: Position[]): Position[] {
+  return [...new Set(positions)];
+}
+
+// ==============================================
+// NOTATION
+// ==============================================
+
+/**
+ * Read putouts, assists and an error out of scorer's notation such as "6-3",
+ * "6-4-3", "F8", "E6" or "2-6". Each comma or space separated chain is one out;
+ * a single chain covering several outs (a 6-4-3 double play) credits a putout
+ * to each of the last fielders in it. Without an out only errors count, so
+ * a hit's location ("8") earns nothing. A strikeout with no notation goes to
+ * the catcher.
+ */
+export function parseFieldingNotation(
+  notation: string | null,
+  resultType: AtBatResultType | null = null,
+  // A fielder's choice retires a runner even though the batter is safe
+  outs: number = resultType === "FC" ? 1 : resultType ? getOutsFromResult(resultType) : 0
+): FieldingCredits {
+  const credits: FieldingCredits = { putouts: [], assists: [], error: null };
+  const text = (notation ?? "").toUpperCase();
+
+  const chains = text
+    .split(/[,\s/]+/)
+    .map((chain) => {
+      const errorMatch = chain.match(/E([1-9])/);
+      // Fielders up to the one who made the error, or the whole chain
+      const before = errorMatch ? chain.slice(0, errorMatch.index) : chain;
+      return {
+        fielders: [...before.matchAll(/[1-9]/g)].map((m) => POSITION_BY_NUMBER[m[0]]),
+        error: errorMatch ? POSITION_BY_NUMBER[errorMatch[1]] : null,
+      };
+    })
+    .filter((chain) => chain.fielders.length > 0 || chain.error);
+
+  if (chains.length === 0) {
+    if ((resultType === "K" || resultType === "KL") && outs > 0) credits.putouts.push("C");
+    return credits;
+  }
+
+  const outChains = chains.filter((chain) => !chain.error).length;
+  for (const { fielders, error } of chains) {
+    if (error) {
+      // Throws that would have made the out still earn assists
+      credits.error ??= error;
+      credits.assists.push(...fielders);
+      continue;
+    }
+    if (outs === 0) continue;
+    const outsInChain = outChains === 1 ? outs : 1;
+    const receivers = fielders.length > 1 ? fielders.slice(1) : fielders;
+    credits.putouts.push(...receivers.slice(-outsInChain));
+    credits.assists.push(...fielders.slice(0, -1));
+  }
+
+  return {
+    putouts: credits.putouts,
+    assists: unique(credits.assists),
+    error: credits.error,
+  };
+}
+
+/**
+ * Credits stored on a play, falling back to the batter's notation for plays
+ * saved before positions were recorded
+ */
+export function getPlayCredits(play: Play, atBat: AtBat | null): FieldingCredits {
+  if (play.putout_positions || play.assist_positions || play.error_position) {
+    return {
+      putouts: play.putout_positions ?? [],
+      assists: play.assist_positions ?? [],
+      error: play.error_position,
+    };
+  }
+  if (atBat && play.from_base === "0") {
+    return parseFieldingNotation(play.fielding_sequence ?? atBat.result_detail, atBat.result_type);
+  }
+  return { putouts: [], assists: [], error: null };
+}
+
+// ==============================================
+// STATS
+// ==============================================
+
+/**
+ * Fielding lines for one team, one row per player per position played
+ */
+export function computeFieldingStats(input: GameEngineInput, side: TeamSide): FieldingBoxScore[] {
+  const lineup = side === "home" ? input.homeLineup : input.awayLineup;
+  const entries = new Map<string, GameLineupEntry>(lineup.map((e) => [e.id, e]));
+  const lines = new Map<string, FieldingBoxScore>();
+
+  const getLine = (lineupId: string, position: Position) => {
+    const key = `${lineupId}:${position}`;
+    let line = lines.get(key);
+    if (!line) {
+      const entry = entries.get(lineupId);
+      line = {
+        lineupId,
+        playerName: entry?.player_name ?? "Unknown",
+        position,
+        po: 0,
+        a: 0,
+        e: 0,
+        dp: 0,
+        tc: 0,
+        fpct: 0,
+      };
+      lines.set(key, line);
+    }
+    return line;
+  };
+
+  let state = createInitialGameState(input);
+  for (const event of buildGameEvents(input)) {
+    if (event.type === "plate_appearance" || event.type === "runner_play") {
+      const half = event.type === "plate_appearance" ? event.atBat.half : (event.play.half ?? state.game.current_half);
+      if (getFieldingTeam(half) === side) {
+        const atBat = event.type === "plate_appearance" ? event.atBat : null;
+        const plays = event.type === "plate_appearance" ? event.plays : [event.play];
+        const defense = { ...state.defense[side] };
+        if (atBat) defense.P = atBat.pitcher_lineup_id;
+
+        const involved = new Set<string>();
+        for (const play of plays) {
+          const { putouts, assists, error } = getPlayCredits(play, atBat);
+          const credit = (position: Position, stat: "po" | "a" | "e") => {
+            const lineupId = defense[position];
+            if (!lineupId) return;
+            getLine(lineupId, position)[stat]++;
+            if (stat !== "e") involved.add(`${lineupId}:${position}`);
+          };
+          putouts.forEach((pos) => credit(pos, "po"));
+          assists.forEach((pos) => credit(pos, "a"));
+          if (error) credit(error, "e");
+        }
+
+        // Double plays: every fielder with a putout or assist takes part
+        const outs = plays.filter((p) => p.is_out).length;
+        const isDoublePlay = atBat?.result_type === "DP" || atBat?.result_type === "TP" || outs >= 2;
+        if (isDoublePlay) {
+          for (const key of involved) {
+            const line = lines.get(key);
+            if (line) line.dp++;
+          }
+        }
+      }
+    }
+    state = applyGameEvent(state, event);
+  }
+
+  return [...lines.values()]
+    .map((line) => {
+      const tc = line.po + line.a + line.e;
+      return { ...line, tc, fpct: tc > 0 ? (line.po + line.a) / tc : 0 };
+    })
+    .sort(
+      (a, b) =>
+        POSITION_NUMBERS[a.position] - POSITION_NUMBERS[b.position] || a.playerName.localeCompare(b.playerName)
+    );
+}
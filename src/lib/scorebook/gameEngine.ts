@@ -0,0 +1,742 @@
+/**
+ * Event-sourced game engine for the scorebook
+ *
+ * Every piece of derived game state (bases, outs, batter due up, score,
+ * who is playing where) comes from replaying an ordered stream of events
+ * through a single reducer. Lineup rows keep the state a player entered the
+ * game with; Substitution rows are the history of changes after that.
+ */
+
+import type {
+  AtBatResultType,
+  Game,
+  GameLineupEntry,
+  GameState,
+  AtBat,
+  Play,
+  Substitution,
+  InningSummary,
+  BaseState,
+  Base,
+  BaseDestination,
+  HalfInning,
+  TeamSide,
+  Position,
+} from "./types";
+import { getBattingTeam, getFieldingTeam } from "./types";
+import type { CurrentGameState } from "./gameState";
+import { getOutsFromResult, getBatterBaseAdvancement, getNextHalfInning } from "./gameState";
+
+// ==============================================
+// EVENTS
+// ==============================================
+
+export type GameEvent =
+  | { type: "plate_appearance"; atBat: AtBat; plays: Play[] }
+  | { type: "runner_play"; play: Play }
+  | { type: "substitution"; substitution: Substitution }
+  | { type: "inning_transition"; inning: number; half: HalfInning };
+
+export type GameEngineState = GameState & {
+  battingOrder: Record<TeamSide, (string | null)[]>;
+  nextBatterIndex: Record<TeamSide, number>;
+  defense: Record<TeamSide, Partial<Record<Position, string>>>;
+  eventCount: number;
+};
+
+export type GameEngineInput = {
+  game: Game;
+  homeLineup: GameLineupEntry[];
+  awayLineup: GameLineupEntry[];
+  atBats: AtBat[];
+  plays: Play[];
+  substitutions: Substitution[];
+  inningSummaries?: InningSummary[];
+};
+
+export type RunnerMovement = {
+  runnerId: string;
+  from: Base;
+  to: BaseDestination;
+};
+
+// Plays that happen between pitches rather than as a result of the batter's PA
+export const RUNNER_EVENT_TYPES = [
+  "stolen_base",
+  "caught_stealing",
+  "wild_pitch",
+  "passed_ball",
+  "balk",
+  "pickoff",
+] as const satisfies readonly Play["play_type"][];
+
+export type RunnerEventType = (typeof RUNNER_EVENT_TYPES)[number];
+
+const BETWEEN_PITCH_PLAY_TYPES = new Set<Play["play_type"]>(RUNNER_EVENT_TYPES);
+
+const BASE_KEYS = { "1": "first", "2": "second", "3": "third" } as const;
+
+// ==============================================
+// HELPERS
+// ==============================================
+
+export function halfInningOrdinal(inning: number, half: HalfInning): number {
+  return inning * 2 + (half === "bottom" ? 1 : 0);
+}
+
+export function isBetweenPitchPlay(play: Pick<Play, "play_type" | "from_base">): boolean {
+  return play.from_base !== "0" && BETWEEN_PITCH_PLAY_TYPES.has(play.play_type);
+}
+
+function findEntry(state: GameEngineState, lineupId: string | null): GameLineupEntry | null {
+  if (!lineupId) return null;
+  return (
+    state.homeLineup.find((l) => l.id === lineupId) ??
+    state.awayLineup.find((l) => l.id === lineupId) ??
+    null
+  );
+}
+
+function getRunnerOn(bases: BaseState, base: Base | null): GameLineupEntry | null {
+  if (!base || base === "0") return null;
+  return bases[BASE_KEYS[base]];
+}
+
+function setRunnerOn(bases: BaseState, base: BaseDestination | Base | null, runner: GameLineupEntry | null) {
+  if (base === "1" || base === "2" || base === "3") {
+    bases[BASE_KEYS[base]] = runner;
+  }
+}
+
+function findRunnerBase(bases: BaseState, runnerId: string): Base | null {
+  if (bases.first?.id === runnerId) return "1";
+  if (bases.second?.id === runnerId) return "2";
+  if (bases.third?.id === runnerId) return "3";
+  return null;
+}
+
+// Only the runners standing on `base` or beyond it
+function runnersFrom(bases: BaseState, base: BaseDestination): BaseState {
+  const from = base === "H" || base === "OUT" ? 4 : Number(base);
+  return {
+    first: from <= 1 ? bases.first : null,
+    second: from <= 2 ? bases.second : null,
+    third: from <= 3 ? bases.third : null,
+  };
+}
+
+function withRun(state: GameEngineState, battingTeam: TeamSide): GameEngineState {
+  const game = { ...state.game };
+  if (battingTeam === "home") game.home_final_score += 1;
+  else game.away_final_score += 1;
+  return { ...state, game };
+}
+
+/**
+ * Work out where runners must go so the batter can take their base.
+ * Runners only move when forced: a trailing runner can never pass or share a
+ * base with the runner ahead of them. A home run clears the bases.
+ */
+export function getImplicitRunnerMovements(
+  bases: BaseState,
+  batterDestination: BaseDestination | null
+): RunnerMovement[] {
+  if (!batterDestination || batterDestination === "OUT") return [];
+
+  const movements: RunnerMovement[] = [];
+  const runners: { base: Base; runner: GameLineupEntry }[] = [];
+  if (bases.first) runners.push({ base: "1", runner: bases.first });
+  if (bases.second) runners.push({ base: "2", runner: bases.second });
+  if (bases.third) runners.push({ base: "3", runner: bases.third });
+
+  // Walk from the batter outward; `floor` is the base held by the runner behind
+  let floor = batterDestination === "H" ? 4 : Number(batterDestination);
+  for (const { base, runner } of runners) {
+    const current = Number(base);
+    if (current > floor) {
+      floor = current;
+      continue;
+    }
+    const next = floor + 1;
+    movements.push({
+      runnerId: runner.id,
+      from: base,
+      to: next >= 4 ? "H" : (String(next) as BaseDestination),
+    });
+    floor = Math.min(next, 4);
+  }
+
+  // Lead runner first so nobody is overwritten while the bases shuffle
+  return movements.reverse();
+}
+
+// Runners a batted ball retires besides the batter
+const RUNNER_OUTS: Partial<Record<AtBatResultType, number>> = { FC: 1, DP: 1, TP: 2 };
+
+/**
+ * Where runners go on the batter's result. Runners are forced along as in
+ * getImplicitRunnerMovements, except that a fielder's choice retires one
+ * runner and a double or triple play one or two besides the batter: the
+ * runner forced from first, then the next forced runner, or the lead runner
+ * when nobody is forced. Nobody else moves on a play that ends the inning.
+ * Returns movements lead runner first.
+ */
+export function getBattedBallRunnerMovements(
+  bases: BaseState,
+  resultType: AtBatResultType,
+  outs: number
+): RunnerMovement[] {
+  const batterDestination = getBatterBaseAdvancement(resultType);
+  const runnerOuts = RUNNER_OUTS[resultType] ?? 0;
+  if (runnerOuts === 0) return getImplicitRunnerMovements(bases, batterDestination);
+
+  const leadFirst: { base: Base; runner: GameLineupEntry }[] = [];
+  if (bases.third) leadFirst.push({ base: "3", runner: bases.third });
+  if (bases.second) leadFirst.push({ base: "2", runner: bases.second });
+  if (bases.first) leadFirst.push({ base: "1", runner: bases.first });
+
+  // Forced as if the batter were running to first
+  const forced = getImplicitRunnerMovements(bases, "1");
+  const outIds = new Set(
+    [...[...forced].reverse().map((m) => m.runnerId), ...leadFirst.map((r) => r.runner.id)].slice(0, runnerOuts)
+  );
+  const batterOut = batterDestination === "OUT" ? 1 : 0;
+  const endsInning = outs + outIds.size + batterOut >= 3;
+
+  return leadFirst.flatMap(({ base, runner }): RunnerMovement[] => {
+    if (outIds.has(runner.id)) return [{ runnerId: runner.id, from: base, to: "OUT" }];
+    // With the batter out nobody is forced; on a fielder's choice the rest move up
+    const move = batterOut || endsInning ? undefined : forced.find((m) => m.runnerId === runner.id);
+    return move ? [move] : [];
+  });
+}
+
+/**
+ * Best guess at what a runner event did, for the scorer to adjust.
+ * Balks, wild pitches and passed balls move everyone up a base; steals,
+ * caught stealing and pickoffs involve the trailing runner with an open base
+ * ahead of them. Returns movements lead runner first.
+ */
+export function getDefaultRunnerEventMovements(
+  bases: BaseState,
+  eventType: RunnerEventType
+): RunnerMovement[] {
+  const runners: { base: Base; runner: GameLineupEntry }[] = [];
+  if (bases.third) runners.push({ base: "3", runner: bases.third });
+  if (bases.second) runners.push({ base: "2", runner: bases.second });
+  if (bases.first) runners.push({ base: "1", runner: bases.first });
+
+  const advance = (base: Base): BaseDestination =>
+    base === "3" ? "H" : (String(Number(base) + 1) as BaseDestination);
+
+  if (eventType === "balk" || eventType === "wild_pitch" || eventType === "passed_ball") {
+    return runners.map(({ base, runner }) => ({ runnerId: runner.id, from: base, to: advance(base) }));
+  }
+
+  const open = (destination: BaseDestination) =>
+    destination === "H" || !bases[BASE_KEYS[destination as "1" | "2" | "3"]];
+  const target =
+    [...runners].reverse().find(({ base }) => base !== "3" && open(advance(base))) ?? runners[0];
+  if (!target) return [];
+
+  return [
+    {
+      runnerId: target.runner.id,
+      from: target.base,
+      to: eventType === "stolen_base" ? advance(target.base) : "OUT",
+    },
+  ];
+}
+
+/**
+ * The play type stored for one runner in a runner event. On steals and
+ * pickoffs only the runner who is put out is charged with the event; anyone
+ * else moving up did so on the throw.
+ */
+export function getRunnerEventPlayType(
+  eventType: RunnerEventType,
+  destination: BaseDestination
+): Play["play_type"] {
+  const isOut = destination === "OUT";
+  switch (eventType) {
+    case "stolen_base":
+      return isOut ? "caught_stealing" : "stolen_base";
+    case "caught_stealing":
+    case "pickoff":
+      return isOut ? eventType : "advance";
+    default:
+      return eventType;
+  }
+}
+
+// ==============================================
+// INITIAL STATE
+// ==============================================
+
+export function createInitialGameState(input: GameEngineInput): GameEngineState {
+  const incomingIds = new Set(input.substitutions.map((s) => s.incoming_lineup_id));
+
+  // Starters are everyone who didn't enter through a substitution
+  const prepareLineup = (lineup: GameLineupEntry[]) =>
+    lineup.map((entry) => ({ ...entry, is_active: !incomingIds.has(entry.id) }));
+
+  const homeLineup = prepareLineup(input.homeLineup);
+  const awayLineup = prepareLineup(input.awayLineup);
+
+  const buildOrder = (lineup: GameLineupEntry[]) => {
+    const order: (string | null)[] = Array(9).fill(null);
+    for (const entry of lineup) {
+      if (!entry.is_active || entry.batting_order === null) continue;
+      if (entry.batting_order < 1 || entry.batting_order > 9) continue;
+      order[entry.batting_order - 1] ??= entry.id;
+    }
+    return order;
+  };
+
+  const buildDefense = (lineup: GameLineupEntry[]) => {
+    const defense: Partial<Record<Position, string>> = {};
+    for (const entry of lineup) {
+      if (!entry.is_active || !entry.defensive_position) continue;
+      defense[entry.defensive_position] ??= entry.id;
+    }
+    return defense;
+  };
+
+  return {
+    game: {
+      ...input.game,
+      current_inning: 1,
+      current_half: "top",
+      home_final_score: 0,
+      away_final_score: 0,
+    },
+    homeLineup,
+    awayLineup,
+    atBats: [],
+    plays: [],
+    substitutions: [],
+    inningSummaries: input.inningSummaries ?? [],
+    currentBaseState: { first: null, second: null, third: null },
+    currentOuts: 0,
+    currentBatterIndex: 0,
+    battingOrder: { home: buildOrder(homeLineup), away: buildOrder(awayLineup) },
+    nextBatterIndex: { home: 0, away: 0 },
+    defense: { home: buildDefense(homeLineup), away: buildDefense(awayLineup) },
+    eventCount: 0,
+  };
+}
+
+// ==============================================
+// REDUCER
+// ==============================================
+
+function moveToHalfInning(state: GameEngineState, inning: number, half: HalfInning): GameEngineState {
+  if (state.game.current_inning === inning && state.game.current_half === half) {
+    return state;
+  }
+  const battingTeam = getBattingTeam(half);
+  return {
+    ...state,
+    game: { ...state.game, current_inning: inning, current_half: half },
+    currentBaseState: { first: null, second: null, third: null },
+    currentOuts: 0,
+    currentBatterIndex: state.nextBatterIndex[battingTeam],
+  };
+}
+
+function completeHalfInningIfNeeded(state: GameEngineState): GameEngineState {
+  if (state.currentOuts < 3) return state;
+  const { current_inning, current_half } = state.game;
+  return current_half === "top"
+    ? moveToHalfInning(state, current_inning, "bottom")
+    : moveToHalfInning(state, current_inning + 1, "top");
+}
+
+/**
+ * Apply a single runner play to the bases, outs and score.
+ * The batter (from_base "0") is placed by the caller.
+ */
+function applyRunnerPlay(state: GameEngineState, play: Play): GameEngineState {
+  const battingTeam = getBattingTeam(state.game.current_half);
+  const bases = { ...state.currentBaseState };
+  const runner = findEntry(state, play.runner_lineup_id) ?? getRunnerOn(bases, play.from_base);
+  const fromBase = play.from_base ?? (runner ? findRunnerBase(bases, runner.id) : null);
+
+  setRunnerOn(bases, fromBase, null);
+
+  let next: GameEngineState = { ...state, currentBaseState: bases };
+  if (play.is_out) {
+    next.currentOuts += 1;
+  } else if (play.run_scored || play.to_base === "H") {
+    next = withRun(next, battingTeam);
+  } else if (play.to_base) {
+    // Anyone still standing on the destination is pushed ahead of this runner
+    for (const movement of getImplicitRunnerMovements(runnersFrom(bases, play.to_base), play.to_base)) {
+      next = applyMovement(next, movement);
+    }
+    setRunnerOn(next.currentBaseState, play.to_base, runner);
+  }
+
+  return next;
+}
+
+function applyMovement(state: GameEngineState, movement: RunnerMovement): GameEngineState {
+  const battingTeam = getBattingTeam(state.game.current_half);
+  const bases = { ...state.currentBaseState };
+  const runner = getRunnerOn(bases, movement.from);
+  setRunnerOn(bases, movement.from, null);
+
+  let next: GameEngineState = { ...state, currentBaseState: bases };
+  if (movement.to === "H") {
+    next = withRun(next, battingTeam);
+  } else if (movement.to === "OUT") {
+    next.currentOuts += 1;
+  } else {
+    setRunnerOn(bases, movement.to, runner);
+  }
+  return next;
+}
+
+function applyPlateAppearance(state: GameEngineState, atBat: AtBat, plays: Play[]): GameEngineState {
+  let next: GameEngineState = { ...moveToHalfInning(state, atBat.inning, atBat.half) };
+  const battingTeam = getBattingTeam(atBat.half);
+  const batter = findEntry(next, atBat.batter_lineup_id);
+  const outsBefore = next.currentOuts;
+
+  const sorted = [...plays].sort((a, b) => a.play_sequence - b.play_sequence);
+  const batterPlay = sorted.find(
+    (p) => p.from_base === "0" || (p.runner_lineup_id === atBat.batter_lineup_id && p.from_base === null)
+  );
+
+  for (const play of sorted) {
+    if (play === batterPlay) continue;
+    next = applyRunnerPlay(next, play);
+  }
+
+  // Place the batter, forcing any runners the plays didn't already move
+  const destination = batterPlay
+    ? batterPlay.is_out
+      ? "OUT"
+      : batterPlay.run_scored
+        ? "H"
+        : batterPlay.to_base
+    : getBatterBaseAdvancement(atBat.result_type);
+
+  for (const movement of getImplicitRunnerMovements(next.currentBaseState, destination)) {
+    next = applyMovement(next, movement);
+  }
+
+  if (destination === "OUT") {
+    next.currentOuts += 1;
+  } else if (destination === "H") {
+    next = withRun(next, battingTeam);
+  } else if (destination) {
+    next.currentBaseState = { ...next.currentBaseState };
+    setRunnerOn(next.currentBaseState, destination, batter);
+  }
+
+  // Double and triple plays recorded without every out still count every out
+  if (atBat.result_type === "DP" || atBat.result_type === "TP") {
+    const recordedOuts = next.currentOuts - outsBefore;
+    next.currentOuts += Math.max(0, getOutsFromResult(atBat.result_type) - recordedOuts);
+  }
+
+  // Move the batting order along from the batter who just hit
+  const order = next.battingOrder[battingTeam];
+  const slot = order.indexOf(atBat.batter_lineup_id);
+  const batterIndex =
+    slot >= 0
+      ? slot
+      : batter?.batting_order
+        ? batter.batting_order - 1
+        : next.nextBatterIndex[battingTeam];
+  const nextBatterIndex = { ...next.nextBatterIndex, [battingTeam]: (batterIndex + 1) % 9 };
+
+  next = {
+    ...next,
+    atBats: [...next.atBats, atBat],
+    plays: [...next.plays, ...sorted],
+    nextBatterIndex,
+    currentBatterIndex: nextBatterIndex[battingTeam],
+  };
+
+  return completeHalfInningIfNeeded(next);
+}
+
+function applySubstitution(state: GameEngineState, sub: Substitution): GameEngineState {
+  const side = sub.team_side;
+  const order = [...state.battingOrder[side]];
+  const defense = { ...state.defense[side] };
+  const bases = { ...state.currentBaseState };
+
+  const positionOf = (lineupId: string | null) =>
+    (Object.keys(defense) as Position[]).find((pos) => defense[pos] === lineupId) ?? null;
+  const clearPosition = (lineupId: string | null) => {
+    const pos = positionOf(lineupId);
+    if (pos) delete defense[pos];
+  };
+
+  const outgoingId =
+    sub.substitution_type === "pitching_change"
+      ? (sub.outgoing_lineup_id ?? defense.P ?? null)
+      : sub.outgoing_lineup_id;
+  const incomingId = sub.incoming_lineup_id;
+
+  let incomingPosition: Position | null = null;
+  let incomingSlot: number | null = null;
+
+  if (sub.substitution_type === "position_change") {
+    // The same player moves; incoming and outgoing refer to one lineup row
+    const movingId = outgoingId ?? incomingId;
+    clearPosition(movingId);
+    if (sub.new_position) defense[sub.new_position] = movingId;
+  } else {
+    const outgoingPosition = positionOf(outgoingId);
+    const outgoingSlot = outgoingId ? order.indexOf(outgoingId) : -1;
+
+    incomingPosition =
+      sub.new_position ?? (sub.substitution_type === "pitching_change" ? "P" : outgoingPosition);
+    incomingSlot = sub.new_batting_order
+      ? sub.new_batting_order - 1
+      : outgoingSlot >= 0
+        ? outgoingSlot
+        : null;
+
+    clearPosition(outgoingId);
+    if (outgoingSlot >= 0) order[outgoingSlot] = null;
+    if (incomingPosition) {
+      clearPosition(incomingId);
+      defense[incomingPosition] = incomingId;
+    }
+    if (incomingSlot !== null) order[incomingSlot] = incomingId;
+
+    // A pinch runner takes the base of the runner they replace
+    if (outgoingId) {
+      const base = findRunnerBase(bases, outgoingId);
+      if (base) setRunnerOn(bases, base, findEntry(state, incomingId));
+    }
+  }
+
+  const updateLineup = (lineup: GameLineupEntry[]) =>
+    lineup.map((entry) => {
+      if (sub.substitution_type === "position_change") {
+        return entry.id === (outgoingId ?? incomingId)
+          ? { ...entry, defensive_position: sub.new_position ?? entry.defensive_position }
+          : entry;
+      }
+      if (entry.id === incomingId) {
+        return {
+          ...entry,
+          is_active: true,
+          defensive_position: incomingPosition ?? entry.defensive_position,
+          batting_order: incomingSlot !== null ? incomingSlot + 1 : entry.batting_order,
+        };
+      }
+      if (entry.id === outgoingId) {
+        return { ...entry, is_active: false };
+      }
+      return entry;
+    });
+
+  return {
+    ...state,
+    homeLineup: side === "home" ? updateLineup(state.homeLineup) : state.homeLineup,
+    awayLineup: side === "away" ? updateLineup(state.awayLineup) : state.awayLineup,
+    substitutions: [...state.substitutions, sub],
+    battingOrder: { ...state.battingOrder, [side]: order },
+    defense: { ...state.defense, [side]: defense },
+    currentBaseState: bases,
+  };
+}
+
+/**
+ * The single reducer for game state. Pure: never mutates `state`.
+ */
+export function applyGameEvent(state: GameEngineState, event: GameEvent): GameEngineState {
+  let next: GameEngineState;
+
+  switch (event.type) {
+    case "plate_appearance":
+      next = applyPlateAppearance(state, event.atBat, event.plays);
+      break;
+    case "runner_play": {
+      // Events recorded between pitches carry their own half-inning
+      const { inning, half } = event.play;
+      const moved =
+        inning !== null && half !== null &&
+        halfInningOrdinal(inning, half) > halfInningOrdinal(state.game.current_inning, state.game.current_half)
+          ? moveToHalfInning(state, inning, half)
+          : state;
+      next = completeHalfInningIfNeeded({
+        ...applyRunnerPlay(moved, event.play),
+        plays: [...state.plays, event.play],
+      });
+      break;
+    }
+    case "substitution":
+      next = applySubstitution(state, event.substitution);
+      break;
+    case "inning_transition": {
+      // Only ever moves the game forward; at-bats carry their own inning
+      const target = halfInningOrdinal(event.inning, event.half);
+      const current = halfInningOrdinal(state.game.current_inning, state.game.current_half);
+      next = target > current ? moveToHalfInning(state, event.inning, event.half) : state;
+      break;
+    }
+  }
+
+  return { ...next, eventCount: state.eventCount + 1 };
+}
+
+// ==============================================
+// EVENT STREAM
+// ==============================================
+
+/**
+ * Build the ordered event stream for a game from its stored rows
+ */
+export function buildGameEvents(input: GameEngineInput): GameEvent[] {
+  type Keyed = { key: [number, number, number, string]; event: GameEvent };
+  const keyed: Keyed[] = [];
+
+  for (const atBat of input.atBats) {
+    const ordinal = halfInningOrdinal(atBat.inning, atBat.half);
+    const atBatPlays = input.plays.filter((p) => p.at_bat_id === atBat.id);
+
+    // Steals, wild pitches and the like happened while this batter was up
+    const runnerPlays = atBatPlays
+      .filter(isBetweenPitchPlay)
+      .sort((a, b) => a.play_sequence - b.play_sequence);
+    runnerPlays.forEach((play) => {
+      keyed.push({
+        key: [ordinal, atBat.batter_number, 1, `${atBat.created_at}:${play.play_sequence}`],
+        event: { type: "runner_play", play },
+      });
+    });
+
+    keyed.push({
+      key: [ordinal, atBat.batter_number, 2, atBat.created_at],
+      event: {
+        type: "plate_appearance",
+        atBat,
+        plays: atBatPlays.filter((p) => !isBetweenPitchPlay(p)),
+      },
+    });
+  }
+
+  // Runner events recorded on their own, before the batter's at-bat existed
+  for (const play of input.plays) {
+    if (play.at_bat_id || play.inning === null || play.half === null) continue;
+    keyed.push({
+      key: [
+        halfInningOrdinal(play.inning, play.half),
+        play.batter_number ?? 0,
+        1,
+        `${play.created_at}:${play.play_sequence}`,
+      ],
+      event: { type: "runner_play", play },
+    });
+  }
+
+  // Substitutions and runner events in the same plate appearance go in the order they were made
+  for (const sub of input.substitutions) {
+    keyed.push({
+      key: [halfInningOrdinal(sub.inning, sub.half), sub.batter_number ?? 0, 1, sub.created_at],
+      event: { type: "substitution", substitution: sub },
+    });
+  }
+
+  // A half-inning with a summary is over, including one the scorer ended early
+  for (const summary of input.inningSummaries ?? []) {
+    keyed.push({
+      key: [halfInningOrdinal(summary.inning, summary.half), Number.MAX_SAFE_INTEGER, 3, ""],
+      event: { type: "inning_transition", ...getNextHalfInning(summary.inning, summary.half) },
+    });
+  }
+
+  keyed.sort((a, b) => {
+    for (let i = 0; i < 3; i++) {
+      const diff = (a.key[i] as number) - (b.key[i] as number);
+      if (diff !== 0) return diff;
+    }
+    return a.key[3].localeCompare(b.key[3]);
+  });
+
+  const events = keyed.map((k) => k.event);
+
+  // The stored game position records any manual advance past the last play
+  events.push({
+    type: "inning_transition",
+    inning: input.game.current_inning,
+    half: input.game.current_half,
+  });
+
+  return events;
+}
+
+/**
+ * Replay events from the start of the game, returning the state after each one
+ */
+export function replayGameEvents(input: GameEngineInput, events: GameEvent[]): GameEngineState[] {
+  const snapshots: GameEngineState[] = [];
+  let state = createInitialGameState(input);
+  for (const event of events) {
+    state = applyGameEvent(state, event);
+    snapshots.push(state);
+  }
+  return snapshots;
+}
+
+/**
+ * Rebuild the game state as of any point in the event stream.
+ * `eventCount` of 0 is the state before the first pitch.
+ */
+export function getGameStateAt(input: GameEngineInput, eventCount?: number): GameEngineState {
+  const events = buildGameEvents(input);
+  const limit = eventCount ?? events.length;
+  return events.slice(0, limit).reduce(applyGameEvent, createInitialGameState(input));
+}
+
+// ==============================================
+// SNAPSHOT ACCESSORS
+// ==============================================
+
+export function getCurrentBatter(state: GameEngineState): GameLineupEntry | null {
+  const battingTeam = getBattingTeam(state.game.current_half);
+  const lineupId = state.battingOrder[battingTeam][state.nextBatterIndex[battingTeam]] ?? null;
+  return findEntry(state, lineupId);
+}
+
+export function getDefensivePlayer(
+  state: GameEngineState,
+  side: TeamSide,
+  position: Position
+): GameLineupEntry | null {
+  return findEntry(state, state.defense[side][position] ?? null);
+}
+
+export function getCurrentBattingOrder(state: GameEngineState, side: TeamSide): (GameLineupEntry | null)[] {
+  return state.battingOrder[side].map((id) => findEntry(state, id));
+}
+
+export function toCurrentGameState(state: GameEngineState): CurrentGameState {
+  const half = state.game.current_half;
+  return {
+    inning: state.game.current_inning,
+    half,
+    outs: state.currentOuts,
+    bases: state.currentBaseState,
+    battingTeam: getBattingTeam(half),
+    fieldingTeam: getFieldingTeam(half),
+    currentBatterIndex: state.currentBatterIndex,
+    homeScore: state.game.home_final_score,
+    awayScore: state.game.away_final_score,
+  };
+}
+
+/**
+ * Get the full current game state
+ */
+export function getCurrentGameState(input: GameEngineInput): CurrentGameState {
+  return toCurrentGameState(getGameStateAt(input));
+}
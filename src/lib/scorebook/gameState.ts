@@ -13,9 +13,9 @@ import type {
   HalfInning,
   TeamSide,
   AtBatResultType,
-  AT_BAT_RESULTS,
+  PitchResult,
 } from "./types";
-import { getBattingTeam, getFieldingTeam } from "./types";
+import { PITCH_RESULTS } from "./types";
 
 export type GameState = {
   game: Game;
@@ -76,161 +76,6 @@ export function getCurrentPitcher(lineup: GameLineupEntry[]): GameLineupEntry |
   return lineup.find((entry) => entry.is_active && entry.defensive_position === "P") ?? null;
 }
 
-/**
- * Calculate base state from at-bats and plays in current half-inning
- */
-export function calculateBaseState(
-  atBats: AtBat[],
-  plays: Play[],
-  inning: number,
-  half: HalfInning,
-  lineup: GameLineupEntry[]
-): BaseState {
-  const baseState: BaseState = { first: null, second: null, third: null };
-
-  // Get all at-bats in this half inning
-  const inningAtBats = atBats
-    .filter((ab) => ab.inning === inning && ab.half === half)
-    .sort((a, b) => a.batter_number - b.batter_number);
-
-  // Process each at-bat and its plays to determine current base state
-  for (const atBat of inningAtBats) {
-    const atBatPlays = plays
-      .filter((p) => p.at_bat_id === atBat.id)
-      .sort((a, b) => a.play_sequence - b.play_sequence);
-
-    // Process plays to update base state
-    for (const play of atBatPlays) {
-      if (play.is_out) {
-        // Remove runner from base if they were out
-        if (play.from_base === "1") baseState.first = null;
-        if (play.from_base === "2") baseState.second = null;
-        if (play.from_base === "3") baseState.third = null;
-      } else if (play.run_scored) {
-        // Runner scored, remove from base
-        if (play.from_base === "1") baseState.first = null;
-        if (play.from_base === "2") baseState.second = null;
-        if (play.from_base === "3") baseState.third = null;
-      } else if (play.to_base && play.runner_lineup_id) {
-        // Runner advanced
-        const runner = lineup.find((l) => l.id === play.runner_lineup_id) ?? null;
-        if (play.from_base === "1") baseState.first = null;
-        if (play.from_base === "2") baseState.second = null;
-        if (play.from_base === "3") baseState.third = null;
-
-        if (play.to_base === "1") baseState.first = runner;
-        if (play.to_base === "2") baseState.second = runner;
-        if (play.to_base === "3") baseState.third = runner;
-      }
-    }
-  }
-
-  return baseState;
-}
-
-/**
- * Calculate current outs in the half inning
- */
-export function calculateOuts(atBats: AtBat[], plays: Play[], inning: number, half: HalfInning): number {
-  const inningPlays = plays.filter((p) => {
-    const atBat = atBats.find((ab) => ab.id === p.at_bat_id);
-    return atBat && atBat.inning === inning && atBat.half === half;
-  });
-
-  return inningPlays.filter((p) => p.is_out).length;
-}
-
-/**
- * Calculate the next batter index (0-8)
- */
-export function calculateNextBatterIndex(
-  atBats: AtBat[],
-  inning: number,
-  half: HalfInning,
-  teamSide: TeamSide
-): number {
-  // Get all at-bats for this team in the game so far
-  const teamAtBats = atBats.filter((ab) => {
-    // Determine which team was batting
-    const battingTeam = getBattingTeam(ab.half);
-    return battingTeam === teamSide;
-  });
-
-  if (teamAtBats.length === 0) return 0;
-
-  // Find the last at-bat and return the next batting order position
-  const lastAtBat = teamAtBats[teamAtBats.length - 1];
-  // Get the lineup entry to find their batting order
-  // The batter_number in at-bat is the sequence in the inning, not the batting order
-  // We need to track which lineup spot batted last
-
-  // Count total plate appearances for this team
-  const totalPA = teamAtBats.length;
-  // Batting order is 1-9, index is 0-8
-  return totalPA % 9;
-}
-
-/**
- * Calculate scores from plays
- */
-export function calculateScores(
-  atBats: AtBat[],
-  plays: Play[]
-): { homeScore: number; awayScore: number } {
-  let homeScore = 0;
-  let awayScore = 0;
-
-  for (const play of plays) {
-    if (play.run_scored) {
-      const atBat = atBats.find((ab) => ab.id === play.at_bat_id);
-      if (atBat) {
-        const battingTeam = getBattingTeam(atBat.half);
-        if (battingTeam === "home") {
-          homeScore++;
-        } else {
-          awayScore++;
-        }
-      }
-    }
-  }
-
-  return { homeScore, awayScore };
-}
-
-/**
- * Get the full current game state
- */
-export function getCurrentGameState(
-  game: Game,
-  homeLineup: GameLineupEntry[],
-  awayLineup: GameLineupEntry[],
-  atBats: AtBat[],
-  plays: Play[]
-): CurrentGameState {
-  const inning = game.current_inning;
-  const half = game.current_half;
-  const battingTeam = getBattingTeam(half);
-  const fieldingTeam = getFieldingTeam(half);
-  const battingLineup = battingTeam === "home" ? homeLineup : awayLineup;
-
-  const outs = calculateOuts(atBats, plays, inning, half);
-  const bases = calculateBaseState(atBats, plays, inning, half, battingLineup);
-  const currentBatterIndex = calculateNextBatterIndex(atBats, inning, half, battingTeam);
-  const { homeScore, awayScore } = calculateScores(atBats, plays);
-
-  return {
-    inning,
-    half,
-    outs,
-    bases,
-    battingTeam,
-    fieldingTeam,
-    currentBatterIndex,
-    homeScore,
-    awayScore,
-  };
-}
-
 /**
  * Determine if the half-inning should end (3 outs)
  */
@@ -288,41 +133,6 @@ export function getOutsFromResult(resultType: AtBatResultType): number {
   return 1;
 }
 
-/**
- * Calculate what inning/half the game should be in based on at-bats and plays
- * This is useful after deleting an at-bat to recalculate the correct game state
- */
-export function calculateCorrectInningState(
-  atBats: AtBat[],
-  plays: Play[]
-): { inning: number; half: HalfInning } {
-  if (atBats.length === 0) {
-    return { inning: 1, half: "top" };
-  }
-
-  // Find the latest at-bat by inning, half, and batter number
-  const sortedAtBats = [...atBats].sort((a, b) => {
-    if (a.inning !== b.inning) return b.inning - a.inning;
-    if (a.half !== b.half) return a.half === "bottom" ? -1 : 1;
-    return b.batter_number - a.batter_number;
-  });
-
-  const latestAtBat = sortedAtBats[0];
-  const currentInning = latestAtBat.inning;
-  const currentHalf = latestAtBat.half;
-
-  // Calculate outs in this half-inning
-  const outs = calculateOuts(atBats, plays, currentInning, currentHalf);
-
-  // If 3+ outs, we should be in the next half-inning
-  if (outs >= 3) {
-    return getNextHalfInning(currentInning, currentHalf);
-  }
-
-  // Otherwise stay in current half-inning
-  return { inning: currentInning, half: currentHalf };
-}
-
 /**
  * Get base advancement for batter based on result
  */
@@ -358,3 +168,37 @@ export function getBatterBaseAdvancement(resultType: AtBatResultType): "1" | "2"
       return null;
   }
 }
+
+/**
+ * Advance the count by one pitch. `outcome` is set when the pitch ends the
+ * plate appearance: a walk, strikeout or HBP, or "in_play" when the scorer
+ * still has to say what happened to the ball.
+ */
+export function getCountAfterPitch(
+  balls: number,
+  strikes: number,
+  result: PitchResult
+): { balls: number; strikes: number; outcome: AtBatResultType | "in_play" | null } {
+  switch (result) {
+    case "ball":
+      return { balls: balls + 1, strikes, outcome: balls + 1 >= 4 ? "BB" : null };
+    case "called_strike":
+      return { balls, strikes: strikes + 1, outcome: strikes + 1 >= 3 ? "KL" : null };
+    case "swinging_strike":
+      return { balls, strikes: strikes + 1, outcome: strikes + 1 >= 3 ? "K" : null };
+    case "foul":
+      // Fouls with two strikes don't change the count
+      return { balls, strikes: Math.min(strikes + 1, 2), outcome: null };
+    case "in_play":
+      return { balls, strikes, outcome: "in_play" };
+    case "hit_by_pitch":
+      return { balls, strikes, outcome: "HBP" };
+  }
+}
+
+/**
+ * Build the pitch_sequence string (B, C, S, F, X, H) for an at-bat
+ */
+export function formatPitchSequence(results: PitchResult[]): string {
+  return results.map((r) => PITCH_RESULTS[r].code).join("");
+}
@@ -0,0 +1,155 @@
+/**
+ * Undo/redo history for the scorekeeper
+ *
+ * Every scorekeeper action is recorded as the rows it created, the rows it
+ * removed and the game fields before and after. Undo and redo replay that
+ * record against the database, re-inserting rows with their original IDs so
+ * older entries that reference them stay valid.
+ */
+
+import type {
+  AtBat,
+  Game,
+  GameLineupEntry,
+  GamePitch,
+  GameUpdate,
+  InningSummary,
+  Play,
+  Substitution,
+} from "./types";
+import {
+  deleteAtBat,
+  deleteInningSummary,
+  deleteLineupEntry,
+  deletePlay,
+  deleteSubstitution,
+  restoreAtBats,
+  restoreInningSummaries,
+  restoreLineupEntries,
+  restorePitches,
+  restorePlays,
+  restoreSubstitutions,
+  updateGame,
+} from "./db";
+
+export type HistoryRows = {
+  lineupEntries: GameLineupEntry[];
+  substitutions: Substitution[];
+  atBats: AtBat[];
+  plays: Play[];
+  pitches: GamePitch[];
+  // Half-innings the scorer ended
+  inningSummaries: InningSummary[];
+};
+
+export type HistoryGameFields = Pick<
+  GameUpdate,
+  "current_inning" | "current_half" | "home_final_score" | "away_final_score" | "status"
+>;
+
+export type HistoryEntry = {
+  id: string;
+  label: string;
+  recordedAt: string;
+  created: HistoryRows;
+  deleted: HistoryRows;
+  gameBefore: HistoryGameFields;
+  gameAfter: HistoryGameFields;
+};
+
+export type ScorebookHistory = {
+  undo: HistoryEntry[];
+  redo: HistoryEntry[];
+};
+
+export const MAX_HISTORY_ENTRIES = 50;
+
+export const EMPTY_HISTORY: ScorebookHistory = { undo: [], redo: [] };
+
+export function getHistoryStorageKey(gameId: string): string {
+  return `scorebook:history:${gameId}`;
+}
+
+export function emptyRows(): HistoryRows {
+  return { lineupEntries: [], substitutions: [], atBats: [], plays: [], pitches: [], inningSummaries: [] };
+}
+
+export function pickGameFields(game: Game): HistoryGameFields {
+  return {
+    current_inning: game.current_inning,
+    current_half: game.current_half,
+    home_final_score: game.home_final_score,
+    away_final_score: game.away_final_score,
+    status: game.status,
+  };
+}
+
+export function createHistoryEntry(
+  label: string,
+  changes: {
+    created?: Partial<HistoryRows>;
+    deleted?: Partial<HistoryRows>;
+    gameBefore: HistoryGameFields;
+    gameAfter: HistoryGameFields;
+  }
+): HistoryEntry {
+  return {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    label,
+    recordedAt: new Date().toISOString(),
+    created: { ...emptyRows(), ...changes.created },
+    deleted: { ...emptyRows(), ...changes.deleted },
+    gameBefore: changes.gameBefore,
+    gameAfter: changes.gameAfter,
+  };
+}
+
+/**
+ * Push a new action; anything that was undone can no longer be redone
+ */
+export function pushHistory(history: ScorebookHistory, entry: HistoryEntry): ScorebookHistory {
+  return {
+    undo: [...history.undo, entry].slice(-MAX_HISTORY_ENTRIES),
+    redo: [],
+  };
+}
+
+async function removeRows(rows: HistoryRows): Promise<void> {
+  // Children before parents; plays and pitches also cascade with their at-bat
+  const atBatIds = new Set(rows.atBats.map((ab) => ab.id));
+  for (const play of rows.plays) {
+    if (!play.at_bat_id || !atBatIds.has(play.at_bat_id)) await deletePlay(play.id);
+  }
+  for (const atBat of rows.atBats) await deleteAtBat(atBat.id);
+  for (const sub of rows.substitutions) await deleteSubstitution(sub.id);
+  for (const entry of rows.lineupEntries) await deleteLineupEntry(entry.id);
+  for (const summary of rows.inningSummaries ?? []) await deleteInningSummary(summary.id);
+}
+
+async function insertRows(rows: HistoryRows): Promise<void> {
+  // Parents before children
+  await restoreLineupEntries(rows.lineupEntries);
+  await restoreSubstitutions(rows.substitutions);
+  await restoreAtBats(rows.atBats);
+  await restorePlays(rows.plays);
+  await restorePitches(rows.pitches ?? []);
+  await restoreInningSummaries(rows.inningSummaries ?? []);
+}
+
+/**
+ * Revert an action: remove what it created and bring back what it removed
+ */
+export async function undoHistoryEntry(gameId: string, entry: HistoryEntry): Promise<void> {
+  await removeRows(entry.created);
+  await insertRows(entry.deleted);
+  await updateGame(gameId, entry.gameBefore);
+}
+
+/**
+ * Re-apply an action that was undone
+ */
+export async function redoHistoryEntry(gameId: string, entry: HistoryEntry): Promise<void> {
+  await removeRows(entry.deleted);
+  await insertRows(entry.created);
+  await updateGame(gameId, entry.gameAfter);
+}
@@ -0,0 +1,426 @@
+/**
+ * Offline scorekeeping
+ *
+ * Every game loaded while online is kept on the device as FullGameData.
+ * Scorebook writes made without a connection, or that fail because it
+ * dropped, are journaled in IndexedDB and applied to the cached game so
+ * scoring carries on. Rows get their ids on the device, so nothing needs
+ * remapping when the journal is reconciled into Supabase, in order, once the
+ * connection returns. With the local storage backend there's no server to
+ * wait for, so writes and loads skip the journal and cache.
+ */
+
+import { getErrorMessage, isNetworkError } from "@/lib/api";
+import { createStoreRunner, hasIndexedDb } from "@/lib/idb";
+import { isOffline } from "@/lib/offlineQueue";
+import { repositories, storageBackend, type GameRow } from "@/lib/repository";
+import type { FullGameData } from "./db";
+
+export type ScorebookTable =
+  | "sb_games"
+  | "sb_game_lineups"
+  | "sb_substitutions"
+  | "sb_at_bats"
+  | "sb_plays"
+  | "sb_pitches"
+  | "sb_inning_summaries";
+
+export type ScorebookRow = { id: string } & Record<string, unknown>;
+
+export type ScorebookWrite =
+  | { op: "upsert"; table: ScorebookTable; rows: ScorebookRow[] }
+  | { op: "update"; table: ScorebookTable; id: string; values: Record<string, unknown> }
+  | { op: "delete"; table: ScorebookTable; id: string };
+
+export type JournalEntry = ScorebookWrite & {
+  // IndexedDB key; replay order
+  seq?: number;
+  gameId: string | null;
+  queuedAt: string;
+};
+
+export type JournalConflict = {
+  entry: JournalEntry;
+  message: string;
+};
+
+export type JournalSyncResult = {
+  synced: number;
+  // Writes that were dropped because the server rejected them
+  conflicts: JournalConflict[];
+  pending: number;
+  // Games whose cached copy is now behind the server
+  gameIds: string[];
+};
+
+export type JournalEvent =
+  | { type: "changed"; pending: number; syncing: boolean }
+  | { type: "synced"; result: JournalSyncResult };
+
+type CachedGame = {
+  gameId: string;
+  data: FullGameData;
+  cachedAt: string;
+};
+
+const DB_NAME = "ScorebookOffline";
+const DB_VERSION = 1;
+const GAMES_STORE = "games";
+const JOURNAL_STORE = "journal";
+
+const withStore = createStoreRunner(DB_NAME, DB_VERSION, (db) => {
+  if (!db.objectStoreNames.contains(GAMES_STORE)) {
+    db.createObjectStore(GAMES_STORE, { keyPath: "gameId" });
+  }
+  if (!db.objectStoreNames.contains(JOURNAL_STORE)) {
+    db.createObjectStore(JOURNAL_STORE, { keyPath: "seq", autoIncrement: true });
+  }
+});
+
+const listeners = new Set<(event: JournalEvent) => void>();
+let flushing: Promise<JournalSyncResult> | null = null;
+// Journal and cache changes run one at a time so they can't interleave
+let queue: Promise<unknown> = Promise.resolve();
+
+function serialized<T>(fn: () => Promise<T>): Promise<T> {
+  const next = queue.then(fn, fn);
+  queue = next.catch(() => undefined);
+  return next;
+}
+
+/**
+ * A complete row for a new record, with its id and creation time set here
+ */
+export function newScorebookRow<T extends object>(values: T): T & { id: string; created_at: string } {
+  return { ...values, id: crypto.randomUUID(), created_at: new Date().toISOString() };
+}
+
+// ==============================================
+// CACHED GAMES
+// ==============================================
+
+type RowKey = "lineups" | "substitutions" | "atBats" | "plays" | "pitches" | "inningSummaries";
+
+const TABLE_ROWS: Record<Exclude<ScorebookTable, "sb_games">, RowKey> = {
+  sb_game_lineups: "lineups",
+  sb_substitutions: "substitutions",
+  sb_at_bats: "atBats",
+  sb_plays: "plays",
+  sb_pitches: "pitches",
+  sb_inning_summaries: "inningSummaries",
+};
+
+function getRows(data: FullGameData, table: ScorebookTable): ScorebookRow[] {
+  if (table === "sb_games") return [data.game as unknown as ScorebookRow];
+  const key = TABLE_ROWS[table];
+  const rows = key === "lineups" ? [...data.homeLineup, ...data.awayLineup] : data[key];
+  return rows as unknown as ScorebookRow[];
+}
+
+function setRows(data: FullGameData, table: ScorebookTable, rows: ScorebookRow[]): FullGameData {
+  if (table === "sb_games") return { ...data, game: rows[0] as unknown as FullGameData["game"] };
+  const key = TABLE_ROWS[table];
+  if (key === "lineups") {
+    const lineup = rows as unknown as FullGameData["homeLineup"];
+    return {
+      ...data,
+      homeLineup: lineup.filter((l) => l.team_side === "home"),
+      awayLineup: lineup.filter((l) => l.team_side === "away"),
+    };
+  }
+  return { ...data, [key]: rows };
+}
+
+/**
+ * The game as it will look once write reaches the server
+ */
+export function applyWriteToGameData(data: FullGameData, write: ScorebookWrite): FullGameData {
+  const rows = getRows(data, write.table);
+
+  if (write.op === "upsert") {
+    const incoming = new Map(write.rows.map((row) => [row.id, row]));
+    const kept = rows.map((row) => incoming.get(row.id) ?? row);
+    const added = write.rows.filter((row) => !rows.some((existing) => existing.id === row.id));
+    return setRows(data, write.table, [...kept, ...added]);
+  }
+
+  if (write.op === "update") {
+    const updatedAt = write.table === "sb_games" ? { updated_at: new Date().toISOString() } : {};
+    return setRows(
+      data,
+      write.table,
+      rows.map((row) => (row.id === write.id ? { ...row, ...write.values, ...updatedAt } : row))
+    );
+  }
+
+  const next = setRows(data, write.table, rows.filter((row) => row.id !== write.id));
+  // Plays and pitches go with their at-bat, as they do on the server
+  if (write.table !== "sb_at_bats") return next;
+  return {
+    ...next,
+    plays: next.plays.filter((p) => p.at_bat_id !== write.id),
+    pitches: next.pitches.filter((p) => p.at_bat_id !== write.id),
+  };
+}
+
+export async function getCachedGameData(gameId: string): Promise<FullGameData | null> {
+  if (!hasIndexedDb()) return null;
+  const cached = await withStore<CachedGame>(GAMES_STORE, "readonly", (store) => store.get(gameId));
+  return cached?.data ?? null;
+}
+
+export async function cacheGameData(data: FullGameData): Promise<void> {
+  if (!hasIndexedDb()) return;
+  const cached: CachedGame = { gameId: data.game.id, data, cachedAt: new Date().toISOString() };
+  await serialized(() => withStore(GAMES_STORE, "readwrite", (store) => store.put(cached)));
+}
+
+/**
+ * The cached game a write belongs to, if that game is on this device
+ */
+async function findCachedGame(write: ScorebookWrite): Promise<CachedGame | null> {
+  const games = (await withStore<CachedGame[]>(GAMES_STORE, "readonly", (store) => store.getAll())) ?? [];
+  if (write.op === "upsert") {
+    const gameId = write.rows[0]?.game_id;
+    return games.find((g) => g.gameId === gameId) ?? null;
+  }
+  return games.find((g) => getRows(g.data, write.table).some((row) => row.id === write.id)) ?? null;
+}
+
+async function applyToCache(write: ScorebookWrite): Promise<FullGameData | null> {
+  const cached = await findCachedGame(write);
+  if (!cached) return null;
+  const data = applyWriteToGameData(cached.data, write);
+  await withStore(GAMES_STORE, "readwrite", (store) => store.put({ ...cached, data }));
+  return data;
+}
+
+// ==============================================
+// JOURNAL
+// ==============================================
+
+export async function getJournal(): Promise<JournalEntry[]> {
+  if (!hasIndexedDb()) return [];
+  const entries = await withStore<JournalEntry[]>(JOURNAL_STORE, "readonly", (store) => store.getAll());
+  return (entries ?? []).sort((a, b) => (a.seq ?? 0) - (b.seq ?? 0));
+}
+
+function notify(event: JournalEvent) {
+  for (const listener of listeners) listener(event);
+}
+
+async function notifyChanged() {
+  notify({ type: "changed", pending: (await getJournal()).length, syncing: flushing !== null });
+}
+
+export function subscribeToScorebookJournal(listener: (event: JournalEvent) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Take back a row that only exists in the journal: its insert, anything
+ * queued against it and, for an at-bat, its plays and pitches are dropped
+ * instead of a delete being sent. Returns false if the row may be on the
+ * server.
+ */
+async function dropUnsyncedRow(table: ScorebookTable, id: string): Promise<boolean> {
+  const journal = await getJournal();
+  const insert = journal.find((e) => e.op === "upsert" && e.table === table && e.rows.some((row) => row.id === id));
+  if (!insert) return false;
+
+  const ids = new Set([id]);
+  if (table === "sb_at_bats") {
+    for (const entry of journal) {
+      if (entry.op !== "upsert" || (entry.table !== "sb_plays" && entry.table !== "sb_pitches")) continue;
+      for (const row of entry.rows) if (row.at_bat_id === id) ids.add(row.id);
+    }
+  }
+
+  await withStore(JOURNAL_STORE, "readwrite", (store) => {
+    for (const entry of journal) {
+      const seq = entry.seq as number;
+      if (entry.op === "upsert") {
+        const rows = entry.rows.filter((row) => !ids.has(row.id));
+        if (rows.length === 0) store.delete(seq);
+        else if (rows.length !== entry.rows.length) store.put({ ...entry, rows });
+      } else if (seq > (insert.seq as number) && ids.has(entry.id)) {
+        store.delete(seq);
+      }
+    }
+  });
+  return true;
+}
+
+function journalWrite(write: ScorebookWrite): Promise<FullGameData | null> {
+  return serialized(async () => {
+    const data = await applyToCache(write);
+    // A sync in progress may already be sending the insert, so only take it
+    // back while nothing is being sent
+    const dropped = write.op === "delete" && !flushing && (await dropUnsyncedRow(write.table, write.id));
+    if (!dropped) {
+      const entry: JournalEntry = {
+        ...write,
+        gameId: data?.game.id ?? null,
+        queuedAt: new Date().toISOString(),
+      };
+      await withStore(JOURNAL_STORE, "readwrite", (store) => store.add(entry));
+    }
+    await notifyChanged();
+    return data;
+  });
+}
+
+// ==============================================
+// WRITES
+// ==============================================
+
+async function sendWrite(write: ScorebookWrite): Promise<ScorebookRow[]> {
+  if (write.table === "sb_games") {
+    if (write.op !== "update") throw new Error("Games are created and deleted through the games repository");
+    return [(await repositories.games.update(write.id, write.values)) as unknown as ScorebookRow];
+  }
+
+  if (write.op === "delete") {
+    await repositories.gameRows.delete(write.table, write.id);
+    return [];
+  }
+  const rows =
+    write.op === "upsert"
+      ? await repositories.gameRows.save(write.table, write.rows as unknown as GameRow[])
+      : [await repositories.gameRows.update(write.table, write.id, write.values)];
+  return rows as unknown as ScorebookRow[];
+}
+
+/**
+ * Save a scorebook write, or journal it when there's no connection (or
+ * earlier writes are still waiting) and apply it to the cached game.
+ * Resolves to the rows as they now are: an upsert's rows, the updated row,
+ * or nothing for a delete.
+ */
+export async function writeScorebook(write: ScorebookWrite): Promise<ScorebookRow[]> {
+  const journaled = async () => {
+    const data = await journalWrite(write);
+    // Online behind earlier writes: send them now so this one follows
+    if (!isOffline()) flushScorebookJournal().catch((e: unknown) => console.error(e));
+    if (write.op === "upsert") return write.rows;
+    if (write.op === "delete") return [];
+    const row = data && getRows(data, write.table).find((r) => r.id === write.id);
+    if (!row) throw new Error("This record isn't available offline");
+    return [row];
+  };
+
+  if (!hasIndexedDb() || storageBackend === "local") return sendWrite(write);
+  if (isOffline() || (await getJournal()).length > 0) return journaled();
+
+  try {
+    const rows = await sendWrite(write);
+    await serialized(() =>
+      applyToCache(write.op === "delete" ? write : { op: "upsert", table: write.table, rows })
+    );
+    return rows;
+  } catch (e) {
+    // Upserts, updates and deletes are all safe to send twice
+    if (isOffline() || isNetworkError(e)) return journaled();
+    throw e;
+  }
+}
+
+/**
+ * Load a game from the server and cache it, falling back to the cached copy
+ * while offline or while it has changes that haven't synced
+ */
+export async function loadGameData(
+  gameId: string,
+  fetchFromServer: () => Promise<FullGameData | null>
+): Promise<FullGameData | null> {
+  if (!hasIndexedDb() || storageBackend === "local") return fetchFromServer();
+
+  if ((await getJournal()).some((e) => e.gameId === gameId)) {
+    await flushScorebookJournal();
+    if ((await getJournal()).some((e) => e.gameId === gameId)) {
+      const cached = await getCachedGameData(gameId);
+      if (cached) return cached;
+    }
+  }
+
+  if (isOffline()) {
+    const cached = await getCachedGameData(gameId);
+    if (cached) return cached;
+    throw new Error("This game hasn't been opened on this device yet, so it can't be scored offline");
+  }
+
+  try {
+    const data = await fetchFromServer();
+    if (data) await cacheGameData(data);
+    return data;
+  } catch (e) {
+    const cached = isNetworkError(e) ? await getCachedGameData(gameId) : null;
+    if (cached) return cached;
+    throw e;
+  }
+}
+
+// ==============================================
+// SYNC
+// ==============================================
+
+async function flush(): Promise<JournalSyncResult> {
+  const conflicts: JournalConflict[] = [];
+  const gameIds = new Set<string>();
+  let synced = 0;
+  let stopped = false;
+
+  // Writes journaled while syncing are picked up on the next pass
+  let entries = await getJournal();
+  while (entries.length > 0 && !stopped) {
+    for (const entry of entries) {
+      if (isOffline()) {
+        stopped = true;
+        break;
+      }
+      try {
+        await sendWrite(entry);
+        synced += 1;
+      } catch (e) {
+        // Still offline, or the connection dropped mid-sync: try again later
+        if (isOffline() || isNetworkError(e)) {
+          stopped = true;
+          break;
+        }
+        conflicts.push({ entry, message: getErrorMessage(e) });
+      }
+      if (entry.gameId) gameIds.add(entry.gameId);
+      await serialized(() => withStore(JOURNAL_STORE, "readwrite", (store) => store.delete(entry.seq as number)));
+    }
+    if (!stopped) entries = await getJournal();
+  }
+
+  return { synced, conflicts, pending: (await getJournal()).length, gameIds: [...gameIds] };
+}
+
+/**
+ * Reconcile journaled writes into Supabase. Concurrent calls share one sync.
+ */
+export function flushScorebookJournal(): Promise<JournalSyncResult> {
+  if (flushing) return flushing;
+  if (!hasIndexedDb()) {
+    return Promise.resolve({ synced: 0, conflicts: [], pending: 0, gameIds: [] });
+  }
+  if (isOffline()) {
+    return getJournal().then((entries) => ({ synced: 0, conflicts: [], pending: entries.length, gameIds: [] }));
+  }
+
+  flushing = flush().finally(() => {
+    flushing = null;
+  });
+  notifyChanged().catch((e: unknown) => console.error(e));
+
+  return flushing.then((result) => {
+    if (result.synced || result.conflicts.length) notify({ type: "synced", result });
+    notify({ type: "changed", pending: result.pending, syncing: false });
+    return result;
+  });
+}
@@ -0,0 +1,104 @@
+/**
+ * Pitch-count rules in scorebook games
+ *
+ * Applies the level pitch-count rules from the workload engine to game
+ * pitchers. A pitcher's standing is their earlier outings (from other games)
+ * plus the pitches thrown in this game so far, judged on the game's date.
+ */
+
+import type { FullGameData } from "./db";
+import { fetchTeam } from "./db";
+import type { AtBat, Game, PlayLevel, TeamSide } from "./types";
+import {
+  CHRONIC_DAYS,
+  NO_PITCH_COUNT_RULE,
+  addDays,
+  computeWorkloadStatus,
+  fetchGameWorkloadByPlayer,
+  getWorkloadWarnings,
+  type PitchCountRule,
+  type PitchCountRules,
+  type WorkloadAppearance,
+  type WorkloadStatus,
+  type WorkloadWarning,
+} from "@/lib/workload";
+
+export type PitcherEligibility = {
+  status: WorkloadStatus;
+  warnings: WorkloadWarning[];
+};
+
+export type PitchCountContext = {
+  levels: Record<TeamSide, PlayLevel | null>;
+  // Saved player id -> outings in other games
+  history: Map<string, WorkloadAppearance[]>;
+};
+
+export function getRuleForLevel(rules: PitchCountRules, level: PlayLevel | null): PitchCountRule {
+  return level ? rules[level] : NO_PITCH_COUNT_RULE;
+}
+
+/**
+ * Pitches thrown in a game, by pitcher lineup id
+ */
+export function getGamePitchCounts(atBats: AtBat[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const ab of atBats) {
+    counts.set(ab.pitcher_lineup_id, (counts.get(ab.pitcher_lineup_id) ?? 0) + ab.pitch_count);
+  }
+  return counts;
+}
+
+/**
+ * Outings per saved player across already-loaded games
+ */
+export function getPlayerAppearances(games: FullGameData[]): Map<string, WorkloadAppearance[]> {
+  const byPlayer = new Map<string, WorkloadAppearance[]>();
+  for (const data of games) {
+    const counts = getGamePitchCounts(data.atBats);
+    for (const entry of [...data.homeLineup, ...data.awayLineup]) {
+      const pitches = counts.get(entry.id);
+      if (!entry.player_id || !pitches) continue;
+      const appearances = byPlayer.get(entry.player_id) ?? [];
+      appearances.push({ date: data.game.game_date, pitches, source: "game", sourceId: data.game.id });
+      byPlayer.set(entry.player_id, appearances);
+    }
+  }
+  return byPlayer;
+}
+
+/**
+ * Whether a pitcher may pitch in this game, counting what they've thrown in it
+ */
+export function getPitcherEligibility(
+  history: WorkloadAppearance[],
+  game: Game,
+  pitchesThisGame: number,
+  rule: PitchCountRule
+): PitcherEligibility {
+  const appearances = history.filter((a) => a.sourceId !== game.id);
+  if (pitchesThisGame > 0) {
+    appearances.push({ date: game.game_date, pitches: pitchesThisGame, source: "game", sourceId: game.id });
+  }
+  const status = computeWorkloadStatus(appearances, rule, game.game_date);
+  return { status, warnings: getWorkloadWarnings(status, rule) };
+}
+
+/**
+ * Team levels and recent outings for the saved players in a game
+ */
+export async function fetchPitchCountContext(
+  game: Pick<Game, "game_date" | "home_team_id" | "away_team_id">,
+  playerIds: string[]
+): Promise<PitchCountContext> {
+  const [home, away, history] = await Promise.all([
+    game.home_team_id ? fetchTeam(game.home_team_id) : null,
+    game.away_team_id ? fetchTeam(game.away_team_id) : null,
+    fetchGameWorkloadByPlayer(playerIds, addDays(game.game_date, -CHRONIC_DAYS)),
+  ]);
+
+  return {
+    levels: { home: home?.level ?? null, away: away?.level ?? null },
+    history,
+  };
+}
@@ -0,0 +1,922 @@
+/**
+ * Retrosheet event files for the scorebook
+ *
+ * Export writes a game as id/info/start/play/sub/data records by replaying it
+ * through the game engine. Import reads those records back into scorebook
+ * rows, using the engine to know who is on base when a play names runners
+ * only by base. Retrosheet files carry team codes rather than names, so the
+ * names travel in extra info,visname and info,homename records.
+ */
+
+import type { FullGameData } from "./db";
+import type {
+  AtBat,
+  AtBatResultType,
+  Base,
+  BaseDestination,
+  Game,
+  GameLineupEntry,
+  HalfInning,
+  Play,
+  Position,
+  Substitution,
+  SubstitutionType,
+  TeamSide,
+} from "./types";
+import { POSITION_NUMBERS, getFieldingTeam } from "./types";
+import { getBatterBaseAdvancement } from "./gameState";
+import {
+  applyGameEvent,
+  buildGameEvents,
+  createInitialGameState,
+  getCurrentBatter,
+  getImplicitRunnerMovements,
+  halfInningOrdinal,
+  isBetweenPitchPlay,
+  type GameEngineState,
+} from "./gameEngine";
+import { computeEarnedRuns, getEarnedRunCorrections } from "./earnedRuns";
+import { parseFieldingNotation } from "./fielding";
+
+// Retrosheet field positions beyond the nine on the field
+const RETRO_DH = 10;
+const RETRO_PINCH_HITTER = 11;
+const RETRO_PINCH_RUNNER = 12;
+
+const POSITION_BY_RETRO: Record<number, Position> = Object.fromEntries(
+  Object.entries(POSITION_NUMBERS).map(([pos, n]) => [n === 0 ? RETRO_DH : n, pos as Position])
+);
+
+function toRetroPosition(position: Position | null | undefined): number {
+  if (!position) return 0;
+  return position === "DH" ? RETRO_DH : POSITION_NUMBERS[position];
+}
+
+function sideCode(side: TeamSide): 0 | 1 {
+  return side === "away" ? 0 : 1;
+}
+
+function quote(value: string): string {
+  return `"${value.replace(/"/g, "'")}"`;
+}
+
+function nextBase(base: Base | "B"): BaseDestination {
+  if (base === "B" || base === "0") return "1";
+  if (base === "3") return "H";
+  return String(Number(base) + 1) as BaseDestination;
+}
+
+// ==============================================
+// EXPORT
+// ==============================================
+
+function teamCode(name: string): string {
+  const letters = name.toUpperCase().replace(/[^A-Z0-9]/g, "");
+  return (letters || "TM").slice(0, 3).padEnd(3, "X");
+}
+
+/**
+ * Retrosheet-style player ids: four letters of the last name, the first
+ * initial and a counter, e.g. "smitj001"
+ */
+function assignPlayerIds(entries: GameLineupEntry[]): Map<string, string> {
+  const ids = new Map<string, string>();
+  const used = new Map<string, number>();
+  for (const entry of entries) {
+    const parts = entry.player_name.toLowerCase().replace(/[^a-z ]/g, "").split(/\s+/).filter(Boolean);
+    const last = (parts.at(-1) ?? "plyr").slice(0, 4).padEnd(4, "-");
+    const first = parts.length > 1 ? parts[0][0] : "x";
+    const base = `${last}${first}`;
+    const count = (used.get(base) ?? 0) + 1;
+    used.set(base, count);
+    ids.set(entry.id, `${base}${String(count).padStart(3, "0")}`);
+  }
+  return ids;
+}
+
+// Fielders named in our notation, dropping the one charged with an error
+function notationFielders(notation: string | null): string {
+  return (notation ?? "").toUpperCase().replace(/E[1-9]/g, "").replace(/[^1-9]/g, "");
+}
+
+function formatAdvance(play: Play, runner: "B" | Base): string {
+  const from = runner === "0" ? "B" : runner;
+  const advance =
+    play.is_out || play.to_base === "OUT"
+      ? `${from}X${nextBase(runner)}`
+      : `${from}-${play.to_base ?? nextBase(runner)}`;
+  return play.error_position ? `${advance}(E${POSITION_NUMBERS[play.error_position]})` : advance;
+}
+
+function formatBatterEvent(atBat: AtBat, batterPlay: Play | undefined): string {
+  const fielders = notationFielders(atBat.result_detail);
+  const first = fielders[0] ?? "";
+  const errorFielder = batterPlay?.error_position
+    ? String(POSITION_NUMBERS[batterPlay.error_position])
+    : ((atBat.result_detail ?? "").match(/E([1-9])/i)?.[1] ?? first);
+
+  switch (atBat.result_type) {
+    case "1B":
+      return `S${first}`;
+    case "2B":
+      return `D${first}`;
+    case "3B":
+      return `T${first}`;
+    case "HR":
+      return `HR${first}`;
+    case "GO":
+      return `${fielders || "99"}/G`;
+    case "FO":
+      return `${first || "99"}/F`;
+    case "LO":
+      return `${first || "99"}/L`;
+    case "PO":
+      return `${first || "99"}/P`;
+    case "K":
+    case "KL":
+      return "K";
+    case "FC":
+      return `FC${first}`;
+    case "DP":
+      return `${fielders || "99"}/GDP`;
+    case "TP":
+      return `${fielders || "99"}/GTP`;
+    case "SAC":
+      return `${fielders || "99"}/SH`;
+    case "SF":
+      return `${first || "99"}/SF`;
+    case "BB":
+      return "W";
+    case "IBB":
+      return "IW";
+    case "HBP":
+      return "HP";
+    case "E":
+      return `E${errorFielder || "9"}`;
+    case "CI":
+    case "INT":
+      return "C/E2";
+  }
+}
+
+function formatPlateAppearance(atBat: AtBat, plays: Play[]): string {
+  const batterPlay = plays.find((p) => p.from_base === "0");
+  const advances = plays
+    .filter((p) => p !== batterPlay && p.from_base && p.from_base !== "0")
+    .sort((a, b) => Number(b.from_base) - Number(a.from_base))
+    .map((p) => formatAdvance(p, p.from_base as Base));
+
+  // The batter only needs an advance when they didn't stop where the hit put them
+  if (batterPlay) {
+    const expected = getBatterBaseAdvancement(atBat.result_type);
+    const actual = batterPlay.is_out ? "OUT" : batterPlay.to_base;
+    if (actual && actual !== expected) advances.push(formatAdvance(batterPlay, "0"));
+  }
+
+  const event = formatBatterEvent(atBat, batterPlay);
+  return advances.length > 0 ? `${event}.${advances.join(";")}` : event;
+}
+
+function formatRunnerEvent(plays: Play[]): string {
+  const codes: string[] = [];
+  const advances: string[] = [];
+
+  for (const play of [...plays].sort((a, b) => Number(b.from_base) - Number(a.from_base))) {
+    const from = (play.from_base ?? "1") as Base;
+    const fielders = notationFielders(play.fielding_sequence);
+    if (play.play_type === "stolen_base") {
+      codes.push(`SB${play.to_base ?? nextBase(from)}`);
+    } else if (play.play_type === "caught_stealing") {
+      codes.push(`CS${nextBase(from)}${fielders ? `(${fielders})` : ""}`);
+    } else if (play.play_type === "pickoff" && play.is_out) {
+      codes.push(`PO${from}${fielders ? `(${fielders})` : ""}`);
+    } else {
+      advances.push(formatAdvance(play, from));
+    }
+  }
+
+  if (codes.length === 0) {
+    const type = plays[0]?.play_type;
+    codes.push(
+      type === "wild_pitch" ? "WP" : type === "passed_ball" ? "PB" : type === "balk" ? "BK" : "OA"
+    );
+  }
+  return advances.length > 0 ? `${codes.join(";")}.${advances.join(";")}` : codes.join(";");
+}
+
+/**
+ * Write a game as a Retrosheet event file
+ */
+export function generateRetrosheetEvents(gameData: FullGameData): string {
+  const { game } = gameData;
+  const ids = assignPlayerIds([...gameData.awayLineup, ...gameData.homeLineup]);
+  const lines: string[] = [];
+
+  lines.push(`id,${teamCode(game.home_team_name)}${game.game_date.replace(/-/g, "")}0`);
+  lines.push("version,2");
+  lines.push(`info,visteam,${teamCode(game.away_team_name)}`);
+  lines.push(`info,hometeam,${teamCode(game.home_team_name)}`);
+  lines.push(`info,visname,${quote(game.away_team_name)}`);
+  lines.push(`info,homename,${quote(game.home_team_name)}`);
+  lines.push(`info,date,${game.game_date.replace(/-/g, "/")}`);
+  lines.push("info,number,0");
+  if (game.game_time) lines.push(`info,starttime,${game.game_time}`);
+  if (game.location) lines.push(`info,site,${quote(game.location)}`);
+  lines.push(`info,usedh,${game.use_dh}`);
+  lines.push(`info,innings,${game.innings_scheduled}`);
+
+  let state = createInitialGameState(gameData);
+
+  const playerRecord = (type: "start" | "sub", s: GameEngineState, side: TeamSide, entry: GameLineupEntry, position: number) => {
+    const slot = s.battingOrder[side].indexOf(entry.id) + 1;
+    return `${type},${ids.get(entry.id)},${quote(entry.player_name)},${sideCode(side)},${slot},${position}`;
+  };
+
+  for (const side of ["away", "home"] as const) {
+    const lineup = side === "home" ? state.homeLineup : state.awayLineup;
+    for (const entry of lineup) {
+      if (!entry.is_active) continue;
+      const position = (Object.keys(state.defense[side]) as Position[]).find(
+        (pos) => state.defense[side][pos] === entry.id
+      );
+      if (!position && !state.battingOrder[side].includes(entry.id)) continue;
+      lines.push(playerRecord("start", state, side, entry, toRetroPosition(position)));
+    }
+  }
+
+  // Runner events recorded together are written as one play record
+  let pending: { plays: Play[]; state: GameEngineState } | null = null;
+  const flush = () => {
+    if (!pending) return;
+    const { plays, state: before } = pending;
+    const atBat = gameData.atBats.find((ab) => ab.id === plays[0].at_bat_id);
+    const batter = atBat ? { id: atBat.batter_lineup_id } : getCurrentBatter(before);
+    const half = plays[0].half ?? before.game.current_half;
+    const inning = plays[0].inning ?? before.game.current_inning;
+    lines.push(
+      `play,${inning},${half === "top" ? 0 : 1},${batter ? ids.get(batter.id) : ""},??,,${formatRunnerEvent(plays)}`
+    );
+    pending = null;
+  };
+
+  for (const event of buildGameEvents(gameData)) {
+    if (event.type === "runner_play") {
+      if (!pending || event.play.play_sequence <= 1) {
+        flush();
+        pending = { plays: [], state };
+      }
+      pending.plays.push(event.play);
+    } else {
+      flush();
+    }
+
+    const next = applyGameEvent(state, event);
+
+    if (event.type === "plate_appearance") {
+      const { atBat, plays } = event;
+      const count =
+        atBat.pitch_sequence || atBat.pitch_count > 0
+          ? `${Math.min(atBat.balls, 3)}${Math.min(atBat.strikes, 2)}`
+          : "??";
+      lines.push(
+        `play,${atBat.inning},${atBat.half === "top" ? 0 : 1},${ids.get(atBat.batter_lineup_id) ?? ""},${count},${atBat.pitch_sequence ?? ""},${formatPlateAppearance(atBat, plays)}`
+      );
+    } else if (event.type === "substitution") {
+      const sub = event.substitution;
+      const side = sub.team_side;
+      const lineup = side === "home" ? next.homeLineup : next.awayLineup;
+      const entryId =
+        sub.substitution_type === "position_change" ? (sub.outgoing_lineup_id ?? sub.incoming_lineup_id) : sub.incoming_lineup_id;
+      const entry = lineup.find((e) => e.id === entryId);
+      if (entry) {
+        const position =
+          sub.substitution_type === "pinch_hitter"
+            ? RETRO_PINCH_HITTER
+            : sub.substitution_type === "pinch_runner"
+              ? RETRO_PINCH_RUNNER
+              : toRetroPosition(
+                  (Object.keys(next.defense[side]) as Position[]).find((pos) => next.defense[side][pos] === entryId)
+                );
+        lines.push(playerRecord("sub", next, side, entry, position));
+      }
+    }
+
+    state = next;
+  }
+  flush();
+
+  // Earned runs per pitcher, the only data record Retrosheet defines
+  const earnedRuns = computeEarnedRuns(gameData);
+  const pitcherIds = new Set(gameData.atBats.map((ab) => ab.pitcher_lineup_id));
+  for (const pitcherId of pitcherIds) {
+    lines.push(`data,er,${ids.get(pitcherId) ?? pitcherId},${earnedRuns.byPitcher[pitcherId]?.er ?? 0}`);
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+export function generateRetrosheetFilename(game: Game): string {
+  return `${teamCode(game.home_team_name)}${game.game_date.replace(/-/g, "")}0.EVN`;
+}
+
+// ==============================================
+// IMPORT
+// ==============================================
+
+type ParsedAdvance = {
+  from: Base | "B";
+  to: BaseDestination;
+  isOut: boolean;
+  error: Position | null;
+  noRbi: boolean;
+};
+
+type BatterEvent = {
+  resultType: AtBatResultType;
+  resultDetail: string | null;
+  // Runners (or the batter) put out in the main event, e.g. the (1) in 64(1)3
+  outs: (Base | "B")[];
+  // Runner events tacked on after a "+", e.g. K+SB2
+  extra: string | null;
+};
+
+function splitRecord(line: string): string[] {
+  const fields: string[] = [];
+  let current = "";
+  let quoted = false;
+  for (const char of line) {
+    if (char === '"') quoted = !quoted;
+    else if (char === "," && !quoted) {
+      fields.push(current);
+      current = "";
+    } else current += char;
+  }
+  fields.push(current);
+  return fields.map((f) => f.trim());
+}
+
+// Split "S8/L.2-H;1-3" into the event and its advances, ignoring dots in parentheses
+function splitEvent(event: string): { main: string; advances: string | null } {
+  let depth = 0;
+  for (let i = 0; i < event.length; i++) {
+    if (event[i] === "(") depth++;
+    else if (event[i] === ")") depth--;
+    else if (event[i] === "." && depth === 0) {
+      return { main: event.slice(0, i), advances: event.slice(i + 1) };
+    }
+  }
+  return { main: event, advances: null };
+}
+
+function parseAdvances(text: string | null): ParsedAdvance[] {
+  if (!text) return [];
+  return text
+    .split(";")
+    .map((part) => part.trim().toUpperCase())
+    .flatMap((part) => {
+      const match = part.match(/^([B123])([-X])([123H])(.*)$/);
+      if (!match) return [];
+      const [, from, sep, to, rest] = match;
+      const errorMatch = rest.match(/E([1-9])/);
+      const error = errorMatch ? POSITION_BY_RETRO[Number(errorMatch[1])] : null;
+      // An out that was dropped for an error leaves the runner safe
+      const isOut = sep === "X" && !error;
+      return [
+        {
+          from: from as Base | "B",
+          to: (isOut ? "OUT" : to) as BaseDestination,
+          isOut,
+          error,
+          noRbi: /\((NR|NORBI)\)/.test(rest),
+        },
+      ];
+    });
+}
+
+function fieldedOutType(fielders: string, modifiers: string[]): AtBatResultType {
+  if (modifiers.some((m) => m.endsWith("TP"))) return "TP";
+  if (modifiers.some((m) => m.endsWith("DP"))) return "DP";
+  if (modifiers.includes("SH")) return "SAC";
+  if (modifiers.includes("SF")) return "SF";
+  if (modifiers.some((m) => m === "F" || m === "FL")) return "FO";
+  if (modifiers.includes("L")) return "LO";
+  if (modifiers.some((m) => m === "P" || m === "BP")) return "PO";
+  if (modifiers.some((m) => m === "G" || m === "BG")) return "GO";
+  return fielders.length === 1 ? "FO" : "GO";
+}
+
+function parseBatterEvent(main: string, pitches: string): BatterEvent | null {
+  const [eventWithExtra, ...modifierParts] = main.toUpperCase().split("/");
+  const [event, extra = null] = eventWithExtra.split("+");
+  const modifiers = modifierParts.map((m) => m.replace(/[^A-Z]/g, ""));
+  const simple = (resultType: AtBatResultType, resultDetail: string | null = null): BatterEvent => ({
+    resultType,
+    resultDetail,
+    outs: [],
+    extra,
+  });
+
+  let match: RegExpMatchArray | null;
+  if ((match = event.match(/^S(\d*)$/))) return simple("1B", match[1] || null);
+  if ((match = event.match(/^(?:D|DGR)(\d*)$/))) return simple("2B", match[1] || null);
+  if ((match = event.match(/^T(\d*)$/))) return simple("3B", match[1] || null);
+  if ((match = event.match(/^(?:HR|H)(\d*)$/))) return simple("HR", match[1] || null);
+  if (event === "W") return simple("BB");
+  if (event === "IW" || event === "I") return simple("IBB");
+  if (event === "HP") return simple("HBP");
+  if (event === "K") {
+    // Retrosheet doesn't split strikeouts; a called third strike ends in C
+    const last = pitches.replace(/[^A-Z]/gi, "").toUpperCase().at(-1);
+    return simple(last === "C" ? "KL" : "K");
+  }
+  if ((match = event.match(/^E(\d)$/))) return simple("E", `E${match[1]}`);
+  if ((match = event.match(/^FC(\d*)$/))) return simple("FC", match[1] || null);
+  if (event === "C") return simple("CI");
+
+  // Fielded outs: fielders with the runners they retired in parentheses
+  if (/^\d/.test(event)) {
+    const outs: (Base | "B")[] = [];
+    const chain: string[] = [];
+    let endsWithMarker = false;
+    for (const token of event.match(/\d|\([B123]\)/g) ?? []) {
+      if (token.startsWith("(")) {
+        outs.push(token[1] as Base | "B");
+        endsWithMarker = true;
+      } else {
+        chain.push(token);
+        endsWithMarker = false;
+      }
+    }
+    const fielders = chain.join("");
+    const batterOut = !outs.includes("B") && !endsWithMarker;
+    if (batterOut) outs.push("B");
+
+    // Outs made elsewhere on a double play may only appear in the advances
+    const outCount = outs.length;
+    const resultType: AtBatResultType =
+      outCount >= 3
+        ? "TP"
+        : outCount === 2
+          ? "DP"
+          : outs.includes("B")
+            ? fieldedOutType(fielders, modifiers)
+            : "FC";
+    const detail =
+      resultType === "FO" || resultType === "LO" || resultType === "PO"
+        ? `${resultType[0]}${chain[0]}`
+        : chain.join("-");
+    return { resultType, resultDetail: detail, outs, extra };
+  }
+
+  return null;
+}
+
+/**
+ * Runner codes from a runner-only event or the part after "+", as advances
+ */
+function parseRunnerCodes(
+  text: string
+): { advances: ParsedAdvance[]; playType: Play["play_type"]; fieldingSequence: string | null } | null {
+  const advances: ParsedAdvance[] = [];
+  let playType: Play["play_type"] | null = null;
+  let fieldingSequence: string | null = null;
+  const none = { error: null, noRbi: true };
+
+  for (const code of text.toUpperCase().split(";")) {
+    const fielders = code.match(/\(([^)]*)\)/)?.[1] ?? "";
+    const safeOnError = /E\d/.test(fielders);
+    if (fielders && !safeOnError) fieldingSequence = fielders.split("").join("-");
+    let match: RegExpMatchArray | null;
+
+    if ((match = code.match(/^SB([23H])/))) {
+      const to = match[1] as BaseDestination;
+      const from = (to === "H" ? "3" : String(Number(to) - 1)) as Base;
+      advances.push({ from, to, isOut: false, ...none });
+      playType ??= "stolen_base";
+    } else if ((match = code.match(/^(?:POCS|CS)([23H])/))) {
+      const to = match[1] as BaseDestination;
+      const from = (to === "H" ? "3" : String(Number(to) - 1)) as Base;
+      advances.push({ from, to: safeOnError ? to : "OUT", isOut: !safeOnError, ...none });
+      playType ??= "caught_stealing";
+    } else if ((match = code.match(/^PO([123])/))) {
+      if (!safeOnError) advances.push({ from: match[1] as Base, to: "OUT", isOut: true, ...none });
+      playType ??= "pickoff";
+    } else if (code.startsWith("WP")) playType ??= "wild_pitch";
+    else if (code.startsWith("PB")) playType ??= "passed_ball";
+    else if (code.startsWith("BK")) playType ??= "balk";
+    else if (code.startsWith("DI") || code.startsWith("OA")) playType ??= "advance";
+    else return null;
+  }
+
+  return playType ? { advances, playType, fieldingSequence } : null;
+}
+
+function mergeAdvances(primary: ParsedAdvance[], secondary: ParsedAdvance[]): ParsedAdvance[] {
+  const seen = new Set(primary.map((a) => a.from));
+  return [...primary, ...secondary.filter((a) => !seen.has(a.from))];
+}
+
+type ImportContext = {
+  userId: string;
+  gameId: string;
+  stamp: () => string;
+};
+
+function newPlay(
+  ctx: ImportContext,
+  fields: Pick<Play, "runner_lineup_id" | "play_type" | "from_base" | "to_base" | "play_sequence"> & Partial<Play>
+): Play {
+  const isOut = fields.to_base === "OUT";
+  return {
+    id: crypto.randomUUID(),
+    user_id: ctx.userId,
+    game_id: ctx.gameId,
+    at_bat_id: null,
+    inning: null,
+    half: null,
+    batter_number: null,
+    pitcher_lineup_id: null,
+    fielding_sequence: null,
+    putout_positions: null,
+    assist_positions: null,
+    error_position: null,
+    error_type: null,
+    is_out: isOut,
+    run_scored: fields.to_base === "H",
+    is_earned_run: fields.to_base === "H",
+    notes: null,
+    created_at: ctx.stamp(),
+    ...fields,
+  };
+}
+
+function runnerOn(state: GameEngineState, base: Base): GameLineupEntry | null {
+  const { first, second, third } = state.currentBaseState;
+  return base === "1" ? first : base === "2" ? second : base === "3" ? third : null;
+}
+
+// Movements for every runner on base, lead runner first
+function runnerPlays(
+  ctx: ImportContext,
+  state: GameEngineState,
+  advances: ParsedAdvance[],
+  playType: Play["play_type"],
+  firstSequence: number
+): Play[] {
+  return advances
+    .filter((a) => a.from !== "B")
+    .sort((a, b) => Number(b.from) - Number(a.from))
+    .flatMap((advance, idx) => {
+      const runner = runnerOn(state, advance.from as Base);
+      if (!runner) return [];
+      return [
+        newPlay(ctx, {
+          play_sequence: firstSequence + idx,
+          runner_lineup_id: runner.id,
+          play_type: playType,
+          from_base: advance.from as Base,
+          to_base: advance.to,
+          error_position: advance.error,
+          is_earned_run: advance.to === "H" && !advance.error,
+        }),
+      ];
+    });
+}
+
+function getBatterNumber(atBats: AtBat[], inning: number, half: HalfInning): number {
+  return atBats.filter((ab) => ab.inning === inning && ab.half === half).length + 1;
+}
+
+/**
+ * Read a Retrosheet event file into one set of scorebook rows per game.
+ * Rows get fresh ids and ascending created_at values so they replay in file
+ * order. Throws on records the scorebook can't represent.
+ */
+export function parseRetrosheetEvents(text: string, userId: string, orgId: string | null = null): FullGameData[] {
+  const games: string[][][] = [];
+  for (const line of text.split(/\r?\n/)) {
+    if (!line.trim()) continue;
+    const record = splitRecord(line);
+    if (record[0] === "id") games.push([]);
+    games.at(-1)?.push(record);
+  }
+  if (games.length === 0) throw new Error("No games found in the Retrosheet file");
+
+  const started = Date.now();
+  let tick = 0;
+  const stamp = () => new Date(started + tick++).toISOString();
+
+  return games.map((records) => {
+    const gameId = crypto.randomUUID();
+    const ctx: ImportContext = { userId, gameId, stamp };
+    const info = new Map(records.filter((r) => r[0] === "info").map((r) => [r[1], r[2] ?? ""]));
+    const date = (info.get("date") ?? "").replace(/\//g, "-") || new Date().toISOString().slice(0, 10);
+
+    const game: Game = {
+      id: gameId,
+      user_id: userId,
+      org_id: orgId,
+      game_date: date,
+      game_time: info.get("starttime") || null,
+      location: info.get("site") || null,
+      weather: null,
+      notes: `Imported from Retrosheet ${records[0][1] ?? ""}`.trim(),
+      home_team_id: null,
+      away_team_id: null,
+      home_team_name: info.get("homename") || info.get("hometeam") || "Home",
+      away_team_name: info.get("visname") || info.get("visteam") || "Away",
+      status: "completed",
+      current_inning: 1,
+      current_half: "top",
+      home_final_score: 0,
+      away_final_score: 0,
+      innings_scheduled: Number(info.get("innings")) || 9,
+      use_dh: info.get("usedh") === "true",
+      share_token: null,
+      created_at: stamp(),
+      updated_at: stamp(),
+    };
+
+    const lineupIds: Record<TeamSide, Map<string, string>> = { home: new Map(), away: new Map() };
+    const newEntry = (record: string[], side: TeamSide, inning: number, half: HalfInning, batter: number) => {
+      const order = Number(record[4]);
+      const position = POSITION_BY_RETRO[Number(record[5])] ?? null;
+      const entry: GameLineupEntry = {
+        id: crypto.randomUUID(),
+        user_id: userId,
+        game_id: gameId,
+        team_side: side,
+        player_id: null,
+        player_name: record[2] || record[1],
+        jersey_number: null,
+        bats: null,
+        throws: null,
+        batting_order: order >= 1 && order <= 9 ? order : null,
+        defensive_position: position,
+        entry_inning: inning,
+        entry_half: half,
+        entry_batter: batter,
+        is_active: true,
+        created_at: stamp(),
+      };
+      lineupIds[side].set(record[1], entry.id);
+      return entry;
+    };
+
+    const starters = records
+      .filter((r) => r[0] === "start")
+      .map((r) => newEntry(r, r[3] === "1" ? "home" : "away", 1, "top", 1));
+    const data: FullGameData = {
+      game,
+      homeLineup: starters.filter((e) => e.team_side === "home"),
+      awayLineup: starters.filter((e) => e.team_side === "away"),
+      atBats: [],
+      plays: [],
+      pitches: [],
+      substitutions: [],
+      inningSummaries: [],
+    };
+
+    let state = createInitialGameState(data);
+
+    for (const record of records) {
+      if (record[0] === "sub") {
+        const side: TeamSide = record[3] === "1" ? "home" : "away";
+        const { current_inning: inning, current_half: half } = state.game;
+        const batterNumber = getBatterNumber(data.atBats, inning, half);
+        const retroPosition = Number(record[5]);
+        const order = Number(record[4]);
+        const existingId = lineupIds[side].get(record[1]);
+        const inGame =
+          !!existingId &&
+          (state.battingOrder[side].includes(existingId) || Object.values(state.defense[side]).includes(existingId));
+
+        let incomingId = existingId ?? null;
+        if (!incomingId || !inGame) {
+          const entry = newEntry(record, side, inning, half, batterNumber);
+          incomingId = entry.id;
+          if (side === "home") data.homeLineup.push(entry);
+          else data.awayLineup.push(entry);
+          // The engine only knows lineup rows it started with
+          const inactive = { ...entry, is_active: false };
+          state = side === "home"
+            ? { ...state, homeLineup: [...state.homeLineup, inactive] }
+            : { ...state, awayLineup: [...state.awayLineup, inactive] };
+        }
+
+        const position = POSITION_BY_RETRO[retroPosition] ?? null;
+        const slotOccupant = order >= 1 ? state.battingOrder[side][order - 1] : null;
+        let type: SubstitutionType;
+        let outgoingId: string | null;
+        if (inGame) {
+          type = "position_change";
+          outgoingId = incomingId;
+        } else if (retroPosition === RETRO_PINCH_HITTER) {
+          type = "pinch_hitter";
+          outgoingId = slotOccupant;
+        } else if (retroPosition === RETRO_PINCH_RUNNER) {
+          type = "pinch_runner";
+          outgoingId = slotOccupant;
+        } else if (position === "P") {
+          type = "pitching_change";
+          outgoingId = state.defense[side].P ?? slotOccupant;
+        } else {
+          type = "defensive_replacement";
+          outgoingId = slotOccupant ?? (position ? (state.defense[side][position] ?? null) : null);
+        }
+
+        const substitution: Substitution = {
+          id: crypto.randomUUID(),
+          user_id: userId,
+          game_id: gameId,
+          team_side: side,
+          incoming_lineup_id: incomingId,
+          outgoing_lineup_id: outgoingId,
+          inning,
+          half,
+          batter_number: batterNumber,
+          substitution_type: type,
+          new_batting_order: order >= 1 && order <= 9 ? order : null,
+          new_position: type === "pinch_hitter" || type === "pinch_runner" ? null : position,
+          notes: null,
+          created_at: stamp(),
+        };
+        data.substitutions.push(substitution);
+        state = applyGameEvent(state, { type: "substitution", substitution });
+        continue;
+      }
+
+      if (record[0] !== "play") continue;
+      const [, inningText, teamText, batterId, countText = "", pitchText = "", eventText = ""] = record;
+      if (!eventText || eventText === "NP") continue;
+
+      const inning = Number(inningText);
+      const half: HalfInning = teamText === "1" ? "bottom" : "top";
+      if (halfInningOrdinal(inning, half) > halfInningOrdinal(state.game.current_inning, state.game.current_half)) {
+        state = applyGameEvent(state, { type: "inning_transition", inning, half });
+      }
+
+      const battingSide: TeamSide = half === "top" ? "away" : "home";
+      const pitcherId = state.defense[getFieldingTeam(half)].P ?? null;
+      const { main, advances: advanceText } = splitEvent(eventText);
+      const advances = parseAdvances(advanceText);
+      const batterNumber = getBatterNumber(data.atBats, inning, half);
+
+      // Steals, pickoffs, wild pitches and the like while the batter is up
+      const runnerEvent = /^(SB|CS|POCS|PO\d|WP|PB|BK|DI|OA)/i.test(main) ? parseRunnerCodes(main) : null;
+      if (runnerEvent) {
+        const plays = runnerPlays(
+          ctx,
+          state,
+          mergeAdvances(advances, runnerEvent.advances),
+          runnerEvent.playType,
+          1
+        ).map((play) => ({
+          ...play,
+          inning,
+          half,
+          batter_number: batterNumber,
+          pitcher_lineup_id: pitcherId,
+          fielding_sequence: runnerEvent.fieldingSequence,
+          play_type:
+            play.play_type === "stolen_base" && play.is_out
+              ? ("caught_stealing" as const)
+              : play.play_type,
+        }));
+        for (const play of plays) {
+          data.plays.push(play);
+          state = applyGameEvent(state, { type: "runner_play", play });
+        }
+        continue;
+      }
+
+      const parsed = parseBatterEvent(main, pitchText);
+      if (!parsed) {
+        throw new Error(`Unsupported Retrosheet event "${eventText}" in inning ${inning}`);
+      }
+      const extra = parsed.extra ? parseRunnerCodes(parsed.extra) : null;
+
+      const batterLineupId = lineupIds[battingSide].get(batterId) ?? getCurrentBatter(state)?.id;
+      if (!batterLineupId || !pitcherId) {
+        throw new Error(`Missing batter or pitcher for "${eventText}" in inning ${inning}`);
+      }
+
+      const atBatId = crypto.randomUUID();
+      const pitchSequence = pitchText
+        .toUpperCase()
+        .replace(/[^A-Z]/g, "")
+        .replace(/[IPV]/g, "B")
+        .replace(/[KMQT]/g, "S")
+        .replace(/[LOR]/g, "F")
+        .replace(/Y/g, "X")
+        .replace(/[^BCSFXH]/g, "");
+      const [balls, strikes] = /^\d\d$/.test(countText) ? countText.split("").map(Number) : [0, 0];
+
+      // Batter first, then every runner: explicit advances, outs marked in the
+      // event, anything the "+" part moved, and finally forced runners
+      const batterAdvance = advances.find((a) => a.from === "B");
+      const batterDestination: BaseDestination | null =
+        batterAdvance?.to ?? (parsed.outs.includes("B") ? "OUT" : getBatterBaseAdvancement(parsed.resultType));
+      const eventOuts: ParsedAdvance[] = parsed.outs
+        .filter((b): b is Base => b !== "B")
+        .map((from) => ({ from, to: "OUT", isOut: true, error: null, noRbi: true }));
+      let runnerAdvances = mergeAdvances(mergeAdvances(advances, eventOuts), extra?.advances ?? []);
+      const explicit = new Set(runnerAdvances.map((a) => a.from));
+      const forced = getImplicitRunnerMovements(state.currentBaseState, batterDestination)
+        .filter((m) => !explicit.has(m.from))
+        .map((m): ParsedAdvance => ({ from: m.from, to: m.to, isOut: false, error: null, noRbi: false }));
+      runnerAdvances = [...runnerAdvances.filter((a) => a.from !== "B"), ...forced];
+
+      const credits = parseFieldingNotation(parsed.resultDetail, parsed.resultType);
+      const batterPlay = newPlay(ctx, {
+        at_bat_id: atBatId,
+        play_sequence: 1,
+        runner_lineup_id: batterLineupId,
+        play_type: batterDestination === "OUT" ? "out" : "advance",
+        from_base: "0",
+        to_base: batterDestination,
+        fielding_sequence: parsed.resultDetail,
+        putout_positions: credits.putouts.length > 0 ? credits.putouts : null,
+        assist_positions: credits.assists.length > 0 ? credits.assists : null,
+        error_position: credits.error ?? batterAdvance?.error ?? null,
+        is_earned_run: batterDestination === "H" && parsed.resultType !== "E",
+      });
+      // Runners moved by the "+" part: the bases it names, or every explicit
+      // advance for a wild pitch, passed ball or balk
+      const extraFrom = new Set(
+        (extra && extra.advances.length > 0 ? extra.advances : extra ? advances : []).map((a) => a.from)
+      );
+      const plays = [
+        batterPlay,
+        ...runnerPlays(ctx, state, runnerAdvances, "advance", 2).map((play) => ({
+          ...play,
+          at_bat_id: atBatId,
+          play_type: extra && extraFrom.has(play.from_base as Base) ? extra.playType : play.play_type,
+          is_earned_run: play.is_earned_run && parsed.resultType !== "E",
+        })),
+      ];
+
+      // No RBI on errors, double plays, strikeouts or runs marked (NR)
+      const noRbiRuns = new Set(runnerAdvances.filter((a) => a.noRbi || a.error).map((a) => a.from));
+      const rbis = ["E", "DP", "TP", "K", "KL"].includes(parsed.resultType)
+        ? 0
+        : plays.filter((p) => p.to_base === "H" && !noRbiRuns.has(p.from_base === "0" ? "B" : (p.from_base as Base)))
+            .length;
+
+      const atBat: AtBat = {
+        id: atBatId,
+        user_id: userId,
+        game_id: gameId,
+        inning,
+        half,
+        batter_number: batterNumber,
+        batter_lineup_id: batterLineupId,
+        pitcher_lineup_id: pitcherId,
+        result_type: parsed.resultType,
+        result_detail: parsed.resultDetail,
+        balls,
+        strikes,
+        pitch_count: pitchSequence.length,
+        pitch_sequence: pitchSequence || null,
+        hit_location_x: null,
+        hit_location_y: null,
+        hit_zone_id: null,
+        final_pitch_zone_id: null,
+        rbis,
+        is_quality_ab: false,
+        notes: null,
+        created_at: stamp(),
+      };
+
+      data.atBats.push(atBat);
+      data.plays.push(...plays);
+      // A steal or wild pitch on the same play happened before the ball was put in play
+      for (const play of plays.filter(isBetweenPitchPlay)) {
+        state = applyGameEvent(state, { type: "runner_play", play });
+      }
+      state = applyGameEvent(state, {
+        type: "plate_appearance",
+        atBat,
+        plays: plays.filter((p) => !isBetweenPitchPlay(p)),
+      });
+    }
+
+    data.game = {
+      ...game,
+      current_inning: state.game.current_inning,
+      current_half: state.game.current_half,
+      home_final_score: state.game.home_final_score,
+      away_final_score: state.game.away_final_score,
+    };
+
+    // Stored earned run flags follow the reconstruction, as when scoring live
+    const corrections = new Map(
+      getEarnedRunCorrections(computeEarnedRuns(data), data.plays).map((c) => [c.playId, c.isEarned])
+    );
+    data.plays = data.plays.map((play) =>
+      corrections.has(play.id) ? { ...play, is_earned_run: corrections.get(play.id) as boolean } : play
+    );
+
+    return data;
+  });
+}
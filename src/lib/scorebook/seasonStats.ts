@@ -0,0 +1,310 @@
+/**
+ * Season and career stats for saved teams and players
+ *
+ * Each game's lineup entries are mapped onto the saved player they were
+ * created from (or onto the team itself for team totals), then the per-game
+ * box score functions run once over every game's rows. Runs and decisions
+ * come from each game's own reconstruction before being summed.
+ */
+
+import type {
+  AtBat,
+  Play,
+  GamePitch,
+  GameLineupEntry,
+  SavedPlayer,
+  SavedTeam,
+  TeamSide,
+  BatterBoxScore,
+  PitcherBoxScore,
+  AdvancedBatterStats,
+  AdvancedPitcherStats,
+  PitchingDecision,
+} from "./types";
+import type { FullGameData } from "./db";
+import { computeEarnedRuns, type EarnedRunReport } from "./earnedRuns";
+import { computePitchingDecisions, type PitchingDecisions } from "./decisions";
+import {
+  computeBatterStats,
+  computeAdvancedBatterStats,
+  computePitcherStats,
+  computeAdvancedPitcherStats,
+} from "./stats";
+
+export type SeasonFilters = {
+  // Inclusive YYYY-MM-DD bounds on game_date
+  from?: string;
+  to?: string;
+  opponent?: string;
+};
+
+export type SeasonBattingLine = BatterBoxScore &
+  AdvancedBatterStats & {
+    id: string;
+    games: number;
+  };
+
+export type SeasonPitchingLine = PitcherBoxScore &
+  AdvancedPitcherStats & {
+    id: string;
+    games: number;
+  } & Record<PitchingDecision, number>;
+
+export type TeamRecord = {
+  games: number;
+  wins: number;
+  losses: number;
+  ties: number;
+  runsFor: number;
+  runsAgainst: number;
+};
+
+export type SeasonStats = {
+  record: TeamRecord;
+  team: { batting: SeasonBattingLine; pitching: SeasonPitchingLine };
+  batting: SeasonBattingLine[];
+  pitching: SeasonPitchingLine[];
+};
+
+// Game rows with lineup ids swapped for player or team ids
+type MappedRows = {
+  atBats: AtBat[];
+  plays: Play[];
+  pitches: GamePitch[];
+  byPitcher: EarnedRunReport["byPitcher"];
+  decisions: PitchingDecisions;
+  // Mapped id -> games appeared in, as batter and as pitcher
+  batted: Map<string, number>;
+  pitched: Map<string, number>;
+};
+
+// ==============================================
+// GAME SELECTION
+// ==============================================
+
+export function getTeamSide(data: FullGameData, teamId: string): TeamSide | null {
+  if (data.game.home_team_id === teamId) return "home";
+  if (data.game.away_team_id === teamId) return "away";
+  return null;
+}
+
+export function getOpponentName(data: FullGameData, teamId: string): string | null {
+  const side = getTeamSide(data, teamId);
+  if (!side) return null;
+  return side === "home" ? data.game.away_team_name : data.game.home_team_name;
+}
+
+export function filterGames(
+  games: FullGameData[],
+  teamId: string,
+  { from, to, opponent }: SeasonFilters = {}
+): FullGameData[] {
+  return games.filter((data) => {
+    if (!getTeamSide(data, teamId)) return false;
+    if (from && data.game.game_date < from) return false;
+    if (to && data.game.game_date > to) return false;
+    if (opponent && getOpponentName(data, teamId) !== opponent) return false;
+    return true;
+  });
+}
+
+/**
+ * Seasons (calendar years) a team has games in, newest first
+ */
+export function getSeasons(games: FullGameData[]): number[] {
+  const years = new Set(games.map((data) => Number(data.game.game_date.slice(0, 4))));
+  return [...years].sort((a, b) => b - a);
+}
+
+export function getOpponents(games: FullGameData[], teamId: string): string[] {
+  const names = new Set(
+    games.map((data) => getOpponentName(data, teamId)).filter((n): n is string => n !== null)
+  );
+  return [...names].sort((a, b) => a.localeCompare(b));
+}
+
+// ==============================================
+// AGGREGATION
+// ==============================================
+
+function mapGames(
+  games: FullGameData[],
+  teamId: string,
+  getId: (entry: GameLineupEntry) => string | null
+): MappedRows {
+  const rows: MappedRows = {
+    atBats: [],
+    plays: [],
+    pitches: [],
+    byPitcher: {},
+    decisions: {},
+    batted: new Map(),
+    pitched: new Map(),
+  };
+  const bump = (counts: Map<string, number>, ids: Set<string>) => {
+    for (const id of ids) counts.set(id, (counts.get(id) ?? 0) + 1);
+  };
+
+  for (const data of games) {
+    const side = getTeamSide(data, teamId);
+    const lineup = side === "home" ? data.homeLineup : data.awayLineup;
+    const idMap = new Map<string, string>();
+    for (const entry of lineup) {
+      const id = getId(entry);
+      if (id) idMap.set(entry.id, id);
+    }
+    const map = (lineupId: string | null) => (lineupId ? (idMap.get(lineupId) ?? lineupId) : lineupId);
+
+    const earnedRuns = computeEarnedRuns(data);
+    const decisions = computePitchingDecisions(data, earnedRuns);
+
+    rows.atBats.push(
+      ...data.atBats.map((ab) => ({
+        ...ab,
+        batter_lineup_id: map(ab.batter_lineup_id) as string,
+        pitcher_lineup_id: map(ab.pitcher_lineup_id) as string,
+      }))
+    );
+    rows.plays.push(
+      ...data.plays.map((p) => ({
+        ...p,
+        runner_lineup_id: map(p.runner_lineup_id),
+        pitcher_lineup_id: map(p.pitcher_lineup_id),
+      }))
+    );
+    rows.pitches.push(...data.pitches);
+
+    for (const [pitcherId, totals] of Object.entries(earnedRuns.byPitcher)) {
+      const sum = (rows.byPitcher[map(pitcherId) as string] ??= { r: 0, er: 0 });
+      sum.r += totals.r;
+      sum.er += totals.er;
+    }
+    for (const [pitcherId, list] of Object.entries(decisions)) {
+      const id = map(pitcherId) as string;
+      rows.decisions[id] = [...(rows.decisions[id] ?? []), ...list];
+    }
+
+    const ownIds = new Set(idMap.keys());
+    bump(
+      rows.batted,
+      new Set(data.atBats.filter((ab) => ownIds.has(ab.batter_lineup_id)).map((ab) => idMap.get(ab.batter_lineup_id) as string))
+    );
+    bump(
+      rows.pitched,
+      new Set(data.atBats.filter((ab) => ownIds.has(ab.pitcher_lineup_id)).map((ab) => idMap.get(ab.pitcher_lineup_id) as string))
+    );
+  }
+
+  return rows;
+}
+
+// Stand-in lineup entry so the per-game stat functions can match on a mapped id
+function aggregateEntry(id: string, name: string, jerseyNumber: string | null = null): GameLineupEntry {
+  return {
+    id,
+    user_id: "",
+    game_id: "",
+    team_side: "home",
+    player_id: id,
+    player_name: name,
+    jersey_number: jerseyNumber,
+    bats: null,
+    throws: null,
+    batting_order: null,
+    defensive_position: null,
+    entry_inning: 1,
+    entry_half: "top",
+    entry_batter: 0,
+    is_active: true,
+    created_at: "",
+  };
+}
+
+function computeBattingLine(rows: MappedRows, entry: GameLineupEntry): SeasonBattingLine {
+  return {
+    ...computeBatterStats(rows.atBats, rows.plays, entry),
+    ...computeAdvancedBatterStats(rows.atBats, entry),
+    id: entry.id,
+    games: rows.batted.get(entry.id) ?? 0,
+  };
+}
+
+function computePitchingLine(rows: MappedRows, entry: GameLineupEntry): SeasonPitchingLine {
+  const box = computePitcherStats(rows.atBats, rows.plays, entry, {
+    pitches: rows.pitches,
+    earnedRuns: { charges: [], byPitcher: rows.byPitcher },
+    decisions: rows.decisions,
+  });
+  const count = (decision: PitchingDecision) => box.decisions.filter((d) => d === decision).length;
+
+  return {
+    ...box,
+    ...computeAdvancedPitcherStats(box),
+    id: entry.id,
+    games: rows.pitched.get(entry.id) ?? 0,
+    W: count("W"),
+    L: count("L"),
+    SV: count("SV"),
+    HLD: count("HLD"),
+    BS: count("BS"),
+  };
+}
+
+export function computeTeamRecord(games: FullGameData[], teamId: string): TeamRecord {
+  const record: TeamRecord = { games: 0, wins: 0, losses: 0, ties: 0, runsFor: 0, runsAgainst: 0 };
+
+  for (const { game } of games) {
+    if (game.status !== "completed") continue;
+    const isHome = game.home_team_id === teamId;
+    const runsFor = isHome ? game.home_final_score : game.away_final_score;
+    const runsAgainst = isHome ? game.away_final_score : game.home_final_score;
+
+    record.games++;
+    record.runsFor += runsFor;
+    record.runsAgainst += runsAgainst;
+    if (runsFor > runsAgainst) record.wins++;
+    else if (runsFor < runsAgainst) record.losses++;
+    else record.ties++;
+  }
+
+  return record;
+}
+
+/**
+ * Batting and pitching lines for a saved team and its players over the games
+ * that match the filters. Lineup entries not linked to a saved player still
+ * count toward the team totals.
+ */
+export function computeSeasonStats(
+  games: FullGameData[],
+  team: SavedTeam,
+  players: SavedPlayer[],
+  filters: SeasonFilters = {}
+): SeasonStats {
+  const selected = filterGames(games, team.id, filters);
+  const playerIds = new Set(players.map((p) => p.id));
+
+  const playerRows = mapGames(selected, team.id, (entry) =>
+    entry.player_id && playerIds.has(entry.player_id) ? entry.player_id : null
+  );
+  const teamRows = mapGames(selected, team.id, () => team.id);
+
+  const entries = players.map((p) => aggregateEntry(p.id, `${p.first_name} ${p.last_name}`, p.jersey_number));
+  const teamEntry = aggregateEntry(team.id, team.name);
+  const teamBatting = computeBattingLine(teamRows, teamEntry);
+  const teamPitching = computePitchingLine(teamRows, teamEntry);
+
+  return {
+    record: computeTeamRecord(selected, team.id),
+    team: {
+      batting: { ...teamBatting, games: selected.length },
+      pitching: { ...teamPitching, games: selected.length },
+    },
+    batting: entries
+      .map((entry) => computeBattingLine(playerRows, entry))
+      .filter((line) => line.games > 0),
+    pitching: entries
+      .map((entry) => computePitchingLine(playerRows, entry))
+      .filter((line) => line.games > 0),
+  };
+}
@@ -0,0 +1,106 @@
+/**
+ * Live game sharing
+ *
+ * A shared game has a secret share_token, and anyone with its link can follow
+ * along without an account. Spectators read the game through the
+ * get_shared_game function, and a database trigger broadcasts on the token's
+ * channel whenever the game or its rows change. Clearing the token revokes
+ * the link.
+ */
+
+import { supabase } from "@/lib/supabaseClient";
+import { withRetry } from "@/lib/api";
+import type { FullGameData } from "./db";
+import type { AtBat, Game, GameLineupEntry, InningSummary, Play, Substitution } from "./types";
+
+// What get_shared_game returns. The rows carry only the columns the spectator
+// page reads; ownership, notes and the token itself are withheld.
+type SharedGameRows = {
+  game: Game;
+  lineups: GameLineupEntry[];
+  substitutions: Substitution[];
+  atBats: AtBat[];
+  plays: Play[];
+  inningSummaries: InningSummary[];
+};
+
+export function getShareUrl(token: string): string {
+  return `${window.location.origin}/live/${token}`;
+}
+
+// ==============================================
+// OWNER
+// ==============================================
+
+/**
+ * Turn on the live link for a game, returning its token
+ */
+export async function shareGame(gameId: string): Promise<string> {
+  const token = crypto.randomUUID();
+  return withRetry(async () => {
+    const { error } = await supabase.from("sb_games").update({ share_token: token }).eq("id", gameId);
+
+    if (error) throw error;
+    return token;
+  });
+}
+
+/**
+ * Revoke a game's live link. Sharing again makes a new one.
+ */
+export async function stopSharingGame(gameId: string): Promise<void> {
+  return withRetry(async () => {
+    const { error } = await supabase.from("sb_games").update({ share_token: null }).eq("id", gameId);
+
+    if (error) throw error;
+  });
+}
+
+// ==============================================
+// SPECTATOR
+// ==============================================
+
+/**
+ * Load a shared game by its token, or null if the link was revoked
+ */
+export async function fetchSharedGame(token: string): Promise<FullGameData | null> {
+  return withRetry(async () => {
+    const { data, error } = await supabase.rpc("get_shared_game", { token });
+
+    // Not a uuid, so not a link we ever handed out
+    if (error?.code === "22P02") return null;
+    if (error) throw error;
+    if (!data) return null;
+
+    const rows = data as SharedGameRows;
+    return {
+      game: rows.game,
+      homeLineup: rows.lineups.filter((l) => l.team_side === "home"),
+      awayLineup: rows.lineups.filter((l) => l.team_side === "away"),
+      atBats: rows.atBats,
+      plays: rows.plays,
+      // Pitch-by-pitch detail isn't shared
+      pitches: [],
+      substitutions: rows.substitutions,
+      inningSummaries: rows.inningSummaries,
+    };
+  });
+}
+
+/**
+ * Call onChange whenever the shared game changes, and once the channel
+ * connects so nothing missed while (re)connecting is lost. Returns an
+ * unsubscribe function.
+ */
+export function subscribeToSharedGame(token: string, onChange: () => void): () => void {
+  const channel = supabase
+    .channel(`shared-game:${token}`)
+    .on("broadcast", { event: "change" }, () => onChange())
+    .subscribe((status) => {
+      if (status === "SUBSCRIBED") onChange();
+    });
+
+  return () => {
+    void supabase.removeChannel(channel);
+  };
+}
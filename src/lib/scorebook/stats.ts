@@ -5,6 +5,7 @@
 import type {
   AtBat,
   Play,
+  GamePitch,
   GameLineupEntry,
   HalfInning,
   BatterBoxScore,
@@ -14,7 +15,16 @@ import type {
   LineScore,
   InningSummary,
 } from "./types";
-import { AT_BAT_RESULTS, getBattingTeam, formatInningsPitched } from "./types";
+import { AT_BAT_RESULTS, PITCH_RESULTS, getBattingTeam, formatInningsPitched } from "./types";
+import type { EarnedRunReport } from "./earnedRuns";
+import type { PitchingDecisions } from "./decisions";
+
+// Extra game data that sharpens pitcher lines when it's available
+export type PitchingStatsOptions = {
+  pitches?: GamePitch[];
+  earnedRuns?: EarnedRunReport;
+  decisions?: PitchingDecisions;
+};
 
 // ==============================================
 // BATTER STATS
@@ -54,6 +64,10 @@ export function computeBatterStats(
   // Runs scored (from plays where this player scored)
   r = playerPlays.filter((p) => p.run_scored).length;
 
+  // Stolen bases and caught stealing
+  const sb = playerPlays.filter((p) => p.play_type === "stolen_base").length;
+  const cs = playerPlays.filter((p) => p.play_type === "caught_stealing").length;
+
   const avg = ab > 0 ? h / ab : 0;
 
   return {
@@ -68,6 +82,8 @@ export function computeBatterStats(
     rbi,
     bb,
     k,
+    sb,
+    cs,
     avg,
   };
 }
@@ -128,7 +144,8 @@ export function computeAdvancedBatterStats(
 export function computePitcherStats(
   atBats: AtBat[],
   plays: Play[],
-  lineupEntry: GameLineupEntry
+  lineupEntry: GameLineupEntry,
+  { pitches = [], earnedRuns, decisions }: PitchingStatsOptions = {}
 ): PitcherBoxScore {
   const pitchedAtBats = atBats.filter((ab) => ab.pitcher_lineup_id === lineupEntry.id);
 
@@ -167,6 +184,22 @@ export function computePitcherStats(
     }
   }
 
+  // Runner events between pitches are charged to whoever was pitching
+  for (const play of plays) {
+    if (play.at_bat_id || play.pitcher_lineup_id !== lineupEntry.id) continue;
+    if (play.is_out) outs++;
+    if (play.run_scored) {
+      r++;
+      if (play.is_earned_run) er++;
+    }
+  }
+
+  // Reconstructed runs charge inherited runners to the pitcher who put them on
+  if (earnedRuns) {
+    r = earnedRuns.byPitcher[lineupEntry.id]?.r ?? 0;
+    er = earnedRuns.byPitcher[lineupEntry.id]?.er ?? 0;
+  }
+
   // Innings pitched
   const ip = outs / 3;
   const ipDisplay = formatInningsPitched(outs);
@@ -174,6 +207,15 @@ export function computePitcherStats(
   // ERA = (ER * 9) / IP
   const era = ip > 0 ? (er * 9) / ip : 0;
 
+  // Pitch-level rates, from at-bats that were scored pitch by pitch
+  const pitchedAtBatIds = new Set(pitchedAtBats.map((ab) => ab.id));
+  const thrown = pitches.filter((p) => pitchedAtBatIds.has(p.at_bat_id));
+  const strikes = thrown.filter((p) => PITCH_RESULTS[p.pitch_result].isStrike).length;
+  const firstPitches = thrown.filter((p) => p.pitch_number === 1);
+  const firstPitchStrikes = firstPitches.filter((p) => PITCH_RESULTS[p.pitch_result].isStrike).length;
+  const swings = thrown.filter((p) => PITCH_RESULTS[p.pitch_result].isSwing).length;
+  const whiffs = thrown.filter((p) => p.pitch_result === "swinging_strike").length;
+
   return {
     lineupId: lineupEntry.id,
     playerName: lineupEntry.player_name,
@@ -186,6 +228,12 @@ export function computePitcherStats(
     k,
     pc,
     era,
+    pitchesTracked: thrown.length,
+    strikes,
+    strikePct: thrown.length > 0 ? strikes / thrown.length : 0,
+    firstPitchStrikePct: firstPitches.length > 0 ? firstPitchStrikes / firstPitches.length : 0,
+    whiffPct: swings > 0 ? whiffs / swings : 0,
+    decisions: decisions?.[lineupEntry.id] ?? [],
   };
 }
 
@@ -220,7 +268,9 @@ export function computeInningSummary(
 ): Omit<InningSummary, "id" | "user_id" | "game_id"> {
   const inningAtBats = atBats.filter((ab) => ab.inning === inning && ab.half === half);
   const inningAtBatIds = new Set(inningAtBats.map((ab) => ab.id));
-  const inningPlays = plays.filter((p) => inningAtBatIds.has(p.at_bat_id));
+  const inningPlays = plays.filter((p) =>
+    p.at_bat_id ? inningAtBatIds.has(p.at_bat_id) : p.inning === inning && p.half === half
+  );
 
   let runs = 0;
   let hits = 0;
@@ -285,7 +335,7 @@ export function computeTeamBattingStats(
   lineup: GameLineupEntry[]
 ): {
   batters: BatterBoxScore[];
-  totals: { ab: number; r: number; h: number; rbi: number; bb: number; k: number; avg: number };
+  totals: { ab: number; r: number; h: number; rbi: number; bb: number; k: number; sb: number; cs: number; avg: number };
 } {
   // Only include players who batted (have batting order)
   const batters = lineup
@@ -301,9 +351,11 @@ export function computeTeamBattingStats(
       rbi: acc.rbi + b.rbi,
       bb: acc.bb + b.bb,
       k: acc.k + b.k,
+      sb: acc.sb + b.sb,
+      cs: acc.cs + b.cs,
       avg: 0,
     }),
-    { ab: 0, r: 0, h: 0, rbi: 0, bb: 0, k: 0, avg: 0 }
+    { ab: 0, r: 0, h: 0, rbi: 0, bb: 0, k: 0, sb: 0, cs: 0, avg: 0 }
   );
 
   totals.avg = totals.ab > 0 ? totals.h / totals.ab : 0;
@@ -314,7 +366,8 @@ export function computeTeamBattingStats(
 export function computeTeamPitchingStats(
   atBats: AtBat[],
   plays: Play[],
-  lineup: GameLineupEntry[]
+  lineup: GameLineupEntry[],
+  options: PitchingStatsOptions = {}
 ): {
   pitchers: PitcherBoxScore[];
   totals: { ip: number; ipDisplay: string; h: number; r: number; er: number; bb: number; k: number; era: number };
@@ -323,7 +376,7 @@ export function computeTeamPitchingStats(
   const pitcherIds = new Set(atBats.map((ab) => ab.pitcher_lineup_id));
   const pitchers = lineup
     .filter((l) => pitcherIds.has(l.id))
-    .map((l) => computePitcherStats(atBats, plays, l));
+    .map((l) => computePitcherStats(atBats, plays, l, options));
 
   let totalOuts = 0;
   const totals = pitchers.reduce(
@@ -106,6 +106,33 @@ export const PLAY_TYPES = {
 
 export type PlayType = keyof typeof PLAY_TYPES;
 
+// Play.error_type for a dropped foul fly: the error kept the batter's at-bat
+// going rather than putting anyone on base
+export const DROPPED_FOUL_ERROR = "dropped_foul";
+
+export const PITCH_RESULTS = {
+  ball: { label: "Ball", code: "B", isStrike: false, isSwing: false },
+  called_strike: { label: "Called Strike", code: "C", isStrike: true, isSwing: false },
+  swinging_strike: { label: "Swinging Strike", code: "S", isStrike: true, isSwing: true },
+  foul: { label: "Foul", code: "F", isStrike: true, isSwing: true },
+  in_play: { label: "In Play", code: "X", isStrike: true, isSwing: true },
+  hit_by_pitch: { label: "Hit By Pitch", code: "H", isStrike: false, isSwing: false },
+} as const;
+
+export type PitchResult = keyof typeof PITCH_RESULTS;
+
+export const PITCH_TYPES = {
+  FB: "Fastball",
+  SL: "Slider",
+  CB: "Curveball",
+  CH: "Changeup",
+  CT: "Cutter",
+  SI: "Sinker",
+  OT: "Other",
+} as const;
+
+export type PitchType = keyof typeof PITCH_TYPES;
+
 export const PLAY_LEVELS = {
   youth: "Youth/Little League",
   high_school: "High School",
@@ -135,6 +162,8 @@ export type GameStatus = "in_progress" | "completed" | "suspended" | "cancelled"
 export type SavedTeam = {
   id: string;
   user_id: string;
+  // Organization sharing this team; null when private to user_id
+  org_id: string | null;
   name: string;
   abbreviation: string | null;
   level: PlayLevel | null;
@@ -157,6 +186,8 @@ export type SavedPlayer = {
   throws: ThrowingHand | null;
   primary_position: Position | null;
   secondary_positions: Position[] | null;
+  // Bullpen pitcher this player is the same athlete as
+  pitcher_id: string | null;
   created_at: string;
   updated_at: string;
 };
@@ -167,6 +198,8 @@ export type SavedPlayerUpdate = Partial<Omit<SavedPlayer, "id" | "user_id" | "te
 export type Game = {
   id: string;
   user_id: string;
+  // Organization sharing this game; null when private to user_id
+  org_id: string | null;
   game_date: string;
   game_time: string | null;
   location: string | null;
@@ -183,6 +216,8 @@ export type Game = {
   away_final_score: number;
   innings_scheduled: number;
   use_dh: boolean;
+  // Secret in the public live link; null when the game isn't shared
+  share_token: string | null;
   created_at: string;
   updated_at: string;
 };
@@ -263,7 +298,12 @@ export type Play = {
   id: string;
   user_id: string;
   game_id: string;
-  at_bat_id: string;
+  // Null for runner events recorded between pitches, which carry their own situation
+  at_bat_id: string | null;
+  inning: number | null;
+  half: HalfInning | null;
+  batter_number: number | null;
+  pitcher_lineup_id: string | null;
   play_sequence: number;
   runner_lineup_id: string | null;
   play_type: PlayType;
@@ -282,6 +322,22 @@ export type Play = {
 };
 
 export type PlayInsert = Omit<Play, "id" | "created_at">;
+
+export type GamePitch = {
+  id: string;
+  user_id: string;
+  game_id: string;
+  at_bat_id: string;
+  pitch_number: number;
+  pitch_result: PitchResult;
+  pitch_type: PitchType | null;
+  zone_id: string | null;
+  balls_before: number;
+  strikes_before: number;
+  created_at: string;
+};
+
+export type GamePitchInsert = Omit<GamePitch, "id" | "created_at">;
 export type PlayUpdate = Partial<Omit<Play, "id" | "user_id" | "game_id" | "at_bat_id" | "created_at">>;
 
 export type InningSummary = {
@@ -338,9 +394,13 @@ export type BatterBoxScore = {
   rbi: number;
   bb: number;
   k: number;
+  sb: number;
+  cs: number;
   avg: number;
 };
 
+export type PitchingDecision = "W" | "L" | "SV" | "HLD" | "BS";
+
 export type PitcherBoxScore = {
   lineupId: string;
   playerName: string;
@@ -353,6 +413,13 @@ export type PitcherBoxScore = {
   k: number;
   pc: number;
   era: number;
+  // Only counted from at-bats scored pitch by pitch
+  pitchesTracked: number;
+  strikes: number;
+  strikePct: number;
+  firstPitchStrikePct: number;
+  whiffPct: number;
+  decisions: PitchingDecision[];
 };
 
 export type AdvancedBatterStats = {
@@ -374,6 +441,19 @@ export type AdvancedPitcherStats = {
   hPer9: number;
 };
 
+export type FieldingBoxScore = {
+  lineupId: string;
+  playerName: string;
+  position: Position;
+  po: number;
+  a: number;
+  e: number;
+  // Double plays taken part in
+  dp: number;
+  tc: number;
+  fpct: number;
+};
+
 export type LineScore = {
   home: number[];
   away: number[];
@@ -405,6 +485,11 @@ export function isPlayType(value: string | null | undefined): value is PlayType
   return value in PLAY_TYPES;
 }
 
+export function isPitchResult(value: string | null | undefined): value is PitchResult {
+  if (!value) return false;
+  return value in PITCH_RESULTS;
+}
+
 export function isPlayLevel(value: string | null | undefined): value is PlayLevel {
   if (!value) return false;
   return value in PLAY_LEVELS;
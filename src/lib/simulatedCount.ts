@@ -0,0 +1,196 @@
+/**
+ * Simulated-count ("live count") bullpens
+ *
+ * Each pitch in a live-count pen stores its call and the number of the
+ * imaginary hitter it was thrown to. Counts are never stored: they are
+ * replayed from the calls in throw order, so editing or deleting a pitch
+ * can't leave the rest of the at-bat with a stale count.
+ */
+
+export const PITCH_CALLS = ["ball", "called_strike", "swinging_strike", "foul", "in_play"] as const;
+
+export type PitchCall = (typeof PITCH_CALLS)[number];
+
+export const PITCH_CALL_LABELS: Record<PitchCall, string> = {
+  ball: "Ball",
+  called_strike: "Called strike",
+  swinging_strike: "Swinging strike",
+  foul: "Foul",
+  in_play: "In play",
+};
+
+export type SimulatedOutcome = "K" | "BB" | "contact";
+
+export type Count = { balls: number; strikes: number };
+
+// The fields replay needs from a logged pitch
+export type SimulatedPitch = {
+  id: string;
+  pitch_type: string;
+  pitch_call: string | null;
+  sim_batter: number | null;
+  created_at: string | null;
+};
+
+export type ReplayedPitch<T extends SimulatedPitch> = {
+  pitch: T;
+  call: PitchCall;
+  batter: number;
+  count: Count;
+  // Set on the pitch that ends the at-bat
+  outcome: SimulatedOutcome | null;
+};
+
+export type SimulatedState = {
+  batter: number;
+  count: Count;
+};
+
+export type CountSummary = {
+  batters: number;
+  pitches: number;
+  outcomes: Record<SimulatedOutcome, number>;
+  firstPitchStrikes: number;
+  firstPitchStrikeRate: number;
+  strikeRate: number;
+  // "0-2", "3-0"... -> pitch type -> pitches thrown in that count
+  selectionByCount: Record<string, Record<string, number>>;
+  twoStrikeNoBall: CountBehavior;
+  threeBallNoStrike: CountBehavior;
+};
+
+export type CountBehavior = {
+  pitches: number;
+  strikes: number;
+  strikeRate: number;
+  // How the at-bats that reached this count ended
+  outcomes: Record<SimulatedOutcome, number>;
+};
+
+export function isPitchCall(value: string | null | undefined): value is PitchCall {
+  return PITCH_CALLS.includes(value as PitchCall);
+}
+
+export function isStrikeCall(call: PitchCall): boolean {
+  return call !== "ball";
+}
+
+export function formatCount({ balls, strikes }: Count): string {
+  return `${balls}-${strikes}`;
+}
+
+/**
+ * Apply one call to a count. Fouls with two strikes leave the count alone.
+ */
+export function advanceCount(count: Count, call: PitchCall): { count: Count; outcome: SimulatedOutcome | null } {
+  switch (call) {
+    case "ball":
+      return count.balls >= 3
+        ? { count: { balls: 4, strikes: count.strikes }, outcome: "BB" }
+        : { count: { balls: count.balls + 1, strikes: count.strikes }, outcome: null };
+    case "called_strike":
+    case "swinging_strike":
+      return count.strikes >= 2
+        ? { count: { balls: count.balls, strikes: 3 }, outcome: "K" }
+        : { count: { balls: count.balls, strikes: count.strikes + 1 }, outcome: null };
+    case "foul":
+      return { count: { balls: count.balls, strikes: Math.min(count.strikes + 1, 2) }, outcome: null };
+    case "in_play":
+      return { count, outcome: "contact" };
+  }
+}
+
+function sortByThrowOrder<T extends SimulatedPitch>(pitches: T[]): T[] {
+  return [...pitches].sort(
+    (a, b) => new Date(a.created_at ?? 0).getTime() - new Date(b.created_at ?? 0).getTime()
+  );
+}
+
+/**
+ * Live-count pitches in throw order, each with the count it was thrown in
+ */
+export function replaySimulatedPitches<T extends SimulatedPitch>(pitches: T[]): ReplayedPitch<T>[] {
+  const replayed: ReplayedPitch<T>[] = [];
+  let batter: number | null = null;
+  let count: Count = { balls: 0, strikes: 0 };
+
+  for (const pitch of sortByThrowOrder(pitches)) {
+    if (!isPitchCall(pitch.pitch_call) || pitch.sim_batter === null) continue;
+    if (pitch.sim_batter !== batter) {
+      batter = pitch.sim_batter;
+      count = { balls: 0, strikes: 0 };
+    }
+
+    const next = advanceCount(count, pitch.pitch_call);
+    replayed.push({ pitch, call: pitch.pitch_call, batter, count, outcome: next.outcome });
+    count = next.count;
+  }
+
+  return replayed;
+}
+
+/**
+ * The hitter and count the next live-count pitch is thrown to
+ */
+export function getSimulatedState(pitches: SimulatedPitch[]): SimulatedState {
+  const replayed = replaySimulatedPitches(pitches);
+  const last = replayed[replayed.length - 1];
+  if (!last) return { batter: 1, count: { balls: 0, strikes: 0 } };
+  if (last.outcome) return { batter: last.batter + 1, count: { balls: 0, strikes: 0 } };
+  return { batter: last.batter, count: advanceCount(last.count, last.call).count };
+}
+
+function emptyOutcomes(): Record<SimulatedOutcome, number> {
+  return { K: 0, BB: 0, contact: 0 };
+}
+
+function computeCountBehavior<T extends SimulatedPitch>(replayed: ReplayedPitch<T>[], key: string): CountBehavior {
+  const inCount = replayed.filter((r) => formatCount(r.count) === key);
+  const strikes = inCount.filter((r) => isStrikeCall(r.call)).length;
+  const batters = new Set(inCount.map((r) => r.batter));
+  const outcomes = emptyOutcomes();
+  for (const r of replayed) {
+    if (r.outcome && batters.has(r.batter)) outcomes[r.outcome] += 1;
+  }
+
+  return {
+    pitches: inCount.length,
+    strikes,
+    strikeRate: inCount.length ? strikes / inCount.length : 0,
+    outcomes,
+  };
+}
+
+export function computeCountSummary<T extends SimulatedPitch>(pitches: T[]): CountSummary {
+  const replayed = replaySimulatedPitches(pitches);
+  const outcomes = emptyOutcomes();
+  const selectionByCount: Record<string, Record<string, number>> = {};
+  let firstPitches = 0;
+  let firstPitchStrikes = 0;
+  let strikes = 0;
+
+  for (const r of replayed) {
+    if (r.outcome) outcomes[r.outcome] += 1;
+    if (isStrikeCall(r.call)) strikes += 1;
+    if (r.count.balls === 0 && r.count.strikes === 0) {
+      firstPitches += 1;
+      if (isStrikeCall(r.call)) firstPitchStrikes += 1;
+    }
+
+    const key = formatCount(r.count);
+    const types = (selectionByCount[key] ??= {});
+    types[r.pitch.pitch_type] = (types[r.pitch.pitch_type] ?? 0) + 1;
+  }
+
+  return {
+    batters: new Set(replayed.map((r) => r.batter)).size,
+    pitches: replayed.length,
+    outcomes,
+    firstPitchStrikes,
+    firstPitchStrikeRate: firstPitches ? firstPitchStrikes / firstPitches : 0,
+    strikeRate: replayed.length ? strikes / replayed.length : 0,
+    selectionByCount,
+    twoStrikeNoBall: computeCountBehavior(replayed, "0-2"),
+    threeBallNoStrike: computeCountBehavior(replayed, "3-0"),
+  };
+}
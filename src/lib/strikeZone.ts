@@ -89,7 +89,7 @@ export function isInZone(zoneId: string | null | undefined): boolean {
   return zoneId.startsWith("A") || zoneId.startsWith("B") || zoneId.startsWith("C");
 }
 
-export function computeCounts<T extends Record<string, string | null>>(
+export function computeCounts<T extends Record<string, unknown>>(
   pitches: T[],
   key: keyof T
 ): Map<ZoneId, number> {
@@ -109,7 +109,7 @@ export function computeCounts<T extends Record<string, string | null>>(
   return counts;
 }
 
-export function computeZoneCounts<T extends Record<string, string | null>>(
+export function computeZoneCounts<T extends Record<string, unknown>>(
   pitches: T[],
   key: keyof T
 ): Record<ZoneId, number> {
@@ -129,10 +129,39 @@ export function computeZoneCounts<T extends Record<string, string | null>>(
   return counts;
 }
 
+export type VelocityStats = {
+  count: number;
+  avg: number;
+  max: number;
+  stdDev: number;
+};
+
+/**
+ * Average, max and standard deviation of the pitches that have a velocity
+ */
+export function computeVelocityStats(pitches: { velocity?: number | null }[]): VelocityStats {
+  const values = pitches
+    .map((pitch) => pitch.velocity)
+    .filter((v): v is number => typeof v === "number" && Number.isFinite(v));
+  const count = values.length;
+  if (!count) return { count: 0, avg: 0, max: 0, stdDev: 0 };
+
+  const avg = values.reduce((sum, v) => sum + v, 0) / count;
+  const variance = values.reduce((sum, v) => sum + (v - avg) * (v - avg), 0) / count;
+
+  return {
+    count,
+    avg,
+    max: Math.max(...values),
+    stdDev: Math.sqrt(variance),
+  };
+}
+
 export function computeSummaryStats<
   T extends {
     intended_location_zone_id: string | null;
     actual_location_zone_id: string | null;
+    velocity?: number | null;
   },
 >(pitches: T[]) {
   const total = pitches.length;
@@ -154,6 +183,7 @@ export function computeSummaryStats<
 
   const inZoneRate = total ? inZoneCount / total : 0;
   const accuracyRate = total ? accuracyCount / total : 0;
+  const velocity = computeVelocityStats(pitches);
 
   return {
     total,
@@ -161,5 +191,412 @@ export function computeSummaryStats<
     accuracyCount,
     inZoneRate,
     accuracyRate,
+    velocityCount: velocity.count,
+    avgVelocity: velocity.avg,
+    maxVelocity: velocity.max,
+    velocityStdDev: velocity.stdDev,
+  };
+}
+
+const ZONE_BY_ID = new Map(buildZones5x5().map((zone) => [zone.id, zone]));
+
+/**
+ * Centre of a 5x5 zone in the normalized frame that target_x/y and
+ * actual_x/y are stored in
+ */
+export function zoneIdToPoint(zoneId: ZoneId): { x: number; y: number } {
+  const zone = ZONE_BY_ID.get(zoneId);
+  if (!zone) return { x: 0.5, y: 0.5 };
+  return {
+    x: (zone.col + 0.5) / 5,
+    y: (zone.row + 0.5) / 5,
+  };
+}
+
+// Locations are stored in a normalized frame: x 0..1 left to right and y 0..1
+// top to bottom, as seen from behind the plate. The strike zone is the middle
+// three fifths of the frame on both axes, so the 5x5 zones line up with it.
+export const ZONE_FRAME = { left: 0.2, right: 0.8, top: 0.2, bottom: 0.8 } as const;
+
+const ZONE_FRAME_SIZE = ZONE_FRAME.right - ZONE_FRAME.left;
+// Regulation ball diameter; misses closer than this count as on target
+export const BALL_DIAMETER_INCHES = 2.9;
+const GEOMETRY_STORAGE_KEY = "strikeZone:geometry";
+
+export type NormalizedPoint = { x: number; y: number };
+
+/**
+ * Strike zone in real units: plate width, and the zone's top and bottom as
+ * heights above the ground, all in inches
+ */
+export type StrikeZoneGeometry = {
+  plateWidth: number;
+  top: number;
+  bottom: number;
+};
+
+// Regulation plate and a league-average adult zone
+export const DEFAULT_ZONE_GEOMETRY: StrikeZoneGeometry = { plateWidth: 17, top: 41, bottom: 19 };
+
+/**
+ * Zone for a batter of the given height: the midpoint between the shoulders
+ * and the belt down to the hollow below the kneecap
+ */
+export function zoneForBatterHeight(heightInches: number, plateWidth = DEFAULT_ZONE_GEOMETRY.plateWidth): StrikeZoneGeometry {
+  const roundHalf = (v: number) => Math.round(v * 2) / 2;
+  return {
+    plateWidth,
+    top: roundHalf(heightInches * 0.56),
+    bottom: roundHalf(heightInches * 0.26),
+  };
+}
+
+function isGeometry(value: unknown): value is StrikeZoneGeometry {
+  if (!value || typeof value !== "object") return false;
+  const g = value as StrikeZoneGeometry;
+  return g.plateWidth > 0 && g.top > g.bottom && g.bottom >= 0;
+}
+
+export function loadZoneGeometry(): StrikeZoneGeometry {
+  if (typeof window === "undefined") return { ...DEFAULT_ZONE_GEOMETRY };
+  try {
+    const saved: unknown = JSON.parse(window.localStorage.getItem(GEOMETRY_STORAGE_KEY) ?? "null");
+    if (isGeometry(saved)) return { plateWidth: saved.plateWidth, top: saved.top, bottom: saved.bottom };
+  } catch {
+    // Corrupt settings fall back to the default
+  }
+  return { ...DEFAULT_ZONE_GEOMETRY };
+}
+
+export function saveZoneGeometry(geometry: StrikeZoneGeometry): void {
+  if (typeof window === "undefined") return;
+  window.localStorage.setItem(GEOMETRY_STORAGE_KEY, JSON.stringify(geometry));
+}
+
+/**
+ * Normalized point -> inches: x from the middle of the plate (positive to the
+ * right) and z above the ground
+ */
+export function toPlateCoordinates(point: NormalizedPoint, geometry: StrikeZoneGeometry): { x: number; z: number } {
+  return {
+    x: ((point.x - 0.5) / ZONE_FRAME_SIZE) * geometry.plateWidth,
+    z: geometry.bottom + ((ZONE_FRAME.bottom - point.y) / ZONE_FRAME_SIZE) * (geometry.top - geometry.bottom),
+  };
+}
+
+export function isPointInZone(point: NormalizedPoint): boolean {
+  return (
+    point.x >= ZONE_FRAME.left &&
+    point.x <= ZONE_FRAME.right &&
+    point.y >= ZONE_FRAME.top &&
+    point.y <= ZONE_FRAME.bottom
+  );
+}
+
+export const ZONE_GRIDS = {
+  "3x3": "3x3 (zone only)",
+  "5x5": "5x5",
+  "7x7": "7x7",
+  "13": "13-zone",
+} as const;
+
+export type ZoneGridKind = keyof typeof ZONE_GRIDS;
+
+export function isZoneGridKind(value: string | null | undefined): value is ZoneGridKind {
+  return !!value && value in ZONE_GRIDS;
+}
+
+/**
+ * A cell of a zone grid with its bounds in the normalized frame
+ */
+export type GridCell = {
+  id: string;
+  label: string;
+  inZone: boolean;
+  x0: number;
+  x1: number;
+  y0: number;
+  y1: number;
+};
+
+const THIRDS = ["High", "Middle", "Low"] as const;
+const SIDES = ["Left", "Middle", "Right"] as const;
+
+function zoneCells(divisions: number, labelled: boolean): GridCell[] {
+  const size = ZONE_FRAME_SIZE / divisions;
+  const cells: GridCell[] = [];
+  for (let row = 0; row < divisions; row += 1) {
+    for (let col = 0; col < divisions; col += 1) {
+      const x0 = ZONE_FRAME.left + col * size;
+      const y0 = ZONE_FRAME.top + row * size;
+      cells.push({
+        id: `Z${row * divisions + col + 1}`,
+        label: labelled ? `${THIRDS[row]}-${SIDES[col]}`.replace("Middle-Middle", "Middle") : `Zone row ${row + 1}, col ${col + 1}`,
+        inZone: true,
+        x0,
+        x1: x0 + size,
+        y0,
+        y1: y0 + size,
+      });
+    }
+  }
+  return cells;
+}
+
+// One ring of cells from the zone's edge to the frame's edge
+function ringCells(divisions: number): GridCell[] {
+  const size = ZONE_FRAME_SIZE / divisions;
+  const edges = [0, ...Array.from({ length: divisions + 1 }, (_, i) => ZONE_FRAME.left + i * size), 1];
+  const last = edges.length - 2;
+  const cells: GridCell[] = [];
+  for (let row = 0; row <= last; row += 1) {
+    for (let col = 0; col <= last; col += 1) {
+      if (row > 0 && row < last && col > 0 && col < last) continue;
+      const vertical = row === 0 ? "High" : row === last ? "Low" : "";
+      const horizontal = col === 0 ? "Left" : col === last ? "Right" : "";
+      cells.push({
+        id: `O${cells.length + 1}`,
+        label: `${[vertical, horizontal].filter(Boolean).join("-")} (Out)`,
+        inZone: false,
+        x0: edges[col],
+        x1: edges[col + 1],
+        y0: edges[row],
+        y1: edges[row + 1],
+      });
+    }
+  }
+  return cells;
+}
+
+/**
+ * Cells for a grid resolution. The 13-zone grid's four outside cells are the
+ * frame's quadrants; cells inside the zone take precedence over them.
+ */
+export function buildZoneGrid(kind: ZoneGridKind): GridCell[] {
+  switch (kind) {
+    case "3x3":
+      return zoneCells(3, true);
+    case "5x5":
+      return [...ringCells(3), ...zoneCells(3, true)];
+    case "7x7":
+      return [...ringCells(5), ...zoneCells(5, false)];
+    case "13":
+      return [
+        { id: "O1", label: "High-Left (Out)", inZone: false, x0: 0, x1: 0.5, y0: 0, y1: 0.5 },
+        { id: "O2", label: "High-Right (Out)", inZone: false, x0: 0.5, x1: 1, y0: 0, y1: 0.5 },
+        { id: "O3", label: "Low-Left (Out)", inZone: false, x0: 0, x1: 0.5, y0: 0.5, y1: 1 },
+        { id: "O4", label: "Low-Right (Out)", inZone: false, x0: 0.5, x1: 1, y0: 0.5, y1: 1 },
+        ...zoneCells(3, true),
+      ];
+  }
+}
+
+/**
+ * Cell a point falls in. Points beyond the frame are clamped onto its edge;
+ * on a zone-only grid, points outside the zone have no cell.
+ */
+export function findGridCell(grid: GridCell[], point: NormalizedPoint): GridCell | null {
+  const x = Math.min(Math.max(point.x, 0), 1);
+  const y = Math.min(Math.max(point.y, 0), 1);
+  let match: GridCell | null = null;
+  for (const cell of grid) {
+    if (x < cell.x0 || x > cell.x1 || y < cell.y0 || y > cell.y1) continue;
+    if (cell.inZone) return cell;
+    match ??= cell;
+  }
+  return match;
+}
+
+/**
+ * Density of located points per grid cell, plus how many fell in no cell
+ */
+export function computeGridCounts(
+  points: (NormalizedPoint | null)[],
+  grid: GridCell[]
+): { counts: Map<string, number>; outside: number } {
+  const counts = new Map(grid.map((cell) => [cell.id, 0]));
+  let outside = 0;
+  for (const point of points) {
+    if (!point) continue;
+    const cell = findGridCell(grid, point);
+    if (cell) counts.set(cell.id, (counts.get(cell.id) ?? 0) + 1);
+    else outside += 1;
+  }
+  return { counts, outside };
+}
+
+export type Hand = "R" | "L";
+
+export function isHand(value: string | null | undefined): value is Hand {
+  return value === "R" || value === "L";
+}
+
+export type PitchLocation = {
+  target_x: number | null;
+  target_y: number | null;
+  actual_x: number | null;
+  actual_y: number | null;
+  // Side the batter stood on, when one was recorded
+  batter_side?: string | null;
+};
+
+export function getTargetPoint(pitch: PitchLocation): NormalizedPoint | null {
+  if (pitch.target_x === null || pitch.target_y === null) return null;
+  return { x: pitch.target_x, y: pitch.target_y };
+}
+
+export function getActualPoint(pitch: PitchLocation): NormalizedPoint | null {
+  if (pitch.actual_x === null || pitch.actual_y === null) return null;
+  return { x: pitch.actual_x, y: pitch.actual_y };
+}
+
+// Seen from behind the plate, a righty's arm side is on the left of the frame
+// and a right-handed batter stands on the left, so for both "R" the
+// pitcher-relative direction (arm side, inside) is towards smaller x.
+function handSign(hand: Hand): number {
+  return hand === "L" ? 1 : -1;
+}
+
+export const LOCATION_VIEWS = {
+  grid: "As logged",
+  arm_side: "Arm side left",
+  inside: "Inside left",
+} as const;
+
+export type LocationView = keyof typeof LOCATION_VIEWS;
+
+export function isLocationView(value: string | null | undefined): value is LocationView {
+  return !!value && value in LOCATION_VIEWS;
+}
+
+/**
+ * A point in one of the location views. Arm side left mirrors lefties onto a
+ * righty's frame and inside left mirrors pitches to left-handed batters, so
+ * lefties and righties read the same way. Null when the hand the view needs
+ * wasn't recorded.
+ */
+export function orientPoint(
+  point: NormalizedPoint | null,
+  view: LocationView,
+  hands: { throws: Hand | null; batterSide: Hand | null }
+): NormalizedPoint | null {
+  if (!point || view === "grid") return point;
+  const hand = view === "arm_side" ? hands.throws : hands.batterSide;
+  if (!hand) return null;
+  return hand === "L" ? { x: 1 - point.x, y: point.y } : point;
+}
+
+const GRID_DIRECTIONS = ["Right", "High-Right", "High", "High-Left", "Left", "Low-Left", "Low", "Low-Right"] as const;
+const ARM_SIDE_DIRECTIONS = [
+  "Arm-side",
+  "High arm-side",
+  "High",
+  "High glove-side",
+  "Glove-side",
+  "Low glove-side",
+  "Low",
+  "Low arm-side",
+] as const;
+
+export type MissDirection = (typeof GRID_DIRECTIONS)[number] | (typeof ARM_SIDE_DIRECTIONS)[number];
+
+/**
+ * Where a pitch finished relative to its target, in inches: positive
+ * horizontal is to the right of the frame and positive vertical is up.
+ * armSide and inside are the horizontal miss towards the pitcher's arm side
+ * and the batter, when the hands are known. Direction is null when the pitch
+ * was within a ball's width of the target.
+ */
+export type PitchMiss = {
+  horizontal: number;
+  vertical: number;
+  armSide: number | null;
+  inside: number | null;
+  distance: number;
+  direction: MissDirection | null;
+};
+
+/**
+ * Directions are arm-side/glove-side when the pitcher's throwing hand is
+ * given, otherwise left/right of the frame
+ */
+export function computeMiss(
+  pitch: PitchLocation,
+  geometry: StrikeZoneGeometry,
+  throws: Hand | null = null
+): PitchMiss | null {
+  const target = getTargetPoint(pitch);
+  const actual = getActualPoint(pitch);
+  if (!target || !actual) return null;
+
+  const from = toPlateCoordinates(target, geometry);
+  const to = toPlateCoordinates(actual, geometry);
+  const horizontal = to.x - from.x;
+  const vertical = to.z - from.z;
+  const armSide = throws ? horizontal * handSign(throws) : null;
+  const inside = isHand(pitch.batter_side) ? horizontal * handSign(pitch.batter_side) : null;
+  const distance = Math.hypot(horizontal, vertical);
+  if (distance < BALL_DIAMETER_INCHES) return { horizontal, vertical, armSide, inside, distance, direction: null };
+
+  // Eight 45° sectors, counter-clockwise from the right (or from arm side)
+  const sector = (Math.round(Math.atan2(vertical, armSide ?? horizontal) / (Math.PI / 4)) + 8) % 8;
+  const direction = armSide === null ? GRID_DIRECTIONS[sector] : ARM_SIDE_DIRECTIONS[sector];
+  return { horizontal, vertical, armSide, inside, distance, direction };
+}
+
+export type MissSummary = {
+  located: number;
+  onTarget: number;
+  avgDistance: number;
+  // Average signed miss: where the pitcher tends to finish
+  avgHorizontal: number;
+  avgVertical: number;
+  // Null when no pitch had the hand recorded
+  avgArmSide: number | null;
+  avgInside: number | null;
+  // Most common first
+  directions: Map<MissDirection, number>;
+};
+
+export function computeMissSummary(
+  pitches: PitchLocation[],
+  geometry: StrikeZoneGeometry,
+  throws: Hand | null = null
+): MissSummary {
+  const directions = new Map<MissDirection, number>();
+  let located = 0;
+  let onTarget = 0;
+  let distance = 0;
+  let horizontal = 0;
+  let vertical = 0;
+  let armSide = 0;
+  let inside = 0;
+  let insideCount = 0;
+
+  for (const pitch of pitches) {
+    const miss = computeMiss(pitch, geometry, throws);
+    if (!miss) continue;
+    located += 1;
+    distance += miss.distance;
+    horizontal += miss.horizontal;
+    vertical += miss.vertical;
+    armSide += miss.armSide ?? 0;
+    if (miss.inside !== null) {
+      inside += miss.inside;
+      insideCount += 1;
+    }
+    if (miss.direction) directions.set(miss.direction, (directions.get(miss.direction) ?? 0) + 1);
+    else onTarget += 1;
+  }
+
+  return {
+    located,
+    onTarget,
+    avgDistance: located ? distance / located : 0,
+    avgHorizontal: located ? horizontal / located : 0,
+    avgVertical: located ? vertical / located : 0,
+    avgArmSide: throws && located ? armSide / located : null,
+    avgInside: insideCount ? inside / insideCount : null,
+    directions: new Map([...directions].sort((a, b) => b[1] - a[1])),
   };
 }
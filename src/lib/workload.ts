@@ -0,0 +1,410 @@
+/**
+ * Pitcher workload and rest
+ *
+ * Workload is a list of dated appearances, each a bullpen session or a game.
+ * From it come the acute:chronic workload ratio (last 7 days against the
+ * weekly average of the last 28) and the rest a pitcher owes under their
+ * level's pitch-count rules. Rule tables ship with common league defaults
+ * and can be overridden per level; overrides are kept on this device.
+ */
+
+import { repositories } from "@/lib/repository";
+import { PLAY_LEVELS, type PlayLevel } from "@/lib/scorebook/types";
+
+export type RestTier = {
+  // Pitches thrown in a day at or above which this much rest is owed
+  minPitches: number;
+  restDays: number;
+};
+
+export type PitchCountRule = {
+  // Most pitches allowed in a day; null for no hard limit
+  dailyMax: number | null;
+  // Ascending by minPitches
+  restTiers: RestTier[];
+  // League limits usually count game pitches only
+  countBullpen: boolean;
+};
+
+export type PitchCountRules = Record<PlayLevel, PitchCountRule>;
+
+export type WorkloadAppearance = {
+  // YYYY-MM-DD
+  date: string;
+  pitches: number;
+  source: "bullpen" | "game";
+  // Session or game id
+  sourceId: string;
+};
+
+export type AcwrZone = "low" | "optimal" | "caution" | "danger";
+
+export type WorkloadStatus = {
+  today: string;
+  // Pitches that count toward the daily limit today
+  todayPitches: number;
+  dailyMax: number | null;
+  remainingToday: number | null;
+  acute: number;
+  chronicWeekly: number;
+  acwr: number | null;
+  acwrZone: AcwrZone | null;
+  // Rest owed from the most demanding recent day
+  restDaysRequired: number;
+  // First day the pitcher may pitch again under the rules
+  nextEligibleDate: string;
+  eligibleToday: boolean;
+};
+
+export type WorkloadWarning = {
+  level: "info" | "warning" | "error";
+  message: string;
+};
+
+const ACUTE_DAYS = 7;
+// Also how far back workload needs to be loaded
+export const CHRONIC_DAYS = 28;
+// Warn this many pitches before a limit or a new rest tier
+const WARNING_MARGIN = 5;
+const RULES_STORAGE_KEY = "workload:pitchCountRules";
+
+// Little League (ages 13-16), a typical state high school association, and
+// conservative guidelines where no league limit applies
+export const DEFAULT_PITCH_COUNT_RULES: PitchCountRules = {
+  youth: {
+    dailyMax: 95,
+    restTiers: [
+      { minPitches: 21, restDays: 1 },
+      { minPitches: 36, restDays: 2 },
+      { minPitches: 51, restDays: 3 },
+      { minPitches: 66, restDays: 4 },
+    ],
+    countBullpen: false,
+  },
+  high_school: {
+    dailyMax: 110,
+    restTiers: [
+      { minPitches: 31, restDays: 1 },
+      { minPitches: 46, restDays: 2 },
+      { minPitches: 61, restDays: 3 },
+      { minPitches: 76, restDays: 4 },
+    ],
+    countBullpen: false,
+  },
+  college: {
+    dailyMax: null,
+    restTiers: [
+      { minPitches: 31, restDays: 1 },
+      { minPitches: 61, restDays: 2 },
+      { minPitches: 91, restDays: 4 },
+    ],
+    countBullpen: false,
+  },
+  adult: {
+    dailyMax: null,
+    restTiers: [
+      { minPitches: 31, restDays: 1 },
+      { minPitches: 61, restDays: 2 },
+      { minPitches: 91, restDays: 4 },
+    ],
+    countBullpen: false,
+  },
+  professional: {
+    dailyMax: null,
+    restTiers: [
+      { minPitches: 31, restDays: 1 },
+      { minPitches: 61, restDays: 2 },
+      { minPitches: 91, restDays: 4 },
+    ],
+    countBullpen: false,
+  },
+};
+
+// For pitchers with no level set: workload ratios only, no limits
+export const NO_PITCH_COUNT_RULE: PitchCountRule = { dailyMax: null, restTiers: [], countBullpen: false };
+
+// ==============================================
+// RULES
+// ==============================================
+
+function isRule(value: unknown): value is PitchCountRule {
+  if (!value || typeof value !== "object") return false;
+  const rule = value as PitchCountRule;
+  return (
+    (rule.dailyMax === null || Number.isFinite(rule.dailyMax)) &&
+    Array.isArray(rule.restTiers) &&
+    rule.restTiers.every((t) => Number.isFinite(t?.minPitches) && Number.isFinite(t?.restDays)) &&
+    typeof rule.countBullpen === "boolean"
+  );
+}
+
+/**
+ * Default rules with any saved overrides applied
+ */
+export function loadPitchCountRules(): PitchCountRules {
+  const rules = structuredClone(DEFAULT_PITCH_COUNT_RULES);
+  if (typeof window === "undefined") return rules;
+
+  try {
+    const saved = JSON.parse(window.localStorage.getItem(RULES_STORAGE_KEY) ?? "{}") as Record<string, unknown>;
+    for (const level of Object.keys(PLAY_LEVELS) as PlayLevel[]) {
+      const rule = saved[level];
+      if (isRule(rule)) {
+        rules[level] = { ...rule, restTiers: [...rule.restTiers].sort((a, b) => a.minPitches - b.minPitches) };
+      }
+    }
+  } catch {
+    // Corrupt overrides fall back to the defaults
+  }
+  return rules;
+}
+
+export function savePitchCountRules(rules: PitchCountRules): void {
+  if (typeof window === "undefined") return;
+  window.localStorage.setItem(RULES_STORAGE_KEY, JSON.stringify(rules));
+}
+
+export function resetPitchCountRules(): PitchCountRules {
+  if (typeof window !== "undefined") window.localStorage.removeItem(RULES_STORAGE_KEY);
+  return structuredClone(DEFAULT_PITCH_COUNT_RULES);
+}
+
+export function getRestDaysForPitches(rule: PitchCountRule, pitches: number): number {
+  let restDays = 0;
+  for (const tier of rule.restTiers) {
+    if (pitches >= tier.minPitches) restDays = tier.restDays;
+  }
+  return restDays;
+}
+
+// ==============================================
+// DATES
+// ==============================================
+
+export function toDateKey(date: Date): string {
+  const yyyy = date.getFullYear();
+  const mm = String(date.getMonth() + 1).padStart(2, "0");
+  const dd = String(date.getDate()).padStart(2, "0");
+  return `${yyyy}-${mm}-${dd}`;
+}
+
+export function addDays(dateKey: string, days: number): string {
+  const [y, m, d] = dateKey.split("-").map(Number);
+  return toDateKey(new Date(y, m - 1, d + days));
+}
+
+function daysBetween(from: string, to: string): number {
+  const [y1, m1, d1] = from.split("-").map(Number);
+  const [y2, m2, d2] = to.split("-").map(Number);
+  return Math.round((Date.UTC(y2, m2 - 1, d2) - Date.UTC(y1, m1 - 1, d1)) / 86_400_000);
+}
+
+// ==============================================
+// ENGINE
+// ==============================================
+
+function getAcwrZone(acwr: number): AcwrZone {
+  if (acwr < 0.8) return "low";
+  if (acwr <= 1.3) return "optimal";
+  if (acwr <= 1.5) return "caution";
+  return "danger";
+}
+
+/**
+ * Pitches per day that count toward the level's limits
+ */
+function getCountedDays(appearances: WorkloadAppearance[], rule: PitchCountRule): Map<string, number> {
+  const days = new Map<string, number>();
+  for (const a of appearances) {
+    if (a.source === "bullpen" && !rule.countBullpen) continue;
+    days.set(a.date, (days.get(a.date) ?? 0) + a.pitches);
+  }
+  return days;
+}
+
+export function computeWorkloadStatus(
+  appearances: WorkloadAppearance[],
+  rule: PitchCountRule,
+  today: string = toDateKey(new Date())
+): WorkloadStatus {
+  let acute = 0;
+  let chronic = 0;
+  for (const a of appearances) {
+    const age = daysBetween(a.date, today);
+    if (age < 0) continue;
+    if (age < ACUTE_DAYS) acute += a.pitches;
+    if (age < CHRONIC_DAYS) chronic += a.pitches;
+  }
+  const chronicWeekly = chronic / (CHRONIC_DAYS / ACUTE_DAYS);
+  const acwr = chronicWeekly > 0 ? acute / chronicWeekly : null;
+
+  const counted = getCountedDays(appearances, rule);
+  const todayPitches = counted.get(today) ?? 0;
+
+  // Rest is owed from each earlier day; today's pitching sets the next one
+  let nextEligibleDate = today;
+  let restDaysRequired = 0;
+  for (const [date, pitches] of counted) {
+    if (daysBetween(date, today) < 0) continue;
+    const restDays = getRestDaysForPitches(rule, pitches);
+    if (restDays === 0) continue;
+    const eligible = addDays(date, restDays + 1);
+    if (eligible > nextEligibleDate) {
+      nextEligibleDate = eligible;
+      restDaysRequired = restDays;
+    }
+  }
+
+  // Pitching earlier today doesn't make today ineligible; only earlier days do
+  const owedBeforeToday = [...counted].some(([date, pitches]) => {
+    const age = daysBetween(date, today);
+    return age > 0 && addDays(date, getRestDaysForPitches(rule, pitches) + 1) > today;
+  });
+
+  return {
+    today,
+    todayPitches,
+    dailyMax: rule.dailyMax,
+    remainingToday: rule.dailyMax === null ? null : Math.max(0, rule.dailyMax - todayPitches),
+    acute,
+    chronicWeekly,
+    acwr,
+    acwrZone: acwr === null ? null : getAcwrZone(acwr),
+    restDaysRequired,
+    nextEligibleDate,
+    eligibleToday: !owedBeforeToday && (rule.dailyMax === null || todayPitches < rule.dailyMax),
+  };
+}
+
+/**
+ * Warnings to show while a pitcher is throwing, before a limit is crossed
+ */
+export function getWorkloadWarnings(status: WorkloadStatus, rule: PitchCountRule): WorkloadWarning[] {
+  const warnings: WorkloadWarning[] = [];
+  const pitches = status.todayPitches;
+
+  if (!status.eligibleToday && status.dailyMax !== null && pitches >= status.dailyMax) {
+    warnings.push({ level: "error", message: `Daily limit of ${status.dailyMax} pitches reached.` });
+  } else if (!status.eligibleToday) {
+    warnings.push({
+      level: "error",
+      message: `Owes rest: not eligible until ${status.nextEligibleDate}.`,
+    });
+  } else if (status.remainingToday !== null && status.remainingToday <= WARNING_MARGIN) {
+    warnings.push({
+      level: "warning",
+      message: `${status.remainingToday} pitch${status.remainingToday !== 1 ? "es" : ""} left before the daily limit.`,
+    });
+  }
+
+  const nextTier = rule.restTiers.find((t) => t.minPitches > pitches);
+  if (pitches > 0 && nextTier && nextTier.minPitches - pitches <= WARNING_MARGIN) {
+    const left = nextTier.minPitches - pitches;
+    warnings.push({
+      level: "warning",
+      message: `${left} more pitch${left !== 1 ? "es" : ""} means ${nextTier.restDays} day${nextTier.restDays !== 1 ? "s" : ""} of rest.`,
+    });
+  }
+
+  if (status.acwrZone === "danger") {
+    warnings.push({ level: "warning", message: `Workload spike: acute:chronic ratio ${status.acwr?.toFixed(2)}.` });
+  } else if (status.acwrZone === "caution") {
+    warnings.push({ level: "info", message: `Workload climbing: acute:chronic ratio ${status.acwr?.toFixed(2)}.` });
+  }
+
+  return warnings;
+}
+
+// ==============================================
+// DATA
+// ==============================================
+
+/**
+ * Bullpen sessions since a date, one appearance per session
+ */
+export async function fetchBullpenWorkload(pitcherId: string, since: string): Promise<WorkloadAppearance[]> {
+  const sessions = await repositories.sessions.list({ pitcherId, from: since });
+  if (!sessions.length) return [];
+
+  const counts = await repositories.pitches.countBySessions(sessions.map((s) => s.id));
+  return sessions.map((s) => ({
+    date: s.session_date,
+    pitches: counts.get(s.id) ?? 0,
+    source: "bullpen" as const,
+    sourceId: s.id,
+  }));
+}
+
+/**
+ * Game pitches since a date for each scorebook player, one appearance per
+ * game. Pitch counts come from the at-bats each player pitched.
+ */
+export async function fetchGameWorkloadByPlayer(
+  playerIds: string[],
+  since: string
+): Promise<Map<string, WorkloadAppearance[]>> {
+  const byPlayer = new Map<string, WorkloadAppearance[]>();
+  if (!playerIds.length) return byPlayer;
+
+  const entries = await repositories.gameRows.list("sb_game_lineups", "player_id", playerIds);
+  if (!entries.length) return byPlayer;
+
+  const games = (await repositories.games.listByIds([...new Set(entries.map((e) => e.game_id))])).filter(
+    (g) => g.game_date >= since
+  );
+  if (!games.length) return byPlayer;
+
+  const gameDates = new Map(games.map((g) => [g.id, g.game_date]));
+  const playerByLineup = new Map(
+    entries.filter((e) => gameDates.has(e.game_id) && e.player_id).map((e) => [e.id, e.player_id as string])
+  );
+  const atBats = await repositories.gameRows.list("sb_at_bats", "pitcher_lineup_id", [...playerByLineup.keys()]);
+
+  // player -> game -> pitches
+  const counts = new Map<string, Map<string, number>>();
+  for (const ab of atBats) {
+    const playerId = playerByLineup.get(ab.pitcher_lineup_id);
+    if (!playerId) continue;
+    const games = counts.get(playerId) ?? new Map<string, number>();
+    games.set(ab.game_id, (games.get(ab.game_id) ?? 0) + ab.pitch_count);
+    counts.set(playerId, games);
+  }
+
+  for (const [playerId, games] of counts) {
+    byPlayer.set(
+      playerId,
+      [...games].map(([gameId, pitches]) => ({
+        date: gameDates.get(gameId) ?? "",
+        pitches,
+        source: "game" as const,
+        sourceId: gameId,
+      }))
+    );
+  }
+  return byPlayer;
+}
+
+/**
+ * Game pitches since a date across several scorebook players
+ */
+export async function fetchGameWorkload(playerIds: string[], since: string): Promise<WorkloadAppearance[]> {
+  const byPlayer = await fetchGameWorkloadByPlayer(playerIds, since);
+  return [...byPlayer.values()].flat();
+}
+
+/**
+ * Everything that feeds the acute and chronic windows for a bullpen pitcher,
+ * plus game work for the scorebook players linked to them
+ */
+export async function fetchPitcherWorkload(
+  pitcherId: string,
+  linkedPlayerIds: string[] = [],
+  today: string = toDateKey(new Date())
+): Promise<WorkloadAppearance[]> {
+  const since = addDays(today, -CHRONIC_DAYS);
+  const [bullpen, games] = await Promise.all([
+    fetchBullpenWorkload(pitcherId, since),
+    fetchGameWorkload(linkedPlayerIds, since),
+  ]);
+  return [...bullpen, ...games].sort((a, b) => a.date.localeCompare(b.date));
+}
@@ -0,0 +1,31 @@
+-- Pitch-by-pitch scoring
+--
+-- Each pitch of a plate appearance is its own row, in the order thrown, with
+-- the count before it. Pitches go with their at-bat: deleting an at-bat (an
+-- undo, or a correction) deletes its pitches too.
+
+create table if not exists public.sb_pitches (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  game_id uuid not null references public.sb_games (id) on delete cascade,
+  at_bat_id uuid not null references public.sb_at_bats (id) on delete cascade,
+  pitch_number integer not null,
+  pitch_result text not null check (
+    pitch_result in ('ball', 'called_strike', 'swinging_strike', 'foul', 'in_play', 'hit_by_pitch')
+  ),
+  pitch_type text,
+  zone_id text,
+  balls_before integer not null default 0,
+  strikes_before integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists sb_pitches_game_id_idx on public.sb_pitches (game_id);
+create index if not exists sb_pitches_at_bat_id_idx on public.sb_pitches (at_bat_id, pitch_number);
+
+-- Private to the scorer until organizations replace this policy
+alter table public.sb_pitches enable row level security;
+
+drop policy if exists sb_pitches_owner on public.sb_pitches;
+create policy sb_pitches_owner on public.sb_pitches for all
+  using (user_id = auth.uid()) with check (user_id = auth.uid());
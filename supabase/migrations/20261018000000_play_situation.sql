@@ -0,0 +1,27 @@
+-- Plays between pitches
+--
+-- Steals, wild pitches, pickoffs and balks happen between pitches, with no
+-- at-bat to hang off. Plays now carry their own situation (inning, half,
+-- batter number and pitcher) and at_bat_id is null for those runner events.
+-- Plays recorded with an at-bat take the at-bat's situation.
+
+alter table public.sb_plays alter column at_bat_id drop not null;
+
+alter table public.sb_plays add column if not exists inning integer;
+alter table public.sb_plays add column if not exists half text check (half in ('top', 'bottom'));
+alter table public.sb_plays add column if not exists batter_number integer;
+alter table public.sb_plays add column if not exists pitcher_lineup_id uuid
+  references public.sb_game_lineups (id) on delete set null;
+
+-- Plays saved before this change all belong to an at-bat
+update public.sb_plays p
+set
+  inning = ab.inning,
+  half = ab.half,
+  batter_number = ab.batter_number,
+  pitcher_lineup_id = ab.pitcher_lineup_id
+from public.sb_at_bats ab
+where ab.id = p.at_bat_id
+  and p.inning is null;
+
+create index if not exists sb_plays_game_situation_idx on public.sb_plays (game_id, inning, half);
@@ -0,0 +1,9 @@
+-- Pitch measurements
+--
+-- Optional readings from a radar or tracking device, entered with each
+-- bullpen pitch: velocity in mph, spin in rpm and break in inches.
+
+alter table public.pitches add column if not exists velocity numeric;
+alter table public.pitches add column if not exists spin_rate numeric;
+alter table public.pitches add column if not exists horizontal_break numeric;
+alter table public.pitches add column if not exists vertical_break numeric;
@@ -0,0 +1,36 @@
+-- Scripted bullpen plans
+--
+-- A plan is an ordered list of steps, kept as jsonb:
+--   [{ "pitch_type": "FB", "zone_id": "...", "reps": 5 }, ...]
+-- A session can follow one plan. Deleting a plan leaves its sessions and
+-- their pitches, without the script.
+--
+-- Plans are private to the coach or pitcher who wrote them.
+
+create table if not exists public.bullpen_plans (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  notes text,
+  steps jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists bullpen_plans_user_id_idx on public.bullpen_plans (user_id);
+
+alter table public.sessions add column if not exists plan_id uuid
+  references public.bullpen_plans (id) on delete set null;
+
+alter table public.bullpen_plans enable row level security;
+
+drop policy if exists bullpen_plans_select on public.bullpen_plans;
+drop policy if exists bullpen_plans_insert on public.bullpen_plans;
+drop policy if exists bullpen_plans_update on public.bullpen_plans;
+drop policy if exists bullpen_plans_delete on public.bullpen_plans;
+
+create policy bullpen_plans_select on public.bullpen_plans for select using (user_id = auth.uid());
+create policy bullpen_plans_insert on public.bullpen_plans for insert with check (user_id = auth.uid());
+create policy bullpen_plans_update on public.bullpen_plans for update
+  using (user_id = auth.uid()) with check (user_id = auth.uid());
+create policy bullpen_plans_delete on public.bullpen_plans for delete using (user_id = auth.uid());
@@ -0,0 +1,9 @@
+-- Simulated-count bullpens
+--
+-- In a live-count pen each pitch is called like a game pitch, and pitches to
+-- the same imaginary hitter share a sim_batter number (1, 2, ...) within the
+-- session. Both stay null for pitches logged outside that mode.
+
+alter table public.pitches add column if not exists pitch_call text
+  check (pitch_call in ('ball', 'called_strike', 'swinging_strike', 'foul', 'in_play'));
+alter table public.pitches add column if not exists sim_batter integer;
@@ -0,0 +1,6 @@
+-- Pitcher level
+--
+-- The level a bullpen pitcher plays at picks the pitch-count and rest rules
+-- their workload is checked against. Null means no rules apply.
+
+alter table public.pitchers add column if not exists level text;
@@ -0,0 +1,10 @@
+-- Scorebook players linked to bullpen pitchers
+--
+-- A team player who throws can be marked as the same athlete as a bullpen
+-- pitcher, so their profile combines bullpen and game pitching. Deleting the
+-- pitcher unlinks the player.
+
+alter table public.sb_team_players add column if not exists pitcher_id uuid
+  references public.pitchers (id) on delete set null;
+
+create index if not exists sb_team_players_pitcher_id_idx on public.sb_team_players (pitcher_id);
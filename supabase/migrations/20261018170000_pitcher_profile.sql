@@ -0,0 +1,8 @@
+-- Pitcher profile
+--
+-- Editable details on the pitcher profile page. All optional.
+
+alter table public.pitchers add column if not exists height_inches integer;
+alter table public.pitchers add column if not exists arm_slot text
+  check (arm_slot in ('overhand', 'three_quarter', 'sidearm', 'submarine'));
+alter table public.pitchers add column if not exists goals text;
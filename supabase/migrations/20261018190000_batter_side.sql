@@ -0,0 +1,6 @@
+-- Batter side
+--
+-- The side an imaginary hitter stands on for a bullpen pitch ('R' or 'L'),
+-- so locations and misses can be read as inside or away. Null when not set.
+
+alter table public.pitches add column if not exists batter_side text check (batter_side in ('R', 'L'));
@@ -0,0 +1,334 @@
+-- Organizations
+--
+-- A coaching staff shares pitchers, teams and games through an organization.
+-- Members have one role:
+--   coach        edits everything in the organization
+--   player       sees their own pitcher's bullpen data and the organization's games
+--   scorekeeper  sees and scores only the games a coach assigns them
+--
+-- Rows with no org_id stay private to the user who created them, as before.
+-- Sessions, pitches and videos follow their pitcher; lineups, at-bats, plays
+-- and the rest follow their game; team players follow their team.
+
+create table if not exists public.organizations (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  join_code text not null unique default upper(substr(md5(gen_random_uuid()::text), 1, 8)),
+  created_by uuid not null references auth.users (id),
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.org_members (
+  id uuid primary key default gen_random_uuid(),
+  org_id uuid not null references public.organizations (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  email text,
+  role text not null default 'player' check (role in ('coach', 'player', 'scorekeeper')),
+  -- The bullpen pitcher a player sees
+  pitcher_id uuid references public.pitchers (id) on delete set null,
+  created_at timestamptz not null default now(),
+  unique (org_id, user_id)
+);
+
+create table if not exists public.sb_game_scorekeepers (
+  game_id uuid not null references public.sb_games (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  org_id uuid not null references public.organizations (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (game_id, user_id)
+);
+
+alter table public.pitchers add column if not exists org_id uuid references public.organizations (id) on delete set null;
+alter table public.sb_teams add column if not exists org_id uuid references public.organizations (id) on delete set null;
+alter table public.sb_games add column if not exists org_id uuid references public.organizations (id) on delete set null;
+
+create index if not exists pitchers_org_id_idx on public.pitchers (org_id);
+create index if not exists sb_teams_org_id_idx on public.sb_teams (org_id);
+create index if not exists sb_games_org_id_idx on public.sb_games (org_id);
+create index if not exists org_members_user_id_idx on public.org_members (user_id);
+
+-- ==============================================
+-- ACCESS HELPERS
+-- ==============================================
+
+-- Security definer so policies can look at membership without recursing
+-- through org_members' own policies
+
+create or replace function public.org_role(target_org uuid) returns text
+language sql stable security definer set search_path = public as $$
+  select role from org_members where org_id = target_org and user_id = auth.uid()
+$$;
+
+create or replace function public.owns_or_coaches(owner uuid, target_org uuid) returns boolean
+language sql stable security definer set search_path = public as $$
+  select case
+    when target_org is null then owner = auth.uid()
+    else coalesce(org_role(target_org) = 'coach', false)
+  end
+$$;
+
+create or replace function public.can_view_pitcher(target uuid) returns boolean
+language sql stable security definer set search_path = public as $$
+  select exists (
+    select 1 from pitchers p
+    where p.id = target
+      and (
+        owns_or_coaches(p.user_id, p.org_id)
+        or exists (
+          select 1 from org_members m
+          where m.org_id = p.org_id and m.user_id = auth.uid() and m.role = 'player' and m.pitcher_id = p.id
+        )
+      )
+  )
+$$;
+
+create or replace function public.can_edit_pitcher(target uuid) returns boolean
+language sql stable security definer set search_path = public as $$
+  select exists (select 1 from pitchers p where p.id = target and owns_or_coaches(p.user_id, p.org_id))
+$$;
+
+create or replace function public.can_view_session(target uuid) returns boolean
+language sql stable security definer set search_path = public as $$
+  select exists (select 1 from sessions s where s.id = target and can_view_pitcher(s.pitcher_id))
+$$;
+
+create or replace function public.can_edit_session(target uuid) returns boolean
+language sql stable security definer set search_path = public as $$
+  select exists (select 1 from sessions s where s.id = target and can_edit_pitcher(s.pitcher_id))
+$$;
+
+create or replace function public.can_view_team(target uuid) returns boolean
+language sql stable security definer set search_path = public as $$
+  select exists (
+    select 1 from sb_teams t
+    where t.id = target and (owns_or_coaches(t.user_id, t.org_id) or org_role(t.org_id) is not null)
+  )
+$$;
+
+create or replace function public.can_edit_team(target uuid) returns boolean
+language sql stable security definer set search_path = public as $$
+  select exists (select 1 from sb_teams t where t.id = target and owns_or_coaches(t.user_id, t.org_id))
+$$;
+
+create or replace function public.is_assigned_scorekeeper(target_game uuid, target_org uuid) returns boolean
+language sql stable security definer set search_path = public as $$
+  select coalesce(org_role(target_org) = 'scorekeeper', false)
+    and exists (select 1 from sb_game_scorekeepers k where k.game_id = target_game and k.user_id = auth.uid())
+$$;
+
+create or replace function public.can_view_game(target uuid) returns boolean
+language sql stable security definer set search_path = public as $$
+  select exists (
+    select 1 from sb_games g
+    where g.id = target
+      and (
+        owns_or_coaches(g.user_id, g.org_id)
+        or coalesce(org_role(g.org_id) = 'player', false)
+        or is_assigned_scorekeeper(g.id, g.org_id)
+      )
+  )
+$$;
+
+create or replace function public.can_score_game(target uuid) returns boolean
+language sql stable security definer set search_path = public as $$
+  select exists (
+    select 1 from sb_games g
+    where g.id = target and (owns_or_coaches(g.user_id, g.org_id) or is_assigned_scorekeeper(g.id, g.org_id))
+  )
+$$;
+
+-- Keeps the creator on a row, and only lets a coach move it into or out of
+-- an organization
+create or replace function public.guard_ownership() returns trigger
+language plpgsql security definer set search_path = public as $$
+begin
+  if new.user_id is distinct from old.user_id then
+    raise exception 'Records cannot change owner' using errcode = '42501';
+  end if;
+  if new.org_id is distinct from old.org_id
+    and not (owns_or_coaches(old.user_id, old.org_id) and owns_or_coaches(auth.uid(), new.org_id)) then
+    raise exception 'Only a coach can move records between organizations' using errcode = '42501';
+  end if;
+  return new;
+end
+$$;
+
+drop trigger if exists pitchers_guard_ownership on public.pitchers;
+create trigger pitchers_guard_ownership before update on public.pitchers
+  for each row execute function public.guard_ownership();
+drop trigger if exists sb_teams_guard_ownership on public.sb_teams;
+create trigger sb_teams_guard_ownership before update on public.sb_teams
+  for each row execute function public.guard_ownership();
+drop trigger if exists sb_games_guard_ownership on public.sb_games;
+create trigger sb_games_guard_ownership before update on public.sb_games
+  for each row execute function public.guard_ownership();
+
+-- ==============================================
+-- MEMBERSHIP
+-- ==============================================
+
+create or replace function public.create_organization(org_name text) returns public.organizations
+language plpgsql security definer set search_path = public as $$
+declare
+  org organizations;
+begin
+  if auth.uid() is null then
+    raise exception 'Sign in to create an organization' using errcode = '42501';
+  end if;
+  insert into organizations (name, created_by) values (trim(org_name), auth.uid()) returning * into org;
+  insert into org_members (org_id, user_id, email, role) values (org.id, auth.uid(), auth.jwt() ->> 'email', 'coach');
+  return org;
+end
+$$;
+
+-- New members join as players; a coach changes their role afterwards
+create or replace function public.join_organization(code text) returns public.org_members
+language plpgsql security definer set search_path = public as $$
+declare
+  org organizations;
+  member org_members;
+begin
+  if auth.uid() is null then
+    raise exception 'Sign in to join an organization' using errcode = '42501';
+  end if;
+  select * into org from organizations where join_code = upper(trim(code));
+  if not found then
+    raise exception 'No organization has that join code';
+  end if;
+  insert into org_members (org_id, user_id, email, role)
+    values (org.id, auth.uid(), auth.jwt() ->> 'email', 'player')
+    on conflict (org_id, user_id) do update set email = excluded.email
+    returning * into member;
+  return member;
+end
+$$;
+
+-- ==============================================
+-- ROW-LEVEL POLICIES
+-- ==============================================
+
+-- Replace the single-owner policies on every shared table
+do $$
+declare
+  p record;
+begin
+  for p in
+    select policyname, tablename from pg_policies
+    where schemaname = 'public'
+      and tablename in (
+        'organizations', 'org_members', 'sb_game_scorekeepers',
+        'pitchers', 'sessions', 'pitches', 'session_videos', 'pitch_events',
+        'sb_teams', 'sb_team_players', 'sb_games', 'sb_game_lineups', 'sb_substitutions',
+        'sb_at_bats', 'sb_plays', 'sb_pitches', 'sb_inning_summaries'
+      )
+  loop
+    execute format('drop policy %I on public.%I', p.policyname, p.tablename);
+  end loop;
+end
+$$;
+
+alter table public.organizations enable row level security;
+alter table public.org_members enable row level security;
+alter table public.sb_game_scorekeepers enable row level security;
+
+create policy organizations_select on public.organizations for select using (org_role(id) is not null);
+create policy organizations_update on public.organizations for update using (org_role(id) = 'coach');
+create policy organizations_delete on public.organizations for delete using (org_role(id) = 'coach');
+
+create policy org_members_select on public.org_members for select using (org_role(org_id) is not null);
+create policy org_members_update on public.org_members for update
+  using (org_role(org_id) = 'coach') with check (org_role(org_id) = 'coach');
+-- Coaches remove members; anyone can leave
+create policy org_members_delete on public.org_members for delete
+  using (org_role(org_id) = 'coach' or user_id = auth.uid());
+
+create policy sb_game_scorekeepers_select on public.sb_game_scorekeepers for select
+  using (user_id = auth.uid() or org_role(org_id) = 'coach');
+create policy sb_game_scorekeepers_insert on public.sb_game_scorekeepers for insert
+  with check (
+    org_role(org_id) = 'coach'
+    and exists (select 1 from sb_games g where g.id = game_id and g.org_id = sb_game_scorekeepers.org_id)
+  );
+create policy sb_game_scorekeepers_delete on public.sb_game_scorekeepers for delete
+  using (org_role(org_id) = 'coach');
+
+-- Pitchers, and the bullpen rows that hang off them
+
+create policy pitchers_select on public.pitchers for select using (can_view_pitcher(id));
+create policy pitchers_insert on public.pitchers for insert
+  with check (user_id = auth.uid() and owns_or_coaches(user_id, org_id));
+create policy pitchers_update on public.pitchers for update using (can_edit_pitcher(id));
+create policy pitchers_delete on public.pitchers for delete using (can_edit_pitcher(id));
+
+create policy sessions_select on public.sessions for select using (can_view_pitcher(pitcher_id));
+create policy sessions_insert on public.sessions for insert
+  with check (user_id = auth.uid() and can_edit_pitcher(pitcher_id));
+create policy sessions_update on public.sessions for update
+  using (can_edit_pitcher(pitcher_id)) with check (can_edit_pitcher(pitcher_id));
+create policy sessions_delete on public.sessions for delete using (can_edit_pitcher(pitcher_id));
+
+create policy pitches_select on public.pitches for select using (can_view_pitcher(pitcher_id));
+create policy pitches_insert on public.pitches for insert
+  with check (user_id = auth.uid() and can_edit_pitcher(pitcher_id));
+create policy pitches_update on public.pitches for update
+  using (can_edit_pitcher(pitcher_id)) with check (can_edit_pitcher(pitcher_id));
+create policy pitches_delete on public.pitches for delete using (can_edit_pitcher(pitcher_id));
+
+create policy session_videos_select on public.session_videos for select using (can_view_session(session_id));
+create policy session_videos_insert on public.session_videos for insert
+  with check (user_id = auth.uid() and can_edit_session(session_id));
+create policy session_videos_update on public.session_videos for update
+  using (can_edit_session(session_id)) with check (can_edit_session(session_id));
+create policy session_videos_delete on public.session_videos for delete using (can_edit_session(session_id));
+
+create policy pitch_events_select on public.pitch_events for select using (can_view_session(session_id));
+create policy pitch_events_insert on public.pitch_events for insert
+  with check (user_id = auth.uid() and can_edit_session(session_id));
+create policy pitch_events_update on public.pitch_events for update
+  using (can_edit_session(session_id)) with check (can_edit_session(session_id));
+create policy pitch_events_delete on public.pitch_events for delete using (can_edit_session(session_id));
+
+-- Teams and their rosters
+
+create policy sb_teams_select on public.sb_teams for select using (can_view_team(id));
+create policy sb_teams_insert on public.sb_teams for insert
+  with check (user_id = auth.uid() and owns_or_coaches(user_id, org_id));
+create policy sb_teams_update on public.sb_teams for update using (can_edit_team(id));
+create policy sb_teams_delete on public.sb_teams for delete using (can_edit_team(id));
+
+create policy sb_team_players_select on public.sb_team_players for select using (can_view_team(team_id));
+create policy sb_team_players_insert on public.sb_team_players for insert
+  with check (user_id = auth.uid() and can_edit_team(team_id));
+create policy sb_team_players_update on public.sb_team_players for update
+  using (can_edit_team(team_id)) with check (can_edit_team(team_id));
+create policy sb_team_players_delete on public.sb_team_players for delete using (can_edit_team(team_id));
+
+-- Games: coaches create and delete them, assigned scorekeepers score them
+
+create policy sb_games_select on public.sb_games for select using (can_view_game(id));
+create policy sb_games_insert on public.sb_games for insert
+  with check (user_id = auth.uid() and owns_or_coaches(user_id, org_id));
+create policy sb_games_update on public.sb_games for update using (can_score_game(id));
+create policy sb_games_delete on public.sb_games for delete using (owns_or_coaches(user_id, org_id));
+
+do $$
+declare
+  t text;
+begin
+  foreach t in array array[
+    'sb_game_lineups', 'sb_substitutions', 'sb_at_bats', 'sb_plays', 'sb_pitches', 'sb_inning_summaries'
+  ]
+  loop
+    execute format('create policy %I on public.%I for select using (can_view_game(game_id))', t || '_select', t);
+    execute format(
+      'create policy %I on public.%I for insert with check (user_id = auth.uid() and can_score_game(game_id))',
+      t || '_insert', t
+    );
+    execute format(
+      'create policy %I on public.%I for update using (can_score_game(game_id)) with check (can_score_game(game_id))',
+      t || '_update', t
+    );
+    execute format('create policy %I on public.%I for delete using (can_score_game(game_id))', t || '_delete', t);
+  end loop;
+end
+$$;
@@ -0,0 +1,156 @@
+-- Inning summaries for spectators
+--
+-- get_shared_game now returns a game's inning summaries along with its other
+-- rows, so spectators load the same game the scorer does, and a change to a
+-- summary is broadcast like any other game row.
+
+create or replace function public.get_shared_game(token uuid) returns jsonb
+language sql stable security definer set search_path = public as $$
+  select jsonb_build_object(
+    'game', jsonb_build_object(
+      'id', g.id,
+      'game_date', g.game_date,
+      'game_time', g.game_time,
+      'location', g.location,
+      'home_team_name', g.home_team_name,
+      'away_team_name', g.away_team_name,
+      'status', g.status,
+      'current_inning', g.current_inning,
+      'current_half', g.current_half,
+      'home_final_score', g.home_final_score,
+      'away_final_score', g.away_final_score,
+      'innings_scheduled', g.innings_scheduled,
+      'use_dh', g.use_dh
+    ),
+    'lineups', coalesce(
+      (
+        select jsonb_agg(
+          jsonb_build_object(
+            'id', l.id,
+            'game_id', l.game_id,
+            'team_side', l.team_side,
+            'player_name', l.player_name,
+            'jersey_number', l.jersey_number,
+            'batting_order', l.batting_order,
+            'defensive_position', l.defensive_position,
+            'entry_inning', l.entry_inning,
+            'entry_half', l.entry_half,
+            'entry_batter', l.entry_batter,
+            'is_active', l.is_active,
+            'created_at', l.created_at
+          )
+          order by l.batting_order
+        )
+        from sb_game_lineups l
+        where l.game_id = g.id
+      ),
+      '[]'::jsonb
+    ),
+    'substitutions', coalesce(
+      (
+        select jsonb_agg(
+          jsonb_build_object(
+            'id', s.id,
+            'game_id', s.game_id,
+            'team_side', s.team_side,
+            'incoming_lineup_id', s.incoming_lineup_id,
+            'outgoing_lineup_id', s.outgoing_lineup_id,
+            'inning', s.inning,
+            'half', s.half,
+            'batter_number', s.batter_number,
+            'substitution_type', s.substitution_type,
+            'new_batting_order', s.new_batting_order,
+            'new_position', s.new_position,
+            'created_at', s.created_at
+          )
+          order by s.created_at
+        )
+        from sb_substitutions s
+        where s.game_id = g.id
+      ),
+      '[]'::jsonb
+    ),
+    'atBats', coalesce(
+      (
+        select jsonb_agg(
+          jsonb_build_object(
+            'id', ab.id,
+            'game_id', ab.game_id,
+            'inning', ab.inning,
+            'half', ab.half,
+            'batter_number', ab.batter_number,
+            'batter_lineup_id', ab.batter_lineup_id,
+            'pitcher_lineup_id', ab.pitcher_lineup_id,
+            'result_type', ab.result_type,
+            'result_detail', ab.result_detail,
+            'balls', ab.balls,
+            'strikes', ab.strikes,
+            'pitch_count', ab.pitch_count,
+            'rbis', ab.rbis,
+            'created_at', ab.created_at
+          )
+          order by ab.inning, ab.half, ab.batter_number
+        )
+        from sb_at_bats ab
+        where ab.game_id = g.id
+      ),
+      '[]'::jsonb
+    ),
+    'plays', coalesce(
+      (
+        select jsonb_agg(
+          jsonb_build_object(
+            'id', p.id,
+            'game_id', p.game_id,
+            'at_bat_id', p.at_bat_id,
+            'inning', p.inning,
+            'half', p.half,
+            'batter_number', p.batter_number,
+            'pitcher_lineup_id', p.pitcher_lineup_id,
+            'play_sequence', p.play_sequence,
+            'runner_lineup_id', p.runner_lineup_id,
+            'play_type', p.play_type,
+            'from_base', p.from_base,
+            'to_base', p.to_base,
+            'error_position', p.error_position,
+            'is_out', p.is_out,
+            'run_scored', p.run_scored,
+            'is_earned_run', p.is_earned_run,
+            'created_at', p.created_at
+          )
+          order by p.created_at
+        )
+        from sb_plays p
+        where p.game_id = g.id
+      ),
+      '[]'::jsonb
+    ),
+    'inningSummaries', coalesce(
+      (
+        select jsonb_agg(
+          jsonb_build_object(
+            'id', i.id,
+            'game_id', i.game_id,
+            'inning', i.inning,
+            'half', i.half,
+            'runs', i.runs,
+            'hits', i.hits,
+            'errors', i.errors,
+            'left_on_base', i.left_on_base,
+            'pitcher_changes', i.pitcher_changes
+          )
+          order by i.inning, i.half
+        )
+        from sb_inning_summaries i
+        where i.game_id = g.id
+      ),
+      '[]'::jsonb
+    )
+  )
+  from sb_games g
+  where g.share_token = token
+$$;
+
+drop trigger if exists sb_inning_summaries_broadcast_share on public.sb_inning_summaries;
+create trigger sb_inning_summaries_broadcast_share after insert or update or delete on public.sb_inning_summaries
+  for each row execute function public.broadcast_shared_game_change();